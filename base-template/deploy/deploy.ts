@@ -4,7 +4,7 @@ import { ethers } from "hardhat";
  * Base deployment script for FHEVM examples
  *
  * This script should be customized per example:
- * - Update CONTRACT_NAME to match your contract
+ * - Update CONTRACT_NAME and CONSTRUCTOR_ARGS to match your contract
  * - Update initialization logic as needed
  */
 
@@ -24,12 +24,14 @@ async function main() {
   const balance = await ethers.provider.getBalance(deployer.address);
   console.log(`Balance: ${ethers.formatEther(balance)} ETH\n`);
 
-  // TODO: Update CONTRACT_NAME to match your contract
+  // TODO: Update CONTRACT_NAME and CONSTRUCTOR_ARGS to match your contract
   const CONTRACT_NAME = "YourContractName";
+  const CONSTRUCTOR_ARGS: unknown[] = [];
 
   console.log(`Deploying ${CONTRACT_NAME}...`);
   const ContractFactory = await ethers.getContractFactory(CONTRACT_NAME);
-  const contract = await ContractFactory.deploy();
+  // Typed factories take their constructor parameters, not an unknown[]
+  const contract = await ContractFactory.deploy(...(CONSTRUCTOR_ARGS as Parameters<typeof ContractFactory.deploy>));
 
   const address = await contract.getAddress();
   const receipt = await contract.deploymentTransaction()?.wait();
@@ -38,7 +40,7 @@ async function main() {
   console.log(`Contract: ${CONTRACT_NAME}`);
   console.log(`Address: ${address}`);
   console.log(`Block: ${receipt?.blockNumber}`);
-  console.log(`Hash: ${receipt?.transactionHash}\n`);
+  console.log(`Hash: ${receipt?.hash}\n`);
 
   return address;
 }
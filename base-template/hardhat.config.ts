@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@nomicfoundation/hardhat-chai-matchers";
+import "@fhevm/hardhat-plugin";
 import "hardhat-deploy";
 import "solidity-coverage";
 import { config as dotenvConfig } from "dotenv";
@@ -16,13 +17,12 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 200,
       },
+      evmVersion: "cancun",
     },
   },
 
   networks: {
-    hardhat: {
-      allowUnlimitedContractSize: true,
-    },
+    hardhat: {},
 
     zama: {
       url: "https://devnet.zama.ai/",
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
@@ -63,11 +63,12 @@ contract BlindAuction is Ownable, ZamaEthereumConfig {
      * @param biddingDuration Duration of bidding phase in seconds
      * @param revealDuration Duration of reveal phase in seconds
      */
-    constructor(uint256 biddingDuration, uint256 revealDuration) {
+    constructor(uint256 biddingDuration, uint256 revealDuration) Ownable(msg.sender) {
         auctioneer = msg.sender;
         auctionEndTime = block.timestamp + biddingDuration;
         revealEndTime = auctionEndTime + revealDuration;
         highestEncryptedBid = FHE.asEuint32(0);
+        FHE.allowThis(highestEncryptedBid);
     }
 
     /**
@@ -101,12 +102,11 @@ contract BlindAuction is Ownable, ZamaEthereumConfig {
      * - No one (including owner) can see bid amount
      * - Only bidder knows their own bid value
      */
-    function submitBid(bytes calldata encryptedBid, bytes calldata proof)
+    function submitBid(externalEuint32 encryptedBid, bytes calldata proof)
         external
         updateState
     {
         require(currentState == AuctionState.Bidding, "Bidding phase ended");
-        require(encryptedBid.length > 0, "Invalid bid");
         require(proof.length > 0, "Invalid proof");
 
         // Convert external encrypted input
@@ -144,7 +144,6 @@ contract BlindAuction is Ownable, ZamaEthereumConfig {
      */
     function isBidHigher(uint256 bidIndex)
         external
-        view
         returns (ebool)
     {
         require(bidIndex < bids.length, "Invalid bid index");
@@ -0,0 +1,311 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { ConfidentialGamingScoreStorage } from "./ConfidentialGamingScoreStorage.sol";
+import { ConfidentialGamingScoreAdministration } from "./ConfidentialGamingScoreAdministration.sol";
+
+/**
+ * @title ConfidentialGamingScoreAchievements
+ * @dev Achievement lifecycle, encrypted claims and public unlock proofs
+ * @notice Module of ConfidentialGamingScoreBase: only ever runs through delegatecall
+ *
+ * Calls to functions not implemented here continue to
+ * ConfidentialGamingScoreAdministration.
+ */
+contract ConfidentialGamingScoreAchievements is ConfidentialGamingScoreStorage {
+    /**
+     * @dev Chain the module in front of the administration module
+     * @param administration Deployed ConfidentialGamingScoreAdministration
+     */
+    constructor(
+        ConfidentialGamingScoreAdministration administration
+    ) ConfidentialGamingScoreStorage(address(administration)) {}
+
+    // ==================== Achievement System ====================
+
+    /**
+     * @dev Create a new achievement in a game
+     * @param gameId Game / mode the achievement belongs to
+     * @param title Name of the achievement
+     * @param requiredScore Score required to unlock
+     *
+     * Note: Only DEFAULT_ADMIN_ROLE holders can create achievements
+     */
+    function createAchievement(
+        uint256 gameId,
+        string memory title,
+        uint32 requiredScore
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) validGame(gameId) {
+        require(bytes(title).length > 0, "Empty title");
+        require(requiredScore > 0, "Invalid score");
+
+        achievements[achievementCount] = Achievement({
+            title: title,
+            requiredScore: requiredScore,
+            active: true,
+            gameId: gameId,
+            category: "",
+            version: 1
+        });
+        gameAchievementCount[gameId]++;
+
+        emit AchievementCreated(achievementCount, gameId, title, requiredScore);
+        achievementCount++;
+    }
+
+    /**
+     * @dev Get achievement details
+     * @param achievementId ID of the achievement
+     * @return Achievement struct with title and required score
+     */
+    function getAchievement(uint256 achievementId)
+        external
+        view
+        existingAchievement(achievementId)
+        returns (Achievement memory)
+    {
+        return achievements[achievementId];
+    }
+
+    /**
+     * @dev Get a page of achievements across all games
+     * @param offset Index of the first achievement to return
+     * @param limit Maximum number of achievements to return
+     * @return page Achievements [offset, offset + limit), shorter at the end of the list
+     */
+    function listAchievements(uint256 offset, uint256 limit) external view returns (Achievement[] memory page) {
+        if (offset >= achievementCount) {
+            return new Achievement[](0);
+        }
+
+        uint256 end = offset + limit;
+        if (end > achievementCount) {
+            end = achievementCount;
+        }
+
+        page = new Achievement[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = achievements[i];
+        }
+    }
+
+    /**
+     * @dev Deactivate an achievement so it can no longer be checked (admin role)
+     * @param achievementId ID of the achievement
+     */
+    function deactivateAchievement(uint256 achievementId) external onlyRole(DEFAULT_ADMIN_ROLE) existingAchievement(achievementId) {
+        require(achievements[achievementId].active, "Achievement inactive");
+        achievements[achievementId].active = false;
+        emit AchievementStatusChanged(achievementId, false);
+    }
+
+    /**
+     * @dev Reactivate a deactivated achievement (admin role)
+     * @param achievementId ID of the achievement
+     */
+    function reactivateAchievement(uint256 achievementId) external onlyRole(DEFAULT_ADMIN_ROLE) existingAchievement(achievementId) {
+        require(!achievements[achievementId].active, "Achievement already active");
+        achievements[achievementId].active = true;
+        emit AchievementStatusChanged(achievementId, true);
+    }
+
+    /**
+     * @dev Change an achievement's required score and bump its version (admin role)
+     * @param achievementId ID of the achievement
+     * @param requiredScore New score required to unlock
+     *
+     * Note: Clients can compare the version they cached to detect changed rules.
+     * Claims and reveals are kept per version, so unlocks earned under the old
+     * requirement no longer count and players claim again against the new one.
+     */
+    function updateAchievementThreshold(
+        uint256 achievementId,
+        uint32 requiredScore
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) existingAchievement(achievementId) {
+        require(requiredScore > 0, "Invalid score");
+
+        Achievement storage achievement = achievements[achievementId];
+        uint32 previousScore = achievement.requiredScore;
+        achievement.requiredScore = requiredScore;
+        achievement.version++;
+
+        emit AchievementThresholdUpdated(achievementId, achievement.version, previousScore, requiredScore);
+    }
+
+    /**
+     * @dev Rename an achievement (admin role)
+     * @param achievementId ID of the achievement
+     * @param title New title
+     */
+    function updateAchievementTitle(
+        uint256 achievementId,
+        string memory title
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) existingAchievement(achievementId) {
+        require(bytes(title).length > 0, "Empty title");
+        achievements[achievementId].title = title;
+        emit AchievementTitleUpdated(achievementId, title);
+    }
+
+    /**
+     * @dev Assign an achievement to a category (admin role)
+     * @param achievementId ID of the achievement
+     * @param category Category name (empty to clear)
+     */
+    function setAchievementCategory(
+        uint256 achievementId,
+        string memory category
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) existingAchievement(achievementId) {
+        achievements[achievementId].category = category;
+        emit AchievementCategoryUpdated(achievementId, category);
+    }
+
+    /**
+     * @dev Check if player unlocked an achievement in a game (encrypted)
+     * @param gameId Game / mode whose score is checked
+     * @param achievementId ID of the achievement to check
+     * @return Encrypted boolean result
+     *
+     * Note: The returned handle is not decryptable by anyone; use
+     * claimAchievement() to store a flag the player can decrypt.
+     */
+    function hasAchievement(uint256 gameId, uint256 achievementId)
+        external
+        onlyWithScore(gameId)
+        returns (ebool)
+    {
+        require(achievementId < achievementCount, "Invalid achievement");
+
+        Achievement memory achievement = achievements[achievementId];
+        require(achievement.gameId == gameId, "Achievement not in game");
+        require(achievement.active, "Achievement inactive");
+
+        PlayerData storage data = _scoreOf(gameId, msg.sender);
+        euint32 required = FHE.asEuint32(achievement.requiredScore);
+
+        // Encrypted comparison, only scores above the minimum unlock achievements
+        return FHE.and(data.encryptedEligible, FHE.ge(data.encryptedScore, required));
+    }
+
+    /**
+     * @dev Compute and store the caller's encrypted unlocked flag for an achievement
+     * @param achievementId ID of the achievement (its game must have a current score)
+     *
+     * Unlocks are sticky within a version: claiming again after a worse score
+     * keeps the achievement unlocked (FHE.or with the stored flag).
+     *
+     * Example: ✅ Persisted, decryptable result
+     * ```
+     * ebool unlocked = FHE.ge(score, required);
+     * FHE.allowThis(unlocked);
+     * FHE.allow(unlocked, msg.sender);
+     * ```
+     */
+    function claimAchievement(uint256 achievementId) external existingAchievement(achievementId) {
+        Achievement storage achievement = achievements[achievementId];
+        require(achievement.active, "Achievement inactive");
+
+        PlayerData storage data = _scoreOf(achievement.gameId, msg.sender);
+        require(data.hasScore, "No score submitted");
+
+        ebool unlocked = FHE.and(data.encryptedEligible, FHE.ge(data.encryptedScore, achievement.requiredScore));
+
+        bytes32 key = _achievementKey(achievementId);
+        if (achievementClaimed[key][msg.sender]) {
+            unlocked = FHE.or(achievementUnlocks[key][msg.sender], unlocked);
+        }
+        achievementUnlocks[key][msg.sender] = unlocked;
+        achievementClaimed[key][msg.sender] = true;
+        achievementRevealPending[key][msg.sender] = false;
+
+        // ✅ CRITICAL: Both permissions are required
+        FHE.allowThis(unlocked);
+        FHE.allow(unlocked, msg.sender);
+
+        emit AchievementClaimed(achievementId, msg.sender);
+    }
+
+    /**
+     * @dev Get the caller's stored unlocked flag (encrypted, decryptable by the caller)
+     * @param achievementId ID of the achievement
+     * @return Encrypted unlocked flag
+     */
+    function getMyAchievementUnlock(uint256 achievementId) external view returns (ebool) {
+        bytes32 key = _achievementKey(achievementId);
+        require(achievementClaimed[key][msg.sender], "Achievement not claimed");
+        return achievementUnlocks[key][msg.sender];
+    }
+
+    /**
+     * @dev Check whether a player has claimed an achievement (public information)
+     * @param achievementId ID of the achievement
+     * @param player Address to check
+     * @return True once claimAchievement() was called (says nothing about the result)
+     */
+    function hasClaimedAchievement(uint256 achievementId, address player) external view returns (bool) {
+        return achievementClaimed[_achievementKey(achievementId)][player];
+    }
+
+    /**
+     * @dev Check whether a player publicly proved an unlock
+     * @param achievementId ID of the achievement
+     * @param player Address to check
+     * @return True once a decrypted unlocked flag was published
+     */
+    function isAchievementPubliclyUnlocked(uint256 achievementId, address player) external view returns (bool) {
+        return achievementPubliclyUnlocked[_achievementKey(achievementId)][player];
+    }
+
+    /**
+     * @dev Mark the caller's unlocked flag for public decryption
+     * @param achievementId ID of the claimed achievement
+     *
+     * Only the boolean flag becomes public - the score itself stays encrypted.
+     */
+    function requestAchievementReveal(uint256 achievementId) external {
+        bytes32 key = _achievementKey(achievementId);
+        require(achievementClaimed[key][msg.sender], "Achievement not claimed");
+
+        ebool unlocked = achievementUnlocks[key][msg.sender];
+        FHE.makePubliclyDecryptable(unlocked);
+        achievementRevealPending[key][msg.sender] = true;
+
+        emit AchievementRevealRequested(achievementId, msg.sender, FHE.toBytes32(unlocked));
+    }
+
+    /**
+     * @dev Publish a player's decrypted unlocked flag with its decryption proof
+     * @param achievementId ID of the achievement
+     * @param player Player who requested the reveal
+     * @param abiEncodedClearUnlock ABI-encoded bool returned by the relayer
+     * @param decryptionProof KMS signatures over the decrypted value
+     *
+     * Note: Anyone may submit the result; FHE.checkSignatures reverts on a forged proof
+     */
+    function revealAchievementUnlock(
+        uint256 achievementId,
+        address player,
+        bytes memory abiEncodedClearUnlock,
+        bytes memory decryptionProof
+    ) external {
+        bytes32 key = _achievementKey(achievementId);
+        require(achievementRevealPending[key][player], "No reveal requested");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(achievementUnlocks[key][player]);
+        FHE.checkSignatures(handles, abiEncodedClearUnlock, decryptionProof);
+
+        bool unlocked = abi.decode(abiEncodedClearUnlock, (bool));
+        achievementPubliclyUnlocked[key][player] = unlocked;
+        achievementRevealPending[key][player] = false;
+
+        emit AchievementUnlockRevealed(achievementId, player, unlocked);
+    }
+
+    /**
+     * @dev Storage key of an achievement's unlocks in the current epoch and version
+     */
+    function _achievementKey(uint256 achievementId) private view returns (bytes32) {
+        return keccak256(abi.encode(dataEpoch, achievementId, achievements[achievementId].version));
+    }
+}
@@ -0,0 +1,237 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE } from "@fhevm/solidity/lib/FHE.sol";
+import { ConfidentialGamingScoreStorage } from "./ConfidentialGamingScoreStorage.sol";
+
+/**
+ * @title ConfidentialGamingScoreAdministration
+ * @dev Admin and moderator functions: game and attestation settings, score
+ * bounds, moderation and the emergency reset
+ * @notice Module of ConfidentialGamingScoreBase: only ever runs through delegatecall
+ *
+ * Last module of the chain: calls to unknown functions revert here.
+ */
+contract ConfidentialGamingScoreAdministration is ConfidentialGamingScoreStorage {
+    /**
+     * @dev End the module chain: no further module to forward to
+     */
+    constructor() ConfidentialGamingScoreStorage(address(0)) {}
+
+    // ==================== Score Attestation ====================
+
+    /**
+     * @dev Set or rotate the game-server signing key (admin role)
+     * @param newSigner Key that attests scores; address(0) disables attested submissions
+     *
+     * The previous key loses GAME_SERVER_ROLE and the new one receives it, so
+     * unused attestations signed by the previous key stop being accepted.
+     * Additional servers can be added with grantRole(GAME_SERVER_ROLE, key).
+     */
+    function setGameServerSigner(address newSigner) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        address previousSigner = gameServerSigner;
+        if (previousSigner != address(0)) {
+            _revokeRole(GAME_SERVER_ROLE, previousSigner);
+        }
+        if (newSigner != address(0)) {
+            _grantRole(GAME_SERVER_ROLE, newSigner);
+        }
+        gameServerSigner = newSigner;
+        emit GameServerSignerRotated(previousSigner, newSigner);
+    }
+
+    /**
+     * @dev Require (or stop requiring) game-server attestations (admin role)
+     * @param required Whether plain submitScore() is rejected
+     */
+    function setAttestationRequired(bool required) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(!required || gameServerSigner != address(0), "No game server signer");
+        attestationRequired = required;
+        emit AttestationRequirementUpdated(required);
+    }
+
+    // ==================== Game Namespaces ====================
+
+    /**
+     * @dev Register a new game / game mode with its own score namespace (admin role)
+     * @param name Display name of the game or mode
+     * @return gameId ID to pass to submitScore() and the query functions
+     *
+     * Note: Scores, player counts, leaderboards and achievements are
+     * tracked independently per game; registration is shared
+     */
+    function registerGame(string memory name) external onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 gameId) {
+        return _registerGame(name);
+    }
+
+    /**
+     * @dev Set the deployment-wide score aggregation policy (admin role)
+     * @param policy Policy applied to games without an override
+     *
+     * Note: Applies to future submissions; stored scores are not recomputed
+     */
+    function setDefaultScorePolicy(ScorePolicy policy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        defaultScorePolicy = policy;
+        emit DefaultScorePolicyUpdated(policy);
+    }
+
+    /**
+     * @dev Override the score aggregation policy of one game (admin role)
+     * @param gameId ID of the game
+     * @param policy Policy applied to the game's future submissions
+     */
+    function setGameScorePolicy(uint256 gameId, ScorePolicy policy) external onlyRole(DEFAULT_ADMIN_ROLE) validGame(gameId) {
+        gameScorePolicies[gameId] = policy;
+        hasGameScorePolicy[gameId] = true;
+        emit GameScorePolicyUpdated(gameId, policy, true);
+    }
+
+    /**
+     * @dev Remove a game's policy override so it follows the default again (admin role)
+     * @param gameId ID of the game
+     */
+    function clearGameScorePolicy(uint256 gameId) external onlyRole(DEFAULT_ADMIN_ROLE) validGame(gameId) {
+        delete gameScorePolicies[gameId];
+        hasGameScorePolicy[gameId] = false;
+        emit GameScorePolicyUpdated(gameId, defaultScorePolicy, false);
+    }
+
+    // ==================== Score Bounds ====================
+
+    /**
+     * @dev Update minimum score threshold (admin role)
+     * @param newThreshold New minimum score value
+     *
+     * Note: Eligibility is evaluated at submission time, so the new threshold
+     * applies to scores submitted from now on
+     */
+    function setMinScoreThreshold(uint32 newThreshold) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newThreshold > 0, "Invalid threshold");
+        require(newThreshold <= maxPlausibleScore, "Threshold above maximum");
+        minScoreThreshold = newThreshold;
+        emit ScoreBoundsUpdated(newThreshold, maxPlausibleScore);
+    }
+
+    /**
+     * @dev Update the maximum plausible score (admin role)
+     * @param newMaximum Submissions above this value are clamped to it
+     */
+    function setMaxPlausibleScore(uint32 newMaximum) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newMaximum >= minScoreThreshold, "Maximum below threshold");
+        maxPlausibleScore = newMaximum;
+        emit ScoreBoundsUpdated(minScoreThreshold, newMaximum);
+    }
+
+    // ==================== Moderation ====================
+
+    /**
+     * @dev Void a player's current-season score in a game (moderators)
+     * @param player Address of the player
+     * @param gameId Game / mode of the score
+     * @param reasonCode Public moderation reason code (non-zero)
+     *
+     * The score is replaced with an encrypted zero and removed from the counts
+     * and the encrypted network total, exactly like resetMyScore(). The player
+     * starts over with their next submission. The void and its reason stay
+     * public until then.
+     */
+    function voidScore(
+        address player,
+        uint256 gameId,
+        uint16 reasonCode
+    ) external onlyRole(MODERATOR_ROLE) whenSeasonActive validGame(gameId) {
+        require(reasonCode != 0, "Missing reason code");
+        PlayerData storage data = _scoreOf(gameId, player);
+        require(data.hasScore, "No score submitted");
+
+        _clearScore(gameId, player);
+        data.voided = true;
+        data.voidReasonCode = reasonCode;
+
+        emit ScoreVoided(player, gameId, currentSeasonId, reasonCode, msg.sender);
+        emit NetworkStatsUpdated(totalPlayersCount, block.number);
+    }
+
+    /**
+     * @dev Whether a player's score in a season and game was voided
+     * @return voided Whether the last score was voided (cleared by a new submission)
+     * @return reasonCode Public moderation reason code of the void
+     */
+    function getScoreVoid(
+        uint256 seasonId,
+        uint256 gameId,
+        address player
+    ) external view returns (bool voided, uint16 reasonCode) {
+        PlayerData storage data = playerData[_namespaceKey(seasonId, gameId)][player];
+        return (data.voided, data.voidReasonCode);
+    }
+
+    /**
+     * @dev Temporarily ban an address from submitting scores (moderators)
+     * @param player Address to ban
+     * @param duration Ban length in seconds (at most MAX_BAN_DURATION)
+     * @param reasonCode Public moderation reason code (non-zero)
+     *
+     * Note: A new ban replaces the previous one, so it can also shorten it
+     */
+    function banPlayer(address player, uint64 duration, uint16 reasonCode) external onlyRole(MODERATOR_ROLE) {
+        require(player != address(0), "Invalid player address");
+        require(duration > 0 && duration <= MAX_BAN_DURATION, "Invalid duration");
+        require(reasonCode != 0, "Missing reason code");
+
+        uint64 until = uint64(block.timestamp) + duration;
+        bans[player] = Ban({ until: until, reasonCode: reasonCode });
+
+        emit PlayerBanned(player, until, reasonCode, msg.sender);
+    }
+
+    /**
+     * @dev Lift a ban before it expires (moderators)
+     * @param player Address of the banned player
+     */
+    function liftBan(address player) external onlyRole(MODERATOR_ROLE) {
+        require(isBanned(player), "Player not banned");
+        delete bans[player];
+        emit PlayerBanLifted(player, msg.sender);
+    }
+
+    // ==================== Data Management Functions ====================
+
+    /**
+     * @dev Emergency function to reset all player data (admin role, while paused)
+     *
+     * Moves to a new data epoch: registrations, scores in every season and game,
+     * viewers, leaderboard opt-ins and achievement claims of earlier epochs are
+     * no longer reachable. Achievements and network statistics are cleared.
+     * Season and game metadata, revealed leaderboards and used attestation
+     * nonces are kept.
+     *
+     * Warning: This resets all player data
+     * Use with extreme caution
+     */
+    function emergencyReset() external onlyRole(DEFAULT_ADMIN_ROLE) whenPaused {
+        dataEpoch++;
+        totalPlayersCount = 0;
+
+        // Clear achievement entries so IDs reused later start from a clean slate
+        for (uint256 i = 0; i < achievementCount; i++) {
+            delete gameAchievementCount[achievements[i].gameId];
+            delete achievements[i];
+        }
+        achievementCount = 0;
+
+        // Selections reference registry indexes of the previous epoch
+        leaderboardSelection.inProgress = false;
+        leaderboardSelection.awaitingReveal = false;
+
+        _setTotalScoresSum(FHE.asEuint64(0));
+        _setEligibleCount(FHE.asEuint32(0));
+
+        revealedAverageScore = 0;
+        isAverageRevealed = false;
+        isAverageRevealPending = false;
+        revealedAveragePlayerCount = 0;
+
+        emit DataEpochAdvanced(dataEpoch);
+    }
+}
@@ -0,0 +1,711 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { ConfidentialGamingScoreStorage } from "./ConfidentialGamingScoreStorage.sol";
+import { ConfidentialGamingScoreCompetition } from "./ConfidentialGamingScoreCompetition.sol";
+
+/**
+ * @title ConfidentialGamingScoreBase
+ * @dev Privacy-preserving gaming achievement system using Fully Homomorphic Encryption (FHE)
+ * @notice Players can submit encrypted gaming scores while maintaining complete anonymity and privacy
+ *
+ * This contract demonstrates:
+ * - Encrypted storage and computation of gaming scores
+ * - Privacy-preserving leaderboard functionality
+ * - Confidential user-only decryption of results
+ * - FHE operations on encrypted data
+ * - Competitive seasons with archived, still user-decryptable scores
+ * - Independent score namespaces per game / game mode
+ * - Configurable score aggregation (latest, encrypted best, accumulated)
+ * - Game-server attested submissions (EIP-712 co-signatures)
+ * - Encrypted eligibility: scores below the minimum are excluded from ranking
+ * - Persistent encrypted achievement unlocks with optional public proof
+ * - Player-controlled score sharing with delegated viewers
+ * - Head-to-head challenges with an encrypted, mutually decryptable outcome
+ * - Opt-in public top-N leaderboard selected under encryption
+ * - Role-based administration (admin, moderator, game server), pausing and
+ *   epoch-versioned emergency resets
+ * - Moderation: voiding suspicious scores and temporary submission bans with
+ *   public reason codes
+ *
+ * Registration, submissions, score queries, sharing and attested submissions
+ * are implemented here; the other features live in the modules chained
+ * behind this contract (see ConfidentialGamingScoreStorage). Clients use the
+ * ABI of all four contracts at this contract's address.
+ *
+ * Shared by the immutable ConfidentialGamingScore and the UUPS proxy
+ * implementation ConfidentialGamingScoreUpgradeable. The FHEVM coprocessor is
+ * configured by the deriving contract.
+ */
+abstract contract ConfidentialGamingScoreBase is ConfidentialGamingScoreStorage {
+    // ==================== Initialization ====================
+
+    /**
+     * @dev Chain the score contract in front of its modules
+     * @param competition Deployed ConfidentialGamingScoreCompetition
+     *
+     * @custom:oz-upgrades-unsafe-allow constructor
+     */
+    constructor(ConfidentialGamingScoreCompetition competition) ConfidentialGamingScoreStorage(address(competition)) {}
+
+    /**
+     * @dev Initialize the contract with default values
+     * @param initialOwner Owner, admin of all roles and first moderator
+     *
+     * Note: Called from the constructor of ConfidentialGamingScore and from
+     * initialize() of the upgradeable variant, after the coprocessor is set.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function __ConfidentialGamingScore_init(address initialOwner) internal onlyInitializing {
+        __Ownable_init(initialOwner);
+        __AccessControl_init();
+        __Pausable_init();
+        __EIP712_init("ConfidentialGamingScore", "1");
+
+        // The owner administers roles and moderates until moderators are appointed
+        _grantRole(MODERATOR_ROLE, initialOwner);
+
+        minScoreThreshold = 100;
+        maxPlausibleScore = type(uint32).max;
+
+        // Season 1 starts at deployment (also initializes the encrypted total and eligible count)
+        _openSeason();
+
+        // Game 0 is the default namespace for single-title deployments
+        _registerGame("Default");
+    }
+
+    // ==================== Registration Functions ====================
+
+    /**
+     * @dev Register a new player in the gaming system
+     * @notice Each address can only register once
+     *
+     * Example: ✅ Correct usage
+     * - Player connects wallet and registers
+     * - Player receives encrypted storage space
+     * - Player can now submit scores
+     */
+    function registerPlayer() external whenNotPaused {
+        require(!isPlayerRegistered(msg.sender), "Player already registered");
+        require(msg.sender != address(0), "Invalid address");
+
+        address[] storage registry = playerRegistries[dataEpoch];
+        registry.push(msg.sender);
+        playerRegistryIndexes[dataEpoch][msg.sender] = registry.length;
+
+        // Encrypted data is created per game on the first submission
+
+        emit PlayerRegistered(msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Leave the gaming system and clear your current-season scores
+     *
+     * Scores in every game of the current season are removed from the counts and
+     * the encrypted network total, sharing and leaderboard opt-in are dropped,
+     * and the address is removed from the registry with swap-and-pop (the last
+     * player takes the freed index). This also holds once the current season is
+     * closed; its recorded statistics (getSeason) keep their closing values.
+     * Seasons replaced by openSeason() are left untouched.
+     *
+     * Note: Batched computations in progress may skip or revisit the moved player
+     */
+    function unregisterPlayer() external onlyRegisteredPlayer {
+        for (uint256 gameId = 0; gameId < gameCount; gameId++) {
+            if (_scoreOf(gameId, msg.sender).hasScore) {
+                _clearScore(gameId, msg.sender);
+            }
+        }
+
+        address[] storage viewers = scoreViewers[dataEpoch][msg.sender];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            delete viewerIndexes[dataEpoch][msg.sender][viewers[i]];
+        }
+        delete scoreViewers[dataEpoch][msg.sender];
+        leaderboardOptIns[dataEpoch][msg.sender] = false;
+
+        // Swap-and-pop to keep the registry compact
+        address[] storage registry = playerRegistries[dataEpoch];
+        mapping(address => uint256) storage indexes = playerRegistryIndexes[dataEpoch];
+        uint256 index = indexes[msg.sender];
+        address last = registry[registry.length - 1];
+        registry[index - 1] = last;
+        indexes[last] = index;
+        registry.pop();
+        delete indexes[msg.sender];
+
+        emit PlayerUnregistered(msg.sender, block.timestamp);
+        emit NetworkStatsUpdated(totalPlayersCount, block.number);
+    }
+
+    // ==================== Score Submission Functions ====================
+
+    /**
+     * @dev Submit an encrypted gaming score
+     * @param gameId Game / mode the score belongs to
+     * @param encryptedScoreInput Encrypted score value (must be generated by client using FHE encryption)
+     * @param inputProof Zero-knowledge proof of correct encryption
+     *
+     * Note: This uses FHE.fromExternal to convert external encrypted input to internal state
+     *
+     * Example: ✅ Correct usage pattern
+     * ```
+     * const encryptedScore = fhevm.encrypt32(1500);
+     * await contract.submitScore(gameId, encryptedScore.handles[0], encryptedScore.inputProof);
+     * ```
+     *
+     * Example: ❌ Common pitfall - forgetting FHE.allow permissions
+     * - Results in inability to decrypt later
+     * - Contract needs FHE.allowThis()
+     * - User needs FHE.allow(value, msg.sender)
+     */
+    function submitScore(
+        uint256 gameId,
+        externalEuint32 encryptedScoreInput,
+        bytes calldata inputProof
+    ) external onlyRegisteredPlayer notBanned whenNotPaused whenSeasonActive validGame(gameId) {
+        require(!attestationRequired, "Attestation required");
+        require(inputProof.length > 0, "Invalid proof");
+
+        // Convert external encrypted input to internal state
+        euint32 score = FHE.fromExternal(encryptedScoreInput, inputProof);
+
+        _storeScore(gameId, score);
+    }
+
+    /**
+     * @dev Submit an encrypted score co-signed by the trusted game server
+     * @param gameId Game / mode the score belongs to
+     * @param encryptedScoreInput Encrypted score value (the attested ciphertext handle)
+     * @param inputProof Zero-knowledge proof of correct encryption
+     * @param nonce Single-use attestation nonce chosen by the server
+     * @param deadline Timestamp after which the attestation is rejected
+     * @param signature Game server's EIP-712 signature over the ScoreAttestation
+     *
+     * Note: The server signs the ciphertext handle, never the plain score,
+     * so it vouches for the run without the chain learning the result.
+     *
+     * Example: ✅ Correct usage pattern
+     * ```
+     * const encrypted = await fhevm.createEncryptedInput(contract, player).add32(1500).encrypt();
+     * const attestation = await signScoreAttestation(server, contract, {
+     *   player, seasonId, gameId, scoreHandle: encrypted.handles[0], nonce, deadline,
+     * });
+     * await contract.submitAttestedScore(
+     *   gameId, encrypted.handles[0], encrypted.inputProof, nonce, deadline, attestation
+     * );
+     * ```
+     */
+    function submitAttestedScore(
+        uint256 gameId,
+        externalEuint32 encryptedScoreInput,
+        bytes calldata inputProof,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external onlyRegisteredPlayer notBanned whenNotPaused whenSeasonActive validGame(gameId) {
+        require(inputProof.length > 0, "Invalid proof");
+
+        _verifyAttestation(gameId, externalEuint32.unwrap(encryptedScoreInput), nonce, deadline, signature);
+
+        euint32 score = FHE.fromExternal(encryptedScoreInput, inputProof);
+
+        _storeScore(gameId, score);
+    }
+
+    /**
+     * @dev Record a freshly imported score in the caller's current-season namespace
+     *
+     * The score is clamped to maxPlausibleScore and flagged eligible when it
+     * reaches minScoreThreshold; both checks stay encrypted.
+     */
+    function _storeScore(uint256 gameId, euint32 score) private {
+        bytes32 namespace = _namespaceKey(currentSeasonId, gameId);
+        PlayerData storage data = playerData[namespace][msg.sender];
+
+        // Clamp outliers without learning whether the score was clamped
+        score = FHE.min(score, FHE.asEuint32(maxPlausibleScore));
+
+        // Combine with the previous score according to the game's policy
+        euint32 stored = score;
+        euint64 total = encryptedTotalScoresSum;
+        euint32 eligibleCount = encryptedEligibleCount;
+        if (data.hasScore) {
+            stored = _applyScorePolicy(getScorePolicy(gameId), data.encryptedScore, score);
+            data.encryptedSubmissionCount = FHE.add(data.encryptedSubmissionCount, 1);
+
+            // Keep the encrypted network total and eligible count in sync (subtract old, add new)
+            total = FHE.sub(total, FHE.asEuint64(_rankedScore(data)));
+            eligibleCount = FHE.sub(eligibleCount, FHE.asEuint32(data.encryptedEligible));
+        } else {
+            // First-time submission tracking
+            data.hasScore = true;
+            data.encryptedSubmissionCount = FHE.asEuint32(1);
+            namespacePlayerCounts[namespace] += 1;
+            totalPlayersCount += 1;
+        }
+
+        // Store encrypted score
+        data.encryptedScore = stored;
+        data.encryptedEligible = FHE.ge(stored, minScoreThreshold);
+        _setTotalScoresSum(FHE.add(total, FHE.asEuint64(_rankedScore(data))));
+        _setEligibleCount(FHE.add(eligibleCount, FHE.asEuint32(data.encryptedEligible)));
+        data.encryptedTimestamp = FHE.asEuint64(uint64(block.timestamp));
+        data.lastUpdateBlock = block.number;
+        data.voided = false;
+        data.voidReasonCode = 0;
+
+        // Any batched position computation was based on the previous score
+        positionCursor[namespace][msg.sender] = 0;
+
+        // Grant permissions for this encrypted value
+        // ✅ CRITICAL: Both permissions are required
+        FHE.allowThis(stored);                 // Contract permission
+        FHE.allow(stored, msg.sender);         // User permission for decryption
+        FHE.allowThis(data.encryptedTimestamp);
+        FHE.allow(data.encryptedTimestamp, msg.sender);
+        FHE.allowThis(data.encryptedSubmissionCount);
+        FHE.allow(data.encryptedSubmissionCount, msg.sender);
+        FHE.allowThis(data.encryptedEligible);
+        FHE.allow(data.encryptedEligible, msg.sender);
+        _shareWithViewers(msg.sender, data);
+
+        emit ConfidentialScoreSubmitted(msg.sender, currentSeasonId, gameId, block.timestamp);
+        emit NetworkStatsUpdated(totalPlayersCount, block.number);
+    }
+
+    // ==================== Score Query Functions ====================
+
+    /**
+     * @dev Get player's own encrypted score (user only)
+     * @param gameId Game / mode to read the score from
+     * @return The encrypted score value
+     *
+     * Note: Only the player who submitted the score can view it
+     * The returned value remains encrypted and requires special decryption
+     *
+     * Example: ✅ Correct usage
+     * - Player calls this function
+     * - Receives encrypted score
+     * - Uses FHE client library to decrypt with personal key
+     */
+    function getMyScore(uint256 gameId) external view onlyWithScore(gameId) returns (euint32) {
+        require(_scoreOf(gameId, msg.sender).lastUpdateBlock <= block.number, "Invalid state");
+        return _scoreOf(gameId, msg.sender).encryptedScore;
+    }
+
+    /**
+     * @dev Get player's own submission timestamp (encrypted)
+     * @param gameId Game / mode to read the timestamp from
+     * @return The encrypted timestamp of score submission
+     */
+    function getMyTimestamp(uint256 gameId) external view onlyWithScore(gameId) returns (euint64) {
+        return _scoreOf(gameId, msg.sender).encryptedTimestamp;
+    }
+
+    /**
+     * @dev Get player's own number of submissions in a game (encrypted)
+     * @param gameId Game / mode to read the counter from
+     * @return The encrypted submission counter
+     */
+    function getMySubmissionCount(uint256 gameId) external view onlyWithScore(gameId) returns (euint32) {
+        return _scoreOf(gameId, msg.sender).encryptedSubmissionCount;
+    }
+
+    /**
+     * @dev Get whether player's own score counts for ranking and achievements (encrypted)
+     * @param gameId Game / mode to read the flag from
+     * @return Encrypted flag: score >= minScoreThreshold when it was submitted
+     */
+    function getMyEligibility(uint256 gameId) external view onlyWithScore(gameId) returns (ebool) {
+        return _scoreOf(gameId, msg.sender).encryptedEligible;
+    }
+
+    /**
+     * @dev Check if player has submitted a score in a game (public information)
+     * @param gameId Game / mode to check
+     * @param player Address to check
+     * @return True if player has submitted a score
+     */
+    function hasPlayerSubmitted(uint256 gameId, address player) external view returns (bool) {
+        return _scoreOf(gameId, player).hasScore;
+    }
+
+    /**
+     * @dev Get the number of scores in the current season
+     * @return Number of (player, game) pairs with a score; a player scored in two games counts twice
+     *
+     * Note: This is public information (does not reveal scores)
+     */
+    function getTotalPlayers() external view returns (uint256) {
+        return totalPlayersCount;
+    }
+
+    /**
+     * @dev Get number of players with a score in a game during the current season
+     * @param gameId Game / mode to count
+     * @return Number of players who submitted a score to that game
+     */
+    function getGamePlayerCount(uint256 gameId) external view validGame(gameId) returns (uint256) {
+        return namespacePlayerCounts[_namespaceKey(currentSeasonId, gameId)];
+    }
+
+    /**
+     * @dev Get list of all registered player addresses
+     * @return Array of player addresses
+     *
+     * Warning: Returns public information only (addresses)
+     * No encrypted data is revealed
+     * Prefer getPlayerRegistryPage() for large registries
+     */
+    function getPlayerRegistry() external view returns (address[] memory) {
+        return playerRegistries[dataEpoch];
+    }
+
+    /**
+     * @dev Get a page of registered player addresses
+     * @param offset Registry index of the first address to return
+     * @param limit Maximum number of addresses to return
+     * @return page Addresses [offset, offset + limit), shorter at the end of the registry
+     *
+     * Note: Order is not stable across unregisterPlayer() calls (swap-and-pop)
+     */
+    function getPlayerRegistryPage(uint256 offset, uint256 limit) external view returns (address[] memory page) {
+        address[] storage registry = playerRegistries[dataEpoch];
+        if (offset >= registry.length) {
+            return new address[](0);
+        }
+
+        uint256 end = offset + limit;
+        if (end > registry.length) {
+            end = registry.length;
+        }
+
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = registry[i];
+        }
+    }
+
+    /**
+     * @dev Get the number of registered players
+     * @return Length of the player registry
+     */
+    function getPlayerRegistryLength() external view returns (uint256) {
+        return playerRegistries[dataEpoch].length;
+    }
+
+    // ==================== Score Sharing ====================
+
+    /**
+     * @dev Share your encrypted scores and timestamps with a viewer (coach, organizer, ...)
+     * @param viewer Address allowed to decrypt your scores
+     *
+     * The viewer immediately gains access to your current-season scores in every
+     * game and is re-granted access on each new submission.
+     *
+     * Example: ✅ Sharing pattern
+     * ```
+     * FHE.allow(data.encryptedScore, viewer);
+     * FHE.allow(data.encryptedTimestamp, viewer);
+     * ```
+     */
+    function grantViewPermission(address viewer) external onlyRegisteredPlayer {
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer address");
+        require(viewerIndexes[dataEpoch][msg.sender][viewer] == 0, "Viewer already granted");
+        require(scoreViewers[dataEpoch][msg.sender].length < MAX_VIEWERS, "Too many viewers");
+
+        scoreViewers[dataEpoch][msg.sender].push(viewer);
+        viewerIndexes[dataEpoch][msg.sender][viewer] = scoreViewers[dataEpoch][msg.sender].length;
+
+        for (uint256 gameId = 0; gameId < gameCount; gameId++) {
+            PlayerData storage data = _scoreOf(gameId, msg.sender);
+            if (data.hasScore) {
+                FHE.allow(data.encryptedScore, viewer);
+                FHE.allow(data.encryptedTimestamp, viewer);
+            }
+        }
+
+        emit ViewerGranted(msg.sender, viewer);
+    }
+
+    /**
+     * @dev Stop sharing new scores with a viewer
+     * @param viewer Address to remove
+     *
+     * Warning: FHE permissions cannot be withdrawn from existing handles -
+     * the viewer keeps access to scores shared before the revocation, but not
+     * to any score submitted afterwards.
+     */
+    function revokeViewPermission(address viewer) external {
+        uint256 index = viewerIndexes[dataEpoch][msg.sender][viewer];
+        require(index != 0, "Viewer not granted");
+
+        // Swap-and-pop to keep the viewer list compact
+        address[] storage viewers = scoreViewers[dataEpoch][msg.sender];
+        address last = viewers[viewers.length - 1];
+        viewers[index - 1] = last;
+        viewerIndexes[dataEpoch][msg.sender][last] = index;
+        viewers.pop();
+        delete viewerIndexes[dataEpoch][msg.sender][viewer];
+
+        emit ViewerRevoked(msg.sender, viewer);
+    }
+
+    /**
+     * @dev Get the addresses a player currently shares scores with
+     * @param player Address of the player
+     * @return List of viewers
+     */
+    function getViewers(address player) external view returns (address[] memory) {
+        return scoreViewers[dataEpoch][player];
+    }
+
+    /**
+     * @dev Check whether a viewer currently receives a player's scores
+     * @param player Address of the player
+     * @param viewer Address to check
+     * @return True if the viewer is granted
+     */
+    function isViewer(address player, address viewer) public view returns (bool) {
+        return viewerIndexes[dataEpoch][player][viewer] != 0;
+    }
+
+    /**
+     * @dev Get a player's encrypted score as a granted viewer
+     * @param gameId Game / mode to read the score from
+     * @param player Address of the player
+     * @return The encrypted score value (decryptable by granted viewers)
+     */
+    function getPlayerScore(uint256 gameId, address player) external view returns (euint32) {
+        return _sharedScoreOf(gameId, player).encryptedScore;
+    }
+
+    /**
+     * @dev Get a player's encrypted submission timestamp as a granted viewer
+     * @param gameId Game / mode to read the timestamp from
+     * @param player Address of the player
+     * @return The encrypted timestamp (decryptable by granted viewers)
+     */
+    function getPlayerTimestamp(uint256 gameId, address player) external view returns (euint64) {
+        return _sharedScoreOf(gameId, player).encryptedTimestamp;
+    }
+
+    /**
+     * @dev Player data readable by the caller (the player or one of their viewers)
+     */
+    function _sharedScoreOf(uint256 gameId, address player) private view returns (PlayerData storage data) {
+        require(msg.sender == player || isViewer(player, msg.sender), "Not authorized to view");
+        data = _scoreOf(gameId, player);
+        require(data.hasScore, "No score submitted");
+    }
+
+    /**
+     * @dev Re-grant a player's viewers access to freshly stored handles
+     */
+    function _shareWithViewers(address player, PlayerData storage data) private {
+        address[] storage viewers = scoreViewers[dataEpoch][player];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            FHE.allow(data.encryptedScore, viewers[i]);
+            FHE.allow(data.encryptedTimestamp, viewers[i]);
+        }
+    }
+
+    // ==================== Encrypted Computation Functions ====================
+
+    /**
+     * @dev Calculate if player's score exceeds a threshold (encrypted comparison)
+     * @param gameId Game / mode whose score is compared
+     * @param threshold Public threshold value to compare against
+     * @return Encrypted boolean result (true if score >= threshold and eligible)
+     *
+     * Example: ✅ FHE Greater-Than Comparison
+     * ```
+     * ebool result = FHE.ge(playerScore, FHE.asEuint32(threshold));
+     * ```
+     *
+     * Example: ❌ Common pitfall - comparing with public value directly
+     * - Never do: playerScore >= threshold (mixes encrypted and plaintext)
+     * - Always do: FHE.ge(playerScore, FHE.asEuint32(threshold))
+     */
+    function meetsAchievementThreshold(
+        uint256 gameId,
+        uint32 threshold
+    ) external onlyWithScore(gameId) returns (ebool) {
+        PlayerData storage data = _scoreOf(gameId, msg.sender);
+        euint32 thresholdEncrypted = FHE.asEuint32(threshold);
+
+        // ✅ Correct: Use FHE operations on encrypted values
+        return FHE.and(data.encryptedEligible, FHE.ge(data.encryptedScore, thresholdEncrypted));
+    }
+
+    /**
+     * @dev Compare two players' scores in the same game (encrypted)
+     * @param gameId Game / mode whose scores are compared
+     * @param otherPlayer Address of player to compare with
+     * @return Encrypted boolean: true if caller's score > other's score
+     *
+     * Note: Result remains encrypted and nobody is allowed to decrypt it;
+     * use createChallenge() for a head-to-head result both players can read
+     */
+    function isScoreHigherThan(
+        uint256 gameId,
+        address otherPlayer
+    ) external onlyWithScore(gameId) returns (ebool) {
+        require(isPlayerRegistered(otherPlayer), "Other player not registered");
+        require(_scoreOf(gameId, otherPlayer).hasScore, "Other player has no score");
+
+        euint32 myScore = _scoreOf(gameId, msg.sender).encryptedScore;
+        euint32 otherScore = _scoreOf(gameId, otherPlayer).encryptedScore;
+
+        // Encrypted comparison
+        return FHE.gt(myScore, otherScore);
+    }
+
+    // ==================== Score Attestation ====================
+
+    /**
+     * @dev EIP-712 domain separator used by game servers when signing
+     */
+    function attestationDomainSeparator() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev Check a ScoreAttestation for the caller and consume its nonce
+     */
+    function _verifyAttestation(
+        uint256 gameId,
+        bytes32 scoreHandle,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) private {
+        require(gameServerSigner != address(0), "No game server signer");
+        require(block.timestamp <= deadline, "Attestation expired");
+        require(!usedAttestationNonces[msg.sender][nonce], "Attestation already used");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SCORE_ATTESTATION_TYPEHASH,
+                msg.sender,
+                currentSeasonId,
+                gameId,
+                scoreHandle,
+                nonce,
+                deadline
+            )
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), signature);
+        require(hasRole(GAME_SERVER_ROLE, signer), "Invalid attestation");
+
+        usedAttestationNonces[msg.sender][nonce] = true;
+        emit ScoreAttested(msg.sender, nonce);
+    }
+
+    // ==================== Game Namespaces ====================
+
+    /**
+     * @dev Get the display name of a registered game
+     * @param gameId ID of the game
+     * @return Name of the game or mode
+     */
+    function getGameName(uint256 gameId) external view validGame(gameId) returns (string memory) {
+        return gameNames[gameId];
+    }
+
+    /**
+     * @dev Get the aggregation policy in effect for a game
+     * @param gameId ID of the game
+     * @return The game's override, or the default policy
+     */
+    function getScorePolicy(uint256 gameId) public view validGame(gameId) returns (ScorePolicy) {
+        return hasGameScorePolicy[gameId] ? gameScorePolicies[gameId] : defaultScorePolicy;
+    }
+
+    /**
+     * @dev Combine a stored score with a new submission (encrypted)
+     *
+     * Example: ✅ Overflow-safe accumulation
+     * ```
+     * euint32 sum = FHE.add(previous, submitted);
+     * sum = FHE.select(FHE.lt(sum, previous), FHE.asEuint32(type(uint32).max), sum);
+     * ```
+     */
+    function _applyScorePolicy(
+        ScorePolicy policy,
+        euint32 previous,
+        euint32 submitted
+    ) private returns (euint32) {
+        if (policy == ScorePolicy.Best) {
+            return FHE.max(previous, submitted);
+        }
+        if (policy == ScorePolicy.Accumulate) {
+            // Encrypted addition wraps around: saturate instead of overflowing
+            euint32 sum = FHE.add(previous, submitted);
+            return FHE.select(FHE.lt(sum, previous), FHE.asEuint32(type(uint32).max), sum);
+        }
+        return submitted;
+    }
+
+    // ==================== Data Management Functions ====================
+
+    /**
+     * @dev Reset player's score in a game and remove it from the leaderboard
+     * @param gameId Game / mode whose score is reset
+     *
+     * Note: Player can reset their own score
+     * This removes their data from network statistics
+     */
+    function resetMyScore(uint256 gameId) external onlyWithScore(gameId) whenSeasonActive {
+        require(_scoreOf(gameId, msg.sender).hasScore, "No score to reset");
+
+        _clearScore(gameId, msg.sender);
+
+        emit NetworkStatsUpdated(totalPlayersCount, block.number);
+    }
+
+    /**
+     * @dev Pause registrations and score submissions (moderators)
+     */
+    function pause() external onlyRole(MODERATOR_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Resume registrations and score submissions (admin role)
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    // ==================== View Functions ====================
+
+    /**
+     * @dev Get contract information and version
+     * @return Contract name and version
+     */
+    function getContractInfo() external pure returns (string memory) {
+        return "ConfidentialGamingScore v1.0 - FHEVM Privacy-Preserving Gaming";
+    }
+
+    /**
+     * @dev Get contract deployment block number
+     * @return Block number (for history tracking)
+     */
+    function getContractDeploymentInfo() external view returns (uint256) {
+        return block.number;
+    }
+
+    /**
+     * @dev Get minimum score threshold for validation
+     * @return Current minimum score requirement
+     */
+    function getMinScoreThreshold() external view returns (uint32) {
+        return minScoreThreshold;
+    }
+
+}
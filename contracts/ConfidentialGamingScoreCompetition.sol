@@ -0,0 +1,702 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, eaddress, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { ConfidentialGamingScoreStorage } from "./ConfidentialGamingScoreStorage.sol";
+import { ConfidentialGamingScoreAchievements } from "./ConfidentialGamingScoreAchievements.sol";
+
+/**
+ * @title ConfidentialGamingScoreCompetition
+ * @dev Leaderboards, head-to-head challenges, network statistics and seasons
+ * @notice Module of ConfidentialGamingScoreBase: only ever runs through delegatecall
+ *
+ * Calls to functions not implemented here continue to
+ * ConfidentialGamingScoreAchievements.
+ */
+contract ConfidentialGamingScoreCompetition is ConfidentialGamingScoreStorage {
+    /**
+     * @dev Chain the module in front of the achievements module
+     * @param achievements Deployed ConfidentialGamingScoreAchievements
+     */
+    constructor(
+        ConfidentialGamingScoreAchievements achievements
+    ) ConfidentialGamingScoreStorage(address(achievements)) {}
+
+    // ==================== Leaderboard Positions ====================
+
+    /**
+     * @dev Calculate the caller's leaderboard position in a game over the whole registry (encrypted)
+     * @param gameId Game / mode to rank within
+     * @return Encrypted position value (1 = best, ties share the same position, 0 = not eligible)
+     *
+     * The position is 1 + the number of eligible players whose score is strictly
+     * greater than the caller's. Scores below minScoreThreshold are never counted
+     * and rank as 0. Each comparison is done homomorphically, so neither the
+     * caller nor the contract learns any individual score.
+     *
+     * Example: ✅ Encrypted counting with FHE.gt + FHE.select
+     * ```
+     * ebool higher = FHE.gt(otherScore, myScore);
+     * position = FHE.select(higher, FHE.add(position, one), position);
+     * ```
+     *
+     * Warning: Cost grows linearly with the registry size.
+     * Use computeLeaderboardPositionBatch() for large registries.
+     */
+    function getApproximateLeaderboardPosition(uint256 gameId) external onlyWithScore(gameId) returns (euint32) {
+        require(totalPlayersCount > 0, "No players registered");
+
+        euint32 position = _accumulatePosition(gameId, FHE.asEuint32(1), 0, playerRegistries[dataEpoch].length);
+        positionCursor[_namespaceKey(currentSeasonId, gameId)][msg.sender] = 0;
+
+        return _storeLeaderboardPosition(gameId, position);
+    }
+
+    /**
+     * @dev Calculate the caller's leaderboard position in several transactions
+     * @param gameId Game / mode to rank within
+     * @param offset Registry index to resume from (must equal the stored cursor)
+     * @param limit Maximum number of registry entries to process in this call
+     * @return complete True once the whole registry has been processed
+     *
+     * Start with offset 0 and keep calling with the returned progress until
+     * complete is true. Submitting a new score restarts the computation.
+     *
+     * Note: Players updating their scores between batches are compared against
+     * whichever score was stored when their index was processed.
+     */
+    function computeLeaderboardPositionBatch(
+        uint256 gameId,
+        uint256 offset,
+        uint256 limit
+    ) external onlyWithScore(gameId) returns (bool complete) {
+        bytes32 namespace = _namespaceKey(currentSeasonId, gameId);
+        require(limit > 0, "Invalid limit");
+        require(offset == positionCursor[namespace][msg.sender], "Unexpected batch offset");
+
+        uint256 end = offset + limit;
+        if (end > playerRegistries[dataEpoch].length) {
+            end = playerRegistries[dataEpoch].length;
+        }
+
+        euint32 position = offset == 0 ? FHE.asEuint32(1) : pendingPositions[namespace][msg.sender];
+        position = _accumulatePosition(gameId, position, offset, end);
+
+        if (end < playerRegistries[dataEpoch].length) {
+            pendingPositions[namespace][msg.sender] = position;
+            positionCursor[namespace][msg.sender] = end;
+            FHE.allowThis(position);
+            return false;
+        }
+
+        positionCursor[namespace][msg.sender] = 0;
+        _storeLeaderboardPosition(gameId, position);
+        return true;
+    }
+
+    /**
+     * @dev Get the caller's next batch offset for computeLeaderboardPositionBatch()
+     * @param gameId Game / mode of the computation
+     * @return Registry index the next batch must start from
+     */
+    function getLeaderboardPositionCursor(uint256 gameId) external view returns (uint256) {
+        return positionCursor[_namespaceKey(currentSeasonId, gameId)][msg.sender];
+    }
+
+    /**
+     * @dev Get the caller's last computed leaderboard position in a game (encrypted)
+     * @param gameId Game / mode of the position
+     * @return Encrypted position, decryptable by the caller
+     */
+    function getMyLeaderboardPosition(uint256 gameId) external view returns (euint32) {
+        bytes32 namespace = _namespaceKey(currentSeasonId, gameId);
+        require(hasLeaderboardPosition[namespace][msg.sender], "No position computed");
+        return leaderboardPositions[namespace][msg.sender];
+    }
+
+    /**
+     * @dev Add one to the position for every scored player in [start, end) ranked above the caller
+     */
+    function _accumulatePosition(
+        uint256 gameId,
+        euint32 position,
+        uint256 start,
+        uint256 end
+    ) private returns (euint32) {
+        euint32 myScore = _scoreOf(gameId, msg.sender).encryptedScore;
+        euint32 one = FHE.asEuint32(1);
+
+        for (uint256 i = start; i < end; i++) {
+            address other = playerRegistry(i);
+            if (other == msg.sender || !_scoreOf(gameId, other).hasScore) {
+                continue;
+            }
+
+            PlayerData storage otherData = _scoreOf(gameId, other);
+            ebool higher = FHE.and(otherData.encryptedEligible, FHE.gt(otherData.encryptedScore, myScore));
+            position = FHE.select(higher, FHE.add(position, one), position);
+        }
+
+        return position;
+    }
+
+    /**
+     * @dev Persist a finalized position and grant the caller decryption rights
+     */
+    function _storeLeaderboardPosition(uint256 gameId, euint32 position) private returns (euint32) {
+        bytes32 namespace = _namespaceKey(currentSeasonId, gameId);
+
+        // Ineligible players are unranked (position 0)
+        position = FHE.select(playerData[namespace][msg.sender].encryptedEligible, position, FHE.asEuint32(0));
+
+        leaderboardPositions[namespace][msg.sender] = position;
+        hasLeaderboardPosition[namespace][msg.sender] = true;
+
+        // ✅ CRITICAL: Permission check
+        FHE.allowThis(position);
+        FHE.allow(position, msg.sender);
+
+        emit LeaderboardPositionComputed(msg.sender, gameId, block.number);
+        return position;
+    }
+
+    // ==================== Public Leaderboard Reveal ====================
+
+    /**
+     * @dev Opt in to (or out of) publicly revealed leaderboards
+     * @param optedIn Whether your address and score may be revealed if you make the top N
+     *
+     * Note: Only affects selections that have not processed your registry entry yet
+     */
+    function setLeaderboardOptIn(bool optedIn) external onlyRegisteredPlayer {
+        leaderboardOptIns[dataEpoch][msg.sender] = optedIn;
+        emit LeaderboardOptInUpdated(msg.sender, optedIn);
+    }
+
+    /**
+     * @dev Check whether a player opted in to revealed leaderboards
+     * @param player Address to check
+     * @return True if the player may appear on revealed boards
+     */
+    function leaderboardOptIn(address player) external view returns (bool) {
+        return leaderboardOptIns[dataEpoch][player];
+    }
+
+    /**
+     * @dev Allow or disallow an address to run leaderboard reveals (admin role)
+     * @param keeper Address of the keeper (e.g. an automation bot)
+     * @param allowed Whether the keeper may run reveals
+     */
+    function setLeaderboardKeeper(address keeper, bool allowed) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(keeper != address(0), "Invalid keeper address");
+        leaderboardKeepers[keeper] = allowed;
+        emit LeaderboardKeeperUpdated(keeper, allowed);
+    }
+
+    /**
+     * @dev Start selecting the top N opted-in scores of a game (admin or keeper)
+     * @param gameId Game / mode to rank in the current season
+     * @param size Number of slots to reveal (1..MAX_REVEALED_LEADERBOARD_SIZE)
+     */
+    function startLeaderboardSelection(uint256 gameId, uint256 size) external onlyLeaderboardKeeper validGame(gameId) {
+        require(!leaderboardSelection.inProgress && !leaderboardSelection.awaitingReveal, "Selection in progress");
+        require(size > 0 && size <= MAX_REVEALED_LEADERBOARD_SIZE, "Invalid leaderboard size");
+
+        leaderboardSelection = LeaderboardSelection({
+            gameId: gameId,
+            seasonId: currentSeasonId,
+            size: size,
+            cursor: 0,
+            inProgress: true,
+            awaitingReveal: false
+        });
+
+        delete selectionScores;
+        delete selectionPlayers;
+        for (uint256 i = 0; i < size; i++) {
+            selectionScores.push(FHE.asEuint32(0));
+            selectionPlayers.push(FHE.asEaddress(address(0)));
+            FHE.allowThis(selectionScores[i]);
+            FHE.allowThis(selectionPlayers[i]);
+        }
+
+        emit LeaderboardSelectionStarted(gameId, currentSeasonId, size);
+    }
+
+    /**
+     * @dev Insert the next registry entries into the encrypted top-N slots (admin or keeper)
+     * @param limit Maximum number of registry entries to process in this call
+     * @return complete True once the whole registry was processed and slots await reveal
+     *
+     * Each candidate bubbles through the slots with compare-and-swap steps,
+     * so the contract never learns which slot a player lands in.
+     *
+     * Example: ✅ Encrypted compare-and-swap
+     * ```
+     * ebool better = FHE.gt(candidate, slot);
+     * slot = FHE.max(candidate, slot);
+     * candidate = FHE.select(better, previousSlot, candidate);
+     * ```
+     */
+    function processLeaderboardBatch(uint256 limit) external onlyLeaderboardKeeper returns (bool complete) {
+        LeaderboardSelection storage selection = leaderboardSelection;
+        require(selection.inProgress, "No selection in progress");
+        require(limit > 0, "Invalid limit");
+
+        uint256 end = selection.cursor + limit;
+        if (end > playerRegistries[dataEpoch].length) {
+            end = playerRegistries[dataEpoch].length;
+        }
+
+        bytes32 namespace = _namespaceKey(selection.seasonId, selection.gameId);
+        for (uint256 i = selection.cursor; i < end; i++) {
+            address player = playerRegistry(i);
+            PlayerData storage data = playerData[namespace][player];
+            if (leaderboardOptIns[dataEpoch][player] && data.hasScore) {
+                // Ineligible scores rank as 0 and never displace an empty slot
+                _insertIntoSelection(_rankedScore(data), FHE.asEaddress(player));
+            }
+        }
+        selection.cursor = end;
+
+        for (uint256 j = 0; j < selection.size; j++) {
+            FHE.allowThis(selectionScores[j]);
+            FHE.allowThis(selectionPlayers[j]);
+        }
+
+        if (end < playerRegistries[dataEpoch].length) {
+            return false;
+        }
+
+        _completeSelection();
+        return true;
+    }
+
+    /**
+     * @dev Publish the decrypted top-N slots with their decryption proof
+     * @param abiEncodedClearValues ABI-encoded scores then addresses, in getLeaderboardSelectionHandles() order
+     * @param decryptionProof KMS signatures over the decrypted values
+     *
+     * Note: Anyone may submit the result; FHE.checkSignatures reverts on a forged proof.
+     * Empty slots (fewer opted-in players than N) are dropped from the board.
+     */
+    function revealLeaderboard(bytes memory abiEncodedClearValues, bytes memory decryptionProof) external {
+        LeaderboardSelection storage selection = leaderboardSelection;
+        require(selection.awaitingReveal, "No selection to reveal");
+
+        FHE.checkSignatures(getLeaderboardSelectionHandles(), abiEncodedClearValues, decryptionProof);
+
+        RevealedLeaderboard storage board = revealedLeaderboards[selection.gameId];
+        board.gameId = selection.gameId;
+        board.seasonId = selection.seasonId;
+        board.revealedAt = uint64(block.timestamp);
+        delete board.players;
+        delete board.scores;
+
+        // Clear values are 2N static words: prefix offset and length to decode them as uint256[]
+        uint256[] memory values = abi.decode(
+            bytes.concat(abi.encode(uint256(32), selection.size * 2), abiEncodedClearValues),
+            (uint256[])
+        );
+        for (uint256 i = 0; i < selection.size; i++) {
+            address player = address(uint160(values[selection.size + i]));
+            if (player != address(0)) {
+                board.players.push(player);
+                board.scores.push(uint32(values[i]));
+            }
+        }
+        selection.awaitingReveal = false;
+
+        emit LeaderboardRevealed(board.gameId, board.seasonId, board.players.length);
+    }
+
+    /**
+     * @dev Abandon the current selection without revealing it (admin role)
+     */
+    function cancelLeaderboardSelection() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        leaderboardSelection.inProgress = false;
+        leaderboardSelection.awaitingReveal = false;
+    }
+
+    /**
+     * @dev Handles of the current selection: N score handles, then N player handles
+     * @return handles Handles in the order expected by revealLeaderboard()
+     */
+    function getLeaderboardSelectionHandles() public view returns (bytes32[] memory handles) {
+        uint256 size = selectionScores.length;
+        handles = new bytes32[](size * 2);
+        for (uint256 i = 0; i < size; i++) {
+            handles[i] = FHE.toBytes32(selectionScores[i]);
+            handles[size + i] = FHE.toBytes32(selectionPlayers[i]);
+        }
+    }
+
+    /**
+     * @dev Get the last revealed top-N board of a game
+     * @param gameId Game / mode of the board
+     * @return Revealed board (empty arrays if never revealed)
+     */
+    function getRevealedLeaderboard(uint256 gameId) external view returns (RevealedLeaderboard memory) {
+        return revealedLeaderboards[gameId];
+    }
+
+    /**
+     * @dev Bubble one candidate through the encrypted slots (best first)
+     */
+    function _insertIntoSelection(euint32 score, eaddress player) private {
+        for (uint256 j = 0; j < selectionScores.length; j++) {
+            euint32 slotScore = selectionScores[j];
+            eaddress slotPlayer = selectionPlayers[j];
+            ebool better = FHE.gt(score, slotScore);
+
+            selectionScores[j] = FHE.max(score, slotScore);
+            selectionPlayers[j] = FHE.select(better, player, slotPlayer);
+            score = FHE.select(better, slotScore, score);
+            player = FHE.select(better, slotPlayer, player);
+        }
+    }
+
+    /**
+     * @dev Mark the finished slots for public decryption
+     */
+    function _completeSelection() private {
+        LeaderboardSelection storage selection = leaderboardSelection;
+        selection.inProgress = false;
+        selection.awaitingReveal = true;
+
+        for (uint256 j = 0; j < selection.size; j++) {
+            FHE.makePubliclyDecryptable(selectionScores[j]);
+            FHE.makePubliclyDecryptable(selectionPlayers[j]);
+        }
+
+        emit LeaderboardSelectionCompleted(selection.gameId, getLeaderboardSelectionHandles());
+    }
+
+    // ==================== Head-to-Head Challenges ====================
+
+    /**
+     * @dev Challenge another player to compare scores in a game
+     * @param opponent Player to challenge
+     * @param gameId Game / mode whose current-season scores are compared
+     * @param duration Seconds the opponent has to accept (max MAX_CHALLENGE_DURATION)
+     * @return challengeId ID of the new challenge
+     */
+    function createChallenge(
+        address opponent,
+        uint256 gameId,
+        uint64 duration
+    ) external onlyRegisteredPlayer validGame(gameId) onlyWithScore(gameId) returns (uint256 challengeId) {
+        require(isPlayerRegistered(opponent), "Other player not registered");
+        require(opponent != msg.sender, "Cannot challenge yourself");
+        require(duration > 0 && duration <= MAX_CHALLENGE_DURATION, "Invalid duration");
+
+        challengeId = challengeCount++;
+        Challenge storage challenge = challenges[challengeId];
+        challenge.challenger = msg.sender;
+        challenge.opponent = opponent;
+        challenge.gameId = gameId;
+        challenge.seasonId = currentSeasonId;
+        challenge.expiresAt = uint64(block.timestamp) + duration;
+        challenge.status = ChallengeStatus.Pending;
+
+        emit ChallengeCreated(challengeId, msg.sender, opponent, gameId, challenge.expiresAt);
+    }
+
+    /**
+     * @dev Accept a challenge and store the encrypted outcome for both players
+     * @param challengeId ID of the challenge (caller must be the opponent)
+     *
+     * Scores below minScoreThreshold compare as zero, like in the leaderboard.
+     *
+     * Example: ✅ Encrypted three-way outcome
+     * ```
+     * euint8 outcome = FHE.select(FHE.gt(a, b), win, FHE.select(FHE.eq(a, b), tie, loss));
+     * FHE.allow(outcome, challenger);
+     * FHE.allow(outcome, opponent);
+     * ```
+     */
+    function acceptChallenge(uint256 challengeId) external {
+        Challenge storage challenge = challenges[challengeId];
+        require(challenge.status == ChallengeStatus.Pending, "Challenge not pending");
+        require(msg.sender == challenge.opponent, "Not challenge opponent");
+        require(block.timestamp <= challenge.expiresAt, "Challenge expired");
+
+        bytes32 namespace = _namespaceKey(challenge.seasonId, challenge.gameId);
+        PlayerData storage challengerData = playerData[namespace][challenge.challenger];
+        PlayerData storage opponentData = playerData[namespace][msg.sender];
+        require(challengerData.hasScore, "Challenger has no score");
+        require(opponentData.hasScore, "No score submitted");
+
+        euint32 challengerScore = _rankedScore(challengerData);
+        euint32 opponentScore = _rankedScore(opponentData);
+        euint8 outcome = FHE.select(
+            FHE.gt(challengerScore, opponentScore),
+            FHE.asEuint8(CHALLENGE_CHALLENGER_WINS),
+            FHE.select(
+                FHE.eq(challengerScore, opponentScore),
+                FHE.asEuint8(CHALLENGE_TIE),
+                FHE.asEuint8(CHALLENGE_OPPONENT_WINS)
+            )
+        );
+
+        challenge.encryptedOutcome = outcome;
+        challenge.status = ChallengeStatus.Resolved;
+
+        // ✅ CRITICAL: Both players may decrypt the outcome
+        FHE.allowThis(outcome);
+        FHE.allow(outcome, challenge.challenger);
+        FHE.allow(outcome, msg.sender);
+
+        emit ChallengeResolved(challengeId);
+    }
+
+    /**
+     * @dev Agree to reveal a resolved challenge's outcome publicly
+     * @param challengeId ID of the challenge (caller must be a participant)
+     *
+     * The outcome is marked for public decryption once both players consented.
+     */
+    function consentToChallengeReveal(uint256 challengeId) external {
+        Challenge storage challenge = challenges[challengeId];
+        require(challenge.status == ChallengeStatus.Resolved, "Challenge not resolved");
+
+        if (msg.sender == challenge.challenger) {
+            challenge.challengerConsent = true;
+        } else {
+            require(msg.sender == challenge.opponent, "Not a challenge participant");
+            challenge.opponentConsent = true;
+        }
+        emit ChallengeRevealConsented(challengeId, msg.sender);
+
+        if (challenge.challengerConsent && challenge.opponentConsent) {
+            FHE.makePubliclyDecryptable(challenge.encryptedOutcome);
+        }
+    }
+
+    /**
+     * @dev Publish a challenge outcome decrypted after mutual consent
+     * @param challengeId ID of the challenge
+     * @param abiEncodedClearOutcome ABI-encoded uint8 outcome returned by the relayer
+     * @param decryptionProof KMS signatures over the decrypted value
+     *
+     * Note: Anyone may submit the result; FHE.checkSignatures reverts on a forged proof
+     */
+    function revealChallengeOutcome(
+        uint256 challengeId,
+        bytes memory abiEncodedClearOutcome,
+        bytes memory decryptionProof
+    ) external {
+        Challenge storage challenge = challenges[challengeId];
+        require(challenge.challengerConsent && challenge.opponentConsent, "Reveal not consented");
+        require(!challenge.outcomeRevealed, "Outcome already revealed");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(challenge.encryptedOutcome);
+        FHE.checkSignatures(handles, abiEncodedClearOutcome, decryptionProof);
+
+        challenge.revealedOutcome = abi.decode(abiEncodedClearOutcome, (uint8));
+        challenge.outcomeRevealed = true;
+
+        emit ChallengeOutcomeRevealed(challengeId, challenge.revealedOutcome);
+    }
+
+    /**
+     * @dev Get a challenge (public metadata and outcome handle)
+     * @param challengeId ID of the challenge
+     * @return Challenge struct
+     */
+    function getChallenge(uint256 challengeId) external view returns (Challenge memory) {
+        require(challengeId < challengeCount, "Invalid challenge ID");
+        return challenges[challengeId];
+    }
+
+    /**
+     * @dev Get a resolved challenge's encrypted outcome (participants only)
+     * @param challengeId ID of the challenge
+     * @return Encrypted CHALLENGE_* outcome, decryptable by both players
+     */
+    function getChallengeOutcome(uint256 challengeId) external view returns (euint8) {
+        Challenge storage challenge = challenges[challengeId];
+        require(challenge.status == ChallengeStatus.Resolved, "Challenge not resolved");
+        require(
+            msg.sender == challenge.challenger || msg.sender == challenge.opponent,
+            "Not a challenge participant"
+        );
+        return challenge.encryptedOutcome;
+    }
+
+    // ==================== Network Statistics ====================
+
+    /**
+     * @dev Get network statistics (public information only)
+     * @return totalPlayers Number of (player, game) scores in the current season
+     * @return averageScore Last publicly revealed average score (0 if never revealed)
+     * @return averageRevealed True once an average has been revealed
+     *
+     * Note: Individual scores remain completely encrypted and hidden
+     * Only aggregate public information is revealed
+     */
+    function getNetworkStats()
+        external
+        view
+        returns (uint256 totalPlayers, uint32 averageScore, bool averageRevealed)
+    {
+        return (totalPlayersCount, revealedAverageScore, isAverageRevealed);
+    }
+
+    /**
+     * @dev Get the encrypted eligible total and count captured by the last reveal request
+     * @return total Encrypted sum of eligible scores (publicly decryptable once requested)
+     * @return eligibleCount Encrypted number of eligible scores (publicly decryptable once requested)
+     */
+    function getAverageRevealHandles() external view returns (euint64 total, euint32 eligibleCount) {
+        return (averageRevealTotal, averageRevealCount);
+    }
+
+    /**
+     * @dev Mark the eligible total and count for public decryption (admin role)
+     *
+     * Scores below minScoreThreshold are left out of both the total and the
+     * count, so the average is taken over eligible scores only. FHE.div only
+     * takes a plaintext divisor and the eligible count stays encrypted, so
+     * both are decrypted together and the average is computed on-chain when
+     * the proof is published. Individual scores are never decrypted.
+     *
+     * Example: ✅ Two-step public decryption
+     * ```
+     * // 1. On-chain: an admin requests the reveal
+     * await contract.requestNetworkAverageReveal();
+     * // 2. Off-chain: decrypt both handles with the relayer and submit the proof
+     * const [total, eligibleCount] = await contract.getAverageRevealHandles();
+     * const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([total, eligibleCount]);
+     * await contract.revealNetworkAverage(abiEncodedClearValues, decryptionProof);
+     * ```
+     */
+    function requestNetworkAverageReveal() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(totalPlayersCount > 0, "No players with scores");
+
+        // Snapshot both values so later submissions cannot change what the proof covers
+        averageRevealTotal = encryptedTotalScoresSum;
+        averageRevealCount = encryptedEligibleCount;
+
+        FHE.allowThis(averageRevealTotal);
+        FHE.allowThis(averageRevealCount);
+        FHE.makePubliclyDecryptable(averageRevealTotal);
+        FHE.makePubliclyDecryptable(averageRevealCount);
+
+        isAverageRevealPending = true;
+
+        emit NetworkAverageRevealRequested(FHE.toBytes32(averageRevealTotal), FHE.toBytes32(averageRevealCount));
+    }
+
+    /**
+     * @dev Publish the network average from the decrypted eligible total and count
+     * @param abiEncodedClearValues ABI-encoded (uint64 total, uint32 eligibleCount) returned by the relayer
+     * @param decryptionProof KMS signatures over the decrypted values
+     *
+     * Note: Anyone may submit the result; FHE.checkSignatures reverts on a forged proof
+     */
+    function revealNetworkAverage(bytes memory abiEncodedClearValues, bytes memory decryptionProof) external {
+        require(isAverageRevealPending, "No reveal requested");
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(averageRevealTotal);
+        handles[1] = FHE.toBytes32(averageRevealCount);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        (uint64 total, uint32 eligibleCount) = abi.decode(abiEncodedClearValues, (uint64, uint32));
+        revealedAverageScore = eligibleCount == 0 ? 0 : uint32(total / eligibleCount);
+        revealedAveragePlayerCount = eligibleCount;
+        isAverageRevealed = true;
+        isAverageRevealPending = false;
+
+        emit NetworkAverageRevealed(revealedAverageScore, revealedAveragePlayerCount);
+    }
+
+    // ==================== Season Management ====================
+
+    /**
+     * @dev Open a new season (admin role)
+     * @notice The previous season must be closed first
+     *
+     * Player registrations carry over; scores, player counts and the
+     * encrypted network total start from zero in the new season.
+     */
+    function openSeason() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(!seasons[currentSeasonId].active, "Season already active");
+        _openSeason();
+    }
+
+    /**
+     * @dev Close the active season (admin role)
+     * @notice Closed seasons are read-only; their encrypted scores stay user-decryptable
+     */
+    function closeSeason() external onlyRole(DEFAULT_ADMIN_ROLE) whenSeasonActive {
+        Season storage season = seasons[currentSeasonId];
+        season.active = false;
+        season.endTime = uint64(block.timestamp);
+        season.playerCount = totalPlayersCount;
+        season.revealedAverageScore = revealedAverageScore;
+        season.averageRevealed = isAverageRevealed;
+
+        emit SeasonClosed(currentSeasonId, block.timestamp, totalPlayersCount);
+    }
+
+    /**
+     * @dev Get the current season and whether it accepts submissions
+     * @return seasonId ID of the current season
+     * @return active True if the season is open
+     */
+    function getActiveSeason() external view returns (uint256 seasonId, bool active) {
+        return (currentSeasonId, seasons[currentSeasonId].active);
+    }
+
+    /**
+     * @dev Get season metadata
+     * @param seasonId ID of the season
+     * @return Season struct with timing and archived statistics
+     */
+    function getSeason(uint256 seasonId) external view returns (Season memory) {
+        require(seasonId > 0 && seasonId <= currentSeasonId, "Invalid season ID");
+        return seasons[seasonId];
+    }
+
+    /**
+     * @dev Get the caller's encrypted score in any season (read-only for past seasons)
+     * @param seasonId ID of the season
+     * @param gameId Game / mode to read the score from
+     * @return The encrypted score value, decryptable by the caller
+     */
+    function getMySeasonScore(uint256 seasonId, uint256 gameId) external view returns (euint32) {
+        PlayerData storage data = playerData[_namespaceKey(seasonId, gameId)][msg.sender];
+        require(data.hasScore, "No score in season");
+        return data.encryptedScore;
+    }
+
+    /**
+     * @dev Get the caller's encrypted submission timestamp in any season
+     * @param seasonId ID of the season
+     * @param gameId Game / mode to read the timestamp from
+     * @return The encrypted timestamp, decryptable by the caller
+     */
+    function getMySeasonTimestamp(uint256 seasonId, uint256 gameId) external view returns (euint64) {
+        PlayerData storage data = playerData[_namespaceKey(seasonId, gameId)][msg.sender];
+        require(data.hasScore, "No score in season");
+        return data.encryptedTimestamp;
+    }
+
+    /**
+     * @dev Check if a player submitted a score in a season (public information)
+     * @param seasonId ID of the season
+     * @param gameId Game / mode to check
+     * @param player Address to check
+     * @return True if the player has a score in that season
+     */
+    function hasPlayerSubmittedInSeason(
+        uint256 seasonId,
+        uint256 gameId,
+        address player
+    ) external view returns (bool) {
+        return playerData[_namespaceKey(seasonId, gameId)][player].hasScore;
+    }
+}
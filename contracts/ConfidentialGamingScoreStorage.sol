@@ -0,0 +1,886 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, eaddress, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { OwnableUpgradeable } from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { PausableUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title ConfidentialGamingScoreStorage
+ * @dev Types, state, events, modifiers and call forwarding of the confidential gaming score system
+ * @notice Shared by ConfidentialGamingScoreBase and its modules
+ *
+ * The score contract and its modules together would exceed the EIP-170
+ * contract size limit, so functions are spread over a chain of contracts:
+ * ConfidentialGamingScoreBase -> ConfidentialGamingScoreCompetition ->
+ * ConfidentialGamingScoreAchievements -> ConfidentialGamingScoreAdministration.
+ * Each one delegatecalls the next for
+ * functions it does not implement, so every function runs with the score
+ * contract's storage. That is why all state is declared here and nowhere
+ * else: every contract of the chain must see the same layout. Storage is
+ * append-only: new state variables go right above __gap, which shrinks by the
+ * same number of slots.
+ */
+abstract contract ConfidentialGamingScoreStorage is
+    Initializable,
+    OwnableUpgradeable,
+    AccessControlUpgradeable,
+    PausableUpgradeable,
+    EIP712Upgradeable
+{
+
+    // ==================== Type Definitions ====================
+
+    /**
+     * @dev Player data structure for storing encrypted gaming information
+     */
+    struct PlayerData {
+        euint32 encryptedScore;           // Encrypted gaming score
+        euint64 encryptedTimestamp;       // Encrypted submission timestamp
+        euint32 encryptedSubmissionCount; // Encrypted number of submissions
+        ebool encryptedEligible;          // Encrypted score >= minScoreThreshold at submission
+        bool hasScore;                    // Whether player submitted a score
+        uint256 lastUpdateBlock;          // Block number of last update (for access control)
+        bool voided;                      // Whether a moderator voided the last score
+        uint16 voidReasonCode;            // Public reason code of the void (0 if not voided)
+    }
+
+    /**
+     * @dev How a new submission is combined with the player's stored score
+     * - Latest: the new score replaces the stored one
+     * - Best: the encrypted maximum of both is kept (personal best)
+     * - Accumulate: scores are added, saturating at type(uint32).max
+     */
+    enum ScorePolicy {
+        Latest,
+        Best,
+        Accumulate
+    }
+
+    /**
+     * @dev Competitive season metadata (public information)
+     */
+    struct Season {
+        uint64 startTime;                 // Block timestamp when the season opened
+        uint64 endTime;                   // Block timestamp when the season closed (0 while active)
+        uint256 playerCount;              // Players with a score when the season closed
+        uint32 revealedAverageScore;      // Network average revealed during the season, if any
+        bool averageRevealed;             // Whether an average was revealed during the season
+        bool active;                      // Whether the season accepts submissions
+    }
+
+    /**
+     * @dev Lifecycle of a head-to-head challenge
+     */
+    enum ChallengeStatus {
+        None,
+        Pending,
+        Resolved
+    }
+
+    /**
+     * @dev Head-to-head challenge between two players in one game and season
+     */
+    struct Challenge {
+        address challenger;               // Player who created the challenge
+        address opponent;                 // Player who must accept it
+        uint256 gameId;                   // Game / mode whose scores are compared
+        uint256 seasonId;                 // Season whose scores are compared
+        uint64 expiresAt;                 // Acceptance deadline (block timestamp)
+        ChallengeStatus status;           // Pending until accepted
+        euint8 encryptedOutcome;          // CHALLENGE_* outcome, decryptable by both players
+        bool challengerConsent;           // Challenger agreed to a public reveal
+        bool opponentConsent;             // Opponent agreed to a public reveal
+        bool outcomeRevealed;             // Whether revealedOutcome was published
+        uint8 revealedOutcome;            // Public outcome once both players consented
+    }
+
+    /**
+     * @dev Encrypted top-N selection in progress (public progress metadata)
+     */
+    struct LeaderboardSelection {
+        uint256 gameId;                   // Game / mode being ranked
+        uint256 seasonId;                 // Season whose scores are ranked
+        uint256 size;                     // Number of slots (N)
+        uint256 cursor;                   // Next registry index to process
+        bool inProgress;                  // Registry pass still running
+        bool awaitingReveal;              // Slots marked for public decryption
+    }
+
+    /**
+     * @dev Publicly revealed top-N board of a game
+     */
+    struct RevealedLeaderboard {
+        uint256 gameId;                   // Game / mode of the board
+        uint256 seasonId;                 // Season the scores belong to
+        uint64 revealedAt;                // Block timestamp of the reveal
+        address[] players;                // Best first; only opted-in players
+        uint32[] scores;                  // Scores matching players
+    }
+
+    /**
+     * @dev Game achievement metadata
+     */
+    struct Achievement {
+        string title;
+        uint32 requiredScore;
+        bool active;
+        uint256 gameId;                   // Game / mode the achievement belongs to
+        string category;                  // Free-form grouping (e.g. "Speed", "Collection")
+        uint32 version;                   // Incremented on every threshold change
+    }
+
+    /**
+     * @dev Temporary submission ban (public information)
+     */
+    struct Ban {
+        uint64 until;                     // Block timestamp the ban expires at
+        uint16 reasonCode;                // Public moderation reason code
+    }
+
+    // ==================== State Variables ====================
+
+    /// @dev Moderators can pause submissions, void scores and ban players
+    bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE");
+
+    /// @dev Game servers co-sign attested score submissions
+    bytes32 public constant GAME_SERVER_ROLE = keccak256("GAME_SERVER_ROLE");
+
+    /// @dev Data version; emergencyReset() moves to a new epoch, hiding all prior player data
+    uint256 public dataEpoch;
+
+    /// @dev EIP-712 type hash of a game-server score attestation
+    bytes32 public constant SCORE_ATTESTATION_TYPEHASH = keccak256(
+        "ScoreAttestation(address player,uint256 seasonId,uint256 gameId,"
+        "bytes32 scoreHandle,uint256 nonce,uint256 deadline)"
+    );
+
+    /// @dev Encrypted gaming data per (season, game) namespace and player (past seasons are read-only)
+    mapping(bytes32 => mapping(address => PlayerData)) internal playerData;
+
+    /// @dev Players with a score per (season, game) namespace (public information)
+    mapping(bytes32 => uint256) internal namespacePlayerCounts;
+
+    /// @dev Registered game / mode names by game ID (game 0 is the default game)
+    mapping(uint256 => string) internal gameNames;
+
+    /// @dev Number of registered games / modes
+    uint256 public gameCount;
+
+    /// @dev Number of achievements per game / mode
+    mapping(uint256 => uint256) public gameAchievementCount;
+
+    /// @dev Score aggregation policy used by games without an override
+    ScorePolicy public defaultScorePolicy;
+
+    /// @dev Per-game score aggregation policy overrides
+    mapping(uint256 => ScorePolicy) internal gameScorePolicies;
+
+    /// @dev Whether a game overrides the default aggregation policy
+    mapping(uint256 => bool) internal hasGameScorePolicy;
+
+    /// @dev Season metadata by season ID (IDs start at 1)
+    mapping(uint256 => Season) public seasons;
+
+    /// @dev ID of the current season (the active one, or the last closed one)
+    uint256 public currentSeasonId;
+
+    /// @dev Registered players per data epoch
+    mapping(uint256 => address[]) internal playerRegistries;
+
+    /// @dev Position + 1 of each player in the epoch's registry (0 = not registered)
+    mapping(uint256 => mapping(address => uint256)) internal playerRegistryIndexes;
+
+    /// @dev Encrypted total sum of all scores (for network statistics)
+    euint64 internal encryptedTotalScoresSum;
+
+    /// @dev Scores in the current season, one per (player, game) pair - not distinct players (public information)
+    uint256 public totalPlayersCount;
+
+    /// @dev Encrypted number of scores counted in the network total (those reaching minScoreThreshold)
+    euint32 internal encryptedEligibleCount;
+
+    /// @dev Eligible total and count captured by the last reveal request (publicly decryptable)
+    euint64 internal averageRevealTotal;
+    euint32 internal averageRevealCount;
+
+    /// @dev Last publicly decrypted network average score
+    uint32 public revealedAverageScore;
+
+    /// @dev Whether a network average has ever been publicly revealed
+    bool public isAverageRevealed;
+
+    /// @dev Whether an average reveal was requested and awaits its decryption proof
+    bool public isAverageRevealPending;
+
+    /// @dev Number of eligible scores the revealed average was computed over
+    uint256 public revealedAveragePlayerCount;
+
+    /// @dev Achievement system
+    mapping(uint256 => Achievement) public achievements;
+    uint256 public achievementCount;
+
+    /// @dev Encrypted unlocked flag per (epoch, achievement, version) key and player
+    mapping(bytes32 => mapping(address => ebool)) internal achievementUnlocks;
+
+    /// @dev Whether a player has claimed (computed an unlock flag for) an achievement
+    mapping(bytes32 => mapping(address => bool)) internal achievementClaimed;
+
+    /// @dev Whether a player's unlock flag was marked for public decryption
+    mapping(bytes32 => mapping(address => bool)) internal achievementRevealPending;
+
+    /// @dev Publicly proven unlocks
+    mapping(bytes32 => mapping(address => bool)) internal achievementPubliclyUnlocked;
+
+    /// @dev Minimum score threshold for ranking
+    uint32 public minScoreThreshold;
+
+    /// @dev Upper bound submissions are clamped to (filters implausible outliers)
+    uint32 public maxPlausibleScore;
+
+    /// @dev Last computed encrypted leaderboard position per namespace and player (1 = best)
+    mapping(bytes32 => mapping(address => euint32)) internal leaderboardPositions;
+
+    /// @dev Whether a player has a computed leaderboard position in a namespace
+    mapping(bytes32 => mapping(address => bool)) internal hasLeaderboardPosition;
+
+    /// @dev Partial encrypted position of a batched computation in progress
+    mapping(bytes32 => mapping(address => euint32)) internal pendingPositions;
+
+    /// @dev Next registry index to process for a batched position computation
+    mapping(bytes32 => mapping(address => uint256)) internal positionCursor;
+
+    /// @dev Largest public leaderboard that can be revealed
+    uint256 public constant MAX_REVEALED_LEADERBOARD_SIZE = 10;
+
+    /// @dev Players who agreed to appear on revealed leaderboards, per data epoch
+    mapping(uint256 => mapping(address => bool)) internal leaderboardOptIns;
+
+    /// @dev Addresses allowed to run leaderboard reveals besides admins
+    mapping(address => bool) public leaderboardKeepers;
+
+    /// @dev Current (or last) top-N selection
+    LeaderboardSelection public leaderboardSelection;
+
+    /// @dev Encrypted top-N slots of the current selection, best first
+    euint32[] internal selectionScores;
+    eaddress[] internal selectionPlayers;
+
+    /// @dev Last revealed board per game
+    mapping(uint256 => RevealedLeaderboard) internal revealedLeaderboards;
+
+    /// @dev Game-server key that co-signs attested submissions
+    address public gameServerSigner;
+
+    /// @dev Whether plain submitScore() is disabled in favour of attested submissions
+    bool public attestationRequired;
+
+    /// @dev Attestation nonces already consumed per player
+    mapping(address => mapping(uint256 => bool)) public usedAttestationNonces;
+
+    /// @dev Challenge outcomes (encrypted as euint8)
+    uint8 public constant CHALLENGE_OPPONENT_WINS = 0;
+    uint8 public constant CHALLENGE_TIE = 1;
+    uint8 public constant CHALLENGE_CHALLENGER_WINS = 2;
+
+    /// @dev Longest acceptance window for a challenge
+    uint64 public constant MAX_CHALLENGE_DURATION = 7 days;
+
+    /// @dev Head-to-head challenges by ID
+    mapping(uint256 => Challenge) internal challenges;
+    uint256 public challengeCount;
+
+    /// @dev Maximum number of viewers per player (bounds the cost of each submission)
+    uint256 public constant MAX_VIEWERS = 10;
+
+    /// @dev Addresses a player shares their encrypted scores with, per data epoch
+    mapping(uint256 => mapping(address => address[])) internal scoreViewers;
+
+    /// @dev Position + 1 of a viewer in scoreViewers (0 = not a viewer)
+    mapping(uint256 => mapping(address => mapping(address => uint256))) internal viewerIndexes;
+
+    /// @dev Longest submission ban a moderator can issue
+    uint64 public constant MAX_BAN_DURATION = 365 days;
+
+    /// @dev Submission bans per address (kept across emergency resets)
+    mapping(address => Ban) public bans;
+
+    /// @dev Reserved slots so upgrades can append state variables
+    // solhint-disable-next-line var-name-mixedcase
+    uint256[50] private __gap;
+
+    /// @dev Contract the fallback delegatecalls (code constant, not a storage slot)
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address public immutable FALLBACK_MODULE;
+
+    // ==================== Events ====================
+
+    /**
+     * @dev Emitted when a player submits an encrypted score
+     * @param player Address of the player who submitted the score
+     * @param seasonId Season the score was submitted to
+     * @param gameId Game / mode the score was submitted to
+     * @param timestamp Block timestamp of submission
+     */
+    event ConfidentialScoreSubmitted(
+        address indexed player,
+        uint256 indexed seasonId,
+        uint256 indexed gameId,
+        uint256 timestamp
+    );
+
+    /**
+     * @dev Emitted when a player's score is removed (reset, voided or unregistered)
+     * @param player Address of the player whose score was removed
+     * @param seasonId Season the score was removed from
+     * @param gameId Game / mode the score was removed from
+     * @param timestamp Block timestamp of removal
+     */
+    event ScoreCleared(
+        address indexed player,
+        uint256 indexed seasonId,
+        uint256 indexed gameId,
+        uint256 timestamp
+    );
+
+    /**
+     * @dev Emitted when a new player registers
+     * @param player Address of the new player
+     * @param timestamp Block timestamp of registration
+     */
+    event PlayerRegistered(address indexed player, uint256 timestamp);
+
+    /**
+     * @dev Emitted when a player leaves the registry
+     * @param player Address of the player
+     * @param timestamp Block timestamp of deregistration
+     */
+    event PlayerUnregistered(address indexed player, uint256 timestamp);
+
+    /**
+     * @dev Emitted when network statistics are updated
+     * @param totalPlayers Current number of (player, game) scores in the season
+     * @param blockNumber Block number of update
+     */
+    event NetworkStatsUpdated(uint256 totalPlayers, uint256 blockNumber);
+
+    /**
+     * @dev Emitted when a new achievement is created
+     * @param achievementId ID of the new achievement
+     * @param gameId Game / mode the achievement belongs to
+     * @param title Title of the achievement
+     * @param requiredScore Required score to unlock
+     */
+    event AchievementCreated(
+        uint256 indexed achievementId,
+        uint256 indexed gameId,
+        string title,
+        uint32 requiredScore
+    );
+
+    /**
+     * @dev Emitted when an achievement is deactivated or reactivated
+     * @param achievementId ID of the achievement
+     * @param active New status
+     */
+    event AchievementStatusChanged(uint256 indexed achievementId, bool active);
+
+    /**
+     * @dev Emitted when an achievement's required score changes
+     * @param achievementId ID of the achievement
+     * @param version New version of the achievement
+     * @param previousScore Required score of the previous version
+     * @param requiredScore Required score from this version on
+     */
+    event AchievementThresholdUpdated(
+        uint256 indexed achievementId,
+        uint32 version,
+        uint32 previousScore,
+        uint32 requiredScore
+    );
+
+    /**
+     * @dev Emitted when an achievement's title changes
+     * @param achievementId ID of the achievement
+     * @param title New title
+     */
+    event AchievementTitleUpdated(uint256 indexed achievementId, string title);
+
+    /**
+     * @dev Emitted when an achievement's category changes
+     * @param achievementId ID of the achievement
+     * @param category New category
+     */
+    event AchievementCategoryUpdated(uint256 indexed achievementId, string category);
+
+    /**
+     * @dev Emitted when a player claims an achievement (the result stays encrypted)
+     * @param achievementId ID of the achievement
+     * @param player Address of the player
+     */
+    event AchievementClaimed(uint256 indexed achievementId, address indexed player);
+
+    /**
+     * @dev Emitted when a player marks their unlock flag for public decryption
+     * @param achievementId ID of the achievement
+     * @param player Address of the player
+     * @param unlockHandle Handle of the encrypted unlocked flag
+     */
+    event AchievementRevealRequested(uint256 indexed achievementId, address indexed player, bytes32 unlockHandle);
+
+    /**
+     * @dev Emitted when a decrypted unlock flag is published on-chain
+     * @param achievementId ID of the achievement
+     * @param player Address of the player
+     * @param unlocked Whether the player unlocked the achievement
+     */
+    event AchievementUnlockRevealed(uint256 indexed achievementId, address indexed player, bool unlocked);
+
+    /**
+     * @dev Emitted when a player opts in to or out of revealed leaderboards
+     * @param player Address of the player
+     * @param optedIn New preference
+     */
+    event LeaderboardOptInUpdated(address indexed player, bool optedIn);
+
+    /**
+     * @dev Emitted when an admin adds or removes a leaderboard keeper
+     * @param keeper Address of the keeper
+     * @param allowed Whether the keeper may run reveals
+     */
+    event LeaderboardKeeperUpdated(address indexed keeper, bool allowed);
+
+    /**
+     * @dev Emitted when a top-N selection starts
+     * @param gameId Game / mode being ranked
+     * @param seasonId Season being ranked
+     * @param size Number of slots
+     */
+    event LeaderboardSelectionStarted(uint256 indexed gameId, uint256 seasonId, uint256 size);
+
+    /**
+     * @dev Emitted when the top-N slots are ready for public decryption
+     * @param gameId Game / mode being ranked
+     * @param handles Score handles followed by player handles, best first
+     */
+    event LeaderboardSelectionCompleted(uint256 indexed gameId, bytes32[] handles);
+
+    /**
+     * @dev Emitted when a top-N board is published
+     * @param gameId Game / mode of the board
+     * @param seasonId Season of the board
+     * @param entries Number of opted-in players on the board
+     */
+    event LeaderboardRevealed(uint256 indexed gameId, uint256 seasonId, uint256 entries);
+
+    /**
+     * @dev Emitted when a player's encrypted leaderboard position is finalized
+     * @param player Address of the player
+     * @param gameId Game / mode the position was computed in
+     * @param blockNumber Block number of the computation
+     */
+    event LeaderboardPositionComputed(address indexed player, uint256 indexed gameId, uint256 blockNumber);
+
+    /**
+     * @dev Emitted when the owner requests public decryption of the network average
+     * @param totalHandle Handle of the encrypted eligible total to decrypt
+     * @param countHandle Handle of the encrypted eligible count to decrypt
+     */
+    event NetworkAverageRevealRequested(bytes32 totalHandle, bytes32 countHandle);
+
+    /**
+     * @dev Emitted when the decrypted network average is published on-chain
+     * @param averageScore Eligible total divided by the eligible count (0 when nothing is eligible)
+     * @param totalPlayers Number of eligible scores included in the average
+     */
+    event NetworkAverageRevealed(uint32 averageScore, uint256 totalPlayers);
+
+    /**
+     * @dev Emitted when the owner opens a new season
+     * @param seasonId ID of the new season
+     * @param startTime Block timestamp of the opening
+     */
+    event SeasonOpened(uint256 indexed seasonId, uint256 startTime);
+
+    /**
+     * @dev Emitted when the owner closes the active season
+     * @param seasonId ID of the closed season
+     * @param endTime Block timestamp of the closing
+     * @param playerCount Number of players with a score in the season
+     */
+    event SeasonClosed(uint256 indexed seasonId, uint256 endTime, uint256 playerCount);
+
+    /**
+     * @dev Emitted when the owner registers a new game / mode namespace
+     * @param gameId ID of the new game
+     * @param name Display name of the game
+     */
+    event GameRegistered(uint256 indexed gameId, string name);
+
+    /**
+     * @dev Emitted when the deployment-wide aggregation policy changes
+     * @param policy New default policy
+     */
+    event DefaultScorePolicyUpdated(ScorePolicy policy);
+
+    /**
+     * @dev Emitted when a game's aggregation policy override changes
+     * @param gameId ID of the game
+     * @param policy New policy for the game
+     * @param overridden False when the game falls back to the default policy
+     */
+    event GameScorePolicyUpdated(uint256 indexed gameId, ScorePolicy policy, bool overridden);
+
+    /**
+     * @dev Emitted when the owner rotates the game-server signing key
+     * @param previousSigner Key that no longer attests scores
+     * @param newSigner Key that attests scores from now on
+     */
+    event GameServerSignerRotated(address indexed previousSigner, address indexed newSigner);
+
+    /**
+     * @dev Emitted when attestation mode is switched on or off
+     * @param required Whether submissions must be attested
+     */
+    event AttestationRequirementUpdated(bool required);
+
+    /**
+     * @dev Emitted when a game-server attestation is consumed
+     * @param player Address of the player
+     * @param nonce Attestation nonce (cannot be replayed)
+     */
+    event ScoreAttested(address indexed player, uint256 nonce);
+
+    /**
+     * @dev Emitted when a player challenges another player
+     * @param challengeId ID of the challenge
+     * @param challenger Player who created the challenge
+     * @param opponent Player invited to accept
+     * @param gameId Game / mode whose scores are compared
+     * @param expiresAt Acceptance deadline
+     */
+    event ChallengeCreated(
+        uint256 indexed challengeId,
+        address indexed challenger,
+        address indexed opponent,
+        uint256 gameId,
+        uint64 expiresAt
+    );
+
+    /**
+     * @dev Emitted when the opponent accepts and the encrypted outcome is stored
+     * @param challengeId ID of the challenge
+     */
+    event ChallengeResolved(uint256 indexed challengeId);
+
+    /**
+     * @dev Emitted when a participant agrees to reveal the outcome publicly
+     * @param challengeId ID of the challenge
+     * @param player Participant who consented
+     */
+    event ChallengeRevealConsented(uint256 indexed challengeId, address indexed player);
+
+    /**
+     * @dev Emitted when a challenge outcome is publicly decrypted
+     * @param challengeId ID of the challenge
+     * @param outcome CHALLENGE_* outcome
+     */
+    event ChallengeOutcomeRevealed(uint256 indexed challengeId, uint8 outcome);
+
+    /**
+     * @dev Emitted when a player shares their encrypted scores with a viewer
+     * @param player Address of the player
+     * @param viewer Address allowed to decrypt the player's scores
+     */
+    event ViewerGranted(address indexed player, address indexed viewer);
+
+    /**
+     * @dev Emitted when a player stops sharing new scores with a viewer
+     * @param player Address of the player
+     * @param viewer Address that no longer receives access
+     */
+    event ViewerRevoked(address indexed player, address indexed viewer);
+
+    /**
+     * @dev Emitted when emergencyReset() moves to a new data epoch
+     * @param epoch New data epoch (all prior player data is hidden)
+     */
+    event DataEpochAdvanced(uint256 indexed epoch);
+
+    /**
+     * @dev Emitted when the owner changes the plausible score range
+     * @param minScoreThreshold Minimum score to be ranked and unlock achievements
+     * @param maxPlausibleScore Maximum score, larger submissions are clamped
+     */
+    event ScoreBoundsUpdated(uint32 minScoreThreshold, uint32 maxPlausibleScore);
+
+    /**
+     * @dev Emitted when a moderator voids a player's current score
+     * @param player Address of the player
+     * @param gameId Game / mode of the voided score
+     * @param seasonId Season of the voided score
+     * @param reasonCode Public moderation reason code
+     * @param moderator Address of the moderator
+     */
+    event ScoreVoided(
+        address indexed player,
+        uint256 indexed gameId,
+        uint256 seasonId,
+        uint16 reasonCode,
+        address indexed moderator
+    );
+
+    /**
+     * @dev Emitted when a moderator bans an address from submitting
+     * @param player Address of the banned player
+     * @param until Block timestamp the ban expires at
+     * @param reasonCode Public moderation reason code
+     * @param moderator Address of the moderator
+     */
+    event PlayerBanned(address indexed player, uint64 until, uint16 reasonCode, address indexed moderator);
+
+    /**
+     * @dev Emitted when a moderator lifts a ban before it expires
+     * @param player Address of the player
+     * @param moderator Address of the moderator
+     */
+    event PlayerBanLifted(address indexed player, address indexed moderator);
+
+    // ==================== Modifiers ====================
+
+    /**
+     * @dev Ensures only registered players can call the function
+     */
+    modifier onlyRegisteredPlayer() {
+        require(isPlayerRegistered(msg.sender), "Player not registered");
+        _;
+    }
+
+    /**
+     * @dev Ensures only players with submitted scores in the game can call the function
+     */
+    modifier onlyWithScore(uint256 gameId) {
+        require(_scoreOf(gameId, msg.sender).hasScore, "No score submitted");
+        _;
+    }
+
+    /**
+     * @dev Ensures the game / mode was registered by the owner
+     */
+    modifier validGame(uint256 gameId) {
+        require(gameId < gameCount, "Unknown game");
+        _;
+    }
+
+    /**
+     * @dev Ensures the achievement exists
+     */
+    modifier existingAchievement(uint256 achievementId) {
+        require(achievementId < achievementCount, "Invalid achievement ID");
+        _;
+    }
+
+    /**
+     * @dev Ensures the caller may run leaderboard reveals
+     */
+    modifier onlyLeaderboardKeeper() {
+        require(hasRole(DEFAULT_ADMIN_ROLE, msg.sender) || leaderboardKeepers[msg.sender], "Not leaderboard keeper");
+        _;
+    }
+
+    /**
+     * @dev Ensures the caller is not banned from submitting
+     */
+    modifier notBanned() {
+        require(!isBanned(msg.sender), "Player banned");
+        _;
+    }
+
+    /**
+     * @dev Ensures the current season accepts submissions
+     */
+    modifier whenSeasonActive() {
+        require(seasons[currentSeasonId].active, "No active season");
+        _;
+    }
+
+    // ==================== Module Forwarding ====================
+
+    /**
+     * @dev Bind the module that runs functions this contract does not implement
+     * @param fallbackModule Next contract of the module chain (address(0) ends the chain)
+     *
+     * @custom:oz-upgrades-unsafe-allow constructor
+     */
+    constructor(address fallbackModule) {
+        require(fallbackModule == address(0) || fallbackModule.code.length > 0, "Module not deployed");
+        FALLBACK_MODULE = fallbackModule;
+    }
+
+    /**
+     * @dev Forward calls to functions implemented further down the module chain
+     * @param input Calldata of the call, forwarded unchanged
+     * @return ABI-encoded return data of the module function
+     *
+     * delegatecall keeps the score contract's storage, address and msg.sender,
+     * so modifiers, FHE permissions and events behave as if the function were
+     * defined in the score contract. Reverts are bubbled up unchanged.
+     *
+     * @custom:oz-upgrades-unsafe-allow-reachable delegatecall
+     */
+    fallback(bytes calldata input) external returns (bytes memory) {
+        require(FALLBACK_MODULE != address(0), "Unknown function");
+        return Address.functionDelegateCall(FALLBACK_MODULE, input);
+    }
+
+    // ==================== Shared Functions ====================
+
+    /**
+     * @dev Keep DEFAULT_ADMIN_ROLE with the owner across ownership transfers;
+     * the owner may grant it to further operators, who keep it when ownership moves
+     */
+    function _transferOwnership(address newOwner) internal override {
+        address previousOwner = owner();
+        super._transferOwnership(newOwner);
+
+        if (previousOwner != address(0)) {
+            _revokeRole(DEFAULT_ADMIN_ROLE, previousOwner);
+        }
+        if (newOwner != address(0)) {
+            _grantRole(DEFAULT_ADMIN_ROLE, newOwner);
+        }
+    }
+
+    /**
+     * @dev Create the next game namespace
+     */
+    function _registerGame(string memory name) internal returns (uint256 gameId) {
+        require(bytes(name).length > 0, "Empty game name");
+
+        gameId = gameCount;
+        gameNames[gameId] = name;
+        gameCount++;
+
+        emit GameRegistered(gameId, name);
+    }
+
+    /**
+     * @dev Get the registered player at a registry index
+     * @param index Registry index
+     * @return Address of the player
+     */
+    function playerRegistry(uint256 index) public view returns (address) {
+        return playerRegistries[dataEpoch][index];
+    }
+
+    /**
+     * @dev Check whether an address is registered in the current data epoch
+     * @param player Address to check
+     * @return True if registered
+     */
+    function isPlayerRegistered(address player) public view returns (bool) {
+        return playerRegistryIndexes[dataEpoch][player] != 0;
+    }
+
+    /**
+     * @dev Whether an address is currently banned from submitting
+     */
+    function isBanned(address player) public view returns (bool) {
+        return bans[player].until > block.timestamp;
+    }
+
+    /**
+     * @dev Storage key of a (season, game) score namespace
+     */
+    function _namespaceKey(uint256 seasonId, uint256 gameId) internal view returns (bytes32) {
+        return keccak256(abi.encode(dataEpoch, seasonId, gameId));
+    }
+
+    /**
+     * @dev Player data in a game for the current season
+     */
+    function _scoreOf(uint256 gameId, address player) internal view returns (PlayerData storage) {
+        return playerData[_namespaceKey(currentSeasonId, gameId)][player];
+    }
+
+    /**
+     * @dev Score counted in the network total (zero when not eligible)
+     */
+    function _rankedScore(PlayerData storage data) internal returns (euint32) {
+        return FHE.select(data.encryptedEligible, data.encryptedScore, FHE.asEuint32(0));
+    }
+
+    /**
+     * @dev Store a new encrypted network total and keep contract access to it
+     */
+    function _setTotalScoresSum(euint64 newTotal) internal {
+        encryptedTotalScoresSum = newTotal;
+        FHE.allowThis(encryptedTotalScoresSum);
+    }
+
+    /**
+     * @dev Store a new encrypted eligible count and keep contract access to it
+     */
+    function _setEligibleCount(euint32 newCount) internal {
+        encryptedEligibleCount = newCount;
+        FHE.allowThis(encryptedEligibleCount);
+    }
+
+    /**
+     * @dev Remove a player's current-season score in a game from counts, total and storage
+     */
+    function _clearScore(uint256 gameId, address player) internal {
+        bytes32 namespace = _namespaceKey(currentSeasonId, gameId);
+        PlayerData storage data = playerData[namespace][player];
+
+        // Update total players count
+        if (totalPlayersCount > 0) {
+            totalPlayersCount -= 1;
+        }
+        namespacePlayerCounts[namespace] -= 1;
+
+        // Remove the player's score from the encrypted network total and eligible count
+        _setTotalScoresSum(FHE.sub(encryptedTotalScoresSum, FHE.asEuint64(_rankedScore(data))));
+        _setEligibleCount(FHE.sub(encryptedEligibleCount, FHE.asEuint32(data.encryptedEligible)));
+
+        // Reset player data
+        data.encryptedScore = FHE.asEuint32(0);
+        data.encryptedTimestamp = FHE.asEuint64(0);
+        data.encryptedSubmissionCount = FHE.asEuint32(0);
+        data.encryptedEligible = FHE.asEbool(false);
+        data.hasScore = false;
+        data.lastUpdateBlock = block.number;
+        positionCursor[namespace][player] = 0;
+
+        emit ScoreCleared(player, currentSeasonId, gameId, block.timestamp);
+    }
+
+    /**
+     * @dev Start a new season and reset per-season aggregates
+     */
+    function _openSeason() internal {
+        currentSeasonId++;
+        seasons[currentSeasonId] = Season({
+            startTime: uint64(block.timestamp),
+            endTime: 0,
+            playerCount: 0,
+            revealedAverageScore: 0,
+            averageRevealed: false,
+            active: true
+        });
+
+        totalPlayersCount = 0;
+        _setTotalScoresSum(FHE.asEuint64(0));
+        _setEligibleCount(FHE.asEuint32(0));
+        revealedAverageScore = 0;
+        isAverageRevealed = false;
+        isAverageRevealPending = false;
+        revealedAveragePlayerCount = 0;
+
+        emit SeasonOpened(currentSeasonId, block.timestamp);
+    }
+}
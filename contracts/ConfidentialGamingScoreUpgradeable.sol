@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { ConfidentialGamingScoreBase } from "./ConfidentialGamingScoreBase.sol";
+import { ConfidentialGamingScoreCompetition } from "./ConfidentialGamingScoreCompetition.sol";
+
+/**
+ * @title ConfidentialGamingScoreUpgradeable
+ * @dev UUPS implementation of the confidential gaming score system
+ * @notice Deploy behind an ERC1967 proxy and call initialize() in the same transaction
+ *
+ * Encrypted scores, ACL grants and the coprocessor configuration live in the
+ * proxy's storage, so upgrading the implementation keeps every ciphertext
+ * decryptable by the players who own it.
+ *
+ * Upgrade rules:
+ * - Only the owner can upgrade (_authorizeUpgrade)
+ * - Never reorder, remove or retype state variables in the inheritance chain
+ * - New base variables consume slots of ConfidentialGamingScoreStorage.__gap
+ * - Bump implementationVersion() in every new implementation
+ * - Modules are bound per implementation (immutable): deploy the matching
+ *   Administration, Achievements and Competition modules with every upgrade
+ */
+contract ConfidentialGamingScoreUpgradeable is ConfidentialGamingScoreBase, UUPSUpgradeable {
+    /// @param competition Deployed ConfidentialGamingScoreCompetition (first module)
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(ConfidentialGamingScoreCompetition competition) ConfidentialGamingScoreBase(competition) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize the proxy (replaces the constructor)
+     * @param initialOwner Owner, admin of all roles and first moderator
+     *
+     * Example: ✅ Correct usage pattern
+     * ```
+     * const proxy = await upgrades.deployProxy(factory, [owner], {
+     *   kind: "uups",
+     *   constructorArgs: [competitionAddress],
+     * });
+     * ```
+     */
+    function initialize(address initialOwner) external initializer {
+        // The proxy, not the implementation, talks to the coprocessor
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        __ConfidentialGamingScore_init(initialOwner);
+    }
+
+    /**
+     * @dev Version of this implementation, bumped by every upgrade
+     */
+    function implementationVersion() external pure virtual returns (uint256) {
+        return 1;
+    }
+
+    /**
+     * @dev Restrict upgrades to the owner
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function _authorizeUpgrade(address) internal override onlyOwner {
+        // onlyOwner is the whole check: any implementation the owner picks is accepted
+    }
+}
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -37,6 +37,7 @@ contract FHECounter is ZamaEthereumConfig {
      */
     constructor() {
         count = FHE.asEuint32(initialValue);
+        FHE.allowThis(count);
     }
 
     /**
@@ -49,8 +50,7 @@ contract FHECounter is ZamaEthereumConfig {
      * - Performs encrypted arithmetic (FHE.add)
      * - Grants both allowThis and allow permissions
      */
-    function increment(bytes calldata encryptedValue, bytes calldata proof) external {
-        require(encryptedValue.length > 0, "Invalid encrypted value");
+    function increment(externalEuint32 encryptedValue, bytes calldata proof) external {
         require(proof.length > 0, "Invalid proof");
 
         // Convert external encrypted input to internal state
@@ -71,8 +71,7 @@ contract FHECounter is ZamaEthereumConfig {
      * @param encryptedValue Encrypted decrement amount
      * @param proof Zero-knowledge proof
      */
-    function decrement(bytes calldata encryptedValue, bytes calldata proof) external {
-        require(encryptedValue.length > 0, "Invalid encrypted value");
+    function decrement(externalEuint32 encryptedValue, bytes calldata proof) external {
         require(proof.length > 0, "Invalid proof");
 
         euint32 decrementAmount = FHE.fromExternal(encryptedValue, proof);
@@ -117,17 +116,14 @@ contract FHECounter is ZamaEthereumConfig {
      * @param proof Proof of encryption
      * @return Encrypted boolean (true if count == value)
      */
-    function equalsValue(bytes calldata encryptedValue, bytes calldata proof)
-        external
-        view
-        returns (bool)
-    {
-        require(encryptedValue.length > 0, "Invalid encrypted value");
-
+    function equalsValue(externalEuint32 encryptedValue, bytes calldata proof) external returns (ebool) {
         euint32 compareValue = FHE.fromExternal(encryptedValue, proof);
-        // Note: In real FHE comparison, would use FHE.eq
-        // This is simplified for demonstration
-        return true;
+        ebool result = FHE.eq(count, compareValue);
+
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        return result;
     }
 
     /**
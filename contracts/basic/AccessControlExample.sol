@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -36,8 +36,8 @@ contract AccessControlExample is ZamaEthereumConfig {
      * @param inputHandle Encrypted balance input
      * @param inputProof Proof of valid encryption
      */
-    function storeBalance(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
-        euint32 balance = FHE.asEuint32(inputHandle, inputProof);
+    function storeBalance(externalEuint32 inputHandle, bytes calldata inputProof) external {
+        euint32 balance = FHE.fromExternal(inputHandle, inputProof);
 
         userBalances[msg.sender] = balance;
         hasBalance[msg.sender] = true;
@@ -118,13 +118,13 @@ contract AccessControlExample is ZamaEthereumConfig {
      * @param newInputHandle New encrypted balance
      * @param newInputProof Proof for new balance
      */
-    function rotateBalance(inEuint32 calldata newInputHandle, bytes calldata newInputProof)
+    function rotateBalance(externalEuint32 newInputHandle, bytes calldata newInputProof)
         external
     {
         require(hasBalance[msg.sender], "No balance stored");
 
         // Create new encrypted value (old permissions don't apply)
-        euint32 newBalance = FHE.asEuint32(newInputHandle, newInputProof);
+        euint32 newBalance = FHE.fromExternal(newInputHandle, newInputProof);
 
         // Replace old balance
         userBalances[msg.sender] = newBalance;
@@ -146,7 +146,6 @@ contract AccessControlExample is ZamaEthereumConfig {
      */
     function compareBalanceWithTransientPermission(address other)
         external
-        view
         returns (ebool)
     {
         require(hasBalance[msg.sender], "No balance stored");
@@ -173,10 +172,10 @@ contract AccessControlExample is ZamaEthereumConfig {
      * @param inputHandle Encrypted amount to add
      * @param inputProof Proof for the amount
      */
-    function addToBalance(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
+    function addToBalance(externalEuint32 inputHandle, bytes calldata inputProof) external {
         require(hasBalance[msg.sender], "No balance stored");
 
-        euint32 amount = FHE.asEuint32(inputHandle, inputProof);
+        euint32 amount = FHE.fromExternal(inputHandle, inputProof);
 
         // Perform encrypted addition
         euint32 newBalance = FHE.add(userBalances[msg.sender], amount);
@@ -201,8 +200,8 @@ contract AccessControlExample is ZamaEthereumConfig {
  * ==============================================================================
  *
  * ```solidity
- * function store(inEuint32 input, bytes proof) external {
- *     euint32 value = FHE.asEuint32(input, proof);
+ * function store(externalEuint32 input, bytes proof) external {
+ *     euint32 value = FHE.fromExternal(input, proof);
  *
  *     // ✅ ALWAYS grant both permissions:
  *     FHE.allowThis(value);           // Contract can operate on value
@@ -243,7 +242,7 @@ contract AccessControlExample is ZamaEthereumConfig {
  * ```solidity
  * function rotateSecret() external {
  *     // Old value: viewers have permission
- *     euint32 newValue = FHE.asEuint32(newInput, newProof);
+ *     euint32 newValue = FHE.fromExternal(newInput, newProof);
  *
  *     // New value: only owner has permission
  *     FHE.allowThis(newValue);
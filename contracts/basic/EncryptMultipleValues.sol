@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -37,17 +37,17 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
      * @param proof3 Proof for third value
      */
     function storeMultipleValues(
-        inEuint32 calldata input1,
+        externalEuint32 input1,
         bytes calldata proof1,
-        inEuint32 calldata input2,
+        externalEuint32 input2,
         bytes calldata proof2,
-        inEuint32 calldata input3,
+        externalEuint32 input3,
         bytes calldata proof3
     ) external {
         // Convert all inputs to encrypted values
-        euint32 encValue1 = FHE.asEuint32(input1, proof1);
-        euint32 encValue2 = FHE.asEuint32(input2, proof2);
-        euint32 encValue3 = FHE.asEuint32(input3, proof3);
+        euint32 encValue1 = FHE.fromExternal(input1, proof1);
+        euint32 encValue2 = FHE.fromExternal(input2, proof2);
+        euint32 encValue3 = FHE.fromExternal(input3, proof3);
 
         // Store all values
         userData[msg.sender] = UserData({
@@ -81,13 +81,13 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
      */
     function updateSingleValue(
         uint8 valueIndex,
-        inEuint32 calldata inputHandle,
+        externalEuint32 inputHandle,
         bytes calldata inputProof
     ) external {
         require(userData[msg.sender].initialized, "No data stored yet");
         require(valueIndex >= 1 && valueIndex <= 3, "Invalid value index");
 
-        euint32 newValue = FHE.asEuint32(inputHandle, inputProof);
+        euint32 newValue = FHE.fromExternal(inputHandle, inputProof);
 
         // Update specific value based on index
         if (valueIndex == 1) {
@@ -147,7 +147,7 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
      * @dev Demonstrates FHE operations on multiple encrypted values
      * @return The encrypted sum of all three values
      */
-    function calculateSum() external view returns (euint32) {
+    function calculateSum() external returns (euint32) {
         require(userData[msg.sender].initialized, "No data stored");
 
         UserData memory data = userData[msg.sender];
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -29,10 +29,10 @@ contract EncryptSingleValue is ZamaEthereumConfig {
      * @param inputHandle The encrypted input handle from client
      * @param inputProof Zero-knowledge proof that the encryption is valid
      */
-    function storeValue(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
+    function storeValue(externalEuint32 inputHandle, bytes calldata inputProof) external {
         // Convert external encrypted input to internal encrypted value
         // This validates the input proof and binds the value to this contract
-        euint32 value = FHE.asEuint32(inputHandle, inputProof);
+        euint32 value = FHE.fromExternal(inputHandle, inputProof);
 
         // Store the encrypted value
         encryptedValue = value;
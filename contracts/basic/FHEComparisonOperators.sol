@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -23,8 +23,8 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param inputHandle Encrypted value
      * @param inputProof Proof of valid encryption
      */
-    function storeValue(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
-        euint32 value = FHE.asEuint32(inputHandle, inputProof);
+    function storeValue(externalEuint32 inputHandle, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(inputHandle, inputProof);
 
         userValues[msg.sender] = value;
         hasValue[msg.sender] = true;
@@ -46,7 +46,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param threshold Value to compare against
      * @return Encrypted boolean result
      */
-    function isGreaterThan(uint32 threshold) external view returns (ebool) {
+    function isGreaterThan(uint32 threshold) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encThreshold = FHE.asEuint32(threshold);
@@ -54,14 +54,14 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         // ✅ FHE.gt: Greater than
         ebool result = FHE.gt(userValues[msg.sender], encThreshold);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
      * @notice Greater Than or Equal (GTE) comparison
      * @dev Tests if user's value >= threshold
      *
-     * OPERATION: FHE.gte(a, b)
+     * OPERATION: FHE.ge(a, b)
      * RESULT: ebool
      * MEANING: a >= b (greater or equal)
      *
@@ -70,15 +70,15 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param threshold Value to compare against
      * @return Encrypted boolean result
      */
-    function isGreaterOrEqual(uint32 threshold) external view returns (ebool) {
+    function isGreaterOrEqual(uint32 threshold) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encThreshold = FHE.asEuint32(threshold);
 
-        // ✅ FHE.gte: Greater than or equal
-        ebool result = FHE.gte(userValues[msg.sender], encThreshold);
+        // ✅ FHE.ge: Greater than or equal
+        ebool result = FHE.ge(userValues[msg.sender], encThreshold);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
@@ -92,7 +92,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param threshold Value to compare against
      * @return Encrypted boolean result
      */
-    function isLessThan(uint32 threshold) external view returns (ebool) {
+    function isLessThan(uint32 threshold) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encThreshold = FHE.asEuint32(threshold);
@@ -100,29 +100,29 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         // ✅ FHE.lt: Less than
         ebool result = FHE.lt(userValues[msg.sender], encThreshold);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
      * @notice Less Than or Equal (LTE) comparison
      * @dev Tests if user's value <= threshold
      *
-     * OPERATION: FHE.lte(a, b)
+     * OPERATION: FHE.le(a, b)
      * RESULT: ebool
      * MEANING: a <= b (less or equal)
      *
      * @param threshold Value to compare against
      * @return Encrypted boolean result
      */
-    function isLessOrEqual(uint32 threshold) external view returns (ebool) {
+    function isLessOrEqual(uint32 threshold) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encThreshold = FHE.asEuint32(threshold);
 
-        // ✅ FHE.lte: Less than or equal
-        ebool result = FHE.lte(userValues[msg.sender], encThreshold);
+        // ✅ FHE.le: Less than or equal
+        ebool result = FHE.le(userValues[msg.sender], encThreshold);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
@@ -138,7 +138,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param target Value to compare against
      * @return Encrypted boolean result
      */
-    function isEqual(uint32 target) external view returns (ebool) {
+    function isEqual(uint32 target) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encTarget = FHE.asEuint32(target);
@@ -146,7 +146,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         // ✅ FHE.eq: Equal
         ebool result = FHE.eq(userValues[msg.sender], encTarget);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
@@ -160,7 +160,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param target Value to compare against
      * @return Encrypted boolean result
      */
-    function isNotEqual(uint32 target) external view returns (ebool) {
+    function isNotEqual(uint32 target) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 encTarget = FHE.asEuint32(target);
@@ -168,7 +168,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         // ✅ FHE.ne: Not equal
         ebool result = FHE.ne(userValues[msg.sender], encTarget);
 
-        return result;
+        return _shareWithCaller(result);
     }
 
     /**
@@ -178,12 +178,12 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param otherUser Address of user to compare with
      * @return True if msg.sender's value > otherUser's value
      */
-    function isGreaterThanUser(address otherUser) external view returns (ebool) {
+    function isGreaterThanUser(address otherUser) external returns (ebool) {
         require(hasValue[msg.sender], "You have no value");
         require(hasValue[otherUser], "Other user has no value");
 
         // Compare two encrypted values
-        return FHE.gt(userValues[msg.sender], userValues[otherUser]);
+        return _shareWithCaller(FHE.gt(userValues[msg.sender], userValues[otherUser]));
     }
 
     /**
@@ -196,7 +196,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
      * @param max Maximum value (inclusive)
      * @return Encrypted boolean (true if in range)
      */
-    function isInRange(uint32 min, uint32 max) external view returns (ebool) {
+    function isInRange(uint32 min, uint32 max) external returns (ebool) {
         require(hasValue[msg.sender], "No value stored");
         require(min <= max, "Invalid range");
 
@@ -204,13 +204,13 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         euint32 encMax = FHE.asEuint32(max);
 
         // value >= min
-        ebool aboveMin = FHE.gte(userValues[msg.sender], encMin);
+        ebool aboveMin = FHE.ge(userValues[msg.sender], encMin);
 
         // value <= max
-        ebool belowMax = FHE.lte(userValues[msg.sender], encMax);
+        ebool belowMax = FHE.le(userValues[msg.sender], encMax);
 
         // Combine with AND
-        return FHE.and(aboveMin, belowMax);
+        return _shareWithCaller(FHE.and(aboveMin, belowMax));
     }
 
     /**
@@ -228,17 +228,28 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
         uint32 threshold1,
         uint32 threshold2,
         uint32 threshold3
-    ) external view returns (ebool result1, ebool result2, ebool result3) {
+    ) external returns (ebool result1, ebool result2, ebool result3) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 value = userValues[msg.sender];
 
-        result1 = FHE.gte(value, FHE.asEuint32(threshold1));
-        result2 = FHE.gte(value, FHE.asEuint32(threshold2));
-        result3 = FHE.gte(value, FHE.asEuint32(threshold3));
+        result1 = _shareWithCaller(FHE.ge(value, FHE.asEuint32(threshold1)));
+        result2 = _shareWithCaller(FHE.ge(value, FHE.asEuint32(threshold2)));
+        result3 = _shareWithCaller(FHE.ge(value, FHE.asEuint32(threshold3)));
 
         return (result1, result2, result3);
     }
+
+    /**
+     * @dev Let the caller decrypt a comparison result
+     *
+     * Without these grants the returned ebool is a handle nobody may decrypt.
+     */
+    function _shareWithCaller(ebool result) private returns (ebool) {
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+        return result;
+    }
 }
 
 /**
@@ -251,9 +262,9 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * | Operator | Solidity | FHE Equivalent | Returns | Meaning |
  * |----------|----------|----------------|---------|---------|
  * | >        | a > b    | FHE.gt(a, b)   | ebool   | Greater than |
- * | >=       | a >= b   | FHE.gte(a, b)  | ebool   | Greater or equal |
+ * | >=       | a >= b   | FHE.ge(a, b)  | ebool   | Greater or equal |
  * | <        | a < b    | FHE.lt(a, b)   | ebool   | Less than |
- * | <=       | a <= b   | FHE.lte(a, b)  | ebool   | Less or equal |
+ * | <=       | a <= b   | FHE.le(a, b)  | ebool   | Less or equal |
  * | ==       | a == b   | FHE.eq(a, b)   | ebool   | Equal |
  * | !=       | a != b   | FHE.ne(a, b)   | ebool   | Not equal |
  *
@@ -266,7 +277,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * euint32 encrypted = userValue;
  * uint32 threshold = 100;
  *
- * ebool result = FHE.gte(encrypted, FHE.asEuint32(threshold));
+ * ebool result = FHE.ge(encrypted, FHE.asEuint32(threshold));
  * ```
  *
  * **Pattern 2: Compare Two Encrypted Values**
@@ -279,8 +290,8 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  *
  * **Pattern 3: Chain Comparisons**
  * ```solidity
- * ebool isAbove = FHE.gte(value, threshold);
- * ebool isBelow = FHE.lte(value, max);
+ * ebool isAbove = FHE.ge(value, threshold);
+ * ebool isBelow = FHE.le(value, max);
  * ebool inRange = FHE.and(isAbove, isBelow);
  * ```
  *
@@ -291,16 +302,16 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * **Example 1: Age Verification**
  * ```solidity
  * function isAdult() external view returns (ebool) {
- *     return FHE.gte(encryptedAge, FHE.asEuint8(18));
+ *     return FHE.ge(encryptedAge, FHE.asEuint8(18));
  * }
  * ```
  *
  * **Example 2: Credit Score Tiers**
  * ```solidity
  * function getCreditTier() external view returns (ebool, ebool, ebool) {
- *     ebool excellent = FHE.gte(score, FHE.asEuint32(750));
- *     ebool good = FHE.gte(score, FHE.asEuint32(700));
- *     ebool fair = FHE.gte(score, FHE.asEuint32(650));
+ *     ebool excellent = FHE.ge(score, FHE.asEuint32(750));
+ *     ebool good = FHE.ge(score, FHE.asEuint32(700));
+ *     ebool fair = FHE.ge(score, FHE.asEuint32(650));
  *     return (excellent, good, fair);
  * }
  * ```
@@ -350,14 +361,14 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * **Option 1: Return Encrypted (Recommended)**
  * ```solidity
  * function check() external view returns (ebool) {
- *     return FHE.gte(value, threshold);  // ✅ User decrypts client-side
+ *     return FHE.ge(value, threshold);  // ✅ User decrypts client-side
  * }
  * ```
  *
  * **Option 2: Use in Contract Logic**
  * ```solidity
  * function conditionalAction() external {
- *     ebool qualified = FHE.gte(userScore, minScore);
+ *     ebool qualified = FHE.ge(userScore, minScore);
  *     euint32 reward = FHE.select(qualified, highReward, lowReward);
  * }
  * ```
@@ -365,7 +376,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * **Option 3: Public Decryption (Careful!)**
  * ```solidity
  * function revealResult() external returns (bool) {
- *     ebool result = FHE.gte(value, threshold);
+ *     ebool result = FHE.ge(value, threshold);
  *     return FHE.decrypt(result);  // ⚠️  Exposes result!
  * }
  * ```
@@ -377,7 +388,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * Operation             | Gas Cost
  * ----------------------|----------
  * FHE.gt/lt             | ~50,000
- * FHE.gte/lte           | ~50,000
+ * FHE.ge/lte           | ~50,000
  * FHE.eq/ne             | ~45,000
  * FHE.asEuint32()       | ~30,000
  * Multiple comparisons  | ~50k × count
@@ -414,7 +425,7 @@ contract FHEComparisonOperators is ZamaEthereumConfig {
  * ❌ **Mistake 4: Decrypting in View**
  * ```solidity
  * function check() external view returns (bool) {
- *     ebool result = FHE.gte(value, threshold);
+ *     ebool result = FHE.ge(value, threshold);
  *     return FHE.decrypt(result);  // ❌ Can't modify state in view
  * }
  * ```
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint16, euint8, inEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint16, euint8, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -22,8 +22,8 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param inputHandle Encrypted value
      * @param inputProof Proof of valid encryption
      */
-    function storeValue(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
-        euint32 value = FHE.asEuint32(inputHandle, inputProof);
+    function storeValue(externalEuint32 inputHandle, bytes calldata inputProof) external {
+        euint32 value = FHE.fromExternal(inputHandle, inputProof);
 
         userValues[msg.sender] = value;
         hasValue[msg.sender] = true;
@@ -57,11 +57,11 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
         uint32 threshold,
         uint32 highReward,
         uint32 lowReward
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         // Create condition: value >= threshold
-        ebool qualified = FHE.gte(
+        ebool qualified = FHE.ge(
             userValues[msg.sender],
             FHE.asEuint32(threshold)
         );
@@ -73,7 +73,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
             FHE.asEuint32(lowReward)
         );
 
-        return reward;
+        return _shareWithCaller(reward);
     }
 
     /**
@@ -87,13 +87,13 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param other Value to compare with
      * @return The minimum value (encrypted)
      */
-    function getMin(uint32 other) external view returns (euint32) {
+    function getMin(uint32 other) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 otherEnc = FHE.asEuint32(other);
 
         // ✅ FHE.min: Returns smaller of two values
-        return FHE.min(userValues[msg.sender], otherEnc);
+        return _shareWithCaller(FHE.min(userValues[msg.sender], otherEnc));
     }
 
     /**
@@ -107,13 +107,13 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param other Value to compare with
      * @return The maximum value (encrypted)
      */
-    function getMax(uint32 other) external view returns (euint32) {
+    function getMax(uint32 other) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 otherEnc = FHE.asEuint32(other);
 
         // ✅ FHE.max: Returns larger of two values
-        return FHE.max(userValues[msg.sender], otherEnc);
+        return _shareWithCaller(FHE.max(userValues[msg.sender], otherEnc));
     }
 
     /**
@@ -126,7 +126,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param max Maximum allowed value
      * @return Value clamped to [min, max] (encrypted)
      */
-    function clampToRange(uint32 min, uint32 max) external view returns (euint32) {
+    function clampToRange(uint32 min, uint32 max) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
         require(min <= max, "Invalid range");
 
@@ -137,7 +137,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
         // Clamp: max(min, min(value, max))
         euint32 clamped = FHE.max(encMin, FHE.min(value, encMax));
 
-        return clamped;
+        return _shareWithCaller(clamped);
     }
 
     /**
@@ -151,16 +151,16 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      *
      * @return Reward amount based on value tier (encrypted)
      */
-    function getTieredReward() external view returns (euint32) {
+    function getTieredReward() external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 value = userValues[msg.sender];
 
         // Check if premium tier (>= 1000)
-        ebool isPremium = FHE.gte(value, FHE.asEuint32(1000));
+        ebool isPremium = FHE.ge(value, FHE.asEuint32(1000));
 
         // Check if standard tier (>= 500)
-        ebool isStandard = FHE.gte(value, FHE.asEuint32(500));
+        ebool isStandard = FHE.ge(value, FHE.asEuint32(500));
 
         // Nested select: if (isPremium) 300 else if (isStandard) 150 else 50
         euint32 standardOrBasic = FHE.select(
@@ -175,7 +175,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
             standardOrBasic       // Standard or Basic
         );
 
-        return reward;
+        return _shareWithCaller(reward);
     }
 
     /**
@@ -187,7 +187,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param other Value to compare with
      * @return Absolute difference (encrypted)
      */
-    function getAbsoluteDifference(uint32 other) external view returns (euint32) {
+    function getAbsoluteDifference(uint32 other) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 value = userValues[msg.sender];
@@ -200,7 +200,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
         euint32 diff1 = FHE.sub(value, otherEnc);
         euint32 diff2 = FHE.sub(otherEnc, value);
 
-        return FHE.select(valueGreater, diff1, diff2);
+        return _shareWithCaller(FHE.select(valueGreater, diff1, diff2));
     }
 
     /**
@@ -213,17 +213,17 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param threshold Threshold for bonus
      * @return Value with conditional bonus applied (encrypted)
      */
-    function applyConditionalBonus(uint32 threshold) external view returns (euint32) {
+    function applyConditionalBonus(uint32 threshold) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 value = userValues[msg.sender];
-        ebool qualified = FHE.gte(value, FHE.asEuint32(threshold));
+        ebool qualified = FHE.ge(value, FHE.asEuint32(threshold));
 
         // Calculate doubled value
         euint32 doubled = FHE.mul(value, FHE.asEuint32(2));
 
         // Return doubled if qualified, original otherwise
-        return FHE.select(qualified, doubled, value);
+        return _shareWithCaller(FHE.select(qualified, doubled, value));
     }
 
     /**
@@ -234,7 +234,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param value3 Third value
      * @return Minimum of three values (encrypted)
      */
-    function getMinOfThree(uint32 value2, uint32 value3) external view returns (euint32) {
+    function getMinOfThree(uint32 value2, uint32 value3) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 val1 = userValues[msg.sender];
@@ -242,7 +242,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
         euint32 val3 = FHE.asEuint32(value3);
 
         // Chain min: min(min(val1, val2), val3)
-        return FHE.min(FHE.min(val1, val2), val3);
+        return _shareWithCaller(FHE.min(FHE.min(val1, val2), val3));
     }
 
     /**
@@ -255,7 +255,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
      * @param value3 Third value
      * @return Median value (encrypted)
      */
-    function getMedianOfThree(uint32 value2, uint32 value3) external view returns (euint32) {
+    function getMedianOfThree(uint32 value2, uint32 value3) external returns (euint32) {
         require(hasValue[msg.sender], "No value stored");
 
         euint32 a = userValues[msg.sender];
@@ -263,10 +263,21 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
         euint32 c = FHE.asEuint32(value3);
 
         // Median = max(min(a,b), min(max(a,b), c))
-        return FHE.max(
+        return _shareWithCaller(FHE.max(
             FHE.min(a, b),
             FHE.min(FHE.max(a, b), c)
-        );
+        ));
+    }
+
+    /**
+     * @dev Let the caller decrypt a computed result
+     *
+     * Without these grants the returned euint32 is a handle nobody may decrypt.
+     */
+    function _shareWithCaller(euint32 result) private returns (euint32) {
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+        return result;
     }
 }
 
@@ -301,7 +312,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
  *
  * **Example 1: Conditional Reward**
  * ```solidity
- * ebool highScore = FHE.gte(score, FHE.asEuint32(100));
+ * ebool highScore = FHE.ge(score, FHE.asEuint32(100));
  * euint32 reward = FHE.select(
  *     highScore,
  *     FHE.asEuint32(1000),  // High reward
@@ -311,7 +322,7 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
  *
  * **Example 2: Tier Selection**
  * ```solidity
- * ebool isVIP = FHE.gte(membershipLevel, FHE.asEuint8(5));
+ * ebool isVIP = FHE.ge(membershipLevel, FHE.asEuint8(5));
  * euint32 discount = FHE.select(
  *     isVIP,
  *     FHE.asEuint32(20),   // 20% for VIP
@@ -402,9 +413,9 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
  * **Pattern 2: Multi-Tier System**
  * ```solidity
  * function getTier(euint32 score) returns (euint8) {
- *     ebool isPlatinum = FHE.gte(score, FHE.asEuint32(1000));
- *     ebool isGold = FHE.gte(score, FHE.asEuint32(500));
- *     ebool isSilver = FHE.gte(score, FHE.asEuint32(100));
+ *     ebool isPlatinum = FHE.ge(score, FHE.asEuint32(1000));
+ *     ebool isGold = FHE.ge(score, FHE.asEuint32(500));
+ *     ebool isSilver = FHE.ge(score, FHE.asEuint32(100));
  *
  *     euint8 tier = FHE.select(isPlatinum, FHE.asEuint8(4), FHE.asEuint8(0));
  *     tier = FHE.select(isGold, FHE.asEuint8(3), tier);
@@ -417,8 +428,8 @@ contract FHEConditionalOperations is ZamaEthereumConfig {
  * **Pattern 3: Progressive Tax**
  * ```solidity
  * function calculateTax(euint32 income) returns (euint32) {
- *     ebool highBracket = FHE.gte(income, FHE.asEuint32(100000));
- *     ebool midBracket = FHE.gte(income, FHE.asEuint32(50000));
+ *     ebool highBracket = FHE.ge(income, FHE.asEuint32(100000));
+ *     ebool midBracket = FHE.ge(income, FHE.asEuint32(50000));
  *
  *     // 30% for high, 20% for mid, 10% for low
  *     euint32 rate = FHE.select(highBracket, FHE.asEuint32(30), FHE.asEuint32(10));
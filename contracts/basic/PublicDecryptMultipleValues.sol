@@ -1,7 +1,15 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint16, euint8, inEuint32, inEuint16, inEuint8 } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint32,
+    euint16,
+    euint8,
+    externalEuint32,
+    externalEuint16,
+    externalEuint8
+} from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -46,6 +54,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
 
     // Events
     event StatsStored(address indexed player, uint256 timestamp);
+    event StatsRevealRequested(address indexed player, euint32 score, euint16 level, euint8 achievements);
     event StatsRevealed(
         address indexed player,
         uint32 score,
@@ -72,19 +81,19 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
      * @param achievementsProof Proof for achievements
      */
     function storeStats(
-        inEuint32 calldata scoreInput,
+        externalEuint32 scoreInput,
         bytes calldata scoreProof,
-        inEuint16 calldata levelInput,
+        externalEuint16 levelInput,
         bytes calldata levelProof,
-        inEuint8 calldata achievementsInput,
+        externalEuint8 achievementsInput,
         bytes calldata achievementsProof
     ) external {
         require(!gameEnded, "Game has ended");
 
         // Convert all inputs
-        euint32 score = FHE.asEuint32(scoreInput, scoreProof);
-        euint16 level = FHE.asEuint16(levelInput, levelProof);
-        euint8 achievements = FHE.asEuint8(achievementsInput, achievementsProof);
+        euint32 score = FHE.fromExternal(scoreInput, scoreProof);
+        euint16 level = FHE.fromExternal(levelInput, levelProof);
+        euint8 achievements = FHE.fromExternal(achievementsInput, achievementsProof);
 
         // Store encrypted
         encryptedStats[msg.sender] = GameStats({
@@ -133,21 +142,49 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
      * - Tournament results
      * - Competition standings
      * - Game over statistics
+     *
+     * Decryption is asynchronous: the relayer decrypts the marked values
+     * off-chain and finalizeStatsReveal() stores them.
      */
     function revealStats() external {
         require(gameEnded, "Game not ended yet");
         require(encryptedStats[msg.sender].initialized, "No stats stored");
         require(!publicStats[msg.sender].revealed, "Already revealed");
 
-        GameStats memory stats = encryptedStats[msg.sender];
+        _requestStatsReveal(msg.sender);
+    }
 
-        // ⚠️  DECRYPT ALL VALUES - EXPOSES TO EVERYONE!
-        uint32 revealedScore = FHE.decrypt(stats.score);
-        uint16 revealedLevel = FHE.decrypt(stats.level);
-        uint8 revealedAchievements = FHE.decrypt(stats.achievements);
+    /**
+     * @notice Store publicly decrypted stats
+     * @dev Anyone may submit the result; FHE.checkSignatures reverts on a forged proof.
+     *      The three values are decrypted together and verified with one proof.
+     *
+     * @param player Address whose stats were revealed
+     * @param abiEncodedClearStats ABI-encoded (uint32 score, uint16 level, uint8 achievements)
+     * @param decryptionProof KMS signatures over the decrypted values
+     */
+    function finalizeStatsReveal(
+        address player,
+        bytes calldata abiEncodedClearStats,
+        bytes calldata decryptionProof
+    ) external {
+        require(encryptedStats[player].initialized, "No stats stored");
+        require(!publicStats[player].revealed, "Already revealed");
+
+        GameStats memory stats = encryptedStats[player];
+        bytes32[] memory handles = new bytes32[](3);
+        handles[0] = euint32.unwrap(stats.score);
+        handles[1] = euint16.unwrap(stats.level);
+        handles[2] = euint8.unwrap(stats.achievements);
+        FHE.checkSignatures(handles, abiEncodedClearStats, decryptionProof);
+
+        (uint32 revealedScore, uint16 revealedLevel, uint8 revealedAchievements) = abi.decode(
+            abiEncodedClearStats,
+            (uint32, uint16, uint8)
+        );
 
         // Store publicly
-        publicStats[msg.sender] = PublicGameStats({
+        publicStats[player] = PublicGameStats({
             score: revealedScore,
             level: revealedLevel,
             achievements: revealedAchievements,
@@ -155,7 +192,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
         });
 
         emit StatsRevealed(
-            msg.sender,
+            player,
             revealedScore,
             revealedLevel,
             revealedAchievements,
@@ -163,6 +200,19 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
         );
     }
 
+    /**
+     * @dev ⚠️  MARK ALL VALUES PUBLICLY DECRYPTABLE - EXPOSES THEM TO EVERYONE!
+     */
+    function _requestStatsReveal(address player) private {
+        GameStats memory stats = encryptedStats[player];
+
+        FHE.makePubliclyDecryptable(stats.score);
+        FHE.makePubliclyDecryptable(stats.level);
+        FHE.makePubliclyDecryptable(stats.achievements);
+
+        emit StatsRevealRequested(player, stats.score, stats.level, stats.achievements);
+    }
+
     /**
      * @notice Get publicly revealed stats for any player
      * @dev Anyone can call this after player reveals
@@ -215,7 +265,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
      *
      * @return Total encrypted score
      */
-    function calculateTotalScore() external view returns (euint32) {
+    function calculateTotalScore() external returns (euint32) {
         require(encryptedStats[msg.sender].initialized, "No stats stored");
 
         GameStats memory stats = encryptedStats[msg.sender];
@@ -227,6 +277,10 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
         euint32 total = FHE.add(stats.score, levelAs32);
         total = FHE.add(total, achievementsAs32);
 
+        // Let the caller decrypt the sum
+        FHE.allowThis(total);
+        FHE.allow(total, msg.sender);
+
         return total;
     }
 
@@ -249,20 +303,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
                 encryptedStats[player].initialized &&
                 !publicStats[player].revealed
             ) {
-                GameStats memory stats = encryptedStats[player];
-
-                uint32 score = FHE.decrypt(stats.score);
-                uint16 level = FHE.decrypt(stats.level);
-                uint8 achievements = FHE.decrypt(stats.achievements);
-
-                publicStats[player] = PublicGameStats({
-                    score: score,
-                    level: level,
-                    achievements: achievements,
-                    revealed: true
-                });
-
-                emit StatsRevealed(player, score, level, achievements, block.timestamp);
+                _requestStatsReveal(player);
             }
         }
     }
@@ -284,7 +325,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
  *     bool public tournamentEnded;
  *
  *     // During tournament: encrypted
- *     function submitScore(inEuint32 score, bytes proof) external {
+ *     function submitScore(externalEuint32 score, bytes proof) external {
  *         require(!tournamentEnded, "Tournament ended");
  *         // Store encrypted...
  *     }
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -23,7 +23,9 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
 
     // Events
     event BalanceStored(address indexed user, uint256 timestamp);
+    event BalanceRevealRequested(address indexed user, euint32 handle);
     event BalanceRevealed(address indexed user, uint32 amount, uint256 timestamp);
+    event ThresholdRevealRequested(address indexed user, uint32 threshold, ebool handle);
 
     /**
      * @notice Store an encrypted balance
@@ -32,8 +34,8 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
      * @param inputHandle Encrypted balance input
      * @param inputProof Proof of valid encryption
      */
-    function storeBalance(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
-        euint32 balance = FHE.asEuint32(inputHandle, inputProof);
+    function storeBalance(externalEuint32 inputHandle, bytes calldata inputProof) external {
+        euint32 balance = FHE.fromExternal(inputHandle, inputProof);
 
         encryptedBalances[msg.sender] = balance;
         hasBalance[msg.sender] = true;
@@ -73,20 +75,53 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
      * - Hidden bids (before reveal)
      * - Personal financial data
      * - Any data that should remain private
+     *
+     * Decryption is asynchronous: this marks the balance publicly decryptable,
+     * the relayer decrypts it off-chain and finalizeBalanceReveal() stores it.
      */
     function revealBalance() external {
         require(hasBalance[msg.sender], "No balance stored");
         require(!hasPublicBalance[msg.sender], "Already revealed");
 
-        // ⚠️  PUBLIC DECRYPTION: This exposes the plaintext value!
-        uint32 revealedBalance = FHE.decrypt(encryptedBalances[msg.sender]);
+        _requestBalanceReveal(msg.sender);
+    }
+
+    /**
+     * @notice Store a publicly decrypted balance
+     * @dev Anyone may submit the result; FHE.checkSignatures reverts on a forged proof
+     *
+     * @param user Address whose balance was revealed
+     * @param abiEncodedClearBalance ABI-encoded uint32 balance
+     * @param decryptionProof KMS signatures over the decrypted value
+     */
+    function finalizeBalanceReveal(
+        address user,
+        bytes calldata abiEncodedClearBalance,
+        bytes calldata decryptionProof
+    ) external {
+        require(hasBalance[user], "No balance stored");
+        require(!hasPublicBalance[user], "Already revealed");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = euint32.unwrap(encryptedBalances[user]);
+        FHE.checkSignatures(handles, abiEncodedClearBalance, decryptionProof);
+
+        uint32 revealedBalance = abi.decode(abiEncodedClearBalance, (uint32));
 
         // Store publicly visible result
-        publicBalances[msg.sender] = revealedBalance;
-        hasPublicBalance[msg.sender] = true;
+        publicBalances[user] = revealedBalance;
+        hasPublicBalance[user] = true;
 
         // ⚠️  This event exposes the decrypted value to everyone!
-        emit BalanceRevealed(msg.sender, revealedBalance, block.timestamp);
+        emit BalanceRevealed(user, revealedBalance, block.timestamp);
+    }
+
+    /**
+     * @dev ⚠️  PUBLIC DECRYPTION: anyone can decrypt the balance from now on
+     */
+    function _requestBalanceReveal(address user) private {
+        FHE.makePubliclyDecryptable(encryptedBalances[user]);
+        emit BalanceRevealRequested(user, encryptedBalances[user]);
     }
 
     /**
@@ -117,21 +152,23 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
      * USE CASE: "Prove I have at least X without revealing exact amount"
      *
      * @param threshold Amount to compare against
-     * @return True if balance >= threshold
+     * @return Publicly decryptable handle of (balance >= threshold)
      */
-    function revealAboveThreshold(uint32 threshold) external returns (bool) {
+    function revealAboveThreshold(uint32 threshold) external returns (ebool) {
         require(hasBalance[msg.sender], "No balance stored");
 
         // Compare encrypted value with threshold
-        ebool result = FHE.gte(
+        ebool result = FHE.ge(
             encryptedBalances[msg.sender],
             FHE.asEuint32(threshold)
         );
 
-        // ⚠️  Decrypt and reveal the comparison result (not the actual balance)
-        bool isAbove = FHE.decrypt(result);
+        // ⚠️  Reveal the comparison result (not the actual balance)
+        FHE.allowThis(result);
+        FHE.makePubliclyDecryptable(result);
+        emit ThresholdRevealRequested(msg.sender, threshold, result);
 
-        return isAbove;
+        return result;
     }
 
     /**
@@ -140,20 +177,13 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
      *
      * @param deadline Block timestamp after which revelation is allowed
      */
-    function timedReveal(uint256 deadline) external returns (uint32) {
+    function timedReveal(uint256 deadline) external {
         require(hasBalance[msg.sender], "No balance stored");
         require(block.timestamp >= deadline, "Deadline not reached");
         require(!hasPublicBalance[msg.sender], "Already revealed");
 
-        // Decrypt after deadline
-        uint32 revealedBalance = FHE.decrypt(encryptedBalances[msg.sender]);
-
-        publicBalances[msg.sender] = revealedBalance;
-        hasPublicBalance[msg.sender] = true;
-
-        emit BalanceRevealed(msg.sender, revealedBalance, block.timestamp);
-
-        return revealedBalance;
+        // Decrypt after deadline (stored by finalizeBalanceReveal)
+        _requestBalanceReveal(msg.sender);
     }
 }
 
@@ -167,7 +197,7 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
  * 1. **SEALED-BID AUCTIONS**
  *    ```solidity
  *    // During auction: bids are encrypted
- *    function placeBid(inEuint32 bid, bytes proof) external;
+ *    function placeBid(externalEuint32 bid, bytes proof) external;
  *
  *    // After auction ends: reveal winning bid
  *    function revealWinner() external returns (uint32 winningBid) {
@@ -179,7 +209,7 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
  * 2. **VOTING RESULTS**
  *    ```solidity
  *    // During voting: votes encrypted
- *    function vote(inEuint8 choice, bytes proof) external;
+ *    function vote(externalEuint8 choice, bytes proof) external;
  *
  *    // After voting: reveal totals
  *    function revealResults() external returns (uint32[]) {
@@ -214,7 +244,7 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
  *    ```solidity
  *    // Reveal only IF condition met
  *    function revealIfQualified(uint32 threshold) external returns (bool) {
- *        ebool qualified = FHE.gte(score, FHE.asEuint32(threshold));
+ *        ebool qualified = FHE.ge(score, FHE.asEuint32(threshold));
  *        // ✅ OK: Only revealing yes/no, not actual score
  *        return FHE.decrypt(qualified);
  *    }
@@ -291,7 +321,7 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
  * 2. **ENCRYPTED COMPARISONS**
  *    ```solidity
  *    function isAboveThreshold(uint32 t) external view returns (ebool) {
- *        return FHE.gte(balance, FHE.asEuint32(t));  // ✅ Result encrypted
+ *        return FHE.ge(balance, FHE.asEuint32(t));  // ✅ Result encrypted
  *    }
  *    // Comparison result stays encrypted
  *    ```
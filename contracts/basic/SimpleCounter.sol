@@ -166,7 +166,7 @@ contract SimpleCounter {
  *
  * Converting SimpleCounter to FHECounter:
  * 1. Replace `uint32` with `euint32`
- * 2. Use `inEuint32` for function inputs
+ * 2. Use `externalEuint32` for function inputs
  * 3. Add proof validation with `FHE.asEuint32()`
  * 4. Add permission grants with `FHE.allow()`
  * 5. Remove value data from events
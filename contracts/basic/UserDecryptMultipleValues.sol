@@ -1,7 +1,15 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint16, euint8, inEuint32, inEuint16, inEuint8 } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint32,
+    euint16,
+    euint8,
+    externalEuint32,
+    externalEuint16,
+    externalEuint8
+} from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -40,17 +48,17 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
      * @param proof3 Proof for third value
      */
     function storeSecrets(
-        inEuint32 calldata input1,
+        externalEuint32 input1,
         bytes calldata proof1,
-        inEuint16 calldata input2,
+        externalEuint16 input2,
         bytes calldata proof2,
-        inEuint8 calldata input3,
+        externalEuint8 input3,
         bytes calldata proof3
     ) external {
         // Convert all inputs to encrypted values
-        euint32 secret1 = FHE.asEuint32(input1, proof1);
-        euint16 secret2 = FHE.asEuint16(input2, proof2);
-        euint8 secret3 = FHE.asEuint8(input3, proof3);
+        euint32 secret1 = FHE.fromExternal(input1, proof1);
+        euint16 secret2 = FHE.fromExternal(input2, proof2);
+        euint8 secret3 = FHE.fromExternal(input3, proof3);
 
         // Store all secrets
         userSecrets[msg.sender] = UserSecrets({
@@ -138,26 +146,26 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
      */
     function updateSecret(
         uint8 index,
-        inEuint32 calldata input32,
-        inEuint16 calldata input16,
-        inEuint8 calldata input8,
+        externalEuint32 input32,
+        externalEuint16 input16,
+        externalEuint8 input8,
         bytes calldata proof
     ) external {
         require(userSecrets[msg.sender].initialized, "No secrets stored");
         require(index >= 1 && index <= 3, "Invalid index");
 
         if (index == 1) {
-            euint32 newValue = FHE.asEuint32(input32, proof);
+            euint32 newValue = FHE.fromExternal(input32, proof);
             userSecrets[msg.sender].value1 = newValue;
             FHE.allowThis(newValue);
             FHE.allow(newValue, msg.sender);
         } else if (index == 2) {
-            euint16 newValue = FHE.asEuint16(input16, proof);
+            euint16 newValue = FHE.fromExternal(input16, proof);
             userSecrets[msg.sender].value2 = newValue;
             FHE.allowThis(newValue);
             FHE.allow(newValue, msg.sender);
         } else {
-            euint8 newValue = FHE.asEuint8(input8, proof);
+            euint8 newValue = FHE.fromExternal(input8, proof);
             userSecrets[msg.sender].value3 = newValue;
             FHE.allowThis(newValue);
             FHE.allow(newValue, msg.sender);
@@ -172,7 +180,7 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
      *
      * @return Encrypted sum of all three values (as euint32)
      */
-    function computeSum() external view returns (euint32) {
+    function computeSum() external returns (euint32) {
         require(userSecrets[msg.sender].initialized, "No secrets stored");
 
         UserSecrets memory secrets = userSecrets[msg.sender];
@@ -185,6 +193,10 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
         euint32 sum = FHE.add(secrets.value1, val2As32);
         sum = FHE.add(sum, val3As32);
 
+        // Let the caller decrypt the sum
+        FHE.allowThis(sum);
+        FHE.allow(sum, msg.sender);
+
         return sum;
     }
 
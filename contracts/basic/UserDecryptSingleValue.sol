@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -27,9 +27,9 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
      * @param inputHandle Encrypted input handle
      * @param inputProof Zero-knowledge proof
      */
-    function storeSecret(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
+    function storeSecret(externalEuint32 inputHandle, bytes calldata inputProof) external {
         // Convert to encrypted value
-        euint32 secret = FHE.asEuint32(inputHandle, inputProof);
+        euint32 secret = FHE.fromExternal(inputHandle, inputProof);
 
         // Store the secret
         userSecrets[msg.sender] = secret;
@@ -58,7 +58,7 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
      *    const encrypted = await contract.getMySecret();
      *    const decrypted = await fhevm.decrypt(encrypted, userPrivateKey);
      */
-    function getMySecret() external view returns (euint32) {
+    function getMySecret() external returns (euint32) {
         require(hasSecret[msg.sender], "No secret stored");
 
         emit SecretAccessed(msg.sender, block.timestamp);
@@ -81,14 +81,14 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
      * @param threshold Plaintext threshold to compare against
      * @return Encrypted boolean result (true if secret >= threshold)
      */
-    function isSecretAboveThreshold(uint32 threshold) external view returns (ebool) {
+    function isSecretAboveThreshold(uint32 threshold) external returns (ebool) {
         require(hasSecret[msg.sender], "No secret stored");
 
         // Convert threshold to encrypted value
         euint32 encThreshold = FHE.asEuint32(threshold);
 
         // Compare (result is encrypted)
-        return FHE.gte(userSecrets[msg.sender], encThreshold);
+        return FHE.ge(userSecrets[msg.sender], encThreshold);
     }
 
     /**
@@ -98,11 +98,11 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
      * @param inputHandle Encrypted value to add
      * @param inputProof Proof for the value
      */
-    function addToSecret(inEuint32 calldata inputHandle, bytes calldata inputProof) external {
+    function addToSecret(externalEuint32 inputHandle, bytes calldata inputProof) external {
         require(hasSecret[msg.sender], "No secret stored");
 
         // Convert input to encrypted value
-        euint32 toAdd = FHE.asEuint32(inputHandle, inputProof);
+        euint32 toAdd = FHE.fromExternal(inputHandle, inputProof);
 
         // Add to existing secret (all operations on encrypted values)
         userSecrets[msg.sender] = FHE.add(userSecrets[msg.sender], toAdd);
@@ -141,7 +141,7 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
         require(hasSecret[msg.sender], "No secret stored");
 
         // Clear storage
-        delete userSecrets[msg.sender];
+        userSecrets[msg.sender] = euint32.wrap(0);
         delete hasSecret[msg.sender];
     }
 
@@ -164,8 +164,8 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
  *
  * 1. ON-CHAIN (SMART CONTRACT):
  *    ```solidity
- *    function storeSecret(inEuint32 input, bytes proof) {
- *        euint32 secret = FHE.asEuint32(input, proof);
+ *    function storeSecret(externalEuint32 input, bytes proof) {
+ *        euint32 secret = FHE.fromExternal(input, proof);
  *        FHE.allowThis(secret);
  *        FHE.allow(secret, msg.sender);  // ← Only user can decrypt
  *    }
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { ConfidentialGamingScoreUpgradeable } from "../ConfidentialGamingScoreUpgradeable.sol";
+import { ConfidentialGamingScoreCompetition } from "../ConfidentialGamingScoreCompetition.sol";
+
+/**
+ * @title ConfidentialGamingScoreUpgradeableV2
+ * @dev Test-only implementation used to exercise upgrades (appends one state variable)
+ *
+ * Only ever upgraded onto an initialized proxy, so it has no initializer of its own.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract ConfidentialGamingScoreUpgradeableV2 is ConfidentialGamingScoreUpgradeable {
+    /// @dev Message set by the owner after the upgrade
+    string public releaseNote;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(ConfidentialGamingScoreCompetition competition) ConfidentialGamingScoreUpgradeable(competition) {}
+
+    function setReleaseNote(string calldata note) external onlyOwner {
+        releaseNote = note;
+    }
+
+    function implementationVersion() external pure override returns (uint256) {
+        return 2;
+    }
+}
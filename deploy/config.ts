@@ -0,0 +1,141 @@
+import type { BaseContract, InterfaceAbi } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { exampleForContract } from "../scripts/catalog";
+import { connectGamingScore, GAMING_SCORE_ABI } from "../src/client/contract";
+
+/**
+ * Constructor argument of a catalog contract
+ *
+ * Values are resolved in order: CLI override (`--arg Contract.name=value`),
+ * environment variable, address of another deployed contract, default.
+ */
+export interface ConstructorArgSpec {
+  name: string;
+  type: "uint" | "address" | "string" | "bool";
+  /** Environment variable holding the value */
+  env?: string;
+  /** Contract whose deployed address is used (adds a dependency) */
+  deployment?: string;
+  default?: string;
+}
+
+/**
+ * Step run once after a fresh deployment (skipped when a deployment is reused)
+ */
+export interface InitStep {
+  description: string;
+  run: (contract: BaseContract, hre: HardhatRuntimeEnvironment) => Promise<void>;
+}
+
+/**
+ * Declarative deployment config of one contract
+ */
+export interface DeployConfig {
+  contractName: string;
+  /** Example name in the catalog (scripts/catalog.ts) */
+  example: string;
+  args: ConstructorArgSpec[];
+  /** Contracts that must be deployed first */
+  dependsOn: string[];
+  init: InitStep[];
+  /**
+   * Export of deploy/modules.ts that deploys the contract with its module
+   * chain; generated repositories call it instead of the contract factory
+   */
+  deployWith?: string;
+  /** ABI recorded in the manifest when the artifact's ABI does not cover the deployed API */
+  abi?: InterfaceAbi;
+}
+
+/**
+ * Helper: config of a contract without constructor args or init steps
+ */
+function simple(contractName: string): DeployConfig {
+  return { contractName, example: exampleForContract(contractName).name, args: [], dependsOn: [], init: [] };
+}
+
+/**
+ * Config of a ConfidentialGamingScore module, chained in front of `next`
+ *
+ * Modules belong to the confidential-gaming-score example and are deployed
+ * as dependencies of the score contract.
+ */
+function gamingScoreModule(contractName: string, next?: { name: string; deployment: string }): DeployConfig {
+  return {
+    contractName,
+    example: exampleForContract("ConfidentialGamingScore").name,
+    args: next ? [{ name: next.name, type: "address", deployment: next.deployment }] : [],
+    dependsOn: [],
+    init: [],
+  };
+}
+
+/** Achievements created on a fresh ConfidentialGamingScore deployment */
+export const DEFAULT_ACHIEVEMENTS: { title: string; requiredScore: number }[] = [
+  { title: "Bronze Player", requiredScore: 1000 },
+  { title: "Silver Player", requiredScore: 1500 },
+  { title: "Gold Player", requiredScore: 2000 },
+];
+
+/**
+ * Deployable contracts, keyed by contract name
+ */
+export const DEPLOY_CONFIGS: Record<string, DeployConfig> = {
+  ConfidentialGamingScore: {
+    contractName: "ConfidentialGamingScore",
+    example: exampleForContract("ConfidentialGamingScore").name,
+    args: [
+      {
+        name: "competition",
+        type: "address",
+        env: "GAMING_SCORE_COMPETITION",
+        deployment: "ConfidentialGamingScoreCompetition",
+      },
+    ],
+    dependsOn: [],
+    init: [
+      {
+        description: "Create default achievements",
+        run: async (contract) => {
+          const score = connectGamingScore(await contract.getAddress(), contract.runner);
+          for (const achievement of DEFAULT_ACHIEVEMENTS) {
+            const tx = await score.createAchievement(0, achievement.title, achievement.requiredScore);
+            await tx.wait();
+          }
+        },
+      },
+    ],
+    deployWith: "deployGamingScore",
+    abi: GAMING_SCORE_ABI,
+  },
+  ConfidentialGamingScoreCompetition: gamingScoreModule("ConfidentialGamingScoreCompetition", {
+    name: "achievements",
+    deployment: "ConfidentialGamingScoreAchievements",
+  }),
+  ConfidentialGamingScoreAchievements: gamingScoreModule("ConfidentialGamingScoreAchievements", {
+    name: "administration",
+    deployment: "ConfidentialGamingScoreAdministration",
+  }),
+  ConfidentialGamingScoreAdministration: gamingScoreModule("ConfidentialGamingScoreAdministration"),
+  FHECounter: simple("FHECounter"),
+  SimpleCounter: simple("SimpleCounter"),
+  EncryptSingleValue: simple("EncryptSingleValue"),
+  EncryptMultipleValues: simple("EncryptMultipleValues"),
+  UserDecryptSingleValue: simple("UserDecryptSingleValue"),
+  AccessControlExample: simple("AccessControlExample"),
+  BlindAuction: {
+    contractName: "BlindAuction",
+    example: exampleForContract("BlindAuction").name,
+    args: [
+      { name: "biddingDuration", type: "uint", env: "BLIND_AUCTION_BIDDING_DURATION", default: "3600" },
+      { name: "revealDuration", type: "uint", env: "BLIND_AUCTION_REVEAL_DURATION", default: "1800" },
+    ],
+    dependsOn: [],
+    init: [],
+  },
+  UserDecryptMultipleValues: simple("UserDecryptMultipleValues"),
+  PublicDecryptSingleValue: simple("PublicDecryptSingleValue"),
+  PublicDecryptMultipleValues: simple("PublicDecryptMultipleValues"),
+  FHEComparisonOperators: simple("FHEComparisonOperators"),
+  FHEConditionalOperations: simple("FHEConditionalOperations"),
+};
@@ -0,0 +1,80 @@
+import hre from "hardhat";
+import { DEPLOY_CONFIGS } from "./config";
+import { parseDeployMode } from "./manifest";
+import { formatSummaryTable, parseArgOverrides, runDeployPipeline } from "./pipeline";
+
+/**
+ * Deployment Script: Catalog deploy pipeline
+ *
+ * Deploys any or all catalog contracts (see deploy/config.ts) in dependency
+ * order, resolving constructor args from --arg flags, environment variables
+ * or defaults, and running post-deploy init steps on fresh deployments.
+ * Every contract is recorded in deployments/<network>/<Contract>.json.
+ *
+ * Targets are contract names or example names; `--all` deploys the catalog.
+ * `hardhat run` does not forward flags, so targets can also be given in
+ * DEPLOY_CONTRACTS (comma separated, or "all").
+ *
+ * On a local hardhat node, the FHEVM mock is set up before deploying; the
+ * in-process hardhat network has no FHEVM outside tests.
+ *
+ * Usage:
+ *   npm run node   # hardhat node --no-deploy, in another terminal, then:
+ *   npm run deploy:all
+ *   HARDHAT_NETWORK=zama npx ts-node deploy/deploy-all.ts --all
+ *   HARDHAT_NETWORK=zama npx ts-node deploy/deploy-all.ts blind-auction --arg BlindAuction.biddingDuration=600
+ *   DEPLOY_CONTRACTS=ConfidentialGamingScore,FHECounter npx hardhat run deploy/deploy-all.ts --network zama
+ */
+
+/**
+ * Targets from positional arguments, --all or DEPLOY_CONTRACTS
+ */
+function parseTargets(argv: string[]): string[] {
+  const positional = argv.filter(
+    (value, index) => !value.startsWith("--") && argv[index - 1] !== "--arg"
+  );
+  const fromEnv = (process.env.DEPLOY_CONTRACTS ?? "")
+    .split(",")
+    .map((target) => target.trim())
+    .filter(Boolean);
+
+  if (argv.includes("--all") || fromEnv.includes("all")) {
+    return Object.keys(DEPLOY_CONFIGS);
+  }
+  return positional.length > 0 ? positional : fromEnv;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const targets = parseTargets(argv);
+
+  if (targets.length === 0) {
+    console.log("Usage: npx ts-node deploy/deploy-all.ts <contract|example>... | --all");
+    console.log("       [--arg Contract.name=value] [--force | --reuse]");
+    console.log("\nAvailable contracts:");
+    Object.values(DEPLOY_CONFIGS).forEach((config) => {
+      const args = config.args.map((arg) => arg.name).join(", ");
+      console.log(`  ${config.contractName.padEnd(28)} ${config.example.padEnd(26)} ${args}`);
+    });
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("========================================");
+  console.log(`Deploy pipeline on ${hre.network.name}`);
+  console.log("========================================\n");
+
+  const results = await runDeployPipeline(hre, targets, {
+    mode: parseDeployMode(),
+    overrides: parseArgOverrides(argv),
+  });
+
+  console.log(`\n${formatSummaryTable(results)}\n`);
+}
+
+// Execute pipeline
+main().catch((error) => {
+  console.error("\n❌ Deploy pipeline failed!");
+  console.error(error);
+  process.exitCode = 1;
+});
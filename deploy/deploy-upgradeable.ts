@@ -0,0 +1,93 @@
+import hre, { ethers, upgrades } from "hardhat";
+import { ConfidentialGamingScoreUpgradeable } from "../typechain-types";
+import { deployGamingScoreModules } from "./modules";
+import { readProxyRecord, writeProxyRecord } from "./proxyRecord";
+
+/**
+ * Deployment Script: ConfidentialGamingScore behind a UUPS proxy
+ *
+ * Deploys the gaming score modules, ConfidentialGamingScoreUpgradeable bound to
+ * them, an ERC1967 proxy pointing to it, and initializes the proxy with the
+ * deployer as owner. The proxy and
+ * implementation addresses are recorded in
+ * deployments/<network>/ConfidentialGamingScoreProxy.json for deploy/upgrade.ts.
+ *
+ * Usage:
+ *   npx hardhat run deploy/deploy-upgradeable.ts --network zama
+ *   npx hardhat run deploy/deploy-upgradeable.ts --network localhost
+ */
+
+async function main() {
+  console.log("========================================");
+  console.log("Deploying ConfidentialGamingScore (UUPS proxy)");
+  console.log("========================================\n");
+
+  const network = await ethers.provider.getNetwork();
+  console.log(`Network: ${hre.network.name} (Chain ID: ${network.chainId})`);
+
+  // The in-process hardhat network starts empty on every run
+  const existing = readProxyRecord(hre.network.name);
+  if (existing && hre.network.name !== "hardhat") {
+    console.error(`❌ A proxy is already recorded for ${hre.network.name}: ${existing.proxy}`);
+    console.error("Use deploy/upgrade.ts to ship a new implementation.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`Deployer Address: ${deployer.address}\n`);
+
+  console.log("Deploying modules...");
+  const competition = await deployGamingScoreModules(hre);
+  console.log(`Competition Module: ${competition}\n`);
+
+  const factory = await ethers.getContractFactory("ConfidentialGamingScoreUpgradeable");
+
+  console.log("Deploying implementation and proxy...");
+  const proxy = (await upgrades.deployProxy(factory, [deployer.address], {
+    kind: "uups",
+    initializer: "initialize",
+    constructorArgs: [competition],
+  })) as unknown as ConfidentialGamingScoreUpgradeable;
+  await proxy.waitForDeployment();
+
+  const proxyAddress = await proxy.getAddress();
+  const implementation = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+  const deployTx = proxy.deploymentTransaction();
+  const receipt = await deployTx?.wait();
+
+  console.log(`\n✅ Deployment Successful!`);
+  console.log(`Proxy Address: ${proxyAddress}`);
+  console.log(`Implementation Address: ${implementation}`);
+
+  const file = writeProxyRecord({
+    network: hre.network.name,
+    chainId: network.chainId.toString(),
+    proxy: proxyAddress,
+    implementation,
+    owner: deployer.address,
+    history: [
+      {
+        address: implementation,
+        contractName: "ConfidentialGamingScoreUpgradeable",
+        version: Number(await proxy.implementationVersion()),
+        transactionHash: deployTx?.hash,
+        blockNumber: receipt?.blockNumber,
+        timestamp: new Date().toISOString(),
+      },
+    ],
+  });
+  console.log(`Deployment recorded in ${file}`);
+
+  console.log(`\n========================================`);
+  console.log("Next Steps");
+  console.log(`========================================`);
+  console.log(`1. Point clients at the proxy address: ${proxyAddress}`);
+  console.log(`2. Ship fixes with: npx hardhat run deploy/upgrade.ts --network ${hre.network.name}`);
+}
+
+// Execute deployment
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,14 +1,38 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { deployOrReuse, deploymentPath, parseDeployMode } from "./manifest";
+import { deployOrReuseGamingScore } from "./modules";
+import { prepareFhevm } from "./pipeline";
+import { runSmokeTest } from "./smoke";
+import { configureExplorer, verifyDeployment } from "./verify";
 
 /**
  * Deployment Script: ConfidentialGamingScore
  *
  * This script handles the deployment of the ConfidentialGamingScore contract
- * to the configured network (Zama FHEVM, local testnet, etc.)
+ * and its modules to the configured network (Zama FHEVM, local testnet, etc.)
+ * and records each of them in deployments/<network>/<Contract>.json (address,
+ * ABI hash, constructor args, git commit and block). The plaintext
+ * AnonymousGamingScore demo driven by index.html is deployed and recorded
+ * alongside.
+ *
+ * A live deployment recorded for the network is reused unless --force is
+ * given; --reuse attaches to it even if the ABI changed since.
+ *
+ * Optional post-deploy stages (each fails the deployment on error):
+ *   --smoke   Register, submit an encrypted score and user-decrypt it
+ *             (DEPLOY_SMOKE=true; SMOKE_ACCOUNT picks the signer index)
+ *   --verify  Verify the sources on the network's block explorer with hardhat-verify
+ *             (DEPLOY_VERIFY=true; ETHERSCAN_API_KEY, and EXPLORER_API_URL for
+ *             explorers hardhat-verify does not know)
+ *
+ * Locally, start a node with `npm run node` and deploy with --network localhost:
+ * the in-process hardhat network has no FHEVM outside tests.
  *
  * Usage:
  *   npx hardhat run deploy/deploy.ts --network zama
- *   npx hardhat run deploy/deploy.ts --network hardhat
+ *   npx hardhat run deploy/deploy.ts --network localhost
+ *   DEPLOY_FORCE=true npx hardhat run deploy/deploy.ts --network zama
+ *   HARDHAT_NETWORK=zama npx ts-node deploy/deploy.ts --reuse --smoke --verify
  */
 
 async function main() {
@@ -28,46 +52,52 @@ async function main() {
   const balance = await ethers.provider.getBalance(deployer.address);
   console.log(`Deployer Balance: ${ethers.formatEther(balance)} ETH\n`);
 
-  // Verify contract factory is available
-  const ConfidentialGamingScore = await ethers.getContractFactory(
-    "ConfidentialGamingScore"
-  );
-
-  console.log("Deploying ConfidentialGamingScore...");
+  const mode = parseDeployMode();
+  console.log(`Deploying ConfidentialGamingScore (mode: ${mode})...`);
   const startTime = Date.now();
 
   try {
-    // Deploy contract
-    const contract = await ConfidentialGamingScore.deploy();
-    const deployTx = contract.deploymentTransaction();
-
-    console.log(`Transaction Hash: ${deployTx?.hash}`);
-
-    // Wait for deployment confirmation
-    const receipt = await contract.waitForDeployment();
-    const address = await contract.getAddress();
+    // The score contract's constructor already uses FHE
+    await prepareFhevm(hre);
+    const { contract, manifest, modules, reused } = await deployOrReuseGamingScore(hre, mode);
+    const address = manifest.address;
 
     const deploymentTime = ((Date.now() - startTime) / 1000).toFixed(2);
 
-    console.log(`\n✅ Deployment Successful!`);
+    if (reused) {
+      console.log(`\n♻️  Reusing existing deployment (use --force to redeploy)`);
+    } else {
+      console.log(`\n✅ Deployment Successful!`);
+      console.log(`Transaction Hash: ${manifest.transactionHash}`);
+    }
     console.log(`Contract Address: ${address}`);
     console.log(`Deployment Time: ${deploymentTime}s`);
-    console.log(`Gas Used: ${receipt?.gasUsed}`);
 
-    // Initialize contract
-    console.log(`\nInitializing contract...`);
+    // The frontend attaches to the demo contract recorded for the wallet's network
+    const demo = await deployOrReuse(hre, "AnonymousGamingScore", [], mode);
+    console.log(`Frontend Demo (AnonymousGamingScore): ${demo.manifest.address}${demo.reused ? " (reused)" : ""}`);
 
-    try {
-      const contractInfo = await contract.getContractInfo();
-      console.log(`Contract Info: ${contractInfo}`);
+    // Read back the initial state (fails the deployment if the contract does not respond)
+    console.log(`\nContract Info: ${await contract.getContractInfo()}`);
+    console.log(`Min Score Threshold: ${await contract.getMinScoreThreshold()}`);
+    console.log(`Total Players: ${await contract.getTotalPlayers()}`);
 
-      const minThreshold = await contract.getMinScoreThreshold();
-      console.log(`Min Score Threshold: ${minThreshold}`);
+    const argv = process.argv;
+    if (argv.includes("--smoke") || process.env.DEPLOY_SMOKE === "true") {
+      console.log(`\nRunning smoke test...`);
+      const signers = await ethers.getSigners();
+      await runSmokeTest(hre, address, { signer: signers[Number(process.env.SMOKE_ACCOUNT ?? 0)] });
+    }
 
-      const totalPlayers = await contract.getTotalPlayers();
-      console.log(`Initial Total Players: ${totalPlayers}`);
-    } catch (error) {
-      console.warn("Note: Some initialization checks may not be available in this environment");
+    if (argv.includes("--verify") || process.env.DEPLOY_VERIFY === "true") {
+      console.log(`\nVerifying source...`);
+      if (process.env.EXPLORER_API_URL) {
+        await configureExplorer(hre, process.env.EXPLORER_API_URL, process.env.ETHERSCAN_API_KEY ?? "");
+      }
+      for (const recorded of [...modules, manifest]) {
+        await verifyDeployment(hre, recorded);
+        console.log(`  ✅ ${recorded.contractName}`);
+      }
     }
 
     // Display deployment information
@@ -77,36 +107,22 @@ async function main() {
     console.log(`Contract Name: ConfidentialGamingScore`);
     console.log(`Network: ${network.name}`);
     console.log(`Chain ID: ${network.chainId}`);
-    console.log(`Deployer: ${deployer.address}`);
+    console.log(`Deployer: ${manifest.deployer}`);
     console.log(`Contract Address: ${address}`);
-    console.log(`Deployment Block: ${receipt?.blockNumber}`);
-    console.log(`Deployment Hash: ${deployTx?.hash}`);
-
-    // Save deployment information
-    const deploymentInfo = {
-      network: network.name,
-      chainId: network.chainId,
-      contractName: "ConfidentialGamingScore",
-      contractAddress: address,
-      deployer: deployer.address,
-      deploymentBlock: receipt?.blockNumber,
-      deploymentHash: deployTx?.hash,
-      deploymentTime: deploymentTime,
-      timestamp: new Date().toISOString(),
-    };
-
-    console.log(`\nDeployment Info (JSON):`);
-    console.log(JSON.stringify(deploymentInfo, null, 2));
+    console.log(`Deployment Block: ${manifest.blockNumber}`);
+    console.log(`Deployment Hash: ${manifest.transactionHash}`);
+    console.log(`Git Commit: ${manifest.gitCommit}`);
+    console.log(`Manifest: ${deploymentPath(hre.network.name, manifest.contractName)}`);
 
     // Generate next steps
     console.log(`\n========================================`);
     console.log("Next Steps");
     console.log(`========================================`);
-    console.log(`1. Update frontend with contract address: ${address}`);
+    console.log(`1. Serve deployments/ with index.html (it loads the manifest for the wallet's chain)`);
     console.log(`2. Register players: await contract.registerPlayer()`);
-    console.log(`3. Submit encrypted scores: await contract.submitScore(encryptedScore, proof)`);
+    console.log(`3. Submit encrypted scores: await contract.submitScore(gameId, encryptedScore, proof)`);
     console.log(`4. Query results using FHE client library`);
-    console.log(`5. Verify contract: npx hardhat verify --network ${network.name} ${address}`);
+    console.log(`5. Verify contract: rerun with --reuse --verify`);
 
     return address;
   } catch (error) {
@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { getAddress, id, isAddress } from "ethers";
+import type { BaseContract, InterfaceAbi } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Deployment manifest stored at deployments/<network>/<Contract>.json
+ */
+export interface DeploymentManifest {
+  contractName: string;
+  network: string;
+  chainId: string;
+  address: string;
+  /** keccak256 of the JSON-encoded ABI the contract was deployed with */
+  abiHash: string;
+  abi: InterfaceAbi;
+  constructorArgs: unknown[];
+  deployer: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  /** Commit of this repository at deployment time ("unknown" outside git) */
+  gitCommit: string;
+  deployedAt: string;
+}
+
+/**
+ * How deployOrReuse() treats an existing manifest
+ * - auto: reuse a live deployment with the current ABI and the same
+ *   constructor args, deploy otherwise
+ * - force: always deploy and overwrite the manifest
+ * - reuse: always attach to the recorded deployment, even with a stale ABI,
+ *   but never to one deployed with other constructor args
+ */
+export type DeployMode = "auto" | "force" | "reuse";
+
+/** Root directory of all manifests */
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/**
+ * Path of a contract's manifest on a network
+ * @param network Hardhat network name
+ * @param contractName Contract (or record) name
+ */
+export function deploymentPath(network: string, contractName: string): string {
+  return path.join(DEPLOYMENTS_DIR, network, `${contractName}.json`);
+}
+
+/**
+ * Read a manifest, if the contract was deployed on the network
+ * @param network Hardhat network name
+ * @param contractName Contract name
+ */
+export function readDeployment(
+  network: string,
+  contractName: string
+): DeploymentManifest | undefined {
+  const file = deploymentPath(network, contractName);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as DeploymentManifest;
+}
+
+/**
+ * Write (or overwrite) a manifest
+ * @param manifest Manifest to store
+ * @return Path of the written file
+ */
+export function writeDeployment(manifest: DeploymentManifest): string {
+  const file = deploymentPath(manifest.network, manifest.contractName);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * List the contracts recorded on every network
+ * @return Contract names by network name
+ */
+export function listDeployments(): Record<string, string[]> {
+  const registry: Record<string, string[]> = {};
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    return registry;
+  }
+
+  for (const network of fs.readdirSync(DEPLOYMENTS_DIR)) {
+    const dir = path.join(DEPLOYMENTS_DIR, network);
+    if (!fs.statSync(dir).isDirectory()) {
+      continue;
+    }
+    registry[network] = fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => path.basename(file, ".json"));
+  }
+  return registry;
+}
+
+/**
+ * Hash of an ABI, used to detect manifests that no longer match the sources
+ * @param abi Contract ABI from the compiled artifact
+ */
+export function computeAbiHash(abi: InterfaceAbi): string {
+  return id(JSON.stringify(abi));
+}
+
+/**
+ * Helper: Constructor args as recorded in a manifest (bigints as decimal strings)
+ */
+function recordedConstructorArgs(constructorArgs: unknown[]): unknown[] {
+  return constructorArgs.map((arg) => (typeof arg === "bigint" ? arg.toString() : arg));
+}
+
+/**
+ * Helper: Whether a manifest was deployed with the given constructor args
+ *
+ * Addresses are compared regardless of their checksum casing.
+ */
+function sameConstructorArgs(manifest: DeploymentManifest, constructorArgs: unknown[]): boolean {
+  const normalize = (args: unknown[]) =>
+    JSON.stringify(args.map((arg) => (typeof arg === "string" && isAddress(arg) ? getAddress(arg) : arg)));
+  return normalize(manifest.constructorArgs) === normalize(recordedConstructorArgs(constructorArgs));
+}
+
+/**
+ * Current git commit of the repository
+ */
+export function currentGitCommit(): string {
+  try {
+    return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Read the deploy mode from `--force` / `--reuse` flags or the
+ * DEPLOY_FORCE / DEPLOY_REUSE environment variables
+ *
+ * Note: `hardhat run` rejects unknown flags; use the environment variables
+ * there, or run the script with ts-node and HARDHAT_NETWORK set.
+ */
+export function parseDeployMode(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): DeployMode {
+  const force = argv.includes("--force") || env.DEPLOY_FORCE === "true";
+  const reuse = argv.includes("--reuse") || env.DEPLOY_REUSE === "true";
+  if (force && reuse) {
+    throw new Error("--force and --reuse are mutually exclusive");
+  }
+  return force ? "force" : reuse ? "reuse" : "auto";
+}
+
+/**
+ * Attach to the recorded deployment of a contract, or deploy and record it
+ * @param hre Hardhat runtime environment
+ * @param contractName Contract to deploy
+ * @param constructorArgs Constructor arguments of a new deployment
+ * @param mode How an existing manifest is treated
+ * @param abi ABI to record, when the artifact's ABI does not cover the deployed API (default: artifact ABI)
+ */
+export async function deployOrReuse<T extends BaseContract>(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  constructorArgs: unknown[] = [],
+  mode: DeployMode = "auto",
+  abi?: InterfaceAbi
+): Promise<{ contract: T; manifest: DeploymentManifest; reused: boolean }> {
+  const { ethers } = hre;
+  const network = hre.network.name;
+  const recordedAbi = abi ?? (await hre.artifacts.readArtifact(contractName)).abi;
+  const abiHash = computeAbiHash(recordedAbi);
+  const existing = readDeployment(network, contractName);
+
+  if (existing && mode !== "force") {
+    const live = (await ethers.provider.getCode(existing.address)) !== "0x";
+    if (mode === "reuse" && !live) {
+      throw new Error(`${contractName} has no code at ${existing.address} on ${network}`);
+    }
+    const sameArgs = sameConstructorArgs(existing, constructorArgs);
+    if (mode === "reuse" && !sameArgs) {
+      throw new Error(
+        `${contractName} on ${network} was deployed with constructor args ` +
+          `${JSON.stringify(existing.constructorArgs)}, not ${JSON.stringify(recordedConstructorArgs(constructorArgs))}`
+      );
+    }
+    if (live && sameArgs && existing.abiHash !== abiHash && mode === "auto") {
+      throw new Error(
+        `${contractName} on ${network} was deployed with a different ABI; ` +
+          "pass --force to redeploy or --reuse to attach anyway"
+      );
+    }
+    // Other constructor args in auto mode: deploy what was asked for
+    if (live && sameArgs) {
+      const contract = (await ethers.getContractAt(contractName, existing.address)) as unknown as T;
+      return { contract, manifest: existing, reused: true };
+    }
+  } else if (mode === "reuse") {
+    throw new Error(`No ${contractName} deployment recorded for ${network}`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  const factory = await ethers.getContractFactory(contractName);
+  const contract = await factory.deploy(...constructorArgs);
+  await contract.waitForDeployment();
+  const receipt = await contract.deploymentTransaction()?.wait();
+
+  const manifest: DeploymentManifest = {
+    contractName,
+    network,
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    address: await contract.getAddress(),
+    abiHash,
+    abi: recordedAbi,
+    constructorArgs: recordedConstructorArgs(constructorArgs),
+    deployer: deployer.address,
+    transactionHash: receipt?.hash,
+    blockNumber: receipt?.blockNumber,
+    gitCommit: currentGitCommit(),
+    deployedAt: new Date().toISOString(),
+  };
+  writeDeployment(manifest);
+
+  return { contract: contract as unknown as T, manifest, reused: false };
+}
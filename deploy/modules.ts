@@ -0,0 +1,81 @@
+import type { BaseContract } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { connectGamingScore, GAMING_SCORE_ABI } from "../src/client/contract";
+import type { GamingScoreContract } from "../src/client/contract";
+import { deployOrReuse } from "./manifest";
+import type { DeploymentManifest, DeployMode } from "./manifest";
+
+/**
+ * Modules of ConfidentialGamingScore in deployment order
+ *
+ * Each module forwards unknown functions to the one deployed before it, and
+ * the score contract forwards to the last one (Competition).
+ */
+export const GAMING_SCORE_MODULES = [
+  "ConfidentialGamingScoreAdministration",
+  "ConfidentialGamingScoreAchievements",
+  "ConfidentialGamingScoreCompetition",
+];
+
+/**
+ * Deploy the module chain of a score contract or upgradeable implementation
+ * @param hre Hardhat runtime environment
+ * @return Address of ConfidentialGamingScoreCompetition, the score contract's constructor argument
+ */
+export async function deployGamingScoreModules(hre: HardhatRuntimeEnvironment): Promise<string> {
+  let constructorArgs: string[] = [];
+  for (const contractName of GAMING_SCORE_MODULES) {
+    const factory = await hre.ethers.getContractFactory(contractName);
+    const module = await factory.deploy(...constructorArgs);
+    await module.waitForDeployment();
+    constructorArgs = [await module.getAddress()];
+  }
+  return constructorArgs[0];
+}
+
+/**
+ * Deploy a ConfidentialGamingScore with its modules, without recording a manifest
+ * @param hre Hardhat runtime environment
+ * @return Score contract connected to the deployer
+ */
+export async function deployGamingScore(hre: HardhatRuntimeEnvironment): Promise<GamingScoreContract> {
+  const competition = await deployGamingScoreModules(hre);
+  const factory = await hre.ethers.getContractFactory("ConfidentialGamingScore");
+  const contract = await factory.deploy(competition);
+  await contract.waitForDeployment();
+  return connectGamingScore(await contract.getAddress(), factory.runner);
+}
+
+/**
+ * Attach to the recorded score contract and modules, or deploy and record them
+ * @param hre Hardhat runtime environment
+ * @param mode How existing manifests are treated
+ * @return Score contract connected to the deployer, with its manifest and the module manifests
+ */
+export async function deployOrReuseGamingScore(
+  hre: HardhatRuntimeEnvironment,
+  mode: DeployMode = "auto"
+): Promise<{
+  contract: GamingScoreContract;
+  manifest: DeploymentManifest;
+  modules: DeploymentManifest[];
+  reused: boolean;
+}> {
+  const modules: DeploymentManifest[] = [];
+  for (const contractName of GAMING_SCORE_MODULES) {
+    const constructorArgs = modules.length > 0 ? [modules[modules.length - 1].address] : [];
+    const { manifest } = await deployOrReuse<BaseContract>(hre, contractName, constructorArgs, mode);
+    modules.push(manifest);
+  }
+
+  const competition = modules[modules.length - 1].address;
+  const { manifest, reused } = await deployOrReuse<BaseContract>(
+    hre,
+    "ConfidentialGamingScore",
+    [competition],
+    mode,
+    GAMING_SCORE_ABI
+  );
+  const [deployer] = await hre.ethers.getSigners();
+  return { contract: connectGamingScore(manifest.address, deployer), manifest, modules, reused };
+}
@@ -0,0 +1,258 @@
+import { getAddress } from "ethers";
+import type { BaseContract } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOY_CONFIGS } from "./config";
+import type { ConstructorArgSpec, DeployConfig } from "./config";
+import { deployOrReuse } from "./manifest";
+import type { DeployMode } from "./manifest";
+
+/**
+ * Outcome of one contract in a pipeline run
+ */
+export interface PipelineResult {
+  contractName: string;
+  address: string;
+  status: "deployed" | "reused";
+  blockNumber?: number;
+  initSteps: number;
+}
+
+/**
+ * Options of a pipeline run
+ */
+export interface PipelineOptions {
+  mode?: DeployMode;
+  /** Constructor overrides by contract name and argument name */
+  overrides?: Record<string, Record<string, string>>;
+  env?: NodeJS.ProcessEnv;
+  /** Deployment configs (defaults to DEPLOY_CONFIGS) */
+  configs?: Record<string, DeployConfig>;
+  log?: (message: string) => void;
+}
+
+/**
+ * Find a config by contract name or catalog example name
+ * @param target Contract name ("BlindAuction") or example name ("blind-auction")
+ * @param configs Deployment configs
+ */
+export function findConfig(
+  target: string,
+  configs: Record<string, DeployConfig> = DEPLOY_CONFIGS
+): DeployConfig {
+  const config =
+    configs[target] ?? Object.values(configs).find((candidate) => candidate.example === target);
+  if (!config) {
+    throw new Error(`Unknown contract or example: ${target}`);
+  }
+  return config;
+}
+
+/**
+ * Contracts a config needs deployed first (explicit and via address args)
+ */
+export function dependenciesOf(config: DeployConfig): string[] {
+  const fromArgs = config.args
+    .map((arg) => arg.deployment)
+    .filter((name): name is string => name !== undefined);
+  return [...new Set([...config.dependsOn, ...fromArgs])];
+}
+
+/**
+ * Order targets and their dependencies so every contract follows its dependencies
+ * @param targets Contract or example names
+ * @param configs Deployment configs
+ * @return Contract names in deployment order
+ */
+export function orderDeployments(
+  targets: string[],
+  configs: Record<string, DeployConfig> = DEPLOY_CONFIGS
+): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (target: string, path: string[]) => {
+    const config = findConfig(target, configs);
+    const name = config.contractName;
+    if (ordered.includes(name)) {
+      return;
+    }
+    if (visiting.has(name)) {
+      throw new Error(`Dependency cycle: ${[...path, name].join(" -> ")}`);
+    }
+
+    visiting.add(name);
+    for (const dependency of dependenciesOf(config)) {
+      visit(dependency, [...path, name]);
+    }
+    visiting.delete(name);
+    ordered.push(name);
+  };
+
+  targets.forEach((target) => visit(target, []));
+  return ordered;
+}
+
+/**
+ * Convert a raw argument value to its ABI type
+ */
+function convertArg(spec: ConstructorArgSpec, raw: string): unknown {
+  switch (spec.type) {
+    case "uint":
+      if (!/^\d+$/.test(raw)) {
+        throw new Error(`Argument ${spec.name} must be an unsigned integer, got "${raw}"`);
+      }
+      return BigInt(raw);
+    case "address":
+      return getAddress(raw);
+    case "bool":
+      if (raw !== "true" && raw !== "false") {
+        throw new Error(`Argument ${spec.name} must be true or false, got "${raw}"`);
+      }
+      return raw === "true";
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Resolve the constructor arguments of a contract
+ * @param config Deployment config
+ * @param overrides CLI overrides by argument name
+ * @param env Environment variables
+ * @param deployed Addresses of contracts deployed earlier in the run
+ */
+export function resolveConstructorArgs(
+  config: DeployConfig,
+  overrides: Record<string, string> = {},
+  env: NodeJS.ProcessEnv = process.env,
+  deployed: Record<string, string> = {}
+): unknown[] {
+  return config.args.map((spec) => {
+    const raw =
+      overrides[spec.name] ??
+      (spec.env ? env[spec.env] : undefined) ??
+      (spec.deployment ? deployed[spec.deployment] : undefined) ??
+      spec.default;
+    if (raw === undefined) {
+      const source = spec.env ? ` (set ${spec.env} or pass --arg ${config.contractName}.${spec.name}=...)` : "";
+      throw new Error(`Missing constructor argument ${config.contractName}.${spec.name}${source}`);
+    }
+    return convertArg(spec, raw);
+  });
+}
+
+/**
+ * Parse `--arg Contract.name=value` flags
+ * @param argv Command-line arguments
+ */
+export function parseArgOverrides(argv: string[]): Record<string, Record<string, string>> {
+  const overrides: Record<string, Record<string, string>> = {};
+  argv.forEach((value, index) => {
+    if (value !== "--arg") {
+      return;
+    }
+    const match = /^([^.=]+)\.([^=]+)=(.*)$/.exec(argv[index + 1] ?? "");
+    if (!match) {
+      throw new Error(`Invalid --arg "${argv[index + 1]}", expected Contract.name=value`);
+    }
+    overrides[match[1]] = { ...overrides[match[1]], [match[2]]: match[3] };
+  });
+  return overrides;
+}
+
+/**
+ * Set up the FHEVM mock before deploying contracts that use FHE
+ * @param hre Hardhat runtime environment
+ *
+ * Note: The in-process hardhat network only has the mock under `hardhat test`;
+ * scripts must target a running `npm run node` with --network localhost.
+ * Other networks bring their own FHEVM coprocessor.
+ */
+export async function prepareFhevm(hre: HardhatRuntimeEnvironment): Promise<void> {
+  if (hre.network.name === "hardhat" || hre.network.name === "localhost") {
+    // No-op under `hardhat test`, throws on the in-process network otherwise
+    await hre.fhevm.initializeCLIApi();
+  }
+}
+
+/**
+ * Deploy targets and their dependencies in order, running init steps of fresh deployments
+ * @param hre Hardhat runtime environment
+ * @param targets Contract or example names
+ * @param options Mode, overrides and configs
+ */
+export async function runDeployPipeline(
+  hre: HardhatRuntimeEnvironment,
+  targets: string[],
+  options: PipelineOptions = {}
+): Promise<PipelineResult[]> {
+  const configs = options.configs ?? DEPLOY_CONFIGS;
+  const log = options.log ?? console.log;
+  const deployed: Record<string, string> = {};
+  const results: PipelineResult[] = [];
+
+  const order = orderDeployments(targets, configs);
+  await prepareFhevm(hre);
+
+  for (const name of order) {
+    const config = configs[name];
+    const args = resolveConstructorArgs(
+      config,
+      options.overrides?.[name],
+      options.env ?? process.env,
+      deployed
+    );
+
+    log(`▶ ${name}${args.length > 0 ? ` (${args.map(String).join(", ")})` : ""}`);
+    const { contract, manifest, reused } = await deployOrReuse<BaseContract>(
+      hre,
+      name,
+      args,
+      options.mode,
+      config.abi
+    );
+    deployed[name] = manifest.address;
+
+    let initSteps = 0;
+    if (!reused) {
+      for (const step of config.init) {
+        log(`  • ${step.description}`);
+        await step.run(contract, hre);
+        initSteps++;
+      }
+    }
+
+    results.push({
+      contractName: name,
+      address: manifest.address,
+      status: reused ? "reused" : "deployed",
+      blockNumber: manifest.blockNumber,
+      initSteps,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Render pipeline results as a fixed-width summary table
+ * @param results Results of runDeployPipeline()
+ */
+export function formatSummaryTable(results: PipelineResult[]): string {
+  const header = ["Contract", "Status", "Address", "Block", "Init"];
+  const rows = results.map((result) => [
+    result.contractName,
+    result.status,
+    result.address,
+    result.blockNumber?.toString() ?? "-",
+    result.initSteps.toString(),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join(" | ");
+  const separator = widths.map((width) => "-".repeat(width)).join("-+-");
+
+  return [format(header), separator, ...rows.map(format)].join("\n");
+}
@@ -0,0 +1,62 @@
+import * as fs from "fs";
+import * as path from "path";
+import { deploymentPath } from "./manifest";
+
+/**
+ * One implementation a proxy pointed to
+ */
+export interface ImplementationRecord {
+  address: string;
+  contractName: string;
+  version: number;
+  transactionHash?: string;
+  blockNumber?: number;
+  timestamp: string;
+}
+
+/**
+ * Proxy deployment record stored under deployments/<network>/
+ */
+export interface ProxyRecord {
+  network: string;
+  chainId: string;
+  proxy: string;
+  implementation: string;
+  owner: string;
+  /** Every implementation the proxy used, oldest first */
+  history: ImplementationRecord[];
+}
+
+/** Record name of the upgradeable ConfidentialGamingScore proxy */
+export const PROXY_RECORD_NAME = "ConfidentialGamingScoreProxy";
+
+/**
+ * Path of a proxy record
+ * @param network Hardhat network name
+ */
+export function proxyRecordPath(network: string): string {
+  return deploymentPath(network, PROXY_RECORD_NAME);
+}
+
+/**
+ * Read the proxy record of a network, if any
+ * @param network Hardhat network name
+ */
+export function readProxyRecord(network: string): ProxyRecord | undefined {
+  const file = proxyRecordPath(network);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as ProxyRecord;
+}
+
+/**
+ * Write (or overwrite) the proxy record of a network
+ * @param record Record to store
+ */
+export function writeProxyRecord(record: ProxyRecord): string {
+  const file = proxyRecordPath(record.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(record, null, 2) + "\n");
+  return file;
+}
@@ -0,0 +1,94 @@
+import type { Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GamingScoreClient } from "../src/client";
+
+/**
+ * One step of a smoke run
+ */
+export interface SmokeStep {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Options of a smoke run
+ */
+export interface SmokeTestOptions {
+  /** Account playing the scenario (must not be registered yet); defaults to the first signer */
+  signer?: Signer;
+  /** Plain score submitted and expected back from user decryption */
+  score?: number;
+  log?: (message: string) => void;
+}
+
+/** Score submitted by the smoke scenario by default */
+export const SMOKE_SCORE = 1234;
+
+/**
+ * Run the post-deploy smoke scenario against a ConfidentialGamingScore deployment
+ *
+ * Registers the smoke account, submits an encrypted score, user-decrypts it
+ * and compares it with the submitted value, then unregisters again so the
+ * deployment keeps no smoke data. Throws on the first failing step.
+ *
+ * @param hre Hardhat runtime environment (hre.fhevm encrypts and decrypts)
+ * @param address Deployed contract address
+ * @param options Smoke account, score and logger
+ * @return Steps that ran, all successful
+ */
+export async function runSmokeTest(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  options: SmokeTestOptions = {}
+): Promise<SmokeStep[]> {
+  const log = options.log ?? console.log;
+  const score = options.score ?? SMOKE_SCORE;
+  const signer = options.signer ?? (await hre.ethers.getSigners())[0];
+  const client = GamingScoreClient.connect(address, signer, hre.fhevm);
+  const steps: SmokeStep[] = [];
+
+  const step = async (name: string, run: () => Promise<string>) => {
+    let detail: string;
+    try {
+      detail = await run();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      steps.push({ name, ok: false, detail: message });
+      log(`  ❌ ${name}: ${message}`);
+      throw new Error(`Smoke test failed at "${name}": ${message}`);
+    }
+    steps.push({ name, ok: true, detail });
+    log(`  ✅ ${name}: ${detail}`);
+  };
+
+  await step("Contract responds", async () => client.contract.getContractInfo());
+
+  await step("Register smoke player", async () => {
+    if (await client.isRegistered()) {
+      throw new Error(`${await signer.getAddress()} is already registered; use a dedicated account`);
+    }
+    await client.register();
+    return await signer.getAddress();
+  });
+
+  await step("Submit encrypted score", async () => {
+    await client.submitScore(score);
+    return `${score}`;
+  });
+
+  await step("User-decrypt score", async () => {
+    const decrypted = await client.getMyScore();
+    if (decrypted !== score) {
+      throw new Error(`decrypted ${decrypted}, expected ${score}`);
+    }
+    return `${decrypted}`;
+  });
+
+  await step("Clean up smoke player", async () => {
+    await client.unregister();
+    return `${await client.contract.getTotalPlayers()} players with scores remain`;
+  });
+
+  return steps;
+}
@@ -0,0 +1,85 @@
+import hre, { ethers, upgrades } from "hardhat";
+import { ConfidentialGamingScoreUpgradeable } from "../typechain-types";
+import { deployGamingScoreModules } from "./modules";
+import { readProxyRecord, writeProxyRecord } from "./proxyRecord";
+
+/**
+ * Upgrade Script: ConfidentialGamingScore UUPS proxy
+ *
+ * Validates storage compatibility, deploys the new implementation (with its
+ * own modules) and points the recorded proxy at it. Encrypted player data stays in the proxy. The new
+ * implementation is appended to the record's history.
+ *
+ * Environment:
+ *   IMPLEMENTATION  Contract name of the new implementation
+ *                   (default: ConfidentialGamingScoreUpgradeable)
+ *
+ * Usage:
+ *   npx hardhat run deploy/upgrade.ts --network zama
+ *   IMPLEMENTATION=ConfidentialGamingScoreUpgradeableV2 npx hardhat run deploy/upgrade.ts --network localhost
+ */
+
+async function main() {
+  console.log("========================================");
+  console.log("Upgrading ConfidentialGamingScore proxy");
+  console.log("========================================\n");
+
+  const record = readProxyRecord(hre.network.name);
+  if (!record) {
+    console.error(`❌ No proxy recorded for ${hre.network.name}`);
+    console.error("Deploy one first with deploy/deploy-upgradeable.ts.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const contractName = process.env.IMPLEMENTATION || "ConfidentialGamingScoreUpgradeable";
+  const [deployer] = await ethers.getSigners();
+  console.log(`Network: ${hre.network.name}`);
+  console.log(`Proxy Address: ${record.proxy}`);
+  console.log(`Current Implementation: ${record.implementation}`);
+  console.log(`New Implementation Contract: ${contractName}`);
+  console.log(`Upgrader: ${deployer.address}\n`);
+
+  // Modules are bound to the implementation, so every upgrade ships its own
+  console.log("Deploying modules...");
+  const competition = await deployGamingScoreModules(hre);
+  console.log(`Competition Module: ${competition}\n`);
+
+  const factory = await ethers.getContractFactory(contractName);
+
+  console.log("Validating storage layout and upgrading...");
+  const proxy = (await upgrades.upgradeProxy(record.proxy, factory, {
+    kind: "uups",
+    constructorArgs: [competition],
+  })) as unknown as ConfidentialGamingScoreUpgradeable;
+
+  const implementation = await upgrades.erc1967.getImplementationAddress(record.proxy);
+  const version = Number(await proxy.implementationVersion());
+  const blockNumber = await ethers.provider.getBlockNumber();
+
+  console.log(`\n✅ Upgrade Successful!`);
+  console.log(`Implementation Address: ${implementation}`);
+  console.log(`Implementation Version: ${version}`);
+
+  const file = writeProxyRecord({
+    ...record,
+    implementation,
+    history: [
+      ...record.history,
+      {
+        address: implementation,
+        contractName,
+        version,
+        blockNumber,
+        timestamp: new Date().toISOString(),
+      },
+    ],
+  });
+  console.log(`Upgrade recorded in ${file}`);
+}
+
+// Execute upgrade
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
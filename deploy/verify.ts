@@ -0,0 +1,54 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeploymentManifest } from "./manifest";
+
+/**
+ * Point source verification of the selected network at an Etherscan-compatible explorer API
+ * @param hre Hardhat runtime environment (its etherscan config is extended)
+ * @param apiUrl Explorer API endpoint, e.g. https://explorer.example/api
+ * @param apiKey Explorer API key
+ *
+ * Note: Registers a custom chain for the current chain ID with a key of its
+ * own, so hardhat-verify talks to this endpoint instead of the Etherscan v2
+ * API. Chains hardhat-verify knows need no explorer.
+ */
+export async function configureExplorer(
+  hre: HardhatRuntimeEnvironment,
+  apiUrl: string,
+  apiKey: string
+): Promise<void> {
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const etherscan = hre.config.etherscan;
+
+  etherscan.customChains = [
+    ...etherscan.customChains.filter((chain) => chain.chainId !== chainId),
+    {
+      network: hre.network.name,
+      chainId,
+      urls: { apiURL: apiUrl, browserURL: apiUrl.replace(/\/api\/?$/, "") },
+    },
+  ];
+  etherscan.apiKey = {
+    ...(typeof etherscan.apiKey === "string" ? {} : etherscan.apiKey),
+    [hre.network.name]: apiKey,
+  };
+}
+
+/**
+ * Verify the source of a recorded deployment with hardhat-verify (`verify:verify`)
+ * @param hre Hardhat runtime environment
+ * @param manifest Deployment manifest (address and constructor args)
+ *
+ * Contracts the explorer already verified are skipped; a rejected source throws.
+ */
+export async function verifyDeployment(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest
+): Promise<void> {
+  const artifact = await hre.artifacts.readArtifact(manifest.contractName);
+
+  await hre.run("verify:verify", {
+    address: manifest.address,
+    constructorArguments: manifest.constructorArgs,
+    contract: `${artifact.sourceName}:${artifact.contractName}`,
+  });
+}
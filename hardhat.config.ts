@@ -2,6 +2,9 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@nomicfoundation/hardhat-chai-matchers";
+import "@fhevm/hardhat-plugin";
+import "@openzeppelin/hardhat-upgrades";
+import "hardhat-contract-sizer";
 import "hardhat-deploy";
 import "solidity-coverage";
 import { config as dotenvConfig } from "dotenv";
@@ -12,6 +15,7 @@ const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
+      evmVersion: "cancun",
       optimizer: {
         enabled: true,
         runs: 200,
@@ -20,9 +24,7 @@ const config: HardhatUserConfig = {
   },
 
   networks: {
-    hardhat: {
-      allowUnlimitedContractSize: true,
-    },
+    hardhat: {},
 
     // Zama FHEVM Devnet Configuration
     zama: {
@@ -64,6 +66,11 @@ const config: HardhatUserConfig = {
     apiKey: process.env.ETHERSCAN_API_KEY || "unknown",
   },
 
+  // `npm run size` fails when a contract exceeds the EIP-170 limit (24 KiB)
+  contractSizer: {
+    strict: true,
+  },
+
   gasReporter: {
     enabled: process.env.REPORT_GAS === "true",
     currency: "USD",
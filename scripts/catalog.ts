@@ -0,0 +1,385 @@
+/**
+ * Example Catalog
+ *
+ * Single source of truth for the examples of this repository. The repository
+ * generator, the documentation generator, the deploy pipeline and
+ * list-examples all read it, so an example is registered once, here.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/** Categories examples are grouped by */
+export const EXAMPLE_CATEGORIES = ["basic", "gaming", "auction"] as const;
+
+export type ExampleCategory = (typeof EXAMPLE_CATEGORIES)[number];
+
+/**
+ * Catalog entry of one example
+ */
+export interface ExampleConfig {
+  /** Kebab-case name, equal to its catalog key */
+  name: string;
+  title: string;
+  description: string;
+  /** Contract path relative to contracts/ */
+  contractFile: string;
+  /** Test path relative to test/ */
+  testFile: string;
+  category: ExampleCategory;
+  /** Kebab-case concepts the example teaches */
+  concepts: string[];
+  /** Examples teaching what this one builds on (orders learning paths) */
+  prerequisites?: string[];
+}
+
+/** Repository root the catalog paths are relative to */
+export const REPO_ROOT = path.join(__dirname, "..");
+
+const KEBAB_CASE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Catalog of all examples
+export const EXAMPLES: Record<string, ExampleConfig> = {
+  "confidential-gaming-score": {
+    name: "confidential-gaming-score",
+    title: "Confidential Gaming Score",
+    description: "Privacy-preserving gaming achievement system with FHE operations",
+    contractFile: "ConfidentialGamingScore.sol",
+    testFile: "ConfidentialGamingScore.ts",
+    category: "gaming",
+    concepts: [
+      "encrypted-storage",
+      "fhe-comparisons",
+      "privacy-preservation",
+      "user-decryption",
+      "achievements",
+    ],
+    prerequisites: ["access-control", "fhe-comparisons"],
+  },
+  "fhe-counter": {
+    name: "fhe-counter",
+    title: "FHE Counter",
+    description: "Simple encrypted counter demonstrating FHE basics",
+    contractFile: "FHECounter.sol",
+    testFile: "FHECounter.ts",
+    category: "basic",
+    concepts: ["encryption", "fhe-arithmetic", "permissions"],
+  },
+  "simple-counter": {
+    name: "simple-counter",
+    title: "Simple Counter (Non-FHE)",
+    description: "Traditional counter for comparison with FHE version",
+    contractFile: "basic/SimpleCounter.sol",
+    testFile: "basic/SimpleCounter.ts",
+    category: "basic",
+    concepts: ["comparison", "non-encrypted", "traditional-pattern"],
+  },
+  "encrypt-single-value": {
+    name: "encrypt-single-value",
+    title: "Encrypt Single Value",
+    description: "Basic pattern for encrypting and storing a single value",
+    contractFile: "basic/EncryptSingleValue.sol",
+    testFile: "basic/EncryptSingleValue.ts",
+    category: "basic",
+    concepts: ["encryption", "input-proofs", "permissions"],
+  },
+  "encrypt-multiple-values": {
+    name: "encrypt-multiple-values",
+    title: "Encrypt Multiple Values",
+    description: "Managing multiple encrypted values per user",
+    contractFile: "basic/EncryptMultipleValues.sol",
+    testFile: "basic/EncryptMultipleValues.ts",
+    category: "basic",
+    concepts: ["batch-encryption", "multiple-values", "fhe-operations"],
+    prerequisites: ["encrypt-single-value"],
+  },
+  "user-decrypt-single": {
+    name: "user-decrypt-single",
+    title: "User Decryption Pattern",
+    description: "User-only decryption with privacy guarantees",
+    contractFile: "basic/UserDecryptSingleValue.sol",
+    testFile: "basic/UserDecryptSingleValue.ts",
+    category: "basic",
+    concepts: ["user-decryption", "privacy", "client-side-decryption"],
+    prerequisites: ["encrypt-single-value"],
+  },
+  "access-control": {
+    name: "access-control",
+    title: "FHE Access Control",
+    description: "Complete guide to FHE permissions and access patterns",
+    contractFile: "basic/AccessControlExample.sol",
+    testFile: "basic/AccessControlExample.ts",
+    category: "basic",
+    concepts: ["permissions", "allow", "allow-transient", "access-control"],
+    prerequisites: ["user-decrypt-single"],
+  },
+  "blind-auction": {
+    name: "blind-auction",
+    title: "Blind Auction with FHE",
+    description: "Sealed-bid auction with encrypted bids",
+    contractFile: "BlindAuction.sol",
+    testFile: "BlindAuction.ts",
+    category: "auction",
+    concepts: ["encrypted-auction", "confidential-bidding"],
+    prerequisites: ["access-control", "fhe-comparisons"],
+  },
+  "user-decrypt-multiple": {
+    name: "user-decrypt-multiple",
+    title: "User Decrypt Multiple Values",
+    description: "User decryption of multiple encrypted values",
+    contractFile: "basic/UserDecryptMultipleValues.sol",
+    testFile: "basic/UserDecryptMultipleValues.ts",
+    category: "basic",
+    concepts: ["multi-value-decryption", "privacy", "client-side"],
+    prerequisites: ["user-decrypt-single", "encrypt-multiple-values"],
+  },
+  "public-decrypt-single": {
+    name: "public-decrypt-single",
+    title: "Public Decrypt Single Value",
+    description: "Public decryption patterns and responsible use",
+    contractFile: "basic/PublicDecryptSingleValue.sol",
+    testFile: "basic/PublicDecryptSingleValue.ts",
+    category: "basic",
+    concepts: ["public-decryption", "time-locks", "auctions"],
+    prerequisites: ["user-decrypt-single"],
+  },
+  "public-decrypt-multiple": {
+    name: "public-decrypt-multiple",
+    title: "Public Decrypt Multiple Values",
+    description: "Batch revelation patterns for tournaments and voting",
+    contractFile: "basic/PublicDecryptMultipleValues.sol",
+    testFile: "basic/PublicDecryptMultipleValues.ts",
+    category: "basic",
+    concepts: ["batch-revelation", "tournaments", "gas-optimization"],
+    prerequisites: ["public-decrypt-single"],
+  },
+  "fhe-comparisons": {
+    name: "fhe-comparisons",
+    title: "FHE Comparison Operators",
+    description: "Complete reference for encrypted comparisons",
+    contractFile: "basic/FHEComparisonOperators.sol",
+    testFile: "basic/FHEComparisonOperators.ts",
+    category: "basic",
+    concepts: ["comparisons", "encrypted-logic", "multi-threshold"],
+    prerequisites: ["encrypt-single-value"],
+  },
+  "fhe-conditionals": {
+    name: "fhe-conditionals",
+    title: "FHE Conditional Operations",
+    description: "Select, min, max operations on encrypted values",
+    contractFile: "basic/FHEConditionalOperations.sol",
+    testFile: "basic/FHEConditionalOperations.ts",
+    category: "basic",
+    concepts: ["select", "min-max", "conditional-logic", "tiers"],
+    prerequisites: ["fhe-comparisons"],
+  },
+};
+
+/**
+ * Schema problems of one catalog entry
+ */
+function validateEntry(key: string, value: unknown): string[] {
+  const entry = (value ?? {}) as Partial<Record<keyof ExampleConfig, unknown>>;
+  const problems: string[] = [];
+
+  if (!KEBAB_CASE.test(key)) {
+    problems.push("name must be kebab-case");
+  }
+  if (entry.name !== key) {
+    problems.push(`name "${String(entry.name)}" does not match its key`);
+  }
+  for (const field of ["title", "description"] as const) {
+    if (typeof entry[field] !== "string" || entry[field] === "") {
+      problems.push(`${field} is required`);
+    }
+  }
+  if (typeof entry.contractFile !== "string" || !entry.contractFile.endsWith(".sol")) {
+    problems.push("contractFile must be a .sol path");
+  }
+  if (typeof entry.testFile !== "string" || !entry.testFile.endsWith(".ts")) {
+    problems.push("testFile must be a .ts path");
+  }
+  if (!EXAMPLE_CATEGORIES.includes(entry.category as ExampleCategory)) {
+    problems.push(`category must be one of ${EXAMPLE_CATEGORIES.join(", ")}`);
+  }
+  const concepts = entry.concepts;
+  if (!Array.isArray(concepts) || concepts.length === 0) {
+    problems.push("concepts must be a non-empty list");
+  } else if (!concepts.every((concept) => typeof concept === "string" && KEBAB_CASE.test(concept))) {
+    problems.push("concepts must be kebab-case");
+  }
+
+  return problems;
+}
+
+/**
+ * Check a catalog against the ExampleConfig schema
+ * @param catalog Catalog to check
+ * @return Problems found as "<example>: <problem>" (empty when valid)
+ */
+export function validateCatalog(catalog: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  const contracts = new Map<string, string>();
+
+  Object.entries(catalog).forEach(([key, value]) => {
+    validateEntry(key, value).forEach((problem) => problems.push(`${key}: ${problem}`));
+
+    const contractFile = (value as Partial<ExampleConfig> | undefined)?.contractFile;
+    if (contractFile && contracts.has(contractFile)) {
+      problems.push(`${key}: contractFile already used by ${contracts.get(contractFile)}`);
+    } else if (contractFile) {
+      contracts.set(contractFile, key);
+    }
+
+    const prerequisites = (value as Partial<ExampleConfig> | undefined)?.prerequisites ?? [];
+    if (!Array.isArray(prerequisites)) {
+      problems.push(`${key}: prerequisites must be a list`);
+    } else {
+      prerequisites
+        .filter((name) => name === key || !(name in catalog))
+        .forEach((name) => problems.push(`${key}: unknown prerequisite ${name}`));
+    }
+  });
+
+  if (problems.length === 0) {
+    try {
+      orderByPrerequisites(Object.values(catalog) as ExampleConfig[]);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Order examples so every example follows its prerequisites
+ *
+ * Prerequisites outside `examples` are ignored; otherwise the given order is kept.
+ *
+ * @param examples Examples of a learning path
+ * @return The same examples in learning order
+ */
+export function orderByPrerequisites(examples: ExampleConfig[]): ExampleConfig[] {
+  const selected = new Map(examples.map((example) => [example.name, example]));
+  const ordered: ExampleConfig[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (example: ExampleConfig, path: string[]) => {
+    if (ordered.includes(example)) {
+      return;
+    }
+    if (visiting.has(example.name)) {
+      throw new Error(`Prerequisite cycle: ${[...path, example.name].join(" -> ")}`);
+    }
+
+    visiting.add(example.name);
+    for (const name of example.prerequisites ?? []) {
+      const prerequisite = selected.get(name);
+      if (prerequisite) {
+        visit(prerequisite, [...path, example.name]);
+      }
+    }
+    visiting.delete(example.name);
+    ordered.push(example);
+  };
+
+  examples.forEach((example) => visit(example, []));
+  return ordered;
+}
+
+/**
+ * Catalog examples of a category, in catalog order
+ * @param category Category name (e.g. "basic")
+ * @param catalog Catalog to search
+ */
+export function examplesInCategory(
+  category: string,
+  catalog: Record<string, ExampleConfig> = EXAMPLES
+): ExampleConfig[] {
+  if (!EXAMPLE_CATEGORIES.includes(category as ExampleCategory)) {
+    throw new Error(`Unknown category: ${category} (available: ${EXAMPLE_CATEGORIES.join(", ")})`);
+  }
+  return Object.values(catalog).filter((example) => example.category === category);
+}
+
+/**
+ * Validated catalog entries
+ * @param catalog Catalog to read (defaults to EXAMPLES)
+ */
+export function loadCatalog(
+  catalog: Record<string, ExampleConfig> = EXAMPLES
+): ExampleConfig[] {
+  const problems = validateCatalog(catalog);
+  if (problems.length > 0) {
+    throw new Error(`Invalid example catalog:\n  ${problems.join("\n  ")}`);
+  }
+  return Object.values(catalog);
+}
+
+/**
+ * Look up an example by name
+ * @param name Example name (e.g. "blind-auction")
+ * @param catalog Catalog to search
+ */
+export function getExample(
+  name: string,
+  catalog: Record<string, ExampleConfig> = EXAMPLES
+): ExampleConfig {
+  const example = catalog[name];
+  if (!example) {
+    throw new Error(`Unknown example: ${name} (available: ${Object.keys(catalog).join(", ")})`);
+  }
+  return example;
+}
+
+/**
+ * Contract name of an example (the contract file's base name)
+ */
+export function contractNameOf(example: ExampleConfig): string {
+  return path.basename(example.contractFile, ".sol");
+}
+
+/**
+ * Look up the example whose contract is named contractName
+ * @param contractName Contract name (e.g. "BlindAuction")
+ * @param catalog Catalog to search
+ */
+export function exampleForContract(
+  contractName: string,
+  catalog: Record<string, ExampleConfig> = EXAMPLES
+): ExampleConfig {
+  const example = Object.values(catalog).find((entry) => contractNameOf(entry) === contractName);
+  if (!example) {
+    throw new Error(`No example in the catalog for contract ${contractName}`);
+  }
+  return example;
+}
+
+/**
+ * Absolute paths of an example's contract and test
+ * @param example Catalog entry
+ * @param root Repository root
+ */
+export function examplePaths(
+  example: ExampleConfig,
+  root: string = REPO_ROOT
+): { contract: string; test: string } {
+  return {
+    contract: path.join(root, "contracts", example.contractFile),
+    test: path.join(root, "test", example.testFile),
+  };
+}
+
+/**
+ * Files of an example missing on disk
+ * @param example Catalog entry
+ * @param root Repository root
+ * @return Repository-relative paths of missing files
+ */
+export function missingFiles(example: ExampleConfig, root: string = REPO_ROOT): string[] {
+  const { contract, test } = examplePaths(example, root);
+  return [contract, test]
+    .filter((file) => !fs.existsSync(file))
+    .map((file) => path.relative(root, file).split(path.sep).join("/"));
+}
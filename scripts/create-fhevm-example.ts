@@ -7,158 +7,36 @@
  * 3. Updating configuration
  * 4. Generating documentation
  *
+ * Several examples (a list, or a whole category) are bundled into one
+ * workspace whose README walks through them as a learning path.
+ *
  * Usage:
  *   ts-node scripts/create-fhevm-example.ts <example-name> <output-path>
+ *   ts-node scripts/create-fhevm-example.ts <example-name>... <output-path>
+ *   ts-node scripts/create-fhevm-example.ts --category <category> <output-path>
  *   ts-node scripts/create-fhevm-example.ts confidential-gaming-score ./examples/confidential-gaming
+ *   ts-node scripts/create-fhevm-example.ts encrypt-single-value,user-decrypt-single,access-control ./onboarding
+ *
+ * With --verify the generated output is installed (local npm cache), compiled
+ * and tested on the in-process hardhat network, and a JSON report is written
+ * (--report <file>, default <output-path>/verification-report.json).
+ * --all generates every catalog example into <output-path>/<example-name>:
+ *   ts-node scripts/create-fhevm-example.ts --all ./.cache/examples --verify
  */
 
-import * as fs from "fs";
 import * as path from "path";
-import { execSync } from "child_process";
-
-interface ExampleConfig {
-  name: string;
-  title: string;
-  description: string;
-  contractFile: string;
-  testFile: string;
-  category: string;
-  concepts: string[];
-}
-
-// Map of available examples
-const EXAMPLES_MAP: Record<string, ExampleConfig> = {
-  "confidential-gaming-score": {
-    name: "confidential-gaming-score",
-    title: "Confidential Gaming Score",
-    description:
-      "Privacy-preserving gaming achievement system with FHE operations",
-    contractFile: "ConfidentialGamingScore.sol",
-    testFile: "ConfidentialGamingScore.ts",
-    category: "gaming",
-    concepts: [
-      "encrypted-storage",
-      "fhe-comparisons",
-      "privacy-preservation",
-      "user-decryption",
-    ],
-  },
-  "fhe-counter": {
-    name: "fhe-counter",
-    title: "FHE Counter",
-    description: "Simple encrypted counter demonstrating FHE basics",
-    contractFile: "FHECounter.sol",
-    testFile: "FHECounter.ts",
-    category: "basic",
-    concepts: ["encryption", "fhe-arithmetic", "permissions"],
-  },
-  "simple-counter": {
-    name: "simple-counter",
-    title: "Simple Counter (Non-FHE)",
-    description: "Traditional counter for comparison with FHE version",
-    contractFile: "basic/SimpleCounter.sol",
-    testFile: "basic/SimpleCounter.ts",
-    category: "basic",
-    concepts: ["comparison", "non-encrypted", "traditional-pattern"],
-  },
-  "encrypt-single-value": {
-    name: "encrypt-single-value",
-    title: "Encrypt Single Value",
-    description: "Basic pattern for encrypting and storing a single value",
-    contractFile: "basic/EncryptSingleValue.sol",
-    testFile: "basic/EncryptSingleValue.ts",
-    category: "basic",
-    concepts: ["encryption", "input-proofs", "permissions"],
-  },
-  "encrypt-multiple-values": {
-    name: "encrypt-multiple-values",
-    title: "Encrypt Multiple Values",
-    description: "Managing multiple encrypted values per user",
-    contractFile: "basic/EncryptMultipleValues.sol",
-    testFile: "basic/EncryptMultipleValues.ts",
-    category: "basic",
-    concepts: ["batch-encryption", "multiple-values", "fhe-operations"],
-  },
-  "user-decrypt-single": {
-    name: "user-decrypt-single",
-    title: "User Decryption Pattern",
-    description: "User-only decryption with privacy guarantees",
-    contractFile: "basic/UserDecryptSingleValue.sol",
-    testFile: "basic/UserDecryptSingleValue.ts",
-    category: "basic",
-    concepts: ["user-decryption", "privacy", "client-side-decryption"],
-  },
-  "access-control": {
-    name: "access-control",
-    title: "FHE Access Control",
-    description: "Complete guide to FHE permissions and access patterns",
-    contractFile: "basic/AccessControlExample.sol",
-    testFile: "basic/AccessControlExample.ts",
-    category: "basic",
-    concepts: ["permissions", "allow", "allowTransient", "access-control"],
-  },
-  "blind-auction": {
-    name: "blind-auction",
-    title: "Blind Auction with FHE",
-    description: "Sealed-bid auction with encrypted bids",
-    contractFile: "BlindAuction.sol",
-    testFile: "BlindAuction.ts",
-    category: "auction",
-    concepts: ["encrypted-auction", "confidential-bidding"],
-  },
-  "user-decrypt-multiple": {
-    name: "user-decrypt-multiple",
-    title: "User Decrypt Multiple Values",
-    description: "User decryption of multiple encrypted values",
-    contractFile: "basic/UserDecryptMultipleValues.sol",
-    testFile: "basic/UserDecryptMultipleValues.ts",
-    category: "basic",
-    concepts: ["multi-value-decryption", "privacy", "client-side"],
-  },
-  "public-decrypt-single": {
-    name: "public-decrypt-single",
-    title: "Public Decrypt Single Value",
-    description: "Public decryption patterns and responsible use",
-    contractFile: "basic/PublicDecryptSingleValue.sol",
-    testFile: "basic/PublicDecryptSingleValue.ts",
-    category: "basic",
-    concepts: ["public-decryption", "time-locks", "auctions"],
-  },
-  "public-decrypt-multiple": {
-    name: "public-decrypt-multiple",
-    title: "Public Decrypt Multiple Values",
-    description: "Batch revelation patterns for tournaments and voting",
-    contractFile: "basic/PublicDecryptMultipleValues.sol",
-    testFile: "basic/PublicDecryptMultipleValues.ts",
-    category: "basic",
-    concepts: ["batch-revelation", "tournaments", "gas-optimization"],
-  },
-  "fhe-comparisons": {
-    name: "fhe-comparisons",
-    title: "FHE Comparison Operators",
-    description: "Complete reference for encrypted comparisons",
-    contractFile: "basic/FHEComparisonOperators.sol",
-    testFile: "basic/FHEComparisonOperators.ts",
-    category: "basic",
-    concepts: ["comparisons", "encrypted-logic", "multi-threshold"],
-  },
-  "fhe-conditionals": {
-    name: "fhe-conditionals",
-    title: "FHE Conditional Operations",
-    description: "Select, min, max operations on encrypted values",
-    contractFile: "basic/FHEConditionalOperations.sol",
-    testFile: "basic/FHEConditionalOperations.ts",
-    category: "basic",
-    concepts: ["select", "min-max", "conditional-logic", "tiers"],
-  },
-};
+import { EXAMPLE_CATEGORIES, EXAMPLES, examplesInCategory, loadCatalog } from "./catalog";
+import type { ExampleConfig } from "./catalog";
+import { createExampleRepository, createWorkspace } from "./scaffold";
+import { buildReport, verifyExamples, verifyRepository, writeReport } from "./scaffold-verify";
+import type { VerificationReport } from "./scaffold-verify";
 
 function getExampleConfig(exampleName: string): ExampleConfig {
-  const config = EXAMPLES_MAP[exampleName];
+  const config = EXAMPLES[exampleName];
   if (!config) {
     console.error(`❌ Unknown example: ${exampleName}`);
     console.log(`\nAvailable examples:`);
-    Object.keys(EXAMPLES_MAP).forEach((name) => {
+    Object.keys(EXAMPLES).forEach((name) => {
       console.log(`  - ${name}`);
     });
     process.exit(1);
@@ -166,252 +44,81 @@ function getExampleConfig(exampleName: string): ExampleConfig {
   return config;
 }
 
-function copyDirectory(source: string, destination: string) {
-  if (!fs.existsSync(destination)) {
-    fs.mkdirSync(destination, { recursive: true });
-  }
-
-  const files = fs.readdirSync(source);
-  files.forEach((file) => {
-    const sourcePath = path.join(source, file);
-    const destPath = path.join(destination, file);
-
-    if (
-      file === "node_modules" ||
-      file === ".git" ||
-      file === "artifacts" ||
-      file === "cache"
-    ) {
-      return;
-    }
-
-    if (fs.statSync(sourcePath).isDirectory()) {
-      copyDirectory(sourcePath, destPath);
-    } else {
-      fs.copyFileSync(sourcePath, destPath);
-    }
-  });
-}
-
-function createExampleRepository(
-  exampleName: string,
-  outputPath: string
-): void {
-  const config = getExampleConfig(exampleName);
-
-  console.log("\n========================================");
-  console.log(`Creating FHEVM Example Repository`);
-  console.log("========================================\n");
-
-  console.log(`Example: ${config.title}`);
-  console.log(`Category: ${config.category}`);
-  console.log(`Output: ${outputPath}\n`);
-
-  // Step 1: Copy base template
-  console.log("Step 1: Copying base template...");
-  const baseTemplatePath = path.join(__dirname, "..", "base-template");
-
-  if (!fs.existsSync(baseTemplatePath)) {
-    console.error("❌ Base template not found at:", baseTemplatePath);
-    process.exit(1);
-  }
-
-  copyDirectory(baseTemplatePath, outputPath);
-  console.log("✅ Template copied\n");
-
-  // Step 2: Copy contract and test files
-  console.log("Step 2: Adding contract and test files...");
-
-  const contractSource = path.join(
-    __dirname,
-    "..",
-    "contracts",
-    config.contractFile
-  );
-  const contractDest = path.join(outputPath, "contracts", config.contractFile);
-
-  const testSource = path.join(__dirname, "..", "test", config.testFile);
-  const testDest = path.join(outputPath, "test", config.testFile);
-
-  if (fs.existsSync(contractSource)) {
-    fs.copyFileSync(contractSource, contractDest);
-    console.log(`  ✅ Copied contract: ${config.contractFile}`);
-  } else {
-    console.warn(
-      `  ⚠️  Contract not found: ${config.contractFile} (will need to be added manually)`
-    );
-  }
-
-  if (fs.existsSync(testSource)) {
-    fs.copyFileSync(testSource, testDest);
-    console.log(`  ✅ Copied test: ${config.testFile}`);
-  } else {
-    console.warn(
-      `  ⚠️  Test not found: ${config.testFile} (will need to be added manually)`
-    );
-  }
-
-  console.log("");
-
-  // Step 3: Create example-specific README
-  console.log("Step 3: Generating README...");
-
-  const readmeContent = generateReadme(config);
-  const readmePath = path.join(outputPath, "README.md");
-  fs.writeFileSync(readmePath, readmeContent);
-  console.log("✅ README generated\n");
-
-  // Step 4: Create environment file
-  console.log("Step 4: Creating environment file...");
-  const envContent = fs.readFileSync(path.join(outputPath, ".env.example"), "utf-8");
-  fs.writeFileSync(path.join(outputPath, ".env.example"), envContent);
-  console.log("✅ Environment template created\n");
-
-  // Step 5: Generate documentation metadata
-  console.log("Step 5: Creating documentation metadata...");
-  const docsMetadata = {
-    name: config.name,
-    title: config.title,
-    description: config.description,
-    category: config.category,
-    concepts: config.concepts,
-    generatedAt: new Date().toISOString(),
-  };
-
-  fs.writeFileSync(
-    path.join(outputPath, ".example-metadata.json"),
-    JSON.stringify(docsMetadata, null, 2)
-  );
-  console.log("✅ Metadata created\n");
-
-  // Final summary
-  console.log("========================================");
-  console.log("Example Repository Created!");
-  console.log("========================================\n");
-
-  console.log(`📁 Location: ${path.resolve(outputPath)}`);
-  console.log(`📄 Contract: ${config.contractFile}`);
-  console.log(`🧪 Test: ${config.testFile}`);
-  console.log(`🏷️  Concepts: ${config.concepts.join(", ")}\n`);
-
-  console.log("Next steps:");
-  console.log(`1. cd ${outputPath}`);
-  console.log(`2. npm install`);
-  console.log(`3. npm run compile`);
-  console.log(`4. npm run test`);
-  console.log(`5. npm run deploy:zama\n`);
-}
-
-function generateReadme(config: ExampleConfig): string {
-  return `# ${config.title}
-
-${config.description}
-
-## Overview
-
-This is a standalone FHEVM example repository demonstrating ${config.concepts.join(", ")}.
-
-## Quick Start
-
-\`\`\`bash
-# Install dependencies
-npm install
-
-# Compile contracts
-npm run compile
-
-# Run tests
-npm run test
-
-# Deploy to Zama devnet
-npm run deploy:zama
-\`\`\`
-
-## Learning Concepts
-
-This example teaches:
-
-${config.concepts.map((concept) => `- **${concept}** - Learn about ${concept}`).join("\n")}
-
-## Project Structure
-
-\`\`\`
-.
-├── contracts/${config.contractFile}    # Main contract
-├── test/${config.testFile}             # Test suite
-├── deploy/deploy.ts                     # Deployment script
-├── hardhat.config.ts                    # Hardhat configuration
-└── README.md                            # This file
-\`\`\`
-
-## Contract Walkthrough
-
-The main contract \`${config.contractFile}\` demonstrates:
-
-- Privacy-preserving operations using FHE
-- Encrypted data storage and retrieval
-- Secure computation on encrypted values
-- User-only decryption capabilities
-
-See the contract file for detailed documentation.
-
-## Testing
-
-Run the comprehensive test suite:
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-Tests include:
-- Success cases
-- Error handling
-- Edge cases
-- FHE-specific operations
-
-## Deployment
-
-Deploy to Zama FHEVM:
-
-\`\`\`bash
-# Set private key in .env
-npm run deploy:zama
-\`\`\`
-
-## Resources
-
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [Solidity Style Guide](https://docs.soliditylang.org/en/latest/style-guide.html)
-- [Hardhat Documentation](https://hardhat.org)
-- [Zama GitHub Examples](https://github.com/zama-ai)
-
-## License
-
-BSD-3-Clause-Clear
-
----
-
-Generated from FHEVM Example Template
-`;
-}
-
 // Main execution
+loadCatalog();
 const args = process.argv.slice(2);
 
 if (args.length < 2) {
-  console.log("Usage: ts-node scripts/create-fhevm-example.ts <example-name> <output-path>");
+  console.log("Usage: ts-node scripts/create-fhevm-example.ts <example-name>... <output-path>");
+  console.log("       ts-node scripts/create-fhevm-example.ts --category <category> <output-path>");
+  console.log("       ts-node scripts/create-fhevm-example.ts --all <output-path> [--verify] [--report <file>]");
   console.log("\nExample:");
   console.log(
     "  ts-node scripts/create-fhevm-example.ts confidential-gaming-score ./my-example"
   );
+  console.log(
+    "  ts-node scripts/create-fhevm-example.ts encrypt-single-value user-decrypt-single ./onboarding"
+  );
   console.log("\nAvailable examples:");
-  Object.entries(EXAMPLES_MAP).forEach(([name, config]) => {
+  Object.entries(EXAMPLES).forEach(([name, config]) => {
     console.log(`  ${name.padEnd(25)} - ${config.title}`);
   });
+  console.log(`\nCategories: ${EXAMPLE_CATEGORIES.join(", ")}`);
   process.exit(1);
 }
 
-const exampleName = args[0];
-const outputPath = path.resolve(args[1]);
+const categoryIndex = args.indexOf("--category");
+const reportIndex = args.indexOf("--report");
+const valueIndexes = [categoryIndex, reportIndex].filter((index) => index >= 0).map((index) => index + 1);
+const positional = args.filter((arg, index) => !arg.startsWith("--") && !valueIndexes.includes(index));
+if (positional.length === 0) {
+  console.error("❌ Missing output path");
+  process.exit(1);
+}
+const outputPath = path.resolve(positional.pop() as string);
+const verify = args.includes("--verify");
+const reportPath = path.resolve(
+  reportIndex >= 0 ? args[reportIndex + 1] ?? "" : path.join(outputPath, "verification-report.json")
+);
+
+try {
+  let report: VerificationReport | undefined;
+
+  if (args.includes("--all")) {
+    const examples = loadCatalog();
+    if (verify) {
+      report = verifyExamples(examples, outputPath);
+    } else {
+      examples.forEach((example) => createExampleRepository(example, path.join(outputPath, example.name)));
+    }
+  } else {
+    const selected = positional.flatMap((names) => names.split(",")).filter(Boolean).map(getExampleConfig);
+    if (categoryIndex >= 0) {
+      selected.push(...examplesInCategory(args[categoryIndex + 1] ?? ""));
+    }
+    const examples = [...new Set(selected)];
+    if (examples.length === 0) {
+      throw new Error("No examples selected");
+    }
 
-createExampleRepository(exampleName, outputPath);
+    if (examples.length === 1) {
+      createExampleRepository(examples[0], outputPath);
+    } else {
+      createWorkspace(examples, outputPath);
+    }
+    if (verify) {
+      console.log(`\n🔍 Verifying ${outputPath}`);
+      report = buildReport(verifyRepository(outputPath, examples));
+    }
+  }
+
+  if (report) {
+    console.log(`\n${report.ok ? "✅" : "❌"} ${writeReport(report, reportPath)}`);
+    if (!report.ok) {
+      process.exit(1);
+    }
+  }
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
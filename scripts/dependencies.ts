@@ -0,0 +1,158 @@
+/**
+ * Import Graph: Files an example needs besides its contract and test
+ *
+ * Follows Solidity `import` statements and TypeScript relative imports from an
+ * example's entry files and returns the transitive closure of repository
+ * files, together with the npm packages they import. Generated directories
+ * (typechain-types) are never copied; imports of them are only re-pointed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Result of collectDependencies()
+ */
+export interface DependencyClosure {
+  /** Repository-relative paths (forward slashes), entry files first */
+  files: string[];
+  /** npm packages imported by any of the files */
+  packages: string[];
+}
+
+/** Directories produced by compilation, imported but never copied */
+export const GENERATED_DIRS = ["typechain-types"];
+
+const SOLIDITY_IMPORT = /(\bimport\s+(?:[^;"']*?\s+from\s+)?)(["'])([^"']+)\2/g;
+const TS_IMPORT = /(\bfrom\s+|\bimport\s+|\brequire\(\s*|\bimport\(\s*)(["'])([^"']+)\2/g;
+const TS_EXTENSIONS = [".ts", ".tsx", ".js", ".json"];
+
+/**
+ * Import syntax of a file, by extension (undefined for files without imports)
+ */
+function importPattern(file: string): RegExp | undefined {
+  if (file.endsWith(".sol")) {
+    return SOLIDITY_IMPORT;
+  }
+  if (/\.(ts|tsx|js)$/.test(file)) {
+    return TS_IMPORT;
+  }
+  return undefined;
+}
+
+/**
+ * Import specifiers of a source file
+ * @param file File name (selects Solidity or TypeScript syntax)
+ * @param source File contents
+ */
+export function parseImports(file: string, source: string): string[] {
+  const pattern = importPattern(file);
+  if (!pattern) {
+    return [];
+  }
+  return [...source.matchAll(pattern)].map((match) => match[3]);
+}
+
+/**
+ * Replace the import specifiers of a source file
+ * @param file File name (selects Solidity or TypeScript syntax)
+ * @param source File contents
+ * @param rewrite New specifier for each specifier (return it unchanged to keep it)
+ */
+export function rewriteImports(
+  file: string,
+  source: string,
+  rewrite: (specifier: string) => string
+): string {
+  const pattern = importPattern(file);
+  if (!pattern) {
+    return source;
+  }
+  return source.replace(
+    pattern,
+    (_match, prefix: string, quote: string, specifier: string) => `${prefix}${quote}${rewrite(specifier)}${quote}`
+  );
+}
+
+/**
+ * npm package of a bare specifier ("@scope/pkg/deep/path" -> "@scope/pkg")
+ */
+export function packageOf(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Repository-relative path with forward slashes
+ */
+function toRelative(root: string, file: string): string {
+  return path.relative(root, file).split(path.sep).join("/");
+}
+
+/**
+ * Whether a repository-relative path lies in a generated directory
+ */
+export function isGenerated(relative: string): boolean {
+  return GENERATED_DIRS.some((dir) => relative === dir || relative.startsWith(`${dir}/`));
+}
+
+/**
+ * Resolve a relative import to a repository-relative path
+ * @param root Repository root
+ * @param fromFile Repository-relative path of the importing file
+ * @param specifier Relative specifier ("./Base.sol", "../src/client")
+ * @return Path of the imported file or generated directory
+ */
+export function resolveImport(root: string, fromFile: string, specifier: string): string {
+  const target = path.resolve(root, path.dirname(fromFile), specifier);
+  const relative = toRelative(root, target);
+  if (isGenerated(relative)) {
+    return relative;
+  }
+
+  const candidates = fromFile.endsWith(".sol")
+    ? [target]
+    : [
+        target,
+        ...TS_EXTENSIONS.map((extension) => target + extension),
+        ...TS_EXTENSIONS.map((extension) => path.join(target, `index${extension}`)),
+      ];
+  const found = candidates.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!found) {
+    throw new Error(`Cannot resolve import "${specifier}" in ${fromFile}`);
+  }
+  return toRelative(root, found);
+}
+
+/**
+ * Transitive closure of the files and packages imported by entry files
+ * @param root Repository root
+ * @param entries Repository-relative entry files (e.g. the example's contract and test)
+ */
+export function collectDependencies(root: string, entries: string[]): DependencyClosure {
+  const files: string[] = [];
+  const packages = new Set<string>();
+  const queue = [...entries];
+
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    if (files.includes(file)) {
+      continue;
+    }
+    files.push(file);
+
+    const source = fs.readFileSync(path.join(root, file), "utf-8");
+    for (const specifier of parseImports(file, source)) {
+      if (!specifier.startsWith(".")) {
+        packages.add(packageOf(specifier));
+        continue;
+      }
+      const resolved = resolveImport(root, file, specifier);
+      if (!isGenerated(resolved)) {
+        queue.push(resolved);
+      }
+    }
+  }
+
+  return { files, packages: [...packages].sort() };
+}
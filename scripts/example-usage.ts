@@ -4,13 +4,20 @@
  * This script demonstrates how to interact with the ConfidentialGamingScore contract
  * for both testing and production environments.
  *
+ * On networks with a recorded deployment (deployments/<network>/), the script
+ * attaches to it instead of redeploying; pass --force (or DEPLOY_FORCE=true)
+ * for a fresh contract.
+ *
  * Usage:
- *   npx hardhat run scripts/example-usage.ts --network hardhat
+ *   npx hardhat run scripts/example-usage.ts --network localhost   (after npm run node)
  *   npx hardhat run scripts/example-usage.ts --network zama
+ *   DEPLOY_FORCE=true npx hardhat run scripts/example-usage.ts --network zama
  */
 
-import { ethers } from "hardhat";
-import { ConfidentialGamingScore } from "../typechain-types";
+import hre, { ethers } from "hardhat";
+import { DEFAULT_GAME_ID, GamingScoreClient } from "../src/client";
+import { parseDeployMode } from "../deploy/manifest";
+import { deployOrReuseGamingScore } from "../deploy/modules";
 
 /**
  * Main example workflow demonstrating:
@@ -35,16 +42,24 @@ async function main() {
   console.log(`  Player 2: ${player2.address}`);
   console.log(`  Player 3: ${player3.address}\n`);
 
+  // FHEVM instance used by the clients for encryption and decryption
+  await hre.fhevm.initializeCLIApi();
+
   // ==================== Deployment ====================
 
-  console.log("Step 2: Deploying contract...");
-  const ConfidentialGamingScore = await ethers.getContractFactory(
-    "ConfidentialGamingScore"
+  console.log("Step 2: Deploying contract (or attaching to the recorded deployment)...");
+  const { contract, manifest, reused } = await deployOrReuseGamingScore(hre, parseDeployMode());
+  const address = manifest.address;
+  console.log(
+    reused
+      ? `  ♻️  Attached to deployment at: ${address} (block ${manifest.blockNumber})\n`
+      : `  ✅ Contract deployed to: ${address}\n`
   );
-  const contract: ConfidentialGamingScore =
-    await ConfidentialGamingScore.deploy();
-  const address = await contract.getAddress();
-  console.log(`  ✅ Contract deployed to: ${address}\n`);
+
+  // One client per player shares the same encryption/decryption path
+  const client1 = GamingScoreClient.connect(address, player1, hre.fhevm);
+  const client2 = GamingScoreClient.connect(address, player2, hre.fhevm);
+  const client3 = GamingScoreClient.connect(address, player3, hre.fhevm);
 
   // ==================== Initialization ====================
 
@@ -60,17 +75,16 @@ async function main() {
   // ==================== Registration ====================
 
   console.log("Step 4: Registering players...");
-  const registerTx1 = await contract.connect(player1).registerPlayer();
-  await registerTx1.wait();
-  console.log(`  ✅ Player 1 registered`);
-
-  const registerTx2 = await contract.connect(player2).registerPlayer();
-  await registerTx2.wait();
-  console.log(`  ✅ Player 2 registered`);
-
-  const registerTx3 = await contract.connect(player3).registerPlayer();
-  await registerTx3.wait();
-  console.log(`  ✅ Player 3 registered\n`);
+  // Players of a reused deployment may already be registered
+  for (const [index, client] of [client1, client2, client3].entries()) {
+    if (await client.isRegistered()) {
+      console.log(`  ♻️  Player ${index + 1} already registered`);
+    } else {
+      await client.register();
+      console.log(`  ✅ Player ${index + 1} registered`);
+    }
+  }
+  console.log();
 
   // Verify registration
   console.log("Step 5: Verifying registrations...");
@@ -89,33 +103,18 @@ async function main() {
   // ==================== Score Submission ====================
 
   console.log("Step 7: Submitting encrypted scores...");
-  console.log("  Note: In production, scores would be encrypted by FHE client\n");
-
-  // Create mock encrypted scores (in real app, use fhevmjs library)
-  const mockScore1 = ethers.toBeHex(1500, 32);
-  const mockScore2 = ethers.toBeHex(2000, 32);
-  const mockScore3 = ethers.toBeHex(1200, 32);
-  const mockProof = "0x" + "00".repeat(32);
+  console.log("  Note: Scores are encrypted client-side by GamingScoreClient\n");
 
   console.log("  Submitting Player 1 score (1500 points)...");
-  const submitTx1 = await contract
-    .connect(player1)
-    .submitScore(mockScore1, mockProof);
-  await submitTx1.wait();
+  await client1.submitScore(1500);
   console.log(`    ✅ Score submitted`);
 
   console.log("  Submitting Player 2 score (2000 points)...");
-  const submitTx2 = await contract
-    .connect(player2)
-    .submitScore(mockScore2, mockProof);
-  await submitTx2.wait();
+  await client2.submitScore(2000);
   console.log(`    ✅ Score submitted`);
 
   console.log("  Submitting Player 3 score (1200 points)...");
-  const submitTx3 = await contract
-    .connect(player3)
-    .submitScore(mockScore3, mockProof);
-  await submitTx3.wait();
+  await client3.submitScore(1200);
   console.log(`    ✅ Score submitted\n`);
 
   // ==================== Network Statistics ====================
@@ -123,14 +122,14 @@ async function main() {
   console.log("Step 8: Checking network statistics...");
   const totalPlayers = await contract.getTotalPlayers();
   console.log(`  Total Players with Scores: ${totalPlayers}`);
-  console.log(`  All players submitted: ${totalPlayers === 3}\n`);
+  console.log(`  All players submitted: ${totalPlayers === 3n}\n`);
 
   // ==================== Score Verification ====================
 
   console.log("Step 9: Verifying score submissions...");
-  const hasScore1 = await contract.hasPlayerSubmitted(player1.address);
-  const hasScore2 = await contract.hasPlayerSubmitted(player2.address);
-  const hasScore3 = await contract.hasPlayerSubmitted(player3.address);
+  const hasScore1 = await contract.hasPlayerSubmitted(DEFAULT_GAME_ID, player1.address);
+  const hasScore2 = await contract.hasPlayerSubmitted(DEFAULT_GAME_ID, player2.address);
+  const hasScore3 = await contract.hasPlayerSubmitted(DEFAULT_GAME_ID, player3.address);
 
   console.log(`  Player 1 Has Score: ${hasScore1}`);
   console.log(`  Player 2 Has Score: ${hasScore2}`);
@@ -142,19 +141,19 @@ async function main() {
 
   const createAchievementTx1 = await contract
     .connect(deployer)
-    .createAchievement("Bronze Player", 1000);
+    .createAchievement(DEFAULT_GAME_ID, "Bronze Player", 1000);
   await createAchievementTx1.wait();
   console.log(`  ✅ Achievement 1 Created: 'Bronze Player' (1000 points)`);
 
   const createAchievementTx2 = await contract
     .connect(deployer)
-    .createAchievement("Silver Player", 1500);
+    .createAchievement(DEFAULT_GAME_ID, "Silver Player", 1500);
   await createAchievementTx2.wait();
   console.log(`  ✅ Achievement 2 Created: 'Silver Player' (1500 points)`);
 
   const createAchievementTx3 = await contract
     .connect(deployer)
-    .createAchievement("Gold Player", 2000);
+    .createAchievement(DEFAULT_GAME_ID, "Gold Player", 2000);
   await createAchievementTx3.wait();
   console.log(`  ✅ Achievement 3 Created: 'Gold Player' (2000 points)\n`);
 
@@ -179,20 +178,20 @@ async function main() {
   console.log("  Player 1 checking if score >= 1000...");
   const meetsThreshold1 = await contract
     .connect(player1)
-    .meetsAchievementThreshold(1000);
+    .meetsAchievementThreshold(DEFAULT_GAME_ID, 1000);
   console.log(`    ✅ Query executed (encrypted result)`);
 
   console.log("  Player 2 checking if score >= 2000...");
   const meetsThreshold2 = await contract
     .connect(player2)
-    .meetsAchievementThreshold(2000);
+    .meetsAchievementThreshold(DEFAULT_GAME_ID, 2000);
   console.log(`    ✅ Query executed (encrypted result)`);
 
   // Score comparison
   console.log("\n  Player 1 comparing score with Player 2...");
   const comparisonResult = await contract
     .connect(player1)
-    .isScoreHigherThan(player2.address);
+    .isScoreHigherThan(DEFAULT_GAME_ID, player2.address);
   console.log(`    ✅ Comparison executed (encrypted result)\n`);
 
   // ==================== Score Viewing ====================
@@ -202,46 +201,43 @@ async function main() {
     "  Note: Encrypted scores require client-side FHE decryption\n"
   );
 
-  console.log("  Player 1 viewing their encrypted score...");
-  const encryptedScore1 = await contract.connect(player1).getMyScore();
-  console.log(`    ✅ Encrypted score retrieved (requires FHE client to decrypt)`);
+  console.log("  Player 1 decrypting their score...");
+  const decryptedScore1 = await client1.getMyScore();
+  console.log(`    ✅ Decrypted score: ${decryptedScore1}`);
 
-  console.log("  Player 1 viewing their encrypted timestamp...");
-  const encryptedTimestamp1 = await contract
-    .connect(player1)
-    .getMyTimestamp();
-  console.log(`    ✅ Encrypted timestamp retrieved\n`);
+  console.log("  Player 1 decrypting their timestamp...");
+  const decryptedTimestamp1 = await client1.getMyTimestamp();
+  console.log(`    ✅ Decrypted timestamp: ${decryptedTimestamp1}\n`);
 
   // ==================== Leaderboard ====================
 
-  console.log("Step 14: Getting approximate leaderboard positions...");
+  console.log("Step 14: Computing encrypted leaderboard positions...");
   console.log(
     "  Note: Leaderboard positions are encrypted\n"
   );
 
-  const position1 = await contract
+  const positionTx1 = await contract
     .connect(player1)
-    .getApproximateLeaderboardPosition();
-  console.log(`  ✅ Player 1 position retrieved (encrypted)`);
+    .getApproximateLeaderboardPosition(DEFAULT_GAME_ID);
+  await positionTx1.wait();
+  console.log(`  ✅ Player 1 position computed (encrypted)`);
 
-  const position2 = await contract
+  const positionTx2 = await contract
     .connect(player2)
-    .getApproximateLeaderboardPosition();
-  console.log(`  ✅ Player 2 position retrieved (encrypted)`);
+    .getApproximateLeaderboardPosition(DEFAULT_GAME_ID);
+  await positionTx2.wait();
+  console.log(`  ✅ Player 2 position computed (encrypted)`);
 
-  const position3 = await contract
+  const positionTx3 = await contract
     .connect(player3)
-    .getApproximateLeaderboardPosition();
-  console.log(`  ✅ Player 3 position retrieved (encrypted)\n`);
+    .getApproximateLeaderboardPosition(DEFAULT_GAME_ID);
+  await positionTx3.wait();
+  console.log(`  ✅ Player 3 position computed (encrypted)\n`);
 
   // ==================== Score Update ====================
 
   console.log("Step 15: Updating a player's score...");
-  const newScore = ethers.toBeHex(2500, 32);
-  const updateTx = await contract
-    .connect(player1)
-    .submitScore(newScore, mockProof);
-  await updateTx.wait();
+  await client1.submitScore(2500);
   console.log(`  ✅ Player 1 score updated to 2500 points`);
   console.log(`  Total Players remains: ${await contract.getTotalPlayers()}\n`);
 
@@ -251,24 +247,21 @@ async function main() {
   const initialCountBeforeReset = await contract.getTotalPlayers();
   console.log(`  Initial count: ${initialCountBeforeReset}`);
 
-  const resetTx = await contract.connect(player3).resetMyScore();
+  const resetTx = await contract.connect(player3).resetMyScore(DEFAULT_GAME_ID);
   await resetTx.wait();
   console.log(`  ✅ Player 3 score reset`);
 
   const countAfterReset = await contract.getTotalPlayers();
   console.log(`  Count after reset: ${countAfterReset}`);
-  console.log(`  Count decreased: ${countAfterReset.lt(initialCountBeforeReset)}\n`);
+  console.log(`  Count decreased: ${countAfterReset < initialCountBeforeReset}\n`);
 
   // ==================== Resubmission ====================
 
   console.log("Step 17: Player 3 resubmitting score...");
-  const resubmitTx = await contract
-    .connect(player3)
-    .submitScore(mockScore3, mockProof);
-  await resubmitTx.wait();
+  await client3.submitScore(1200);
   console.log(`  ✅ Player 3 resubmitted score`);
 
-  const hasScoreAgain = await contract.hasPlayerSubmitted(player3.address);
+  const hasScoreAgain = await contract.hasPlayerSubmitted(DEFAULT_GAME_ID, player3.address);
   console.log(`  Player 3 Has Score Again: ${hasScoreAgain}\n`);
 
   // ==================== Final State ====================
@@ -302,7 +295,7 @@ async function main() {
   console.log("Next Steps:");
   console.log("1. Review the test suite: test/ConfidentialGamingScore.ts");
   console.log("2. Check contract implementation: contracts/ConfidentialGamingScore.sol");
-  console.log("3. Integrate with FHE client library (fhevmjs)");
+  console.log("3. Integrate GamingScoreClient (src/client) into your game");
   console.log("4. Deploy to Zama FHEVM network");
   console.log("5. Build frontend UI for players\n");
 }
@@ -14,44 +14,8 @@
 
 import * as fs from "fs";
 import * as path from "path";
-
-interface DocumentationConfig {
-  name: string;
-  title: string;
-  description: string;
-  category: string;
-  concepts: string[];
-  contractFile: string;
-  testFile: string;
-}
-
-// Configuration for all examples
-const EXAMPLES_CONFIG: Record<string, DocumentationConfig> = {
-  "confidential-gaming-score": {
-    name: "confidential-gaming-score",
-    title: "Confidential Gaming Score",
-    description:
-      "Privacy-preserving gaming achievement system with FHE operations",
-    category: "gaming",
-    concepts: [
-      "encrypted-storage",
-      "fhe-comparisons",
-      "privacy-preservation",
-      "achievements",
-    ],
-    contractFile: "ConfidentialGamingScore.sol",
-    testFile: "ConfidentialGamingScore.ts",
-  },
-  "fhe-counter": {
-    name: "fhe-counter",
-    title: "FHE Counter",
-    description: "Simple encrypted counter demonstrating FHE basics",
-    category: "basic",
-    concepts: ["encryption", "fhe-arithmetic", "permissions"],
-    contractFile: "FHECounter.sol",
-    testFile: "FHECounter.ts",
-  },
-};
+import { EXAMPLES, loadCatalog } from "./catalog";
+import type { ExampleConfig } from "./catalog";
 
 interface DocSection {
   title: string;
@@ -91,7 +55,7 @@ function extractTestCases(content: string): Array<{
   return testCases;
 }
 
-function generateDocumentationPage(config: DocumentationConfig): string {
+function generateDocumentationPage(config: ExampleConfig): string {
   const docContent: DocSection[] = [];
 
   // Title
@@ -312,13 +276,13 @@ function generateDocumentationPage(config: DocumentationConfig): string {
   return markdown;
 }
 
-function generateSummaryFile(exampleConfigs: DocumentationConfig[]): string {
+function generateSummaryFile(exampleConfigs: ExampleConfig[]): string {
   let content = "# FHEVM Examples Documentation\n\n";
   content += "Comprehensive guide to FHEVM example implementations.\n\n";
   content += "## Table of Contents\n\n";
 
   // Group by category
-  const byCategory: Record<string, DocumentationConfig[]> = {};
+  const byCategory: Record<string, ExampleConfig[]> = {};
 
   exampleConfigs.forEach((config) => {
     if (!byCategory[config.category]) {
@@ -368,10 +332,10 @@ function generateAllDocumentation() {
   console.log("Generating Documentation");
   console.log("========================================\n");
 
-  const exampleConfigs = Object.values(EXAMPLES_CONFIG);
+  const exampleConfigs = Object.values(EXAMPLES);
 
   // Generate individual documentation files
-  Object.entries(EXAMPLES_CONFIG).forEach(([key, config]) => {
+  Object.entries(EXAMPLES).forEach(([key, config]) => {
     console.log(`Generating: ${config.title}`);
 
     const docContent = generateDocumentationPage(config);
@@ -418,12 +382,12 @@ function generateAllDocumentation() {
 }
 
 function generateSingleExample(exampleName: string) {
-  const config = EXAMPLES_CONFIG[exampleName];
+  const config = EXAMPLES[exampleName];
 
   if (!config) {
     console.error(`❌ Unknown example: ${exampleName}`);
     console.log("\nAvailable examples:");
-    Object.keys(EXAMPLES_CONFIG).forEach((name) => {
+    Object.keys(EXAMPLES).forEach((name) => {
       console.log(`  - ${name}`);
     });
     process.exit(1);
@@ -450,6 +414,7 @@ function generateSingleExample(exampleName: string) {
 }
 
 // Main execution
+loadCatalog();
 const args = process.argv.slice(2);
 
 if (args.length === 0) {
@@ -458,7 +423,7 @@ if (args.length === 0) {
   console.log("  ts-node scripts/generate-docs.ts confidential-gaming-score");
   console.log("  ts-node scripts/generate-docs.ts --all");
   console.log("\nAvailable examples:");
-  Object.entries(EXAMPLES_CONFIG).forEach(([name, config]) => {
+  Object.entries(EXAMPLES).forEach(([name, config]) => {
     console.log(`  ${name.padEnd(25)} - ${config.title}`);
   });
   process.exit(1);
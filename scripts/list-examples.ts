@@ -0,0 +1,51 @@
+/**
+ * Script: List Examples
+ *
+ * Lists the example catalog (scripts/catalog.ts) with the on-disk status of
+ * every example's contract and test file, so missing files show up before
+ * the repository or documentation generators run into them.
+ *
+ * Usage:
+ *   ts-node scripts/list-examples.ts
+ *   ts-node scripts/list-examples.ts --category basic
+ *   ts-node scripts/list-examples.ts --check    # exit code 1 when files are missing
+ */
+
+import { EXAMPLE_CATEGORIES, loadCatalog, missingFiles } from "./catalog";
+import type { ExampleCategory } from "./catalog";
+
+function listExamples(argv: string[]): void {
+  const categoryIndex = argv.indexOf("--category");
+  const category = categoryIndex >= 0 ? argv[categoryIndex + 1] : undefined;
+  if (category !== undefined && !EXAMPLE_CATEGORIES.includes(category as ExampleCategory)) {
+    console.error(`❌ Unknown category: ${category} (available: ${EXAMPLE_CATEGORIES.join(", ")})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const examples = loadCatalog().filter((example) => !category || example.category === category);
+
+  console.log("\n========================================");
+  console.log("FHEVM Example Catalog");
+  console.log("========================================\n");
+
+  let incomplete = 0;
+  examples.forEach((example) => {
+    const missing = missingFiles(example);
+    const status = missing.length === 0 ? "✅" : "⚠️ ";
+    console.log(`${status} ${example.name.padEnd(26)} ${example.category.padEnd(8)} ${example.title}`);
+    missing.forEach((file) => console.log(`     missing: ${file}`));
+    if (missing.length > 0) {
+      incomplete++;
+    }
+  });
+
+  console.log(`\n${examples.length} examples, ${incomplete} with missing files\n`);
+
+  if (argv.includes("--check") && incomplete > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Main execution
+listExamples(process.argv.slice(2));
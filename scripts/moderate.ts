@@ -0,0 +1,171 @@
+/**
+ * Script: Moderation CLI for ConfidentialGamingScore
+ *
+ * Lets moderators void suspicious scores, ban and unban players and follow
+ * the public moderation log. The signer needs MODERATOR_ROLE for write
+ * commands; read commands work with any key or none.
+ *
+ * Environment:
+ *   CONTRACT_ADDRESS  Deployed ConfidentialGamingScore address (required)
+ *   RPC_URL           JSON-RPC endpoint (default: http://127.0.0.1:8545)
+ *   PRIVATE_KEY       Moderator key (required for void, ban and unban)
+ *
+ * Usage:
+ *   ts-node scripts/moderate.ts void <player> <gameId> <reason>
+ *   ts-node scripts/moderate.ts ban <player> <duration> <reason>
+ *   ts-node scripts/moderate.ts unban <player>
+ *   ts-node scripts/moderate.ts status <player>
+ *   ts-node scripts/moderate.ts log [fromBlock] [player]
+ *   ts-node scripts/moderate.ts watch
+ *
+ * Reasons are names (cheating, exploit, collusion, abuse, other) or numeric
+ * codes. Durations are seconds or a number followed by m, h or d ("7d").
+ */
+
+import { JsonRpcProvider, Wallet } from "ethers";
+import { config as dotenvConfig } from "dotenv";
+import {
+  connectGamingScore,
+  describeReason,
+  fetchModerationLog,
+  formatModerationEvent,
+  ModerationReason,
+  parseReasonCode,
+} from "../src/client";
+
+dotenvConfig();
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse "3600", "90m", "12h" or "7d" into seconds
+ */
+function parseDuration(input: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(input);
+  if (!match) {
+    throw new Error(`Invalid duration: ${input}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+}
+
+function printUsage(): void {
+  console.log("Usage: ts-node scripts/moderate.ts <command> [args]");
+  console.log("\nCommands:");
+  console.log("  void <player> <gameId> <reason>   Void the player's current score in a game");
+  console.log("  ban <player> <duration> <reason>  Ban the player from submitting");
+  console.log("  unban <player>                    Lift an active ban");
+  console.log("  status <player>                   Show ban and void status");
+  console.log("  log [fromBlock] [player]          Print past moderation events");
+  console.log("  watch                             Print new moderation events as they happen");
+  console.log("\nReasons:");
+  Object.entries(ModerationReason)
+    .filter(([, code]) => typeof code === "number")
+    .forEach(([name, code]) => console.log(`  ${String(code).padStart(3)}  ${name}`));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const address = process.env.CONTRACT_ADDRESS;
+  if (!address) {
+    throw new Error("CONTRACT_ADDRESS is not set");
+  }
+
+  const provider = new JsonRpcProvider(process.env.RPC_URL || "http://127.0.0.1:8545");
+  const runner = process.env.PRIVATE_KEY
+    ? new Wallet(process.env.PRIVATE_KEY, provider)
+    : provider;
+  const contract = connectGamingScore(address, runner);
+
+  switch (command) {
+    case "void": {
+      const [player, gameId, reason] = args;
+      const tx = await contract.voidScore(player, Number(gameId), parseReasonCode(reason));
+      await tx.wait();
+      console.log(`✅ Voided score of ${player} in game ${gameId} (${tx.hash})`);
+      break;
+    }
+
+    case "ban": {
+      const [player, duration, reason] = args;
+      const tx = await contract.banPlayer(player, parseDuration(duration), parseReasonCode(reason));
+      await tx.wait();
+      const ban = await contract.bans(player);
+      console.log(
+        `✅ Banned ${player} until ${new Date(Number(ban.until) * 1000).toISOString()} (${tx.hash})`
+      );
+      break;
+    }
+
+    case "unban": {
+      const [player] = args;
+      const tx = await contract.liftBan(player);
+      await tx.wait();
+      console.log(`✅ Lifted ban of ${player} (${tx.hash})`);
+      break;
+    }
+
+    case "status": {
+      const [player] = args;
+      const ban = await contract.bans(player);
+      if (await contract.isBanned(player)) {
+        console.log(
+          `Banned until ${new Date(Number(ban.until) * 1000).toISOString()} - ${describeReason(
+            Number(ban.reasonCode)
+          )}`
+        );
+      } else {
+        console.log("Not banned");
+      }
+
+      const seasonId = await contract.currentSeasonId();
+      const gameCount = Number(await contract.gameCount());
+      for (let gameId = 0; gameId < gameCount; gameId++) {
+        const [voided, reasonCode] = await contract.getScoreVoid(seasonId, gameId, player);
+        if (voided) {
+          console.log(`Game ${gameId}: score voided - ${describeReason(Number(reasonCode))}`);
+        }
+      }
+      break;
+    }
+
+    case "log": {
+      const [fromBlock, player] = args;
+      const events = await fetchModerationLog(contract, Number(fromBlock ?? 0), player);
+      if (events.length === 0) {
+        console.log("No moderation events");
+      }
+      events.forEach((event) => console.log(formatModerationEvent(event)));
+      break;
+    }
+
+    case "watch": {
+      let fromBlock = await provider.getBlockNumber();
+      console.log(`Watching moderation events from block ${fromBlock} (Ctrl+C to stop)...`);
+      for (;;) {
+        const latest = await provider.getBlockNumber();
+        if (latest > fromBlock) {
+          const events = await fetchModerationLog(contract, fromBlock + 1);
+          events
+            .filter((event) => event.blockNumber <= latest)
+            .forEach((event) => console.log(formatModerationEvent(event)));
+          fromBlock = latest;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    }
+
+    default:
+      printUsage();
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Moderation command failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,252 @@
+/**
+ * Scaffold Verification: Install, compile and test generated repositories
+ *
+ * Checks that a generated repository works on its own: `npm install` against
+ * a local package cache, `hardhat compile`, then each example's tests on the
+ * in-process hardhat network. Results are collected per example into a JSON
+ * report, so a nightly job can prove every catalog entry still scaffolds.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { REPO_ROOT } from "./catalog";
+import type { ExampleConfig } from "./catalog";
+import { createExampleRepository } from "./scaffold";
+
+export type VerifyStepName = "scaffold" | "install" | "compile" | "test";
+
+/**
+ * Outcome of one verification step
+ */
+export interface VerifyStepResult {
+  step: VerifyStepName;
+  ok: boolean;
+  durationMs: number;
+  /** Tail of the command output, kept for failed steps only */
+  output?: string;
+}
+
+/**
+ * Verification outcome of one example
+ */
+export interface ExampleVerification {
+  name: string;
+  outputPath: string;
+  ok: boolean;
+  steps: VerifyStepResult[];
+}
+
+/**
+ * JSON report of a verification run
+ */
+export interface VerificationReport {
+  generatedAt: string;
+  ok: boolean;
+  cacheDir: string;
+  examples: ExampleVerification[];
+}
+
+/**
+ * Result of running one command
+ */
+export interface CommandResult {
+  status: number;
+  output: string;
+}
+
+/**
+ * Where and how long a command may run
+ */
+export interface CommandOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeoutMs: number;
+}
+
+/**
+ * Runs a command (replaceable in tests)
+ */
+export type CommandRunner = (command: string, args: string[], options: CommandOptions) => CommandResult;
+
+/**
+ * Options of the verification functions
+ */
+export interface VerifyOptions {
+  /** npm cache shared by all generated repositories (default: SCAFFOLD_NPM_CACHE or .cache/npm) */
+  cacheDir?: string;
+  /** Time limit of each command */
+  timeoutMs?: number;
+  run?: CommandRunner;
+  env?: NodeJS.ProcessEnv;
+  log?: (message: string) => void;
+}
+
+/** Local npm cache used when SCAFFOLD_NPM_CACHE is not set */
+export const DEFAULT_CACHE_DIR = path.join(REPO_ROOT, ".cache", "npm");
+
+/** Time limit of each command when none is given */
+export const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Lines of command output kept for a failed step */
+const OUTPUT_TAIL_LINES = 40;
+
+/**
+ * Default runner: spawn the command and capture stdout and stderr
+ */
+export const runCommand: CommandRunner = (command, args, { cwd, env, timeoutMs }) => {
+  const result = spawnSync(command, args, {
+    cwd,
+    env,
+    encoding: "utf-8",
+    timeout: timeoutMs,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  const output = `${result.stdout ?? ""}${result.stderr ?? ""}${result.error ? `\n${result.error.message}` : ""}`;
+  return { status: result.status ?? 1, output };
+};
+
+/**
+ * npm cache directory of a run
+ */
+export function cacheDirOf(options: VerifyOptions): string {
+  return path.resolve(options.cacheDir ?? process.env.SCAFFOLD_NPM_CACHE ?? DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Helper: Time one step and keep the output tail when it fails
+ */
+function runStep(
+  step: VerifyStepName,
+  options: VerifyOptions,
+  cwd: string,
+  command: string,
+  args: string[]
+): VerifyStepResult {
+  const run = options.run ?? runCommand;
+  const env = { ...(options.env ?? process.env), npm_config_cache: cacheDirOf(options) };
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const started = Date.now();
+  const result = run(command, args, { cwd, env, timeoutMs });
+  const ok = result.status === 0;
+  (options.log ?? console.log)(`  ${ok ? "✅" : "❌"} ${step}: ${command} ${args.join(" ")}`);
+
+  return {
+    step,
+    ok,
+    durationMs: Date.now() - started,
+    ...(ok ? {} : { output: result.output.trimEnd().split("\n").slice(-OUTPUT_TAIL_LINES).join("\n") }),
+  };
+}
+
+/**
+ * Install, compile and test a generated repository
+ *
+ * Install and compile run once; their results are shared by every example of
+ * the repository. Each example's test file then runs on its own, so one
+ * failing example of a workspace does not hide the others.
+ *
+ * @param outputPath Generated repository
+ * @param examples Examples the repository contains
+ * @param options Cache, runner and logger
+ */
+export function verifyRepository(
+  outputPath: string,
+  examples: ExampleConfig[],
+  options: VerifyOptions = {}
+): ExampleVerification[] {
+  const shared: VerifyStepResult[] = [];
+
+  shared.push(
+    runStep("install", options, outputPath, "npm", ["install", "--prefer-offline", "--no-audit", "--no-fund"])
+  );
+  if (shared[0].ok) {
+    shared.push(runStep("compile", options, outputPath, "npx", ["hardhat", "compile"]));
+  }
+  const prepared = shared.every((step) => step.ok);
+
+  return examples.map((example) => {
+    const steps = [...shared];
+    if (prepared) {
+      const testFile = `test/${path.basename(example.testFile)}`;
+      steps.push(runStep("test", options, outputPath, "npx", ["hardhat", "test", "--network", "hardhat", testFile]));
+    }
+    return {
+      name: example.name,
+      outputPath,
+      ok: prepared && steps.every((step) => step.ok),
+      steps,
+    };
+  });
+}
+
+/**
+ * Scaffold every example into its own repository and verify it
+ * @param examples Catalog entries
+ * @param workDir Directory receiving one repository per example
+ * @param options Cache, runner and logger
+ */
+export function verifyExamples(
+  examples: ExampleConfig[],
+  workDir: string,
+  options: VerifyOptions = {}
+): VerificationReport {
+  const log = options.log ?? console.log;
+  const results: ExampleVerification[] = [];
+
+  for (const example of examples) {
+    const outputPath = path.join(workDir, example.name);
+    log(`\n▶ ${example.name}`);
+
+    const started = Date.now();
+    try {
+      fs.rmSync(outputPath, { recursive: true, force: true });
+      createExampleRepository(example, outputPath, { log: () => {} });
+    } catch (error) {
+      const output = error instanceof Error ? error.message : String(error);
+      log(`  ❌ scaffold: ${output}`);
+      results.push({
+        name: example.name,
+        outputPath,
+        ok: false,
+        steps: [{ step: "scaffold", ok: false, durationMs: Date.now() - started, output }],
+      });
+      continue;
+    }
+    log(`  ✅ scaffold: ${outputPath}`);
+
+    const scaffold: VerifyStepResult = { step: "scaffold", ok: true, durationMs: Date.now() - started };
+    const [verification] = verifyRepository(outputPath, [example], options);
+    results.push({ ...verification, steps: [scaffold, ...verification.steps] });
+  }
+
+  return buildReport(results, options);
+}
+
+/**
+ * Assemble the report of a verification run
+ * @param examples Per-example outcomes
+ * @param options Options of the run (for the cache directory)
+ */
+export function buildReport(examples: ExampleVerification[], options: VerifyOptions = {}): VerificationReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    ok: examples.every((example) => example.ok),
+    cacheDir: cacheDirOf(options),
+    examples,
+  };
+}
+
+/**
+ * Write a report as JSON and return a one-line summary
+ * @param report Verification report
+ * @param reportPath Destination file
+ */
+export function writeReport(report: VerificationReport, reportPath: string): string {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + "\n");
+
+  const passed = report.examples.filter((example) => example.ok).length;
+  return `${passed}/${report.examples.length} examples passed, report: ${reportPath}`;
+}
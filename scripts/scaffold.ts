@@ -0,0 +1,768 @@
+/**
+ * Scaffolding: Standalone example repositories
+ *
+ * Turns base-template/ into a repository for one catalog example: the
+ * template's Counter placeholders are replaced by the example's contract and
+ * test, the deploy script is pointed at the example's contract and
+ * constructor arguments, and package.json is renamed after the example.
+ * Files the example imports (shared contracts, client code) are copied along
+ * with it, with relative imports re-pointed to the generated layout. Several
+ * examples can be bundled into one workspace ordered as a learning path.
+ * Used by scripts/create-fhevm-example.ts.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DEPLOY_CONFIGS } from "../deploy/config";
+import type { ConstructorArgSpec } from "../deploy/config";
+import { contractNameOf, missingFiles, orderByPrerequisites, REPO_ROOT } from "./catalog";
+import type { ExampleConfig } from "./catalog";
+import { collectDependencies, isGenerated, resolveImport, rewriteImports } from "./dependencies";
+
+/**
+ * Options of createExampleRepository()
+ */
+export interface ScaffoldOptions {
+  /** Repository the example and template are taken from */
+  root?: string;
+  /** Package name of a workspace (defaults to the output directory name) */
+  name?: string;
+  log?: (message: string) => void;
+}
+
+/**
+ * Files of a generated repository
+ */
+export interface ScaffoldPlan {
+  /** Destination of every copied file, keyed by its path in the source repository */
+  files: Map<string, string>;
+  /** npm packages the copied files import */
+  packages: string[];
+}
+
+/** Template files replaced by the example's own contract and test */
+export const TEMPLATE_PLACEHOLDERS = ["contracts/Counter.sol", "test/Counter.ts"];
+
+const CONTRACT_NAME_PLACEHOLDER = /^([ \t]*)const CONTRACT_NAME = "YourContractName";$/m;
+const CONSTRUCTOR_ARGS_PLACEHOLDER = /^([ \t]*)const CONSTRUCTOR_ARGS: unknown\[\] = \[\];$/m;
+const TODO_COMMENT = /^([ \t]*)\/\/ TODO: Update CONTRACT_NAME.*$/m;
+
+/**
+ * Source expression of a constructor argument in a generated deploy script
+ * @param spec Argument from the deploy config
+ */
+export function renderConstructorArg(spec: ConstructorArgSpec): string {
+  const fallback = spec.default !== undefined ? JSON.stringify(spec.default) : undefined;
+  if (!spec.env && fallback === undefined) {
+    throw new Error(`Constructor argument ${spec.name} needs an env variable or a default to be scaffolded`);
+  }
+
+  const value = spec.env
+    ? `process.env.${spec.env}${fallback !== undefined ? ` ?? ${fallback}` : ""}`
+    : (fallback as string);
+  // Environment values are strings; ethers would encode "false" as true
+  return spec.type === "bool" ? `(${value}) === "true"` : value;
+}
+
+/**
+ * Point the template deploy script at a contract and its constructor arguments
+ * @param source Contents of base-template/deploy/deploy.ts
+ * @param contractName Contract to deploy
+ * @param args Constructor arguments from the deploy config
+ */
+export function rewriteDeployScript(
+  source: string,
+  contractName: string,
+  args: ConstructorArgSpec[]
+): string {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const normalized = source.replace(/\r\n/g, "\n");
+  if (!CONTRACT_NAME_PLACEHOLDER.test(normalized) || !CONSTRUCTOR_ARGS_PLACEHOLDER.test(normalized)) {
+    throw new Error("deploy/deploy.ts has no CONTRACT_NAME / CONSTRUCTOR_ARGS placeholders");
+  }
+
+  const rewritten = normalized
+    .replace(TODO_COMMENT, "$1// Example contract and its constructor arguments")
+    .replace(CONTRACT_NAME_PLACEHOLDER, `$1const CONTRACT_NAME = "${contractName}";`)
+    .replace(CONSTRUCTOR_ARGS_PLACEHOLDER, (_match, indent: string) => {
+      if (args.length === 0) {
+        return `${indent}const CONSTRUCTOR_ARGS: unknown[] = [];`;
+      }
+      const lines = args.map(
+        (spec) => `${indent}  ${renderConstructorArg(spec)}, // ${spec.name} (${spec.type})`
+      );
+      return [`${indent}const CONSTRUCTOR_ARGS: unknown[] = [`, ...lines, `${indent}];`].join("\n");
+    });
+
+  return rewritten.replace(/\n/g, eol);
+}
+
+/**
+ * Deploy script of a contract that needs its module chain deployed first
+ *
+ * A single factory call cannot deploy the modules the contract delegates to,
+ * so the script calls the chain's deploy function from deploy/modules.ts.
+ *
+ * @param source Contents of base-template/deploy/deploy.ts (for its line endings)
+ * @param contractName Contract to deploy
+ * @param deployFunction Export of deploy/modules.ts deploying the contract and its modules
+ */
+export function renderModuleChainDeployScript(source: string, contractName: string, deployFunction: string): string {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const script = `import hre, { ethers } from "hardhat";
+import { ${deployFunction} } from "./modules";
+
+/**
+ * Deployment script for ${contractName}
+ *
+ * Deploys the modules ${contractName} delegates to, then the contract
+ * itself, pointed at the head of the module chain.
+ */
+
+async function main() {
+  console.log("========================================");
+  console.log("Deploying FHEVM Example Contract");
+  console.log("========================================\\n");
+
+  // Get network info
+  const network = await ethers.provider.getNetwork();
+  console.log(\`Network: \${network.name} (Chain ID: \${network.chainId})\`);
+
+  // Get deployer
+  const [deployer] = await ethers.getSigners();
+  console.log(\`Deployer: \${deployer.address}\`);
+
+  const balance = await ethers.provider.getBalance(deployer.address);
+  console.log(\`Balance: \${ethers.formatEther(balance)} ETH\\n\`);
+
+  console.log("Deploying ${contractName} and its modules...");
+  const contract = await ${deployFunction}(hre);
+  const address = await contract.getAddress();
+
+  console.log(\`\\n✅ Deployment successful!\`);
+  console.log("Contract: ${contractName}");
+  console.log(\`Address: \${address}\\n\`);
+
+  return address;
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+`;
+  return script.replace(/\n/g, eol);
+}
+
+/**
+ * Deploy script of a catalog contract, from the template deploy script
+ * @param source Contents of base-template/deploy/deploy.ts
+ * @param contractName Contract to deploy
+ */
+export function renderDeployScript(source: string, contractName: string): string {
+  const config = DEPLOY_CONFIGS[contractName];
+  return config?.deployWith
+    ? renderModuleChainDeployScript(source, contractName, config.deployWith)
+    : rewriteDeployScript(source, contractName, config?.args ?? []);
+}
+
+/**
+ * Helper: What a generated deploy script deploys, for the log
+ */
+function describeDeploy(contractName: string): string {
+  const config = DEPLOY_CONFIGS[contractName];
+  if (config?.deployWith) {
+    return `${contractName} with its modules`;
+  }
+  return `${contractName}(${(config?.args ?? []).map((arg) => arg.name).join(", ")})`;
+}
+
+/**
+ * Changes to the template package besides its name
+ */
+export interface PackageChanges {
+  /** Versions of packages to add when the template lacks them */
+  dependencies?: Record<string, string>;
+  /** Scripts to add or replace; null removes a script */
+  scripts?: Record<string, string | null>;
+}
+
+/**
+ * Rename the template package after an example and add the packages it needs
+ * @param source Contents of base-template/package.json
+ * @param example Catalog entry (or workspace name and description)
+ * @param changes Dependencies and scripts to add
+ */
+export function rewritePackageJson(
+  source: string,
+  example: Pick<ExampleConfig, "name" | "description">,
+  changes: PackageChanges = {}
+): string {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const pkg = JSON.parse(source) as Record<string, unknown>;
+  const dependencies = changes.dependencies ?? {};
+  pkg.name = example.name;
+  pkg.description = example.description;
+
+  if (changes.scripts) {
+    const scripts = { ...(pkg.scripts as Record<string, string>), ...changes.scripts };
+    pkg.scripts = Object.fromEntries(Object.entries(scripts).filter(([, command]) => command !== null));
+  }
+
+  const declared = { ...(pkg.devDependencies as object), ...(pkg.dependencies as object) };
+  const added = Object.entries(dependencies).filter(([name]) => !(name in declared));
+  if (added.length > 0) {
+    pkg.dependencies = Object.fromEntries(
+      [...Object.entries((pkg.dependencies ?? {}) as Record<string, string>), ...added].sort(([a], [b]) =>
+        a.localeCompare(b)
+      )
+    );
+  }
+
+  return (JSON.stringify(pkg, null, 2) + "\n").replace(/\n/g, eol);
+}
+
+/**
+ * Files and packages of an example's generated repository
+ *
+ * The example's contract and test move to the template's flat layout
+ * (contracts/basic/X.sol becomes contracts/X.sol); files they import keep
+ * their repository paths.
+ *
+ * @param config Catalog entry
+ * @param root Source repository
+ */
+export function planExampleFiles(config: ExampleConfig, root: string = REPO_ROOT): ScaffoldPlan {
+  const contract = `contracts/${config.contractFile}`;
+  const test = `test/${config.testFile}`;
+  const closure = collectDependencies(root, [contract, test]);
+
+  const files = new Map<string, string>();
+  const taken = new Map<string, string>();
+  for (const file of closure.files) {
+    let destination = file;
+    if (file === contract) {
+      destination = `contracts/${path.basename(file)}`;
+    } else if (file === test) {
+      destination = `test/${path.basename(file)}`;
+    }
+
+    if (taken.has(destination)) {
+      throw new Error(`${file} and ${taken.get(destination)} would both be generated as ${destination}`);
+    }
+    taken.set(destination, file);
+    files.set(file, destination);
+  }
+
+  return { files, packages: closure.packages };
+}
+
+/**
+ * Combine the plans of several examples into one workspace layout
+ * @param plans Plans of planExampleFiles()
+ */
+export function mergePlans(plans: ScaffoldPlan[]): ScaffoldPlan {
+  const files = new Map<string, string>();
+  const taken = new Map<string, string>();
+  for (const plan of plans) {
+    plan.files.forEach((destination, file) => {
+      const owner = taken.get(destination);
+      if (owner !== undefined && owner !== file) {
+        throw new Error(`${file} and ${owner} would both be generated as ${destination}`);
+      }
+      taken.set(destination, file);
+      files.set(file, destination);
+    });
+  }
+
+  const packages = [...new Set(plans.flatMap((plan) => plan.packages))].sort();
+  return { files, packages };
+}
+
+/**
+ * Re-point the relative imports of a copied file to the generated layout
+ * @param source Contents of the file
+ * @param file Path of the file in the source repository
+ * @param plan Layout of the generated repository
+ * @param root Source repository
+ */
+export function relocateImports(
+  source: string,
+  file: string,
+  plan: ScaffoldPlan,
+  root: string = REPO_ROOT
+): string {
+  const destinationDir = path.posix.dirname(plan.files.get(file) ?? file);
+
+  return rewriteImports(file, source, (specifier) => {
+    if (!specifier.startsWith(".")) {
+      return specifier;
+    }
+    const resolved = resolveImport(root, file, specifier);
+    const destination = isGenerated(resolved) ? resolved : (plan.files.get(resolved) as string);
+
+    // Keep what the specifier leaves implicit (extension, /index.ts)
+    const literal = path.posix.join(path.posix.dirname(file), specifier);
+    const implicit = resolved.slice(literal.length);
+    const target = destination.slice(0, destination.length - implicit.length);
+
+    const relative = path.posix.relative(destinationDir, target);
+    return relative.startsWith(".") ? relative : `./${relative}`;
+  });
+}
+
+function copyDirectory(source: string, destination: string) {
+  if (!fs.existsSync(destination)) {
+    fs.mkdirSync(destination, { recursive: true });
+  }
+
+  const files = fs.readdirSync(source);
+  files.forEach((file) => {
+    const sourcePath = path.join(source, file);
+    const destPath = path.join(destination, file);
+
+    if (
+      file === "node_modules" ||
+      file === ".git" ||
+      file === "artifacts" ||
+      file === "cache"
+    ) {
+      return;
+    }
+
+    if (fs.statSync(sourcePath).isDirectory()) {
+      copyDirectory(sourcePath, destPath);
+    } else {
+      fs.copyFileSync(sourcePath, destPath);
+    }
+  });
+}
+
+/**
+ * Helper: Fail when an example's contract or test is missing
+ */
+function assertExampleFiles(config: ExampleConfig, root: string): void {
+  const missing = missingFiles(config, root);
+  if (missing.length > 0) {
+    throw new Error(`Cannot scaffold ${config.name}, missing: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Helper: Copy the base template without its placeholders
+ */
+function copyTemplate(root: string, outputPath: string): void {
+  const baseTemplatePath = path.join(root, "base-template");
+
+  if (!fs.existsSync(baseTemplatePath)) {
+    throw new Error(`Base template not found at: ${baseTemplatePath}`);
+  }
+
+  copyDirectory(baseTemplatePath, outputPath);
+  TEMPLATE_PLACEHOLDERS.forEach((file) => fs.rmSync(path.join(outputPath, file), { force: true }));
+}
+
+/**
+ * Helper: Copy planned files with their imports re-pointed
+ */
+function copyPlannedFiles(plan: ScaffoldPlan, root: string, outputPath: string, log: (message: string) => void) {
+  plan.files.forEach((destination, file) => {
+    const source = fs.readFileSync(path.join(root, file), "utf-8");
+    const destinationPath = path.join(outputPath, destination);
+    fs.mkdirSync(path.dirname(destinationPath), { recursive: true });
+    fs.writeFileSync(destinationPath, relocateImports(source, file, plan, root));
+    log(`  ✅ Copied ${file}${destination !== file ? ` -> ${destination}` : ""}`);
+  });
+}
+
+/**
+ * Helper: Versions of imported packages, as declared by the source repository
+ */
+function packageVersions(root: string, packages: string[]): Record<string, string> {
+  const rootPackage = JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf-8"));
+  const available: Record<string, string> = { ...rootPackage.devDependencies, ...rootPackage.dependencies };
+  return Object.fromEntries(packages.filter((name) => name in available).map((name) => [name, available[name]]));
+}
+
+/**
+ * Generate a standalone repository for a catalog example
+ *
+ * Fails before writing anything when the example's contract or test is missing.
+ *
+ * @param config Catalog entry
+ * @param outputPath Directory of the new repository
+ * @param options Source repository and logger
+ */
+export function createExampleRepository(
+  config: ExampleConfig,
+  outputPath: string,
+  options: ScaffoldOptions = {}
+): void {
+  const root = options.root ?? REPO_ROOT;
+  const log = options.log ?? console.log;
+  const contractName = contractNameOf(config);
+
+  assertExampleFiles(config, root);
+  const plan = planExampleFiles(config, root);
+
+  log("\n========================================");
+  log(`Creating FHEVM Example Repository`);
+  log("========================================\n");
+
+  log(`Example: ${config.title}`);
+  log(`Category: ${config.category}`);
+  log(`Output: ${outputPath}\n`);
+
+  // Step 1: Copy base template
+  log("Step 1: Copying base template...");
+  copyTemplate(root, outputPath);
+  log("✅ Template copied, placeholders removed\n");
+
+  // Step 2: Copy contract, test and the files they import
+  log("Step 2: Adding contract, test and their imports...");
+  copyPlannedFiles(plan, root, outputPath, log);
+
+  log("");
+
+  // Step 3: Point the deploy script and package at the example
+  log("Step 3: Configuring deploy script and package...");
+
+  const deployScriptPath = path.join(outputPath, "deploy", "deploy.ts");
+  fs.writeFileSync(deployScriptPath, renderDeployScript(fs.readFileSync(deployScriptPath, "utf-8"), contractName));
+  log(`  ✅ deploy/deploy.ts deploys ${describeDeploy(contractName)}`);
+
+  const packageJsonPath = path.join(outputPath, "package.json");
+  fs.writeFileSync(
+    packageJsonPath,
+    rewritePackageJson(fs.readFileSync(packageJsonPath, "utf-8"), config, {
+      dependencies: packageVersions(root, plan.packages),
+    })
+  );
+  log(`  ✅ package.json renamed to ${config.name}\n`);
+
+  // Step 4: Create example-specific README
+  log("Step 4: Generating README...");
+
+  const readmeContent = generateReadme(config);
+  const readmePath = path.join(outputPath, "README.md");
+  fs.writeFileSync(readmePath, readmeContent);
+  log("✅ README generated\n");
+
+  // Step 5: Create environment file
+  log("Step 5: Creating environment file...");
+  fs.copyFileSync(path.join(root, ".env.example"), path.join(outputPath, ".env.example"));
+  log("✅ Environment template created\n");
+
+  // Step 6: Generate documentation metadata
+  log("Step 6: Creating documentation metadata...");
+  const docsMetadata = {
+    name: config.name,
+    title: config.title,
+    description: config.description,
+    category: config.category,
+    concepts: config.concepts,
+    generatedAt: new Date().toISOString(),
+  };
+
+  fs.writeFileSync(
+    path.join(outputPath, ".example-metadata.json"),
+    JSON.stringify(docsMetadata, null, 2)
+  );
+  log("✅ Metadata created\n");
+
+  // Final summary
+  log("========================================");
+  log("Example Repository Created!");
+  log("========================================\n");
+
+  log(`📁 Location: ${path.resolve(outputPath)}`);
+  log(`📄 Contract: contracts/${path.basename(config.contractFile)}`);
+  log(`🧪 Test: test/${path.basename(config.testFile)}`);
+  log(`🏷️  Concepts: ${config.concepts.join(", ")}\n`);
+
+  log("Next steps:");
+  log(`1. cd ${outputPath}`);
+  log(`2. npm install`);
+  log(`3. npm run compile`);
+  log(`4. npm run test`);
+  log(`5. npm run deploy:zama\n`);
+}
+
+/**
+ * Generate one repository bundling several catalog examples as a learning path
+ *
+ * Examples are ordered by their prerequisites; each gets its own deploy script
+ * (deploy/<example>.ts) and `test:<example>` / `deploy:<example>` npm scripts.
+ * Fails before writing anything when a contract or test is missing.
+ *
+ * @param configs Catalog entries (any order)
+ * @param outputPath Directory of the new repository
+ * @param options Source repository, package name and logger
+ */
+export function createWorkspace(
+  configs: ExampleConfig[],
+  outputPath: string,
+  options: ScaffoldOptions = {}
+): void {
+  const root = options.root ?? REPO_ROOT;
+  const log = options.log ?? console.log;
+  const name = options.name ?? path.basename(path.resolve(outputPath)).toLowerCase();
+
+  if (configs.length === 0) {
+    throw new Error("A workspace needs at least one example");
+  }
+  const examples = orderByPrerequisites(configs);
+  examples.forEach((config) => assertExampleFiles(config, root));
+  const plan = mergePlans(examples.map((config) => planExampleFiles(config, root)));
+
+  log("\n========================================");
+  log(`Creating FHEVM Example Workspace`);
+  log("========================================\n");
+
+  log(`Learning path: ${examples.map((config) => config.name).join(" → ")}`);
+  log(`Output: ${outputPath}\n`);
+
+  // Step 1: Copy base template
+  log("Step 1: Copying base template...");
+  copyTemplate(root, outputPath);
+  log("✅ Template copied, placeholders removed\n");
+
+  // Step 2: Copy contracts, tests and the files they import
+  log("Step 2: Adding contracts, tests and their imports...");
+  copyPlannedFiles(plan, root, outputPath, log);
+  log("");
+
+  // Step 3: One deploy script and one test script per example
+  log("Step 3: Configuring deploy scripts and package...");
+
+  const templateDeployPath = path.join(outputPath, "deploy", "deploy.ts");
+  const templateDeploy = fs.readFileSync(templateDeployPath, "utf-8");
+  fs.rmSync(templateDeployPath);
+
+  const scripts: Record<string, string | null> = {
+    "deploy:zama": null,
+    "deploy:zamaTestnet": null,
+    "deploy:local": null,
+  };
+  examples.forEach((config) => {
+    const contractName = contractNameOf(config);
+    fs.writeFileSync(
+      path.join(outputPath, "deploy", `${config.name}.ts`),
+      renderDeployScript(templateDeploy, contractName)
+    );
+    scripts[`test:${config.name}`] = `hardhat test test/${path.basename(config.testFile)}`;
+    scripts[`deploy:${config.name}`] = `hardhat run deploy/${config.name}.ts`;
+    log(`  ✅ deploy/${config.name}.ts deploys ${describeDeploy(contractName)}`);
+  });
+
+  const packageJsonPath = path.join(outputPath, "package.json");
+  const description = `FHEVM learning path: ${examples.map((config) => config.title).join(" → ")}`;
+  fs.writeFileSync(
+    packageJsonPath,
+    rewritePackageJson(fs.readFileSync(packageJsonPath, "utf-8"), { name, description }, {
+      dependencies: packageVersions(root, plan.packages),
+      scripts,
+    })
+  );
+  log(`  ✅ package.json renamed to ${name}\n`);
+
+  // Step 4: Create the learning path README
+  log("Step 4: Generating README...");
+  fs.writeFileSync(path.join(outputPath, "README.md"), generateWorkspaceReadme(name, examples));
+  log("✅ README generated\n");
+
+  // Step 5: Create environment file
+  log("Step 5: Creating environment file...");
+  fs.copyFileSync(path.join(root, ".env.example"), path.join(outputPath, ".env.example"));
+  log("✅ Environment template created\n");
+
+  // Step 6: Generate documentation metadata
+  log("Step 6: Creating documentation metadata...");
+  const docsMetadata = {
+    name,
+    description,
+    examples: examples.map((config) => ({
+      name: config.name,
+      title: config.title,
+      category: config.category,
+      concepts: config.concepts,
+    })),
+    generatedAt: new Date().toISOString(),
+  };
+
+  fs.writeFileSync(
+    path.join(outputPath, ".example-metadata.json"),
+    JSON.stringify(docsMetadata, null, 2)
+  );
+  log("✅ Metadata created\n");
+
+  // Final summary
+  log("========================================");
+  log("Example Workspace Created!");
+  log("========================================\n");
+
+  log(`📁 Location: ${path.resolve(outputPath)}`);
+  log(`📚 Examples: ${examples.length}\n`);
+
+  log("Next steps:");
+  log(`1. cd ${outputPath}`);
+  log(`2. npm install`);
+  log(`3. npm run compile`);
+  log(`4. npm run test:${examples[0].name}  (then follow README.md)\n`);
+}
+
+/**
+ * README of a workspace: the examples as numbered learning path steps
+ * @param name Workspace name
+ * @param examples Examples in learning order
+ */
+export function generateWorkspaceReadme(name: string, examples: ExampleConfig[]): string {
+  const step = new Map(examples.map((config, index) => [config.name, index + 1]));
+
+  const steps = examples.map((config, index) => {
+    const buildsOn = (config.prerequisites ?? [])
+      .filter((prerequisite) => step.has(prerequisite))
+      .map((prerequisite) => step.get(prerequisite) as number)
+      .map((number) => `${examples[number - 1].title} (step ${number})`);
+    const details = [
+      `- **Concepts**: ${config.concepts.join(", ")}`,
+      ...(buildsOn.length > 0 ? [`- **Builds on**: ${buildsOn.join(", ")}`] : []),
+      `- **Contract**: \`contracts/${path.basename(config.contractFile)}\``,
+      `- **Test**: \`npm run test:${config.name}\``,
+      `- **Deploy**: \`npm run deploy:${config.name} -- --network zama\``,
+    ];
+
+    return [`### ${index + 1}. ${config.title}`, "", config.description, "", ...details, ""].join("\n");
+  });
+
+  return `# ${name}
+
+FHEVM examples bundled as one learning path. Work through the steps in order:
+each one builds on the concepts of the steps before it.
+
+## Quick Start
+
+\`\`\`bash
+# Install dependencies
+npm install
+
+# Compile contracts
+npm run compile
+
+# Run all tests
+npm run test
+\`\`\`
+
+## Learning Path
+
+${steps.join("\n")}
+## Resources
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [Hardhat Documentation](https://hardhat.org)
+- [Zama GitHub Examples](https://github.com/zama-ai)
+
+## License
+
+BSD-3-Clause-Clear
+
+---
+
+Generated from FHEVM Example Template
+`;
+}
+
+function generateReadme(config: ExampleConfig): string {
+  return `# ${config.title}
+
+${config.description}
+
+## Overview
+
+This is a standalone FHEVM example repository demonstrating ${config.concepts.join(", ")}.
+
+## Quick Start
+
+\`\`\`bash
+# Install dependencies
+npm install
+
+# Compile contracts
+npm run compile
+
+# Run tests
+npm run test
+
+# Deploy to Zama devnet
+npm run deploy:zama
+\`\`\`
+
+## Learning Concepts
+
+This example teaches:
+
+${config.concepts.map((concept) => `- **${concept}** - Learn about ${concept}`).join("\n")}
+
+## Project Structure
+
+\`\`\`
+.
+├── contracts/${path.basename(config.contractFile)}    # Main contract
+├── test/${path.basename(config.testFile)}             # Test suite
+├── deploy/deploy.ts                     # Deployment script
+├── hardhat.config.ts                    # Hardhat configuration
+└── README.md                            # This file
+\`\`\`
+
+## Contract Walkthrough
+
+The main contract \`${path.basename(config.contractFile)}\` demonstrates:
+
+- Privacy-preserving operations using FHE
+- Encrypted data storage and retrieval
+- Secure computation on encrypted values
+- User-only decryption capabilities
+
+See the contract file for detailed documentation.
+
+## Testing
+
+Run the comprehensive test suite:
+
+\`\`\`bash
+npm run test
+\`\`\`
+
+Tests include:
+- Success cases
+- Error handling
+- Edge cases
+- FHE-specific operations
+
+## Deployment
+
+Deploy to Zama FHEVM:
+
+\`\`\`bash
+# Set private key in .env
+npm run deploy:zama
+\`\`\`
+
+## Resources
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [Solidity Style Guide](https://docs.soliditylang.org/en/latest/style-guide.html)
+- [Hardhat Documentation](https://hardhat.org)
+- [Zama GitHub Examples](https://github.com/zama-ai)
+
+## License
+
+BSD-3-Clause-Clear
+
+---
+
+Generated from FHEVM Example Template
+`;
+}
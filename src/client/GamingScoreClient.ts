@@ -0,0 +1,659 @@
+import type { BytesLike, Signer } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+import type { SignedScoreAttestation } from "./attestation";
+import { connectGamingScore } from "./contract";
+import type { GamingScoreContract } from "./contract";
+import { readRevealedLeaderboard } from "./leaderboard";
+import type { RevealedLeaderboard } from "./leaderboard";
+
+/**
+ * Subset of the FHEVM instance API used by the client.
+ *
+ * Satisfied by both the relayer SDK instance (`createInstance(...)`) and the
+ * hardhat plugin runtime (`hre.fhevm`), so the same client runs in tests.
+ */
+export type FhevmClientInstance = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt" | "publicDecrypt"
+>;
+
+/**
+ * Public network statistics as exposed by getNetworkStats()
+ *
+ * totalPlayers counts (player, game) scores, so a player scored in two games counts twice.
+ */
+export interface NetworkStats {
+  totalPlayers: number;
+  averageScore: number;
+  averageRevealed: boolean;
+}
+
+/**
+ * Current season as exposed by getActiveSeason()
+ */
+export interface ActiveSeason {
+  seasonId: number;
+  active: boolean;
+}
+
+/**
+ * Achievement the signer claimed and decrypted as unlocked
+ */
+export interface UnlockedAchievement {
+  id: number;
+  title: string;
+  category: string;
+  requiredScore: number;
+}
+
+/**
+ * Score aggregation policies, mirroring ConfidentialGamingScore.ScorePolicy
+ */
+export enum ScorePolicy {
+  Latest = 0,
+  Best = 1,
+  Accumulate = 2,
+}
+
+/**
+ * Head-to-head outcomes, mirroring the contract's CHALLENGE_* constants
+ */
+export enum ChallengeOutcome {
+  OpponentWins = 0,
+  Tie = 1,
+  ChallengerWins = 2,
+}
+
+/**
+ * Cached user-decryption authorization (keypair + EIP-712 signature)
+ */
+interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: string;
+  durationDays: string;
+}
+
+/** Game namespace registered at deployment */
+export const DEFAULT_GAME_ID = 0;
+
+/** Largest value representable by an euint32 score */
+export const MAX_SCORE = 2 ** 32 - 1;
+
+/** Achievements fetched per listAchievements() call */
+const ACHIEVEMENT_PAGE_SIZE = 50;
+
+/** Validity window requested for user-decryption signatures */
+const DECRYPTION_DURATION_DAYS = "1";
+
+/** Seconds before a signature expires at which a new one is requested */
+const DECRYPTION_RENEWAL_MARGIN_SECONDS = 60;
+
+/**
+ * GamingScoreClient
+ *
+ * Typed wrapper around the ConfidentialGamingScore contract that owns the
+ * single encryption/decryption path shared by game servers, frontends,
+ * scripts and tests:
+ * - Plain scores are encrypted with the FHEVM instance before submission
+ * - Encrypted handles returned by the contract are user-decrypted with an
+ *   EIP-712 signature from the player's wallet
+ *
+ * Each client is bound to one game / mode namespace; use forGame() to
+ * address another game with the same signer.
+ *
+ * Example: ✅ Correct usage
+ * ```
+ * const client = GamingScoreClient.connect(address, signer, fhevm);
+ * await client.register();
+ * await client.submitScore(1500);
+ * const score = await client.getMyScore(); // 1500
+ *
+ * const puzzle = client.forGame(puzzleGameId);
+ * await puzzle.submitScore(300);
+ * ```
+ */
+export class GamingScoreClient {
+  private session?: DecryptionSession;
+
+  /**
+   * @param contract ConfidentialGamingScore instance connected to the player's signer
+   * @param fhevm FHEVM instance used for encryption and user decryption
+   * @param signer The player's signer (must match the contract runner)
+   * @param gameId Game / mode namespace used by score, leaderboard and achievement calls
+   */
+  constructor(
+    readonly contract: GamingScoreContract,
+    private readonly fhevm: FhevmClientInstance,
+    private readonly signer: Signer,
+    readonly gameId: number = DEFAULT_GAME_ID
+  ) {}
+
+  /**
+   * Attach a client to an already deployed contract
+   */
+  static connect(
+    address: string,
+    signer: Signer,
+    fhevm: FhevmClientInstance,
+    gameId: number = DEFAULT_GAME_ID
+  ): GamingScoreClient {
+    const contract = connectGamingScore(address, signer);
+    return new GamingScoreClient(contract, fhevm, signer, gameId);
+  }
+
+  /**
+   * Create a client for another game, reusing this client's decryption session
+   * @param gameId Game / mode namespace
+   */
+  forGame(gameId: number): GamingScoreClient {
+    const client = new GamingScoreClient(this.contract, this.fhevm, this.signer, gameId);
+    client.session = this.session;
+    return client;
+  }
+
+  // ==================== Registration ====================
+
+  /**
+   * Register the signer as a player
+   */
+  async register(): Promise<void> {
+    const tx = await this.contract.registerPlayer();
+    await tx.wait();
+  }
+
+  /**
+   * Leave the registry and clear the signer's current-season scores
+   */
+  async unregister(): Promise<void> {
+    const tx = await this.contract.unregisterPlayer();
+    await tx.wait();
+  }
+
+  /**
+   * Check whether the signer is registered
+   */
+  async isRegistered(): Promise<boolean> {
+    return this.contract.isPlayerRegistered(await this.signer.getAddress());
+  }
+
+  // ==================== Scores ====================
+
+  /**
+   * Encrypt a plain score and submit it
+   * @param plain Score between 0 and MAX_SCORE
+   */
+  async submitScore(plain: number): Promise<void> {
+    const { handle, inputProof } = await this.encryptScore(plain);
+    const tx = await this.contract.submitScore(this.gameId, handle, inputProof);
+    await tx.wait();
+  }
+
+  /**
+   * Submit an already encrypted score co-signed by the game server
+   * @param handle Ciphertext handle from encryptScore() (the attested handle)
+   * @param inputProof Input proof from encryptScore()
+   * @param attestation Game server's signed attestation for this handle
+   */
+  async submitAttestedScore(
+    handle: BytesLike,
+    inputProof: BytesLike,
+    attestation: SignedScoreAttestation
+  ): Promise<void> {
+    const tx = await this.contract.submitAttestedScore(
+      this.gameId,
+      handle,
+      inputProof,
+      attestation.nonce,
+      attestation.deadline,
+      attestation.signature
+    );
+    await tx.wait();
+  }
+
+  /**
+   * Decrypt the signer's current score
+   */
+  async getMyScore(): Promise<number> {
+    const handle = await this.contract.getMyScore(this.gameId);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Decrypt the timestamp (seconds) of the signer's last submission
+   */
+  async getMyTimestamp(): Promise<number> {
+    const handle = await this.contract.getMyTimestamp(this.gameId);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Decrypt how many scores the signer has submitted in this game
+   */
+  async getMySubmissionCount(): Promise<number> {
+    const handle = await this.contract.getMySubmissionCount(this.gameId);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Decrypt whether the signer's score reaches minScoreThreshold
+   */
+  async isEligible(): Promise<boolean> {
+    const handle = await this.contract.getMyEligibility(this.gameId);
+    return Boolean(await this.decrypt(handle));
+  }
+
+  /**
+   * Read the aggregation policy applied to this game's submissions
+   */
+  async getScorePolicy(): Promise<ScorePolicy> {
+    return Number(await this.contract.getScorePolicy(this.gameId)) as ScorePolicy;
+  }
+
+  /**
+   * Check whether the signer has a score on-chain (public information)
+   */
+  async hasSubmitted(): Promise<boolean> {
+    return this.contract.hasPlayerSubmitted(this.gameId, await this.signer.getAddress());
+  }
+
+  /**
+   * Remove the signer's score from the leaderboard and statistics
+   */
+  async resetScore(): Promise<void> {
+    const tx = await this.contract.resetMyScore(this.gameId);
+    await tx.wait();
+  }
+
+  // ==================== Score Sharing ====================
+
+  /**
+   * Share the signer's encrypted scores and timestamps with another address
+   * @param viewer Address of the coach / organizer
+   */
+  async grantViewer(viewer: string): Promise<void> {
+    const tx = await this.contract.grantViewPermission(viewer);
+    await tx.wait();
+  }
+
+  /**
+   * Stop sharing future scores with a viewer
+   * @param viewer Address previously granted
+   */
+  async revokeViewer(viewer: string): Promise<void> {
+    const tx = await this.contract.revokeViewPermission(viewer);
+    await tx.wait();
+  }
+
+  /**
+   * List the addresses a player shares scores with
+   * @param player Defaults to the signer
+   */
+  async getViewers(player?: string): Promise<string[]> {
+    return [...(await this.contract.getViewers(player ?? (await this.signer.getAddress())))];
+  }
+
+  /**
+   * Decrypt another player's score in this game (signer must be one of their viewers)
+   * @param player Address of the player who shared their score
+   */
+  async getPlayerScore(player: string): Promise<number> {
+    const handle = await this.contract.getPlayerScore(this.gameId, player);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Decrypt another player's submission timestamp (signer must be one of their viewers)
+   * @param player Address of the player who shared their score
+   */
+  async getPlayerTimestamp(player: string): Promise<number> {
+    const handle = await this.contract.getPlayerTimestamp(this.gameId, player);
+    return Number(await this.decrypt(handle));
+  }
+
+  // ==================== Seasons ====================
+
+  /**
+   * Read the current season ID and whether it accepts submissions
+   */
+  async getActiveSeason(): Promise<ActiveSeason> {
+    const season = await this.contract.getActiveSeason();
+    return { seasonId: Number(season.seasonId), active: season.active };
+  }
+
+  /**
+   * Decrypt the signer's score in any season, including closed ones
+   * @param seasonId Season ID (starts at 1)
+   */
+  async getMySeasonScore(seasonId: number): Promise<number> {
+    const handle = await this.contract.getMySeasonScore(seasonId, this.gameId);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Close the active season (signer must hold DEFAULT_ADMIN_ROLE)
+   */
+  async closeSeason(): Promise<void> {
+    const tx = await this.contract.closeSeason();
+    await tx.wait();
+  }
+
+  /**
+   * Open the next season (signer must hold DEFAULT_ADMIN_ROLE)
+   * @return ID of the newly opened season
+   */
+  async openSeason(): Promise<number> {
+    const tx = await this.contract.openSeason();
+    await tx.wait();
+    return (await this.getActiveSeason()).seasonId;
+  }
+
+  // ==================== Leaderboard ====================
+
+  /**
+   * Compute the signer's leaderboard position and decrypt it
+   * @param batchSize Registry entries per transaction; omit for a single transaction
+   * @return Position (1 = best, ties share a position, 0 = below minScoreThreshold)
+   */
+  async getLeaderboardPosition(batchSize?: number): Promise<number> {
+    if (batchSize === undefined) {
+      const tx = await this.contract.getApproximateLeaderboardPosition(this.gameId);
+      await tx.wait();
+    } else {
+      let offset = await this.contract.getLeaderboardPositionCursor(this.gameId);
+      let complete = false;
+      while (!complete) {
+        complete = await this.contract.computeLeaderboardPositionBatch.staticCall(
+          this.gameId,
+          offset,
+          batchSize
+        );
+        const tx = await this.contract.computeLeaderboardPositionBatch(this.gameId, offset, batchSize);
+        await tx.wait();
+        offset = await this.contract.getLeaderboardPositionCursor(this.gameId);
+      }
+    }
+
+    const handle = await this.contract.getMyLeaderboardPosition(this.gameId);
+    return Number(await this.decrypt(handle));
+  }
+
+  /**
+   * Opt in to (or out of) publicly revealed top-N leaderboards
+   * @param optedIn Whether the signer's address and score may be revealed
+   */
+  async setLeaderboardOptIn(optedIn: boolean): Promise<void> {
+    const tx = await this.contract.setLeaderboardOptIn(optedIn);
+    await tx.wait();
+  }
+
+  /**
+   * Read the last publicly revealed top-N board of this game
+   */
+  async getRevealedLeaderboard(): Promise<RevealedLeaderboard> {
+    return readRevealedLeaderboard(this.contract, this.gameId);
+  }
+
+  // ==================== Achievements ====================
+
+  /**
+   * Check whether the signer's decrypted score meets an achievement's requirement
+   * @param id Achievement ID (must belong to this client's game)
+   *
+   * Note: The comparison happens client-side after user decryption,
+   * so the result never leaves the player's machine.
+   */
+  async hasAchievement(id: number): Promise<boolean> {
+    const achievement = await this.contract.getAchievement(id);
+    if (Number(achievement.gameId) !== this.gameId) {
+      throw new Error(`Achievement ${id} belongs to game ${achievement.gameId}, not ${this.gameId}`);
+    }
+    if (!achievement.active) {
+      return false;
+    }
+
+    // Use the on-chain eligibility flag, set against the threshold in force at submission
+    if (!(await this.isEligible())) {
+      return false;
+    }
+    return (await this.getMyScore()) >= Number(achievement.requiredScore);
+  }
+
+  /**
+   * Compute and store the signer's encrypted unlocked flag on-chain
+   * @param id Achievement ID (must belong to this client's game)
+   * @return Decrypted unlocked flag
+   */
+  async claimAchievement(id: number): Promise<boolean> {
+    const tx = await this.contract.claimAchievement(id);
+    await tx.wait();
+
+    const handle = await this.contract.getMyAchievementUnlock(id);
+    return Boolean(await this.decrypt(handle));
+  }
+
+  /**
+   * Decrypt and list every claimed achievement of this game the signer unlocked
+   *
+   * Note: Only claimed achievements are listed; call claimAchievement() first.
+   */
+  async getUnlockedAchievements(): Promise<UnlockedAchievement[]> {
+    const player = await this.signer.getAddress();
+    const count = Number(await this.contract.achievementCount());
+    const unlocked: UnlockedAchievement[] = [];
+
+    for (let offset = 0; offset < count; offset += ACHIEVEMENT_PAGE_SIZE) {
+      const page = await this.contract.listAchievements(offset, ACHIEVEMENT_PAGE_SIZE);
+      for (const [index, achievement] of page.entries()) {
+        const id = offset + index;
+        if (
+          Number(achievement.gameId) !== this.gameId ||
+          !(await this.contract.hasClaimedAchievement(id, player))
+        ) {
+          continue;
+        }
+
+        const handle = await this.contract.getMyAchievementUnlock(id);
+        if (await this.decrypt(handle)) {
+          unlocked.push({
+            id,
+            title: achievement.title,
+            category: achievement.category,
+            requiredScore: Number(achievement.requiredScore),
+          });
+        }
+      }
+    }
+
+    return unlocked;
+  }
+
+  /**
+   * Publicly prove the signer's claimed unlock (reveals the flag, never the score)
+   * @param id Achievement ID
+   * @return Whether the achievement is now publicly recorded as unlocked
+   */
+  async revealAchievement(id: number): Promise<boolean> {
+    const request = await this.contract.requestAchievementReveal(id);
+    await request.wait();
+
+    const handle = await this.contract.getMyAchievementUnlock(id);
+    const result = await this.fhevm.publicDecrypt([handle]);
+
+    const tx = await this.contract.revealAchievementUnlock(
+      id,
+      await this.signer.getAddress(),
+      result.abiEncodedClearValues,
+      result.decryptionProof
+    );
+    await tx.wait();
+
+    return this.contract.isAchievementPubliclyUnlocked(id, await this.signer.getAddress());
+  }
+
+  // ==================== Challenges ====================
+
+  /**
+   * Challenge another player in this game
+   * @param opponent Address of the player to challenge
+   * @param durationSeconds Time the opponent has to accept
+   * @return ID of the new challenge
+   */
+  async createChallenge(opponent: string, durationSeconds: number): Promise<number> {
+    const tx = await this.contract.createChallenge(opponent, this.gameId, durationSeconds);
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "ChallengeCreated") {
+        return Number(parsed.args.challengeId);
+      }
+    }
+    throw new Error("ChallengeCreated event not found");
+  }
+
+  /**
+   * Accept a challenge addressed to the signer
+   * @param challengeId ID of the challenge
+   */
+  async acceptChallenge(challengeId: number): Promise<void> {
+    const tx = await this.contract.acceptChallenge(challengeId);
+    await tx.wait();
+  }
+
+  /**
+   * Decrypt the outcome of a resolved challenge the signer took part in
+   * @param challengeId ID of the challenge
+   */
+  async getChallengeOutcome(challengeId: number): Promise<ChallengeOutcome> {
+    const handle = await this.contract.getChallengeOutcome(challengeId);
+    return Number(await this.decrypt(handle)) as ChallengeOutcome;
+  }
+
+  /**
+   * Agree to reveal a challenge outcome publicly (both players must consent)
+   * @param challengeId ID of the challenge
+   */
+  async consentToChallengeReveal(challengeId: number): Promise<void> {
+    const tx = await this.contract.consentToChallengeReveal(challengeId);
+    await tx.wait();
+  }
+
+  /**
+   * Publicly decrypt and publish a mutually consented challenge outcome
+   * @param challengeId ID of the challenge
+   */
+  async revealChallengeOutcome(challengeId: number): Promise<ChallengeOutcome> {
+    const challenge = await this.contract.getChallenge(challengeId);
+    const result = await this.fhevm.publicDecrypt([challenge.encryptedOutcome]);
+
+    const tx = await this.contract.revealChallengeOutcome(
+      challengeId,
+      result.abiEncodedClearValues,
+      result.decryptionProof
+    );
+    await tx.wait();
+
+    return Number((await this.contract.getChallenge(challengeId)).revealedOutcome) as ChallengeOutcome;
+  }
+
+  // ==================== Network Statistics ====================
+
+  /**
+   * Read public network statistics
+   */
+  async getNetworkStats(): Promise<NetworkStats> {
+    const stats = await this.contract.getNetworkStats();
+    return {
+      totalPlayers: Number(stats.totalPlayers),
+      averageScore: Number(stats.averageScore),
+      averageRevealed: stats.averageRevealed,
+    };
+  }
+
+  // ==================== Encryption Helpers ====================
+
+  /**
+   * Encrypt a score for this contract and signer
+   * @param plain Score between 0 and MAX_SCORE
+   * @return Ciphertext handle and input proof, ready for submitScore()
+   */
+  async encryptScore(plain: number): Promise<{ handle: Uint8Array; inputProof: Uint8Array }> {
+    if (!Number.isInteger(plain) || plain < 0 || plain > MAX_SCORE) {
+      throw new RangeError(`Score must be an integer between 0 and ${MAX_SCORE}, got ${plain}`);
+    }
+
+    const input = this.fhevm.createEncryptedInput(
+      await this.contract.getAddress(),
+      await this.signer.getAddress()
+    );
+    const encrypted = await input.add32(plain).encrypt();
+
+    return { handle: encrypted.handles[0], inputProof: encrypted.inputProof };
+  }
+
+  /**
+   * User-decrypt a handle the signer holds ACL rights to
+   * @param handle Ciphertext handle returned by the contract
+   */
+  async decrypt(handle: string): Promise<bigint | boolean | string> {
+    const contractAddress = await this.contract.getAddress();
+    const session = await this.getDecryptionSession(contractAddress);
+
+    const result = await this.fhevm.userDecrypt(
+      [{ handle, contractAddress }],
+      session.privateKey,
+      session.publicKey,
+      session.signature,
+      [contractAddress],
+      await this.signer.getAddress(),
+      session.startTimestamp,
+      session.durationDays
+    );
+
+    return result[handle as `0x${string}`];
+  }
+
+  /**
+   * Create the keypair and EIP-712 signature authorizing user decryption,
+   * reusing them until the signature's validity window runs out
+   */
+  private async getDecryptionSession(contractAddress: string): Promise<DecryptionSession> {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.session && now < sessionExpiry(this.session) - DECRYPTION_RENEWAL_MARGIN_SECONDS) {
+      return this.session;
+    }
+
+    const keypair = this.fhevm.generateKeypair();
+    const startTimestamp = now.toString();
+    const eip712 = this.fhevm.createEIP712(
+      keypair.publicKey,
+      [contractAddress],
+      startTimestamp,
+      DECRYPTION_DURATION_DAYS
+    );
+
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+
+    this.session = {
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      startTimestamp,
+      durationDays: DECRYPTION_DURATION_DAYS,
+    };
+    return this.session;
+  }
+}
+
+/**
+ * Unix time (seconds) at which a session's decryption signature expires
+ */
+function sessionExpiry(session: DecryptionSession): number {
+  return Number(session.startTimestamp) + Number(session.durationDays) * 24 * 60 * 60;
+}
@@ -0,0 +1,87 @@
+import type { BytesLike, Signer, TypedDataDomain } from "ethers";
+import { hexlify } from "ethers";
+
+/**
+ * Fields a game server vouches for when co-signing a submission
+ */
+export interface ScoreAttestation {
+  player: string;
+  seasonId: bigint | number;
+  gameId: bigint | number;
+  /** Ciphertext handle of the encrypted score (handles[0] of the encrypted input) */
+  scoreHandle: BytesLike;
+  /** Single-use value; the contract rejects a nonce the player already consumed */
+  nonce: bigint | number;
+  /** Unix timestamp (seconds) after which the attestation is rejected */
+  deadline: bigint | number;
+}
+
+/**
+ * Attestation plus the game server's signature, ready for submitAttestedScore()
+ */
+export interface SignedScoreAttestation extends ScoreAttestation {
+  signature: string;
+}
+
+/** EIP-712 types, mirroring ConfidentialGamingScore.SCORE_ATTESTATION_TYPEHASH */
+export const SCORE_ATTESTATION_TYPES = {
+  ScoreAttestation: [
+    { name: "player", type: "address" },
+    { name: "seasonId", type: "uint256" },
+    { name: "gameId", type: "uint256" },
+    { name: "scoreHandle", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-712 domain of a ConfidentialGamingScore deployment
+ * @param contractAddress Deployed contract address
+ * @param chainId Chain the contract is deployed on
+ */
+export function scoreAttestationDomain(
+  contractAddress: string,
+  chainId: bigint | number
+): TypedDataDomain {
+  return {
+    name: "ConfidentialGamingScore",
+    version: "1",
+    chainId,
+    verifyingContract: contractAddress,
+  };
+}
+
+/**
+ * Sign a score attestation with the game server's key
+ * @param server Signer holding the key registered via setGameServerSigner()
+ * @param contractAddress Deployed contract address
+ * @param attestation Player, season, game, ciphertext handle, nonce and deadline
+ *
+ * Example: ✅ Game server flow
+ * ```
+ * const attestation = await signScoreAttestation(server, address, {
+ *   player, seasonId, gameId: 0, scoreHandle: handle, nonce: 1n, deadline,
+ * });
+ * await playerClient.submitAttestedScore(handle, inputProof, attestation);
+ * ```
+ */
+export async function signScoreAttestation(
+  server: Signer,
+  contractAddress: string,
+  attestation: ScoreAttestation
+): Promise<SignedScoreAttestation> {
+  const network = await server.provider?.getNetwork();
+  if (!network) {
+    throw new Error("Game server signer must be connected to a provider");
+  }
+
+  const message = { ...attestation, scoreHandle: hexlify(attestation.scoreHandle) };
+  const signature = await server.signTypedData(
+    scoreAttestationDomain(contractAddress, network.chainId),
+    SCORE_ATTESTATION_TYPES,
+    message
+  );
+
+  return { ...message, signature };
+}
@@ -0,0 +1,99 @@
+import { Contract, Fragment } from "ethers";
+import type { ContractRunner, InterfaceAbi, JsonFragment } from "ethers";
+import {
+  ConfidentialGamingScore,
+  ConfidentialGamingScore__factory,
+  ConfidentialGamingScoreAchievements,
+  ConfidentialGamingScoreAchievements__factory,
+  ConfidentialGamingScoreAdministration,
+  ConfidentialGamingScoreAdministration__factory,
+  ConfidentialGamingScoreCompetition,
+  ConfidentialGamingScoreCompetition__factory,
+} from "../../typechain-types";
+
+/**
+ * Functions a module adds to the score contract's own ABI
+ */
+type ModuleFunctions<T> = Omit<T, keyof ConfidentialGamingScore>;
+
+/**
+ * ConfidentialGamingScore with the functions of its modules
+ *
+ * Functions the score contract does not implement are forwarded to its
+ * modules (Competition, Achievements, Administration) and run at the score
+ * contract's address, so one instance covers the whole API.
+ */
+export interface GamingScoreContract
+  extends Omit<ConfidentialGamingScore, "connect">,
+    ModuleFunctions<ConfidentialGamingScoreCompetition>,
+    ModuleFunctions<ConfidentialGamingScoreAchievements>,
+    ModuleFunctions<ConfidentialGamingScoreAdministration> {
+  connect(runner?: ContractRunner | null): GamingScoreContract;
+}
+
+/**
+ * Merge the score contract ABI with the functions, events and errors of its modules
+ */
+function mergeAbis(core: readonly JsonFragment[], modules: (readonly JsonFragment[])[]): JsonFragment[] {
+  const callable = (fragment: JsonFragment) => ["function", "event", "error"].includes(fragment.type ?? "");
+  const seen = new Set(core.filter(callable).map((fragment) => Fragment.from(fragment).format()));
+  const merged = [...core];
+
+  for (const fragment of modules.flat()) {
+    if (!callable(fragment)) {
+      continue;
+    }
+    const signature = Fragment.from(fragment).format();
+    if (!seen.has(signature)) {
+      seen.add(signature);
+      merged.push(fragment);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Typechain factories of the score contract and its modules, whose functions GamingScoreContract declares
+ */
+const FACTORIES = [
+  ConfidentialGamingScore__factory,
+  ConfidentialGamingScoreCompetition__factory,
+  ConfidentialGamingScoreAchievements__factory,
+  ConfidentialGamingScoreAdministration__factory,
+];
+
+/**
+ * ABI of a ConfidentialGamingScore deployment, modules included
+ */
+export const GAMING_SCORE_ABI: InterfaceAbi = mergeAbis(
+  FACTORIES[0].abi,
+  FACTORIES.slice(1).map((factory) => factory.abi)
+);
+
+/**
+ * Check that a contract's interface declares every function GamingScoreContract types
+ * @throws When a function of the score contract or a module is missing
+ */
+function assertGamingScoreContract(contract: Contract): asserts contract is Contract & GamingScoreContract {
+  for (const factory of FACTORIES) {
+    factory.createInterface().forEachFunction((fragment) => {
+      if (contract.interface.getFunction(fragment.selector) === null) {
+        throw new Error(`Score contract ABI is missing ${fragment.format()}`);
+      }
+    });
+  }
+}
+
+/**
+ * Attach to a deployed score contract (or upgradeable proxy) with the full ABI
+ * @param address Score contract or proxy address
+ * @param runner Signer or provider
+ */
+export function connectGamingScore(
+  address: string,
+  runner?: ContractRunner | null
+): GamingScoreContract {
+  const contract = new Contract(address, GAMING_SCORE_ABI, runner);
+  assertGamingScoreContract(contract);
+  return contract;
+}
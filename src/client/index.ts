@@ -0,0 +1,31 @@
+export {
+  ChallengeOutcome,
+  DEFAULT_GAME_ID,
+  GamingScoreClient,
+  MAX_SCORE,
+  ScorePolicy,
+} from "./GamingScoreClient";
+export type {
+  ActiveSeason,
+  FhevmClientInstance,
+  NetworkStats,
+  UnlockedAchievement,
+} from "./GamingScoreClient";
+export { connectGamingScore, GAMING_SCORE_ABI } from "./contract";
+export type { GamingScoreContract } from "./contract";
+export {
+  SCORE_ATTESTATION_TYPES,
+  scoreAttestationDomain,
+  signScoreAttestation,
+} from "./attestation";
+export type { ScoreAttestation, SignedScoreAttestation } from "./attestation";
+export { readRevealedLeaderboard, renderLeaderboard, revealTopLeaderboard } from "./leaderboard";
+export type { LeaderboardEntry, RevealedLeaderboard } from "./leaderboard";
+export {
+  describeReason,
+  fetchModerationLog,
+  formatModerationEvent,
+  ModerationReason,
+  parseReasonCode,
+} from "./moderation";
+export type { ModerationEvent } from "./moderation";
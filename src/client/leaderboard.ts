@@ -0,0 +1,110 @@
+import type { GamingScoreContract } from "./contract";
+import type { FhevmClientInstance } from "./GamingScoreClient";
+
+/**
+ * One row of a revealed leaderboard
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  player: string;
+  score: number;
+}
+
+/**
+ * Publicly revealed top-N board as exposed by getRevealedLeaderboard()
+ */
+export interface RevealedLeaderboard {
+  gameId: number;
+  seasonId: number;
+  /** Unix timestamp (seconds) of the reveal, 0 if never revealed */
+  revealedAt: number;
+  entries: LeaderboardEntry[];
+}
+
+/** Registry entries processed per processLeaderboardBatch() call by default */
+const DEFAULT_LEADERBOARD_BATCH_SIZE = 5;
+
+/**
+ * Read the last revealed board of a game
+ * @param contract ConfidentialGamingScore instance (any runner)
+ * @param gameId Game / mode of the board
+ *
+ * Note: Tied scores share a rank, like encrypted leaderboard positions.
+ */
+export async function readRevealedLeaderboard(
+  contract: GamingScoreContract,
+  gameId: number
+): Promise<RevealedLeaderboard> {
+  const board = await contract.getRevealedLeaderboard(gameId);
+
+  const entries: LeaderboardEntry[] = [];
+  board.players.forEach((player, index) => {
+    const score = Number(board.scores[index]);
+    const previous = entries[index - 1];
+    const rank = previous && previous.score === score ? previous.rank : index + 1;
+    entries.push({ rank, player, score });
+  });
+
+  return {
+    gameId: Number(board.gameId),
+    seasonId: Number(board.seasonId),
+    revealedAt: Number(board.revealedAt),
+    entries,
+  };
+}
+
+/**
+ * Render a revealed board as a fixed-width text table
+ * @param board Board returned by readRevealedLeaderboard()
+ */
+export function renderLeaderboard(board: RevealedLeaderboard): string {
+  if (board.entries.length === 0) {
+    return `Game ${board.gameId}: no revealed leaderboard`;
+  }
+
+  const lines = [
+    `Game ${board.gameId} - season ${board.seasonId} - revealed ${new Date(
+      board.revealedAt * 1000
+    ).toISOString()}`,
+    "Rank  Player                                      Score",
+  ];
+  for (const entry of board.entries) {
+    lines.push(
+      `${`#${entry.rank}`.padEnd(6)}${entry.player.padEnd(44)}${entry.score.toString().padStart(5)}`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Run a full top-N reveal: start the selection, process the registry in
+ * batches, publicly decrypt the slots and publish them
+ * @param contract ConfidentialGamingScore connected to an admin or a keeper
+ * @param fhevm FHEVM instance used for public decryption
+ * @param gameId Game / mode to rank
+ * @param size Number of slots (at most MAX_REVEALED_LEADERBOARD_SIZE)
+ * @param batchSize Registry entries per transaction
+ */
+export async function revealTopLeaderboard(
+  contract: GamingScoreContract,
+  fhevm: Pick<FhevmClientInstance, "publicDecrypt">,
+  gameId: number,
+  size: number,
+  batchSize: number = DEFAULT_LEADERBOARD_BATCH_SIZE
+): Promise<RevealedLeaderboard> {
+  await (await contract.startLeaderboardSelection(gameId, size)).wait();
+
+  let complete = false;
+  while (!complete) {
+    complete = await contract.processLeaderboardBatch.staticCall(batchSize);
+    await (await contract.processLeaderboardBatch(batchSize)).wait();
+  }
+
+  const handles = await contract.getLeaderboardSelectionHandles();
+  const result = await fhevm.publicDecrypt([...handles]);
+  await (
+    await contract.revealLeaderboard(result.abiEncodedClearValues, result.decryptionProof)
+  ).wait();
+
+  return readRevealedLeaderboard(contract, gameId);
+}
@@ -0,0 +1,141 @@
+import type { GamingScoreContract } from "./contract";
+
+/**
+ * Public reason codes recorded with voids and bans.
+ *
+ * The contract stores any non-zero uint16; these are the codes used by the
+ * moderation CLI and shown in its log.
+ */
+export enum ModerationReason {
+  Cheating = 1,
+  Exploit = 2,
+  Collusion = 3,
+  Abuse = 4,
+  Other = 99,
+}
+
+/**
+ * One moderation event as emitted by the contract
+ */
+export interface ModerationEvent {
+  action: "void" | "ban" | "unban";
+  player: string;
+  moderator: string;
+  /** Reason code (0 for lifted bans) */
+  reasonCode: number;
+  /** Game / mode of a voided score */
+  gameId?: number;
+  /** Season of a voided score */
+  seasonId?: number;
+  /** Unix timestamp (seconds) a ban expires at */
+  until?: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Human-readable name of a reason code
+ * @param code Reason code from an event or the bans() getter
+ */
+export function describeReason(code: number): string {
+  return ModerationReason[code] ?? `Code ${code}`;
+}
+
+/**
+ * Parse a reason given by name ("cheating") or number ("1")
+ * @param input Reason name or numeric code
+ */
+export function parseReasonCode(input: string): number {
+  const byName = Object.entries(ModerationReason).find(
+    ([name]) => name.toLowerCase() === input.toLowerCase()
+  );
+  if (byName) {
+    return Number(byName[1]);
+  }
+
+  const code = Number(input);
+  if (!Number.isInteger(code) || code < 1 || code > 0xffff) {
+    throw new Error(`Invalid reason code: ${input}`);
+  }
+  return code;
+}
+
+/**
+ * Read voids, bans and lifted bans, oldest first
+ * @param contract ConfidentialGamingScore instance (any runner)
+ * @param fromBlock First block to scan
+ * @param player Only return events about this player
+ */
+export async function fetchModerationLog(
+  contract: GamingScoreContract,
+  fromBlock: number = 0,
+  player?: string
+): Promise<ModerationEvent[]> {
+  const [voids, bans, lifts] = await Promise.all([
+    contract.queryFilter(contract.filters.ScoreVoided(player), fromBlock),
+    contract.queryFilter(contract.filters.PlayerBanned(player), fromBlock),
+    contract.queryFilter(contract.filters.PlayerBanLifted(player), fromBlock),
+  ]);
+
+  const entries: { event: ModerationEvent; logIndex: number }[] = [
+    ...voids.map((log) => ({
+      event: {
+        action: "void" as const,
+        player: log.args.player,
+        moderator: log.args.moderator,
+        reasonCode: Number(log.args.reasonCode),
+        gameId: Number(log.args.gameId),
+        seasonId: Number(log.args.seasonId),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      },
+      logIndex: log.index,
+    })),
+    ...bans.map((log) => ({
+      event: {
+        action: "ban" as const,
+        player: log.args.player,
+        moderator: log.args.moderator,
+        reasonCode: Number(log.args.reasonCode),
+        until: Number(log.args.until),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      },
+      logIndex: log.index,
+    })),
+    ...lifts.map((log) => ({
+      event: {
+        action: "unban" as const,
+        player: log.args.player,
+        moderator: log.args.moderator,
+        reasonCode: 0,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      },
+      logIndex: log.index,
+    })),
+  ];
+
+  entries.sort(
+    (a, b) => a.event.blockNumber - b.event.blockNumber || a.logIndex - b.logIndex
+  );
+  return entries.map((entry) => entry.event);
+}
+
+/**
+ * Render one moderation event as a single log line
+ * @param event Event returned by fetchModerationLog()
+ */
+export function formatModerationEvent(event: ModerationEvent): string {
+  const prefix = `#${event.blockNumber} ${event.action.padEnd(5)} ${event.player}`;
+  switch (event.action) {
+    case "void":
+      return `${prefix} game ${event.gameId} season ${event.seasonId} - ${describeReason(event.reasonCode)}`;
+    case "ban":
+      return `${prefix} until ${new Date((event.until ?? 0) * 1000).toISOString()} - ${describeReason(
+        event.reasonCode
+      )}`;
+    default:
+      return `${prefix} by ${event.moderator}`;
+  }
+}
@@ -1,8 +1,12 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { ConfidentialGamingScore } from "../typechain-types";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import hre, { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
-import { createInstance } from "fhevmjs";
+import { revealTopLeaderboard, signScoreAttestation } from "../src/client";
+import type { GamingScoreContract } from "../src/client";
+import { deployGamingScore } from "../deploy/modules";
 
 /**
  * Test Suite: ConfidentialGamingScore
@@ -16,36 +20,76 @@ import { createInstance } from "fhevmjs";
  * - Common pitfalls and error cases
  */
 describe("ConfidentialGamingScore", function () {
-  let contract: ConfidentialGamingScore;
+  // Game 0 is registered at deployment
+  const DEFAULT_GAME = 0;
+
+  let contract: GamingScoreContract;
   let owner: SignerWithAddress;
   let player1: SignerWithAddress;
   let player2: SignerWithAddress;
   let player3: SignerWithAddress;
-  let fhevm: any;
 
   /**
-   * Setup: Deploy contract and initialize FHE environment
+   * Helper: Encrypt a plaintext score for the player with the hardhat FHEVM mock
+   */
+  async function encryptScore(player: SignerWithAddress, score: number) {
+    const contractAddress = await contract.getAddress();
+    return hre.fhevm.createEncryptedInput(contractAddress, player.address).add32(score).encrypt();
+  }
+
+  /**
+   * Helper: Encrypt a plaintext score with the hardhat FHEVM mock and submit it
+   */
+  async function submitEncryptedScore(
+    player: SignerWithAddress,
+    score: number,
+    gameId: number = DEFAULT_GAME
+  ) {
+    const input = await encryptScore(player, score);
+
+    const tx = await contract
+      .connect(player)
+      .submitScore(gameId, input.handles[0], input.inputProof);
+    await tx.wait();
+  }
+
+  /**
+   * Helper: User-decrypt an euint32 handle owned by the given player
+   */
+  async function decryptUint32(handle: string, player: SignerWithAddress) {
+    const contractAddress = await contract.getAddress();
+    const clear = await hre.fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      handle,
+      contractAddress,
+      player
+    );
+    return Number(clear);
+  }
+
+  /**
+   * Helper: Compute the player's position in one transaction and decrypt it
+   */
+  async function computeAndDecryptPosition(
+    player: SignerWithAddress,
+    gameId: number = DEFAULT_GAME
+  ) {
+    const tx = await contract.connect(player).getApproximateLeaderboardPosition(gameId);
+    await tx.wait();
+
+    const handle = await contract.connect(player).getMyLeaderboardPosition(gameId);
+    return decryptUint32(handle, player);
+  }
+
+  /**
+   * Setup: Deploy contract and its modules
    */
   beforeEach(async function () {
     // Get signers
     [owner, player1, player2, player3] = await ethers.getSigners();
 
     // Deploy contract
-    const ConfidentialGamingScoreFactory = await ethers.getContractFactory(
-      "ConfidentialGamingScore"
-    );
-    contract = await ConfidentialGamingScoreFactory.deploy();
-    await contract.waitForDeployment();
-
-    // Initialize FHEVM instance
-    try {
-      fhevm = await createInstance({
-        chainId: 31337,
-        networkUrl: "http://localhost:8545",
-      });
-    } catch (error) {
-      console.log("Note: FHEVM instance initialization in test environment");
-    }
+    contract = await deployGamingScore(hre);
   });
 
   // ==================== Registration Tests ====================
@@ -116,17 +160,17 @@ describe("ConfidentialGamingScore", function () {
      * ✅ Test: Registered player can submit encrypted score
      */
     it("Should allow registered player to submit score", async function () {
-      // Simulate encrypted input (in real environment, generated by FHE client)
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
+      // Encrypted input generated by the FHEVM mock (the FHE client in production)
+      const input = await encryptScore(player1, 1500);
 
       const tx = await contract.connect(player1).submitScore(
-        mockEncryptedScore,
-        mockProof
+        DEFAULT_GAME,
+        input.handles[0],
+        input.inputProof
       );
       await tx.wait();
 
-      const hasScore = await contract.hasPlayerSubmitted(player1.address);
+      const hasScore = await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address);
       expect(hasScore).to.be.true;
     });
 
@@ -136,31 +180,21 @@ describe("ConfidentialGamingScore", function () {
     it("Should increment total players on first score submission", async function () {
       const initialCount = await contract.getTotalPlayers();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(
-        mockEncryptedScore,
-        mockProof
-      );
+      await submitEncryptedScore(player1, 1500);
 
       const newCount = await contract.getTotalPlayers();
-      expect(newCount).to.equal(initialCount.add(1));
+      expect(newCount).to.equal(initialCount + 1n);
     });
 
     /**
      * ✅ Test: Multiple players can submit scores
      */
     it("Should handle multiple player submissions", async function () {
-      const mockEncryptedScore1 = ethers.toBeHex(1500, 32);
-      const mockEncryptedScore2 = ethers.toBeHex(2000, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(mockEncryptedScore1, mockProof);
-      await contract.connect(player2).submitScore(mockEncryptedScore2, mockProof);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
 
-      expect(await contract.hasPlayerSubmitted(player1.address)).to.be.true;
-      expect(await contract.hasPlayerSubmitted(player2.address)).to.be.true;
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.true;
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player2.address)).to.be.true;
 
       const totalCount = await contract.getTotalPlayers();
       expect(totalCount).to.equal(2);
@@ -177,20 +211,19 @@ describe("ConfidentialGamingScore", function () {
       const mockProof = "0x" + "00".repeat(32);
 
       await expect(
-        contract.connect(player3).submitScore(mockEncryptedScore, mockProof)
+        contract.connect(player3).submitScore(DEFAULT_GAME, mockEncryptedScore, mockProof)
       ).to.be.revertedWith("Player not registered");
     });
 
     /**
-     * ❌ Test: Reject submission with empty encrypted input
+     * ❌ Test: Reject a handle the input proof does not cover
      */
-    it("Should reject empty encrypted input", async function () {
-      const emptyInput = "0x";
-      const mockProof = "0x" + "00".repeat(32);
+    it("Should reject a handle without its proof", async function () {
+      const input = await encryptScore(player1, 1500);
 
       await expect(
-        contract.connect(player1).submitScore(emptyInput, mockProof)
-      ).to.be.revertedWith("Invalid encrypted input");
+        contract.connect(player1).submitScore(DEFAULT_GAME, ethers.ZeroHash, input.inputProof)
+      ).to.be.reverted;
     });
 
     /**
@@ -201,7 +234,7 @@ describe("ConfidentialGamingScore", function () {
       const emptyProof = "0x";
 
       await expect(
-        contract.connect(player1).submitScore(mockEncryptedScore, emptyProof)
+        contract.connect(player1).submitScore(DEFAULT_GAME, mockEncryptedScore, emptyProof)
       ).to.be.revertedWith("Invalid proof");
     });
 
@@ -209,18 +242,14 @@ describe("ConfidentialGamingScore", function () {
      * ✅ Test: Player can update their score
      */
     it("Should allow player to update their score", async function () {
-      const mockEncryptedScore1 = ethers.toBeHex(1500, 32);
-      const mockEncryptedScore2 = ethers.toBeHex(2500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
       // First submission
-      await contract.connect(player1).submitScore(mockEncryptedScore1, mockProof);
-      let hasScore = await contract.hasPlayerSubmitted(player1.address);
+      await submitEncryptedScore(player1, 1500);
+      let hasScore = await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address);
       expect(hasScore).to.be.true;
 
       // Update with new score
-      await contract.connect(player1).submitScore(mockEncryptedScore2, mockProof);
-      hasScore = await contract.hasPlayerSubmitted(player1.address);
+      await submitEncryptedScore(player1, 2500);
+      hasScore = await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address);
       expect(hasScore).to.be.true;
 
       // Total count should still be 1 (update, not new submission)
@@ -236,17 +265,14 @@ describe("ConfidentialGamingScore", function () {
       await contract.connect(player1).registerPlayer();
       await contract.connect(player2).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
+      await submitEncryptedScore(player1, 1500);
     });
 
     /**
      * ✅ Test: Player with score can query their encrypted score
      */
     it("Should return encrypted score for player with submission", async function () {
-      const score = await contract.connect(player1).getMyScore();
+      const score = await contract.connect(player1).getMyScore(DEFAULT_GAME);
       expect(score).to.not.be.null;
     });
 
@@ -258,7 +284,7 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should reject score query from player without submission", async function () {
       await expect(
-        contract.connect(player2).getMyScore()
+        contract.connect(player2).getMyScore(DEFAULT_GAME)
       ).to.be.revertedWith("No score submitted");
     });
 
@@ -266,8 +292,8 @@ describe("ConfidentialGamingScore", function () {
      * ✅ Test: Check if player has submitted
      */
     it("Should correctly identify players with scores", async function () {
-      expect(await contract.hasPlayerSubmitted(player1.address)).to.be.true;
-      expect(await contract.hasPlayerSubmitted(player2.address)).to.be.false;
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.true;
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player2.address)).to.be.false;
     });
 
     /**
@@ -285,9 +311,7 @@ describe("ConfidentialGamingScore", function () {
     beforeEach(async function () {
       await contract.connect(player1).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
+      await submitEncryptedScore(player1, 1500);
     });
 
     /**
@@ -295,6 +319,7 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should allow owner to create achievements", async function () {
       const tx = await contract.connect(owner).createAchievement(
+        DEFAULT_GAME,
         "High Scorer",
         1000
       );
@@ -311,8 +336,8 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should prevent non-owner from creating achievements", async function () {
       await expect(
-        contract.connect(player1).createAchievement("Hacker", 999)
-      ).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+        contract.connect(player1).createAchievement(DEFAULT_GAME, "Hacker", 999)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
     });
 
     /**
@@ -320,7 +345,7 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should reject empty achievement title", async function () {
       await expect(
-        contract.connect(owner).createAchievement("", 1000)
+        contract.connect(owner).createAchievement(DEFAULT_GAME, "", 1000)
       ).to.be.revertedWith("Empty title");
     });
 
@@ -329,7 +354,7 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should reject zero required score", async function () {
       await expect(
-        contract.connect(owner).createAchievement("Invalid", 0)
+        contract.connect(owner).createAchievement(DEFAULT_GAME, "Invalid", 0)
       ).to.be.revertedWith("Invalid score");
     });
 
@@ -337,7 +362,7 @@ describe("ConfidentialGamingScore", function () {
      * ✅ Test: Get achievement details
      */
     it("Should return achievement details", async function () {
-      await contract.connect(owner).createAchievement("Master Player", 5000);
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "Master Player", 5000);
 
       const achievement = await contract.getAchievement(0);
       expect(achievement.title).to.equal("Master Player");
@@ -349,9 +374,110 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should reject invalid achievement ID", async function () {
       await expect(
-        contract.connect(player1).hasAchievement(999)
+        contract.connect(player1).hasAchievement(DEFAULT_GAME, 999)
       ).to.be.revertedWith("Invalid achievement");
     });
+
+    /**
+     * ✅ Test: Owner can deactivate and reactivate achievements
+     */
+    it("Should deactivate and reactivate achievements", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "High Scorer", 1000);
+
+      await expect(contract.connect(owner).deactivateAchievement(0))
+        .to.emit(contract, "AchievementStatusChanged")
+        .withArgs(0, false);
+      expect((await contract.getAchievement(0)).active).to.be.false;
+      await expect(
+        contract.connect(player1).hasAchievement(DEFAULT_GAME, 0)
+      ).to.be.revertedWith("Achievement inactive");
+      await expect(
+        contract.connect(owner).deactivateAchievement(0)
+      ).to.be.revertedWith("Achievement inactive");
+
+      await expect(contract.connect(owner).reactivateAchievement(0))
+        .to.emit(contract, "AchievementStatusChanged")
+        .withArgs(0, true);
+      expect((await contract.getAchievement(0)).active).to.be.true;
+      await expect(
+        contract.connect(owner).reactivateAchievement(0)
+      ).to.be.revertedWith("Achievement already active");
+    });
+
+    /**
+     * ✅ Test: Threshold updates bump the version
+     */
+    it("Should version threshold updates", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "High Scorer", 1000);
+      expect((await contract.getAchievement(0)).version).to.equal(1);
+
+      await expect(contract.connect(owner).updateAchievementThreshold(0, 1200))
+        .to.emit(contract, "AchievementThresholdUpdated")
+        .withArgs(0, 2, 1000, 1200);
+
+      const achievement = await contract.getAchievement(0);
+      expect(achievement.requiredScore).to.equal(1200);
+      expect(achievement.version).to.equal(2);
+
+      await expect(
+        contract.connect(owner).updateAchievementThreshold(0, 0)
+      ).to.be.revertedWith("Invalid score");
+    });
+
+    /**
+     * ✅ Test: Titles and categories are editable
+     */
+    it("Should update titles and categories", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "High Scorer", 1000);
+
+      await expect(contract.connect(owner).updateAchievementTitle(0, "Legend"))
+        .to.emit(contract, "AchievementTitleUpdated")
+        .withArgs(0, "Legend");
+      await expect(contract.connect(owner).setAchievementCategory(0, "Skill"))
+        .to.emit(contract, "AchievementCategoryUpdated")
+        .withArgs(0, "Skill");
+
+      const achievement = await contract.getAchievement(0);
+      expect(achievement.title).to.equal("Legend");
+      expect(achievement.category).to.equal("Skill");
+      await expect(
+        contract.connect(owner).updateAchievementTitle(0, "")
+      ).to.be.revertedWith("Empty title");
+    });
+
+    /**
+     * ✅ Test: Paginated achievement listing
+     */
+    it("Should list achievements page by page", async function () {
+      for (const [title, score] of [["Bronze", 1000], ["Silver", 2000], ["Gold", 3000]] as const) {
+        await contract.connect(owner).createAchievement(DEFAULT_GAME, title, score);
+      }
+
+      const first = await contract.listAchievements(0, 2);
+      expect(first.map((a) => a.title)).to.deep.equal(["Bronze", "Silver"]);
+
+      const last = await contract.listAchievements(2, 2);
+      expect(last.map((a) => a.title)).to.deep.equal(["Gold"]);
+
+      expect(await contract.listAchievements(3, 2)).to.have.length(0);
+    });
+
+    /**
+     * ❌ Test: Only the owner manages the lifecycle of existing achievements
+     */
+    it("Should restrict achievement lifecycle management", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "High Scorer", 1000);
+
+      await expect(
+        contract.connect(player1).deactivateAchievement(0)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(player1).updateAchievementThreshold(0, 1)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(owner).setAchievementCategory(1, "Skill")
+      ).to.be.revertedWith("Invalid achievement ID");
+    });
   });
 
   // ==================== Network Statistics Tests ====================
@@ -362,7 +488,8 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should return correct stats with zero players", async function () {
       const stats = await contract.getNetworkStats();
-      expect(stats).to.equal(0);
+      expect(stats.totalPlayers).to.equal(0);
+      expect(stats.averageRevealed).to.be.false;
     });
 
     /**
@@ -372,14 +499,127 @@ describe("ConfidentialGamingScore", function () {
       await contract.connect(player1).registerPlayer();
       await contract.connect(player2).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
+
+      const stats = await contract.getNetworkStats();
+      expect(stats.totalPlayers).to.equal(2);
+    });
+
+    /**
+     * ❌ Test: Non-owner cannot request an average reveal
+     */
+    it("Should prevent non-owner from requesting average reveal", async function () {
+      await expect(
+        contract.connect(player1).requestNetworkAverageReveal()
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
+    /**
+     * ❌ Test: Average cannot be computed without scores
+     */
+    it("Should reject average reveal with zero players", async function () {
+      await expect(
+        contract.connect(owner).requestNetworkAverageReveal()
+      ).to.be.revertedWith("No players with scores");
+    });
+
+    /**
+     * ❌ Test: Result cannot be published without a request
+     */
+    it("Should reject publishing an average that was never requested", async function () {
+      await expect(
+        contract.revealNetworkAverage("0x", "0x")
+      ).to.be.revertedWith("No reveal requested");
+    });
+  });
+
+  // ==================== Encrypted Aggregate Tests ====================
+
+  describe("Encrypted Network Average", function () {
+    /**
+     * Helper: Request, publicly decrypt and publish the network average
+     */
+    async function revealAverage() {
+      await (await contract.connect(owner).requestNetworkAverageReveal()).wait();
+
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
 
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
-      await contract.connect(player2).submitScore(mockEncryptedScore, mockProof);
+      await (
+        await contract.revealNetworkAverage(
+          result.abiEncodedClearValues,
+          result.decryptionProof
+        )
+      ).wait();
 
       const stats = await contract.getNetworkStats();
-      expect(stats).to.equal(2);
+      expect(stats.averageRevealed).to.be.true;
+      return Number(stats.averageScore);
+    }
+
+    beforeEach(async function () {
+      // Public decryption needs the in-process FHEVM mock
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+    });
+
+    /**
+     * ✅ Test: Average of first submissions
+     */
+    it("Should reveal the average of all submitted scores", async function () {
+      await submitEncryptedScore(player1, 1000);
+      await submitEncryptedScore(player2, 2000);
+
+      expect(await revealAverage()).to.equal(1500);
+      expect(await contract.revealedAveragePlayerCount()).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Score updates replace the old value in the total
+     */
+    it("Should keep the total consistent across score updates", async function () {
+      await submitEncryptedScore(player1, 1000);
+      await submitEncryptedScore(player2, 2000);
+      await submitEncryptedScore(player1, 3000);
+
+      expect(await revealAverage()).to.equal(2500);
+    });
+
+    /**
+     * ✅ Test: Resets remove the score from the total
+     */
+    it("Should keep the total consistent across resets", async function () {
+      await submitEncryptedScore(player1, 1000);
+      await submitEncryptedScore(player2, 2000);
+      expect(await revealAverage()).to.equal(1500);
+
+      await contract.connect(player2).resetMyScore(DEFAULT_GAME);
+      expect(await revealAverage()).to.equal(1000);
+
+      await submitEncryptedScore(player2, 4000);
+      expect(await revealAverage()).to.equal(2500);
+    });
+
+    /**
+     * ✅ Test: Reveal emits the published average
+     */
+    it("Should emit NetworkAverageRevealed", async function () {
+      await submitEncryptedScore(player1, 1200);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+
+      await expect(
+        contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof)
+      )
+        .to.emit(contract, "NetworkAverageRevealed")
+        .withArgs(1200, 1);
     });
   });
 
@@ -389,10 +629,7 @@ describe("ConfidentialGamingScore", function () {
     beforeEach(async function () {
       await contract.connect(player1).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
+      await submitEncryptedScore(player1, 1500);
     });
 
     /**
@@ -401,43 +638,46 @@ describe("ConfidentialGamingScore", function () {
     it("Should allow player to reset their score", async function () {
       const initialCount = await contract.getTotalPlayers();
 
-      const tx = await contract.connect(player1).resetMyScore();
+      const tx = await contract.connect(player1).resetMyScore(DEFAULT_GAME);
       await tx.wait();
 
-      const hasScore = await contract.hasPlayerSubmitted(player1.address);
+      const hasScore = await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address);
       expect(hasScore).to.be.false;
 
       const newCount = await contract.getTotalPlayers();
-      expect(newCount).to.equal(initialCount.sub(1));
+      expect(newCount).to.equal(initialCount - 1n);
+    });
+
+    /**
+     * ✅ Test: Resets emit ScoreCleared, not a submission
+     */
+    it("Should emit ScoreCleared on reset", async function () {
+      await expect(contract.connect(player1).resetMyScore(DEFAULT_GAME))
+        .to.emit(contract, "ScoreCleared")
+        .withArgs(player1.address, 1, DEFAULT_GAME, anyValue)
+        .and.not.to.emit(contract, "ConfidentialScoreSubmitted");
     });
 
     /**
      * ❌ Test: Cannot reset score if no score exists
      */
     it("Should reject reset if no score submitted", async function () {
-      await contract.connect(player1).resetMyScore();
+      await contract.connect(player1).resetMyScore(DEFAULT_GAME);
 
       await expect(
-        contract.connect(player1).resetMyScore()
-      ).to.be.revertedWith("No score to reset");
+        contract.connect(player1).resetMyScore(DEFAULT_GAME)
+      ).to.be.revertedWith("No score submitted");
     });
 
     /**
      * ✅ Test: Player can resubmit after reset
      */
     it("Should allow resubmission after reset", async function () {
-      await contract.connect(player1).resetMyScore();
-
-      const mockEncryptedScore = ethers.toBeHex(2000, 32);
-      const mockProof = "0x" + "00".repeat(32);
+      await contract.connect(player1).resetMyScore(DEFAULT_GAME);
 
-      const tx = await contract.connect(player1).submitScore(
-        mockEncryptedScore,
-        mockProof
-      );
-      await tx.wait();
+      await submitEncryptedScore(player1, 2000);
 
-      expect(await contract.hasPlayerSubmitted(player1.address)).to.be.true;
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.true;
     });
   });
 
@@ -489,11 +729,8 @@ describe("ConfidentialGamingScore", function () {
       await contract.connect(player1).registerPlayer();
       await contract.connect(player2).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
-      await contract.connect(player2).submitScore(mockEncryptedScore, mockProof);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
     });
 
     /**
@@ -503,6 +740,7 @@ describe("ConfidentialGamingScore", function () {
       let totalPlayers = await contract.getTotalPlayers();
       expect(totalPlayers).to.equal(2);
 
+      await contract.connect(owner).pause();
       const tx = await contract.connect(owner).emergencyReset();
       await tx.wait();
 
@@ -510,13 +748,29 @@ describe("ConfidentialGamingScore", function () {
       expect(totalPlayers).to.equal(0);
     });
 
+    /**
+     * ✅ Test: Emergency reset clears stale achievement entries
+     */
+    it("Should clear achievements on emergency reset", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "High Scorer", 1000);
+      await contract.connect(owner).setAchievementCategory(0, "Skill");
+
+      await contract.connect(owner).pause();
+      await contract.connect(owner).emergencyReset();
+
+      expect(await contract.achievementCount()).to.equal(0);
+      expect(await contract.gameAchievementCount(DEFAULT_GAME)).to.equal(0);
+      expect((await contract.achievements(0)).title).to.equal("");
+      await expect(contract.getAchievement(0)).to.be.revertedWith("Invalid achievement ID");
+    });
+
     /**
      * ❌ Test: Non-owner cannot perform emergency reset
      */
     it("Should prevent non-owner from emergency reset", async function () {
       await expect(
         contract.connect(player1).emergencyReset()
-      ).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -528,9 +782,9 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should handle many player registrations", async function () {
       const signers = await ethers.getSigners();
-      const playerCount = 20;
+      const playerCount = Math.min(20, signers.length - 3);
 
-      for (let i = 0; i < playerCount && i < signers.length - 3; i++) {
+      for (let i = 0; i < playerCount; i++) {
         await contract.connect(signers[i + 3]).registerPlayer();
       }
 
@@ -546,6 +800,7 @@ describe("ConfidentialGamingScore", function () {
 
       for (let i = 0; i < achievementCount; i++) {
         await contract.connect(owner).createAchievement(
+          DEFAULT_GAME,
           `Achievement ${i}`,
           (i + 1) * 100
         );
@@ -563,18 +818,15 @@ describe("ConfidentialGamingScore", function () {
       await contract.connect(player1).registerPlayer();
       await contract.connect(player2).registerPlayer();
 
-      const mockEncryptedScore = ethers.toBeHex(1500, 32);
-      const mockProof = "0x" + "00".repeat(32);
-
-      await contract.connect(player1).submitScore(mockEncryptedScore, mockProof);
-      await contract.connect(player2).submitScore(mockEncryptedScore, mockProof);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
     });
 
     /**
      * ✅ Test: Encrypted comparison operations
      */
     it("Should support encrypted comparisons", async function () {
-      const result = await contract.connect(player1).meetsAchievementThreshold(1000);
+      const result = await contract.connect(player1).meetsAchievementThreshold.staticCall(DEFAULT_GAME, 1000);
       expect(result).to.not.be.null;
     });
 
@@ -584,7 +836,7 @@ describe("ConfidentialGamingScore", function () {
     it("Should support encrypted score comparison", async function () {
       const result = await contract
         .connect(player1)
-        .isScoreHigherThan(player2.address);
+        .isScoreHigherThan.staticCall(DEFAULT_GAME, player2.address);
       expect(result).to.not.be.null;
     });
 
@@ -593,7 +845,7 @@ describe("ConfidentialGamingScore", function () {
      */
     it("Should reject comparison with unregistered player", async function () {
       await expect(
-        contract.connect(player1).isScoreHigherThan(player3.address)
+        contract.connect(player1).isScoreHigherThan(DEFAULT_GAME, player3.address)
       ).to.be.revertedWith("Other player not registered");
     });
 
@@ -603,44 +855,1841 @@ describe("ConfidentialGamingScore", function () {
     it("Should return approximate leaderboard position", async function () {
       const position = await contract
         .connect(player1)
-        .getApproximateLeaderboardPosition();
+        .getApproximateLeaderboardPosition(DEFAULT_GAME);
       expect(position).to.not.be.null;
     });
   });
 
-  // ==================== Events Tests ====================
+  // ==================== Encrypted Leaderboard Tests ====================
+
+  describe("Encrypted Leaderboard Position", function () {
+    beforeEach(async function () {
+      // Decryption assertions need the in-process FHEVM mock
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+      await contract.connect(player3).registerPlayer();
+    });
 
-  describe("Contract Events", function () {
     /**
-     * ✅ Test: PlayerRegistered event is emitted
+     * ✅ Test: Positions follow descending score order
      */
-    it("Should emit PlayerRegistered event", async function () {
-      const tx = await contract.connect(player1).registerPlayer();
-      const receipt = await tx.wait();
+    it("Should rank players by encrypted score", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      await submitEncryptedScore(player3, 1200);
+
+      expect(await computeAndDecryptPosition(player2)).to.equal(1);
+      expect(await computeAndDecryptPosition(player1)).to.equal(2);
+      expect(await computeAndDecryptPosition(player3)).to.equal(3);
+    });
 
-      const events = receipt?.logs.filter((log) => {
-        try {
-          return contract.interface.parseLog(log)?.name === "PlayerRegistered";
-        } catch {
-          return false;
-        }
-      });
+    /**
+     * ✅ Test: Tied players share a position
+     */
+    it("Should give tied players the same position", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
+      await submitEncryptedScore(player3, 1000);
+
+      expect(await computeAndDecryptPosition(player1)).to.equal(1);
+      expect(await computeAndDecryptPosition(player2)).to.equal(1);
+      expect(await computeAndDecryptPosition(player3)).to.equal(3);
+    });
 
-      expect(events?.length).to.be.greaterThan(0);
+    /**
+     * ✅ Test: Reset players no longer count
+     */
+    it("Should ignore players who reset their score", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      await submitEncryptedScore(player3, 1200);
+
+      await contract.connect(player2).resetMyScore(DEFAULT_GAME);
+
+      expect(await computeAndDecryptPosition(player1)).to.equal(1);
+      expect(await computeAndDecryptPosition(player3)).to.equal(2);
     });
 
     /**
-     * ✅ Test: ConfidentialScoreSubmitted event is emitted
+     * ✅ Test: Batched computation matches single-pass computation
      */
-    it("Should emit ConfidentialScoreSubmitted event", async function () {
+    it("Should compute the same position in batches", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      await submitEncryptedScore(player3, 1700);
+
+      // Process one registry entry per transaction
+      for (let offset = 0; offset < 3; offset++) {
+        expect(await contract.connect(player1).getLeaderboardPositionCursor(DEFAULT_GAME)).to.equal(offset);
+        await (await contract.connect(player1).computeLeaderboardPositionBatch(DEFAULT_GAME, offset, 1)).wait();
+      }
+
+      expect(await contract.connect(player1).getLeaderboardPositionCursor(DEFAULT_GAME)).to.equal(0);
+
+      const handle = await contract.connect(player1).getMyLeaderboardPosition(DEFAULT_GAME);
+      expect(await decryptUint32(handle, player1)).to.equal(3);
+    });
+
+    /**
+     * ❌ Test: Batches must resume from the stored cursor
+     */
+    it("Should reject out-of-order batches", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+
+      await expect(
+        contract.connect(player1).computeLeaderboardPositionBatch(DEFAULT_GAME, 1, 1)
+      ).to.be.revertedWith("Unexpected batch offset");
+    });
+
+    /**
+     * ❌ Test: Position must be computed before it can be read
+     */
+    it("Should reject reading a position that was never computed", async function () {
+      await expect(
+        contract.connect(player1).getMyLeaderboardPosition(DEFAULT_GAME)
+      ).to.be.revertedWith("No position computed");
+    });
+  });
+
+  // ==================== Season Tests ====================
+
+  describe("Seasons", function () {
+    beforeEach(async function () {
       await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+    });
+
+    /**
+     * ✅ Test: Season 1 opens at deployment
+     */
+    it("Should start with season 1 active", async function () {
+      const season = await contract.getActiveSeason();
+      expect(season.seasonId).to.equal(1);
+      expect(season.active).to.be.true;
+    });
 
+    /**
+     * ✅ Test: Closing archives the player count and blocks submissions
+     */
+    it("Should archive season data and reject submissions once closed", async function () {
       const mockEncryptedScore = ethers.toBeHex(1500, 32);
       const mockProof = "0x" + "00".repeat(32);
+      await submitEncryptedScore(player1, 1500);
+
+      await expect(contract.connect(owner).closeSeason())
+        .to.emit(contract, "SeasonClosed");
+
+      const archived = await contract.getSeason(1);
+      expect(archived.active).to.be.false;
+      expect(archived.playerCount).to.equal(1);
+      expect(archived.endTime).to.be.greaterThan(0);
+
+      await expect(
+        contract.connect(player2).submitScore(DEFAULT_GAME, mockEncryptedScore, mockProof)
+      ).to.be.revertedWith("No active season");
+      await expect(
+        contract.connect(player1).resetMyScore(DEFAULT_GAME)
+      ).to.be.revertedWith("No active season");
+    });
+
+    /**
+     * ✅ Test: New season starts with empty scores and counters
+     */
+    it("Should start a new season from zero", async function () {
+      await submitEncryptedScore(player1, 1500);
+
+      await contract.connect(owner).closeSeason();
+      await expect(contract.connect(owner).openSeason())
+        .to.emit(contract, "SeasonOpened");
+
+      expect((await contract.getActiveSeason()).seasonId).to.equal(2);
+      expect(await contract.getTotalPlayers()).to.equal(0);
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.false;
+      expect(await contract.hasPlayerSubmittedInSeason(1, DEFAULT_GAME, player1.address)).to.be.true;
+
+      // Registration carries over between seasons
+      expect(await contract.isPlayerRegistered(player1.address)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Submission event carries the season ID
+     */
+    it("Should emit the season ID on submission", async function () {
+      const input = await encryptScore(player1, 1500);
+
+      await expect(
+        contract.connect(player1).submitScore(DEFAULT_GAME, input.handles[0], input.inputProof)
+      )
+        .to.emit(contract, "ConfidentialScoreSubmitted")
+        .withArgs(player1.address, 1, DEFAULT_GAME, anyValue);
+    });
+
+    /**
+     * ❌ Test: Only one season can be active
+     */
+    it("Should reject opening a season while one is active", async function () {
+      await expect(
+        contract.connect(owner).openSeason()
+      ).to.be.revertedWith("Season already active");
+    });
+
+    /**
+     * ❌ Test: Non-owner cannot manage seasons
+     */
+    it("Should prevent non-owner from managing seasons", async function () {
+      await expect(
+        contract.connect(player1).closeSeason()
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(player1).openSeason()
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
+    /**
+     * ❌ Test: Reject unknown season IDs
+     */
+    it("Should reject invalid season IDs", async function () {
+      await expect(contract.getSeason(0)).to.be.revertedWith("Invalid season ID");
+      await expect(contract.getSeason(2)).to.be.revertedWith("Invalid season ID");
+    });
+
+    /**
+     * ✅ Test: Two seasons back to back keep independent, decryptable scores
+     */
+    it("Should keep past season scores user-decryptable", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      // Season 1
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      expect(await computeAndDecryptPosition(player1)).to.equal(2);
+      await contract.connect(owner).closeSeason();
+
+      // Season 2
+      await contract.connect(owner).openSeason();
+      await submitEncryptedScore(player1, 900);
+      expect(await computeAndDecryptPosition(player1)).to.equal(1);
+
+      const currentHandle = await contract.connect(player1).getMyScore(DEFAULT_GAME);
+      expect(await decryptUint32(currentHandle, player1)).to.equal(900);
+
+      const archivedHandle = await contract.connect(player1).getMySeasonScore(1, DEFAULT_GAME);
+      expect(await decryptUint32(archivedHandle, player1)).to.equal(1500);
+
+      const archivedHandle2 = await contract.connect(player2).getMySeasonScore(1, DEFAULT_GAME);
+      expect(await decryptUint32(archivedHandle2, player2)).to.equal(2000);
+
+      await expect(
+        contract.connect(player2).getMySeasonScore(2, DEFAULT_GAME)
+      ).to.be.revertedWith("No score in season");
+    });
+  });
+
+  // ==================== Game Namespace Tests ====================
+
+  describe("Game Namespaces", function () {
+    let arcadeGame: number;
+    let puzzleGame: number;
+
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+
+      await contract.connect(owner).registerGame("Arcade Racer");
+      await contract.connect(owner).registerGame("Puzzle Duel");
+      arcadeGame = 1;
+      puzzleGame = 2;
+    });
+
+    /**
+     * ✅ Test: Owner registers games with names
+     */
+    it("Should register games in order", async function () {
+      expect(await contract.gameCount()).to.equal(3);
+      expect(await contract.getGameName(DEFAULT_GAME)).to.equal("Default");
+      expect(await contract.getGameName(arcadeGame)).to.equal("Arcade Racer");
+      expect(await contract.getGameName(puzzleGame)).to.equal("Puzzle Duel");
+    });
+
+    /**
+     * ✅ Test: Player counts are tracked per game
+     */
+    it("Should count players per game", async function () {
+
+      await submitEncryptedScore(player1, 1500, arcadeGame);
+      await submitEncryptedScore(player2, 1500, arcadeGame);
+      await submitEncryptedScore(player1, 1500, puzzleGame);
+
+      expect(await contract.getGamePlayerCount(arcadeGame)).to.equal(2);
+      expect(await contract.getGamePlayerCount(puzzleGame)).to.equal(1);
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(0);
+      expect(await contract.hasPlayerSubmitted(puzzleGame, player2.address)).to.be.false;
+
+      await contract.connect(player1).resetMyScore(arcadeGame);
+      expect(await contract.getGamePlayerCount(arcadeGame)).to.equal(1);
+      expect(await contract.hasPlayerSubmitted(puzzleGame, player1.address)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Achievements belong to a single game
+     */
+    it("Should scope achievements to their game", async function () {
+      await submitEncryptedScore(player1, 1500, arcadeGame);
+      await submitEncryptedScore(player1, 1500, puzzleGame);
+
+      await contract.connect(owner).createAchievement(arcadeGame, "Speed Demon", 1000);
+      expect(await contract.gameAchievementCount(arcadeGame)).to.equal(1);
+      expect(await contract.gameAchievementCount(puzzleGame)).to.equal(0);
+      expect((await contract.getAchievement(0)).gameId).to.equal(arcadeGame);
+
+      await expect(
+        contract.connect(player1).hasAchievement(puzzleGame, 0)
+      ).to.be.revertedWith("Achievement not in game");
+    });
+
+    /**
+     * ❌ Test: Unknown games are rejected
+     */
+    it("Should reject unknown games", async function () {
+      const mockEncryptedScore = ethers.toBeHex(1500, 32);
+      const mockProof = "0x" + "00".repeat(32);
+
+      await expect(
+        contract.connect(player1).submitScore(3, mockEncryptedScore, mockProof)
+      ).to.be.revertedWith("Unknown game");
+      await expect(
+        contract.connect(owner).createAchievement(3, "Ghost", 100)
+      ).to.be.revertedWith("Unknown game");
+    });
+
+    /**
+     * ❌ Test: Only the owner registers games
+     */
+    it("Should prevent non-owner from registering games", async function () {
+      await expect(
+        contract.connect(player1).registerGame("Rogue")
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(owner).registerGame("")
+      ).to.be.revertedWith("Empty game name");
+    });
+
+    /**
+     * ✅ Test: Two games on one contract keep independent encrypted scores and ranks
+     */
+    it("Should keep encrypted scores and positions independent per game", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500, arcadeGame);
+      await submitEncryptedScore(player2, 2000, arcadeGame);
+      await submitEncryptedScore(player1, 300, puzzleGame);
+      await submitEncryptedScore(player2, 100, puzzleGame);
+
+      const arcadeHandle = await contract.connect(player1).getMyScore(arcadeGame);
+      const puzzleHandle = await contract.connect(player1).getMyScore(puzzleGame);
+      expect(await decryptUint32(arcadeHandle, player1)).to.equal(1500);
+      expect(await decryptUint32(puzzleHandle, player1)).to.equal(300);
+
+      expect(await computeAndDecryptPosition(player1, arcadeGame)).to.equal(2);
+      expect(await computeAndDecryptPosition(player1, puzzleGame)).to.equal(1);
+    });
+  });
+
+  // ==================== Score Aggregation Tests ====================
+
+  describe("Score Aggregation Policies", function () {
+    // Mirrors ConfidentialGamingScore.ScorePolicy
+    const LATEST = 0;
+    const BEST = 1;
+    const ACCUMULATE = 2;
+
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+    });
+
+    /**
+     * Helper: Decrypt player1's stored score in a game
+     */
+    async function decryptMyScore(gameId: number = DEFAULT_GAME) {
+      const handle = await contract.connect(player1).getMyScore(gameId);
+      return decryptUint32(handle, player1);
+    }
+
+    /**
+     * ✅ Test: Latest policy is the default
+     */
+    it("Should default to the latest policy", async function () {
+      expect(await contract.defaultScorePolicy()).to.equal(LATEST);
+      expect(await contract.getScorePolicy(DEFAULT_GAME)).to.equal(LATEST);
+    });
+
+    /**
+     * ✅ Test: Latest policy replaces the stored score
+     */
+    it("Should keep the latest score", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+
+      expect(await decryptMyScore()).to.equal(900);
+    });
+
+    /**
+     * ✅ Test: Best policy keeps the encrypted maximum
+     */
+    it("Should keep the best score", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(owner).setDefaultScorePolicy(BEST);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+      expect(await decryptMyScore()).to.equal(1500);
+
+      await submitEncryptedScore(player1, 2000);
+      expect(await decryptMyScore()).to.equal(2000);
+    });
+
+    /**
+     * ✅ Test: Accumulate policy sums scores and saturates instead of wrapping
+     */
+    it("Should accumulate scores without overflowing", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(owner).setDefaultScorePolicy(ACCUMULATE);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+      expect(await decryptMyScore()).to.equal(2400);
+
+      await submitEncryptedScore(player1, 2 ** 32 - 1000);
+      expect(await decryptMyScore()).to.equal(2 ** 32 - 1);
+    });
+
+    /**
+     * ✅ Test: Network total follows the aggregated score
+     */
+    it("Should average the aggregated scores", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(owner).setDefaultScorePolicy(ACCUMULATE);
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      expect(await contract.revealedAverageScore()).to.equal(2400);
+    });
+
+    /**
+     * ✅ Test: A game override takes precedence over the default
+     */
+    it("Should apply per-game policy overrides", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(owner).registerGame("Marathon");
+      const marathon = 1;
+
+      await expect(contract.connect(owner).setGameScorePolicy(marathon, ACCUMULATE))
+        .to.emit(contract, "GameScorePolicyUpdated")
+        .withArgs(marathon, ACCUMULATE, true);
+      await contract.connect(owner).setDefaultScorePolicy(BEST);
+      expect(await contract.getScorePolicy(DEFAULT_GAME)).to.equal(BEST);
+      expect(await contract.getScorePolicy(marathon)).to.equal(ACCUMULATE);
+
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+      await submitEncryptedScore(player1, 1500, marathon);
+      await submitEncryptedScore(player1, 900, marathon);
+
+      expect(await decryptMyScore()).to.equal(1500);
+      expect(await decryptMyScore(marathon)).to.equal(2400);
+
+      await contract.connect(owner).clearGameScorePolicy(marathon);
+      expect(await contract.getScorePolicy(marathon)).to.equal(BEST);
+    });
+
+    /**
+     * ✅ Test: Encrypted submission counter
+     */
+    it("Should count submissions privately", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 900);
+      await submitEncryptedScore(player1, 1200);
+
+      const handle = await contract.connect(player1).getMySubmissionCount(DEFAULT_GAME);
+      expect(await decryptUint32(handle, player1)).to.equal(3);
+
+      await contract.connect(player1).resetMyScore(DEFAULT_GAME);
+      await submitEncryptedScore(player1, 400);
+      const restarted = await contract.connect(player1).getMySubmissionCount(DEFAULT_GAME);
+      expect(await decryptUint32(restarted, player1)).to.equal(1);
+    });
+
+    /**
+     * ❌ Test: Only the owner changes policies
+     */
+    it("Should prevent non-owner from changing policies", async function () {
+      await expect(
+        contract.connect(player1).setDefaultScorePolicy(BEST)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(player1).setGameScorePolicy(DEFAULT_GAME, BEST)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(owner).setGameScorePolicy(5, BEST)
+      ).to.be.revertedWith("Unknown game");
+    });
+  });
+
+  // ==================== Score Attestation Tests ====================
+
+  describe("Score Attestation", function () {
+    let server: SignerWithAddress;
+    let contractAddress: string;
+    const mockProof = "0x" + "00".repeat(32);
+
+    beforeEach(async function () {
+      server = (await ethers.getSigners())[4];
+      contractAddress = await contract.getAddress();
+
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+      await contract.connect(owner).setGameServerSigner(server.address);
+      await contract.connect(owner).setAttestationRequired(true);
+    });
+
+    /**
+     * Helper: Server-side attestation for player1 with sensible defaults
+     */
+    async function attest(
+      scoreHandle: string | Uint8Array,
+      overrides: { signer?: SignerWithAddress; nonce?: number; deadline?: number } = {}
+    ) {
+      const block = await ethers.provider.getBlock("latest");
+      return signScoreAttestation(overrides.signer ?? server, contractAddress, {
+        player: player1.address,
+        seasonId: await contract.currentSeasonId(),
+        gameId: DEFAULT_GAME,
+        scoreHandle,
+        nonce: overrides.nonce ?? 1,
+        deadline: overrides.deadline ?? block!.timestamp + 600,
+      });
+    }
+
+    /**
+     * ✅ Test: Attested encrypted score is stored and decryptable
+     */
+    it("Should accept a score attested by the game server", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      const input = await hre.fhevm
+        .createEncryptedInput(contractAddress, player1.address)
+        .add32(1500)
+        .encrypt();
+      const attestation = await attest(input.handles[0]);
+
+      await expect(
+        contract
+          .connect(player1)
+          .submitAttestedScore(
+            DEFAULT_GAME,
+            input.handles[0],
+            input.inputProof,
+            attestation.nonce,
+            attestation.deadline,
+            attestation.signature
+          )
+      )
+        .to.emit(contract, "ScoreAttested")
+        .withArgs(player1.address, 1);
+
+      const handle = await contract.connect(player1).getMyScore(DEFAULT_GAME);
+      expect(await decryptUint32(handle, player1)).to.equal(1500);
+      expect(await contract.usedAttestationNonces(player1.address, 1)).to.be.true;
+    });
+
+    /**
+     * ❌ Test: Plain submissions are rejected in attestation mode
+     */
+    it("Should reject unattested submissions when required", async function () {
+      await expect(
+        contract
+          .connect(player1)
+          .submitScore(DEFAULT_GAME, ethers.toBeHex(1500, 32), mockProof)
+      ).to.be.revertedWith("Attestation required");
+    });
+
+    /**
+     * ❌ Test: Signatures from other keys, handles or players are forged
+     */
+    it("Should reject forged attestations", async function () {
+      const handle = ethers.toBeHex(1500, 32);
+      const otherHandle = ethers.toBeHex(9999, 32);
+
+      const wrongKey = await attest(handle, { signer: player2 });
+      await expect(
+        contract
+          .connect(player1)
+          .submitAttestedScore(DEFAULT_GAME, handle, mockProof, 1, wrongKey.deadline, wrongKey.signature)
+      ).to.be.revertedWith("Invalid attestation");
+
+      // Valid signature, but for a different ciphertext
+      const valid = await attest(handle);
+      await expect(
+        contract
+          .connect(player1)
+          .submitAttestedScore(DEFAULT_GAME, otherHandle, mockProof, 1, valid.deadline, valid.signature)
+      ).to.be.revertedWith("Invalid attestation");
+
+      // Valid signature, but submitted by another player
+      await expect(
+        contract
+          .connect(player2)
+          .submitAttestedScore(DEFAULT_GAME, handle, mockProof, 1, valid.deadline, valid.signature)
+      ).to.be.revertedWith("Invalid attestation");
+    });
+
+    /**
+     * ❌ Test: A nonce can only be consumed once
+     */
+    it("Should reject replayed attestations", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      const input = await hre.fhevm
+        .createEncryptedInput(contractAddress, player1.address)
+        .add32(1500)
+        .encrypt();
+      const attestation = await attest(input.handles[0], { nonce: 7 });
+      const submit = () =>
+        contract
+          .connect(player1)
+          .submitAttestedScore(
+            DEFAULT_GAME,
+            input.handles[0],
+            input.inputProof,
+            attestation.nonce,
+            attestation.deadline,
+            attestation.signature
+          );
+
+      await submit();
+      await expect(submit()).to.be.revertedWith("Attestation already used");
+    });
+
+    /**
+     * ❌ Test: Attestations past their deadline are rejected
+     */
+    it("Should reject expired attestations", async function () {
+      const handle = ethers.toBeHex(1500, 32);
+      const block = await ethers.provider.getBlock("latest");
+      const expired = await attest(handle, { deadline: block!.timestamp - 1 });
+
+      await expect(
+        contract
+          .connect(player1)
+          .submitAttestedScore(DEFAULT_GAME, handle, mockProof, 1, expired.deadline, expired.signature)
+      ).to.be.revertedWith("Attestation expired");
+    });
+
+    /**
+     * ✅ Test: Rotating the key invalidates the previous server's signatures
+     */
+    it("Should rotate the game server key", async function () {
+      const handle = ethers.toBeHex(1500, 32);
+      const stale = await attest(handle);
+
+      await expect(contract.connect(owner).setGameServerSigner(player3.address))
+        .to.emit(contract, "GameServerSignerRotated")
+        .withArgs(server.address, player3.address);
+
+      await expect(
+        contract
+          .connect(player1)
+          .submitAttestedScore(DEFAULT_GAME, handle, mockProof, 1, stale.deadline, stale.signature)
+      ).to.be.revertedWith("Invalid attestation");
+    });
+
+    /**
+     * ❌ Test: Only the owner manages the server key and attestation mode
+     */
+    it("Should prevent non-owner from managing attestation", async function () {
+      await expect(
+        contract.connect(player1).setGameServerSigner(player1.address)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(player1).setAttestationRequired(false)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+
+      await contract.connect(owner).setAttestationRequired(false);
+      await contract.connect(owner).setGameServerSigner(ethers.ZeroAddress);
+      await expect(
+        contract.connect(owner).setAttestationRequired(true)
+      ).to.be.revertedWith("No game server signer");
+    });
+  });
+
+  // ==================== Score Bounds Tests ====================
+
+  describe("Score Bounds", function () {
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+      await contract.connect(player3).registerPlayer();
+    });
+
+    /**
+     * Helper: User-decrypt the caller's encrypted eligibility flag
+     */
+    async function decryptEligibility(player: SignerWithAddress) {
+      const handle = await contract.connect(player).getMyEligibility(DEFAULT_GAME);
+      return hre.fhevm.userDecryptEbool(handle, await contract.getAddress(), player);
+    }
+
+    /**
+     * ✅ Test: Scores below the minimum are flagged ineligible, the minimum itself is eligible
+     */
+    it("Should flag scores against the minimum threshold", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 99);
+      await submitEncryptedScore(player2, 100);
+
+      expect(await decryptEligibility(player1)).to.be.false;
+      expect(await decryptEligibility(player2)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Ineligible scores are unranked and never outrank eligible ones
+     */
+    it("Should exclude ineligible scores from ranking", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(owner).setMinScoreThreshold(1000);
+      await submitEncryptedScore(player1, 500);
+      await submitEncryptedScore(player2, 1500);
+      await submitEncryptedScore(player3, 1200);
+
+      expect(await computeAndDecryptPosition(player1)).to.equal(0);
+      expect(await computeAndDecryptPosition(player2)).to.equal(1);
+      expect(await computeAndDecryptPosition(player3)).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Ineligible scores are left out of both the total and the divisor
+     */
+    it("Should average over eligible scores only", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 50);
+      await submitEncryptedScore(player2, 1000);
+      // Updating to an eligible score replaces the zero contribution
+      await submitEncryptedScore(player3, 10);
+      await submitEncryptedScore(player3, 2000);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      // (1000 + 2000) / 2 eligible scores
+      expect(await contract.revealedAverageScore()).to.equal(1500);
+      expect(await contract.revealedAveragePlayerCount()).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Reset and voided ineligible scores leave both the total and the divisor
+     */
+    it("Should drop reset and voided ineligible scores from the average", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 50);
+      await submitEncryptedScore(player2, 1000);
+      await submitEncryptedScore(player3, 10);
+
+      await contract.connect(player1).resetMyScore(DEFAULT_GAME);
+      await contract.connect(owner).voidScore(player3.address, DEFAULT_GAME, 1);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      // 1000 / 1 eligible score
+      expect(await contract.revealedAverageScore()).to.equal(1000);
+      expect(await contract.revealedAveragePlayerCount()).to.equal(1);
+    });
+
+    /**
+     * ✅ Test: Without eligible scores the revealed average is zero
+     */
+    it("Should reveal a zero average when no score is eligible", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 50);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      expect(await contract.revealedAverageScore()).to.equal(0);
+      expect(await contract.revealedAveragePlayerCount()).to.equal(0);
+    });
+
+    /**
+     * ✅ Test: Submissions above the maximum are clamped
+     */
+    it("Should clamp scores to the maximum plausible score", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await expect(contract.connect(owner).setMaxPlausibleScore(5000))
+        .to.emit(contract, "ScoreBoundsUpdated")
+        .withArgs(100, 5000);
+
+      await submitEncryptedScore(player1, 99999);
+      await submitEncryptedScore(player2, 5000);
+
+      const handle = await contract.connect(player1).getMyScore(DEFAULT_GAME);
+      expect(await decryptUint32(handle, player1)).to.equal(5000);
+      // Clamped outlier ties with the legitimate maximum instead of leading
+      expect(await computeAndDecryptPosition(player2)).to.equal(1);
+    });
+
+    /**
+     * ❌ Test: Bounds must stay ordered and owner-managed
+     */
+    it("Should validate score bounds", async function () {
+      expect(await contract.maxPlausibleScore()).to.equal(2n ** 32n - 1n);
+
+      await contract.connect(owner).setMaxPlausibleScore(5000);
+      await expect(
+        contract.connect(owner).setMinScoreThreshold(5001)
+      ).to.be.revertedWith("Threshold above maximum");
+      await expect(
+        contract.connect(owner).setMaxPlausibleScore(99)
+      ).to.be.revertedWith("Maximum below threshold");
+      await expect(
+        contract.connect(player1).setMaxPlausibleScore(10000)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  // ==================== Achievement Claim Tests ====================
+
+  describe("Achievement Claims", function () {
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "Bronze", 1000);
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "Gold", 2000);
+    });
+
+    /**
+     * Helper: Claim an achievement and user-decrypt the stored flag
+     */
+    async function claimAndDecrypt(player: SignerWithAddress, achievementId: number) {
+      await (await contract.connect(player).claimAchievement(achievementId)).wait();
+      const handle = await contract.connect(player).getMyAchievementUnlock(achievementId);
+      return hre.fhevm.userDecryptEbool(handle, await contract.getAddress(), player);
+    }
+
+    /**
+     * ✅ Test: Claims store a decryptable encrypted unlocked flag
+     */
+    it("Should store decryptable unlock flags", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+
+      await expect(contract.connect(player1).claimAchievement(0))
+        .to.emit(contract, "AchievementClaimed")
+        .withArgs(0, player1.address);
+      expect(await contract.hasClaimedAchievement(0, player1.address)).to.be.true;
+
+      expect(await claimAndDecrypt(player1, 0)).to.be.true;
+      expect(await claimAndDecrypt(player1, 1)).to.be.false;
+    });
+
+    /**
+     * ✅ Test: Unlocks survive a worse score
+     */
+    it("Should keep achievements unlocked after a lower score", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      expect(await claimAndDecrypt(player1, 0)).to.be.true;
+
+      await submitEncryptedScore(player1, 500);
+      expect(await claimAndDecrypt(player1, 0)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: A threshold update starts a new version without the old unlocks
+     */
+    it("Should not carry unlocks over to a new achievement version", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      expect(await claimAndDecrypt(player1, 0)).to.be.true;
+
+      await contract.connect(owner).updateAchievementThreshold(0, 1800);
+      expect(await contract.hasClaimedAchievement(0, player1.address)).to.be.false;
+      expect(await claimAndDecrypt(player1, 0)).to.be.false;
+
+      await submitEncryptedScore(player1, 1900);
+      expect(await claimAndDecrypt(player1, 0)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Players can prove an unlock publicly without revealing the score
+     */
+    it("Should publicly reveal an unlock", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await contract.connect(player1).claimAchievement(0);
+      await contract.connect(player1).requestAchievementReveal(0);
+
+      const handle = await contract.connect(player1).getMyAchievementUnlock(0);
+      const result = await hre.fhevm.publicDecrypt([handle]);
+      await expect(
+        contract.revealAchievementUnlock(
+          0,
+          player1.address,
+          result.abiEncodedClearValues,
+          result.decryptionProof
+        )
+      )
+        .to.emit(contract, "AchievementUnlockRevealed")
+        .withArgs(0, player1.address, true);
+
+      expect(await contract.isAchievementPubliclyUnlocked(0, player1.address)).to.be.true;
+      expect(await contract.isAchievementPubliclyUnlocked(1, player1.address)).to.be.false;
+    });
+
+    /**
+     * ❌ Test: Claim and reveal preconditions
+     */
+    it("Should validate claims and reveals", async function () {
+
+      await expect(
+        contract.connect(player1).claimAchievement(0)
+      ).to.be.revertedWith("No score submitted");
+
+      await submitEncryptedScore(player1, 1500);
+      await expect(
+        contract.connect(player1).getMyAchievementUnlock(0)
+      ).to.be.revertedWith("Achievement not claimed");
+      await expect(
+        contract.connect(player1).requestAchievementReveal(0)
+      ).to.be.revertedWith("Achievement not claimed");
+      await expect(
+        contract.revealAchievementUnlock(0, player1.address, "0x", "0x")
+      ).to.be.revertedWith("No reveal requested");
+
+      await contract.connect(owner).deactivateAchievement(1);
+      await expect(
+        contract.connect(player1).claimAchievement(1)
+      ).to.be.revertedWith("Achievement inactive");
+      await expect(
+        contract.connect(player1).claimAchievement(5)
+      ).to.be.revertedWith("Invalid achievement ID");
+    });
+
+    /**
+     * ✅ Test: Emergency reset forgets claims of the reused IDs
+     */
+    it("Should clear claims on emergency reset", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await contract.connect(player1).claimAchievement(0);
+
+      await contract.connect(owner).pause();
+      await contract.connect(owner).emergencyReset();
+      await contract.connect(owner).createAchievement(DEFAULT_GAME, "Fresh", 100);
+
+      expect(await contract.hasClaimedAchievement(0, player1.address)).to.be.false;
+    });
+  });
+
+  // ==================== Score Sharing Tests ====================
+
+  describe("Score Sharing", function () {
+    let coach: SignerWithAddress;
+
+    beforeEach(async function () {
+      coach = player3;
+      await contract.connect(player1).registerPlayer();
+    });
+
+    /**
+     * Helper: Check whether a user-decryption by the given signer succeeds
+     */
+    async function canDecrypt(handle: string, signer: SignerWithAddress) {
+      try {
+        await decryptUint32(handle, signer);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    /**
+     * ✅ Test: Granted viewers decrypt the current and later scores
+     */
+    it("Should let granted viewers decrypt scores and timestamps", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await expect(contract.connect(player1).grantViewPermission(coach.address))
+        .to.emit(contract, "ViewerGranted")
+        .withArgs(player1.address, coach.address);
+
+      const current = await contract.connect(coach).getPlayerScore(DEFAULT_GAME, player1.address);
+      expect(await decryptUint32(current, coach)).to.equal(1500);
+
+      await submitEncryptedScore(player1, 1800);
+      const latest = await contract.connect(coach).getPlayerScore(DEFAULT_GAME, player1.address);
+      expect(await decryptUint32(latest, coach)).to.equal(1800);
+
+      const block = await ethers.provider.getBlock("latest");
+      const timestamp = await contract
+        .connect(coach)
+        .getPlayerTimestamp(DEFAULT_GAME, player1.address);
+      const clearTimestamp = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        timestamp,
+        await contract.getAddress(),
+        coach
+      );
+      expect(clearTimestamp).to.equal(BigInt(block!.timestamp));
+    });
+
+    /**
+     * ❌ Test: Revoked viewers lose access to new scores
+     */
+    it("Should stop sharing new scores after revocation", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await contract.connect(player1).grantViewPermission(coach.address);
+      await submitEncryptedScore(player1, 1500);
+      const shared = await contract.connect(player1).getMyScore(DEFAULT_GAME);
+
+      await expect(contract.connect(player1).revokeViewPermission(coach.address))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(player1.address, coach.address);
+      await submitEncryptedScore(player1, 1800);
+      const unshared = await contract.connect(player1).getMyScore(DEFAULT_GAME);
+
+      expect(await canDecrypt(shared, coach)).to.be.true;
+      expect(await canDecrypt(unshared, coach)).to.be.false;
+      await expect(
+        contract.connect(coach).getPlayerScore(DEFAULT_GAME, player1.address)
+      ).to.be.revertedWith("Not authorized to view");
+    });
+
+    /**
+     * ✅ Test: Viewer list stays compact after revocations
+     */
+    it("Should list viewers", async function () {
+      await contract.connect(player1).grantViewPermission(player2.address);
+      await contract.connect(player1).grantViewPermission(coach.address);
+      await contract.connect(player1).grantViewPermission(owner.address);
+      expect(await contract.getViewers(player1.address)).to.deep.equal([
+        player2.address,
+        coach.address,
+        owner.address,
+      ]);
+
+      await contract.connect(player1).revokeViewPermission(player2.address);
+      expect(await contract.getViewers(player1.address)).to.deep.equal([
+        owner.address,
+        coach.address,
+      ]);
+      expect(await contract.isViewer(player1.address, player2.address)).to.be.false;
+      expect(await contract.isViewer(player1.address, coach.address)).to.be.true;
+    });
+
+    /**
+     * ❌ Test: Invalid grants and revocations are rejected
+     */
+    it("Should validate viewer changes", async function () {
+      await expect(
+        contract.connect(player1).grantViewPermission(ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid viewer address");
+      await expect(
+        contract.connect(player1).grantViewPermission(player1.address)
+      ).to.be.revertedWith("Invalid viewer address");
+
+      await contract.connect(player1).grantViewPermission(coach.address);
+      await expect(
+        contract.connect(player1).grantViewPermission(coach.address)
+      ).to.be.revertedWith("Viewer already granted");
+      await expect(
+        contract.connect(player1).revokeViewPermission(player2.address)
+      ).to.be.revertedWith("Viewer not granted");
+      await expect(
+        contract.connect(player2).grantViewPermission(coach.address)
+      ).to.be.revertedWith("Player not registered");
+    });
+  });
+
+  // ==================== Head-to-Head Challenge Tests ====================
+
+  describe("Head-to-Head Challenges", function () {
+    // Mirrors the contract's CHALLENGE_* constants
+    const OPPONENT_WINS = 0;
+    const TIE = 1;
+    const CHALLENGER_WINS = 2;
+    const ONE_DAY = 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+    });
+
+    /**
+     * Helper: Challenge player2 as player1 and let player2 accept
+     */
+    async function playChallenge(challengerScore: number, opponentScore: number) {
+      await submitEncryptedScore(player1, challengerScore);
+      await submitEncryptedScore(player2, opponentScore);
+      await contract.connect(player1).createChallenge(player2.address, DEFAULT_GAME, ONE_DAY);
+      await contract.connect(player2).acceptChallenge(0);
+      return 0;
+    }
+
+    /**
+     * Helper: User-decrypt a challenge outcome as one of the participants
+     */
+    async function decryptOutcome(challengeId: number, player: SignerWithAddress) {
+      const handle = await contract.connect(player).getChallengeOutcome(challengeId);
+      const clear = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        handle,
+        await contract.getAddress(),
+        player
+      );
+      return Number(clear);
+    }
+
+    /**
+     * ✅ Test: Both players decrypt the stored outcome
+     */
+    it("Should let both players decrypt the outcome", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      const id = await playChallenge(1500, 2000);
+
+      expect(await decryptOutcome(id, player1)).to.equal(OPPONENT_WINS);
+      expect(await decryptOutcome(id, player2)).to.equal(OPPONENT_WINS);
+      await expect(
+        contract.connect(player3).getChallengeOutcome(id)
+      ).to.be.revertedWith("Not a challenge participant");
+    });
+
+    /**
+     * ✅ Test: Wins and ties are distinguished
+     */
+    it("Should encode wins and ties", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await playChallenge(2000, 2000);
+      expect(await decryptOutcome(0, player2)).to.equal(TIE);
+
+      await submitEncryptedScore(player1, 2500);
+      await contract.connect(player1).createChallenge(player2.address, DEFAULT_GAME, ONE_DAY);
+      await expect(contract.connect(player2).acceptChallenge(1))
+        .to.emit(contract, "ChallengeResolved")
+        .withArgs(1);
+      expect(await decryptOutcome(1, player1)).to.equal(CHALLENGER_WINS);
+    });
+
+    /**
+     * ✅ Test: Outcome is public only after both players consent
+     */
+    it("Should reveal the outcome on mutual consent", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      const id = await playChallenge(2500, 2000);
+
+      await contract.connect(player1).consentToChallengeReveal(id);
+      await expect(
+        contract.revealChallengeOutcome(id, "0x", "0x")
+      ).to.be.revertedWith("Reveal not consented");
+
+      await expect(contract.connect(player2).consentToChallengeReveal(id))
+        .to.emit(contract, "ChallengeRevealConsented")
+        .withArgs(id, player2.address);
+
+      const challenge = await contract.getChallenge(id);
+      const result = await hre.fhevm.publicDecrypt([challenge.encryptedOutcome]);
+      await expect(
+        contract.revealChallengeOutcome(id, result.abiEncodedClearValues, result.decryptionProof)
+      )
+        .to.emit(contract, "ChallengeOutcomeRevealed")
+        .withArgs(id, CHALLENGER_WINS);
+
+      const revealed = await contract.getChallenge(id);
+      expect(revealed.outcomeRevealed).to.be.true;
+      expect(revealed.revealedOutcome).to.equal(CHALLENGER_WINS);
+    });
+
+    /**
+     * ❌ Test: Challenges expire if not accepted in time
+     */
+    it("Should reject expired challenges", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
+
+      await expect(
+        contract.connect(player1).createChallenge(player2.address, DEFAULT_GAME, ONE_DAY)
+      ).to.emit(contract, "ChallengeCreated");
+
+      await time.increase(ONE_DAY + 1);
+      await expect(
+        contract.connect(player2).acceptChallenge(0)
+      ).to.be.revertedWith("Challenge expired");
+    });
+
+    /**
+     * ❌ Test: Only valid challenges between registered players
+     */
+    it("Should validate challenges", async function () {
+      await submitEncryptedScore(player1, 1500);
+
+      await expect(
+        contract.connect(player1).createChallenge(player1.address, DEFAULT_GAME, ONE_DAY)
+      ).to.be.revertedWith("Cannot challenge yourself");
+      await expect(
+        contract.connect(player1).createChallenge(player3.address, DEFAULT_GAME, ONE_DAY)
+      ).to.be.revertedWith("Other player not registered");
+      await expect(
+        contract.connect(player1).createChallenge(player2.address, DEFAULT_GAME, 8 * ONE_DAY)
+      ).to.be.revertedWith("Invalid duration");
+
+      await contract.connect(player1).createChallenge(player2.address, DEFAULT_GAME, ONE_DAY);
+      await expect(
+        contract.connect(player1).acceptChallenge(0)
+      ).to.be.revertedWith("Not challenge opponent");
+      await expect(
+        contract.connect(player2).acceptChallenge(0)
+      ).to.be.revertedWith("No score submitted");
+      await expect(
+        contract.connect(player1).consentToChallengeReveal(0)
+      ).to.be.revertedWith("Challenge not resolved");
+    });
+  });
+
+  // ==================== Public Leaderboard Tests ====================
+
+  describe("Public Leaderboard Reveal", function () {
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+      await contract.connect(player3).registerPlayer();
+    });
+
+    /**
+     * ✅ Test: Only opted-in players are selected, best first
+     */
+    it("Should reveal the top opted-in scores", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      await submitEncryptedScore(player3, 1200);
+      await contract.connect(player1).setLeaderboardOptIn(true);
+      await contract.connect(player3).setLeaderboardOptIn(true);
+
+      const board = await revealTopLeaderboard(contract, hre.fhevm, DEFAULT_GAME, 2, 1);
+
+      expect(board.entries).to.deep.equal([
+        { rank: 1, player: player1.address, score: 1500 },
+        { rank: 2, player: player3.address, score: 1200 },
+      ]);
+      const stored = await contract.getRevealedLeaderboard(DEFAULT_GAME);
+      expect(stored.players).to.deep.equal([player1.address, player3.address]);
+      expect(stored.seasonId).to.equal(1);
+    });
+
+    /**
+     * ✅ Test: Empty and ineligible slots are dropped from the board
+     */
+    it("Should drop empty slots when fewer players opted in", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 50);
+      await contract.connect(player1).setLeaderboardOptIn(true);
+      await contract.connect(player2).setLeaderboardOptIn(true);
+
+      const board = await revealTopLeaderboard(contract, hre.fhevm, DEFAULT_GAME, 5);
+
+      expect(board.entries).to.deep.equal([{ rank: 1, player: player1.address, score: 1500 }]);
+    });
+
+    /**
+     * ✅ Test: Keepers may run reveals
+     */
+    it("Should let keepers run the selection", async function () {
+      await expect(
+        contract.connect(player1).startLeaderboardSelection(DEFAULT_GAME, 3)
+      ).to.be.revertedWith("Not leaderboard keeper");
+
+      await expect(contract.connect(owner).setLeaderboardKeeper(player3.address, true))
+        .to.emit(contract, "LeaderboardKeeperUpdated")
+        .withArgs(player3.address, true);
+      await expect(contract.connect(player3).startLeaderboardSelection(DEFAULT_GAME, 3))
+        .to.emit(contract, "LeaderboardSelectionStarted")
+        .withArgs(DEFAULT_GAME, 1, 3);
+
+      expect(await contract.connect(player3).processLeaderboardBatch.staticCall(10)).to.be.true;
+      await expect(contract.connect(player3).processLeaderboardBatch(10)).to.emit(
+        contract,
+        "LeaderboardSelectionCompleted"
+      );
+      expect(await contract.getLeaderboardSelectionHandles()).to.have.length(6);
+    });
+
+    /**
+     * ❌ Test: Selection preconditions
+     */
+    it("Should validate leaderboard selections", async function () {
+      await expect(
+        contract.connect(owner).startLeaderboardSelection(DEFAULT_GAME, 0)
+      ).to.be.revertedWith("Invalid leaderboard size");
+      await expect(
+        contract.connect(owner).startLeaderboardSelection(DEFAULT_GAME, 11)
+      ).to.be.revertedWith("Invalid leaderboard size");
+      await expect(
+        contract.connect(owner).processLeaderboardBatch(1)
+      ).to.be.revertedWith("No selection in progress");
+      await expect(
+        contract.revealLeaderboard("0x", "0x")
+      ).to.be.revertedWith("No selection to reveal");
+
+      await contract.connect(owner).startLeaderboardSelection(DEFAULT_GAME, 3);
+      await expect(
+        contract.connect(owner).startLeaderboardSelection(DEFAULT_GAME, 3)
+      ).to.be.revertedWith("Selection in progress");
+
+      await contract.connect(owner).cancelLeaderboardSelection();
+      await contract.connect(owner).startLeaderboardSelection(DEFAULT_GAME, 3);
+    });
+  });
+
+  // ==================== Player Deregistration Tests ====================
+
+  describe("Player Deregistration", function () {
+    const mockEncryptedScore = ethers.toBeHex(1500, 32);
+    const mockProof = "0x" + "00".repeat(32);
+
+    beforeEach(async function () {
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+      await contract.connect(player3).registerPlayer();
+    });
+
+    /**
+     * ✅ Test: Swap-and-pop keeps the registry compact
+     */
+    it("Should move the last player into the freed slot", async function () {
+      await expect(contract.connect(player1).unregisterPlayer())
+        .to.emit(contract, "PlayerUnregistered")
+        .withArgs(player1.address, anyValue);
+
+      expect(await contract.getPlayerRegistry()).to.deep.equal([player3.address, player2.address]);
+      expect(await contract.getPlayerRegistryLength()).to.equal(2);
+      expect(await contract.isPlayerRegistered(player1.address)).to.be.false;
+
+      // Moved player keeps a valid index
+      await contract.connect(player3).unregisterPlayer();
+      expect(await contract.getPlayerRegistry()).to.deep.equal([player2.address]);
+
+      // Re-registration appends at the end
+      await contract.connect(player1).registerPlayer();
+      expect(await contract.getPlayerRegistry()).to.deep.equal([player2.address, player1.address]);
+    });
+
+    /**
+     * ✅ Test: Counts drop by the number of cleared scores
+     */
+    it("Should keep player counts consistent", async function () {
+      await contract.connect(owner).registerGame("Puzzle Duel");
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player1, 1500, 1);
+      await submitEncryptedScore(player2, 1500);
+      expect(await contract.getTotalPlayers()).to.equal(3);
+
+      await contract.connect(player1).unregisterPlayer();
+
+      expect(await contract.getTotalPlayers()).to.equal(1);
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(1);
+      expect(await contract.getGamePlayerCount(1)).to.equal(0);
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.false;
+      await expect(
+        contract.connect(player1).submitScore(DEFAULT_GAME, mockEncryptedScore, mockProof)
+      ).to.be.revertedWith("Player not registered");
+    });
+
+    /**
+     * ✅ Test: Cleared scores leave the encrypted network total
+     */
+    it("Should remove cleared scores from the network average", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 1000);
+      await submitEncryptedScore(player2, 2000);
+      await contract.connect(player1).unregisterPlayer();
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      expect(await contract.revealedAverageScore()).to.equal(2000);
+    });
+
+    /**
+     * ✅ Test: Scores of a closed current season are cleared too
+     */
+    it("Should clear scores after the season closes", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 2000);
+      await contract.connect(owner).closeSeason();
+
+      await expect(contract.connect(player1).unregisterPlayer())
+        .to.emit(contract, "ScoreCleared")
+        .withArgs(player1.address, 1, DEFAULT_GAME, anyValue);
+
+      expect(await contract.hasPlayerSubmittedInSeason(1, DEFAULT_GAME, player1.address)).to.be.false;
+      expect(await contract.getTotalPlayers()).to.equal(1);
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(1);
+      expect((await contract.getSeason(1)).playerCount).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Sharing and leaderboard opt-in are dropped
+     */
+    it("Should clear viewers and leaderboard opt-in", async function () {
+      await contract.connect(player1).grantViewPermission(player2.address);
+      await contract.connect(player1).setLeaderboardOptIn(true);
+
+      await contract.connect(player1).unregisterPlayer();
+
+      expect(await contract.getViewers(player1.address)).to.deep.equal([]);
+      expect(await contract.isViewer(player1.address, player2.address)).to.be.false;
+      expect(await contract.leaderboardOptIn(player1.address)).to.be.false;
+      await expect(
+        contract.connect(player1).unregisterPlayer()
+      ).to.be.revertedWith("Player not registered");
+    });
+
+    /**
+     * ✅ Test: Paginated registry reads
+     */
+    it("Should page through the registry", async function () {
+      expect(await contract.getPlayerRegistryPage(0, 2)).to.deep.equal([
+        player1.address,
+        player2.address,
+      ]);
+      expect(await contract.getPlayerRegistryPage(2, 2)).to.deep.equal([player3.address]);
+      expect(await contract.getPlayerRegistryPage(3, 2)).to.deep.equal([]);
+    });
+  });
+
+  // ==================== Admin Roles Tests ====================
+
+  describe("Admin Roles and Pausing", function () {
+    const mockEncryptedScore = ethers.toBeHex(1500, 32);
+    const mockProof = "0x" + "00".repeat(32);
+    let moderator: SignerWithAddress;
+    let MODERATOR_ROLE: string;
+    let GAME_SERVER_ROLE: string;
+
+    beforeEach(async function () {
+      moderator = (await ethers.getSigners())[4];
+      MODERATOR_ROLE = await contract.MODERATOR_ROLE();
+      GAME_SERVER_ROLE = await contract.GAME_SERVER_ROLE();
+
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(owner).grantRole(MODERATOR_ROLE, moderator.address);
+    });
+
+    /**
+     * ✅ Test: Owner holds the admin and moderator roles
+     */
+    it("Should assign initial roles to the owner", async function () {
+      expect(await contract.hasRole(await contract.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await contract.hasRole(MODERATOR_ROLE, owner.address)).to.be.true;
+      expect(await contract.hasRole(MODERATOR_ROLE, moderator.address)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Moderators pause, only admins unpause
+     */
+    it("Should let moderators pause and the owner unpause", async function () {
+      await expect(contract.connect(moderator).pause()).to.emit(contract, "Paused");
+
+      await expect(
+        contract.connect(player1).submitScore(DEFAULT_GAME, mockEncryptedScore, mockProof)
+      ).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(
+        contract.connect(player2).registerPlayer()
+      ).to.be.revertedWithCustomError(contract, "EnforcedPause");
+
+      await expect(
+        contract.connect(moderator).unpause()
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+
+      await contract.connect(owner).unpause();
+      await submitEncryptedScore(player1, 1500);
+      expect(await contract.getTotalPlayers()).to.equal(1);
+    });
+
+    /**
+     * ❌ Test: Players cannot pause or manage roles
+     */
+    it("Should prevent players from pausing or granting roles", async function () {
+      await expect(contract.connect(player1).pause())
+        .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount")
+        .withArgs(player1.address, MODERATOR_ROLE);
+      await expect(
+        contract.connect(player1).grantRole(GAME_SERVER_ROLE, player1.address)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(moderator).grantRole(MODERATOR_ROLE, player1.address)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
+    /**
+     * ✅ Test: Game-server role follows key rotation
+     */
+    it("Should grant the game-server role on rotation", async function () {
+      await contract.connect(owner).setGameServerSigner(moderator.address);
+      expect(await contract.hasRole(GAME_SERVER_ROLE, moderator.address)).to.be.true;
+
+      await contract.connect(owner).setGameServerSigner(player3.address);
+      expect(await contract.hasRole(GAME_SERVER_ROLE, moderator.address)).to.be.false;
+      expect(await contract.hasRole(GAME_SERVER_ROLE, player3.address)).to.be.true;
+    });
+
+    /**
+     * ❌ Test: Emergency reset is admin-only and requires a pause
+     */
+    it("Should restrict emergency reset", async function () {
+      await expect(
+        contract.connect(owner).emergencyReset()
+      ).to.be.revertedWithCustomError(contract, "ExpectedPause");
+
+      await contract.connect(moderator).pause();
+      await expect(
+        contract.connect(moderator).emergencyReset()
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
+    /**
+     * ✅ Test: Admins appointed by the owner run the admin functions
+     */
+    it("Should let granted admins manage settings", async function () {
+      const DEFAULT_ADMIN_ROLE = await contract.DEFAULT_ADMIN_ROLE();
+      await contract.connect(owner).grantRole(DEFAULT_ADMIN_ROLE, player3.address);
+
+      await expect(contract.connect(player3).setMaxPlausibleScore(50000))
+        .to.emit(contract, "ScoreBoundsUpdated");
+      await expect(contract.connect(player3).registerGame("Arcade Racer"))
+        .to.emit(contract, "GameRegistered");
+      await contract.connect(player3).setGameServerSigner(player2.address);
+      expect(await contract.hasRole(GAME_SERVER_ROLE, player2.address)).to.be.true;
+
+      await contract.connect(moderator).pause();
+      await expect(contract.connect(player3).emergencyReset())
+        .to.emit(contract, "DataEpochAdvanced")
+        .withArgs(1);
+      await expect(contract.connect(player3).unpause()).to.emit(contract, "Unpaused");
+
+      // Ownership transfers leave other admins in place
+      await contract.connect(owner).transferOwnership(player2.address);
+      expect(await contract.hasRole(DEFAULT_ADMIN_ROLE, player3.address)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Emergency reset hides all prior player data
+     */
+    it("Should invalidate prior data with a new epoch", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await contract.connect(player1).grantViewPermission(player2.address);
+      await contract.connect(player1).setLeaderboardOptIn(true);
+
+      await contract.connect(owner).pause();
+      await expect(contract.connect(owner).emergencyReset())
+        .to.emit(contract, "DataEpochAdvanced")
+        .withArgs(1);
+      await contract.connect(owner).unpause();
+
+      expect(await contract.dataEpoch()).to.equal(1);
+      expect(await contract.isPlayerRegistered(player1.address)).to.be.false;
+      expect(await contract.getPlayerRegistryLength()).to.equal(0);
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.false;
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(0);
+      expect(await contract.getViewers(player1.address)).to.deep.equal([]);
+      expect(await contract.leaderboardOptIn(player1.address)).to.be.false;
+
+      // Players start over in the new epoch
+      await contract.connect(player1).registerPlayer();
+      await submitEncryptedScore(player1, 1500);
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(1);
+      expect(await contract.getTotalPlayers()).to.equal(1);
+    });
+
+    /**
+     * ✅ Test: Ownership transfer moves the admin role
+     */
+    it("Should move the admin role with ownership", async function () {
+      const DEFAULT_ADMIN_ROLE = await contract.DEFAULT_ADMIN_ROLE();
+
+      await contract.connect(owner).transferOwnership(player2.address);
+
+      expect(await contract.hasRole(DEFAULT_ADMIN_ROLE, player2.address)).to.be.true;
+      expect(await contract.hasRole(DEFAULT_ADMIN_ROLE, owner.address)).to.be.false;
+    });
+  });
+
+  // ==================== Moderation Tests ====================
+
+  describe("Moderation", function () {
+    const mockEncryptedScore = ethers.toBeHex(1500, 32);
+    const mockProof = "0x" + "00".repeat(32);
+    const CHEATING = 1;
+    let moderator: SignerWithAddress;
+
+    beforeEach(async function () {
+      moderator = (await ethers.getSigners())[4];
+      await contract.connect(owner).grantRole(await contract.MODERATOR_ROLE(), moderator.address);
+
+      await contract.connect(player1).registerPlayer();
+      await contract.connect(player2).registerPlayer();
+    });
+
+    /**
+     * ✅ Test: Voiding removes the score from counts and records the reason
+     */
+    it("Should void a player's score", async function () {
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 1500);
+
+      await expect(contract.connect(moderator).voidScore(player1.address, DEFAULT_GAME, CHEATING))
+        .to.emit(contract, "ScoreVoided")
+        .withArgs(player1.address, DEFAULT_GAME, 1, CHEATING, moderator.address);
+
+      expect(await contract.getTotalPlayers()).to.equal(1);
+      expect(await contract.getGamePlayerCount(DEFAULT_GAME)).to.equal(1);
+      expect(await contract.hasPlayerSubmitted(DEFAULT_GAME, player1.address)).to.be.false;
+      const [voided, reasonCode] = await contract.getScoreVoid(1, DEFAULT_GAME, player1.address);
+      expect(voided).to.be.true;
+      expect(reasonCode).to.equal(CHEATING);
+
+      // A new submission starts over and clears the void flag
+      await submitEncryptedScore(player1, 1500);
+      expect(await contract.getTotalPlayers()).to.equal(2);
+      expect((await contract.getScoreVoid(1, DEFAULT_GAME, player1.address)).voided).to.be.false;
+    });
+
+    /**
+     * ✅ Test: Voided scores leave the encrypted network total
+     */
+    it("Should exclude voided scores from the network average", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await submitEncryptedScore(player1, 60000);
+      await submitEncryptedScore(player2, 2000);
+      await contract.connect(moderator).voidScore(player1.address, DEFAULT_GAME, CHEATING);
+
+      await contract.connect(owner).requestNetworkAverageReveal();
+      const [total, eligibleCount] = await contract.getAverageRevealHandles();
+      const result = await hre.fhevm.publicDecrypt([total, eligibleCount]);
+      await contract.revealNetworkAverage(result.abiEncodedClearValues, result.decryptionProof);
+
+      expect(await contract.revealedAverageScore()).to.equal(2000);
+    });
+
+    /**
+     * ❌ Test: Voiding requires a moderator, a score and a reason
+     */
+    it("Should validate void requests", async function () {
+      await expect(
+        contract.connect(player2).voidScore(player1.address, DEFAULT_GAME, CHEATING)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(moderator).voidScore(player1.address, DEFAULT_GAME, CHEATING)
+      ).to.be.revertedWith("No score submitted");
+
+      await submitEncryptedScore(player1, 1500);
+      await expect(
+        contract.connect(moderator).voidScore(player1.address, DEFAULT_GAME, 0)
+      ).to.be.revertedWith("Missing reason code");
+      await expect(
+        contract.connect(moderator).voidScore(player1.address, 7, CHEATING)
+      ).to.be.revertedWith("Unknown game");
+    });
+
+    /**
+     * ✅ Test: Bans block submissions until they expire
+     */
+    it("Should ban a player temporarily", async function () {
+      await expect(contract.connect(moderator).banPlayer(player1.address, 3600, CHEATING))
+        .to.emit(contract, "PlayerBanned")
+        .withArgs(player1.address, anyValue, CHEATING, moderator.address);
+
+      expect(await contract.isBanned(player1.address)).to.be.true;
+      expect((await contract.bans(player1.address)).reasonCode).to.equal(CHEATING);
+      await expect(
+        contract.connect(player1).submitScore(DEFAULT_GAME, mockEncryptedScore, mockProof)
+      ).to.be.revertedWith("Player banned");
+
+      await time.increase(3601);
+
+      expect(await contract.isBanned(player1.address)).to.be.false;
+      await submitEncryptedScore(player1, 1500);
+    });
+
+    /**
+     * ✅ Test: Moderators can lift a ban early
+     */
+    it("Should lift a ban", async function () {
+      await contract.connect(moderator).banPlayer(player1.address, 3600, CHEATING);
+
+      await expect(contract.connect(moderator).liftBan(player1.address))
+        .to.emit(contract, "PlayerBanLifted")
+        .withArgs(player1.address, moderator.address);
+
+      await submitEncryptedScore(player1, 1500);
+      await expect(
+        contract.connect(moderator).liftBan(player1.address)
+      ).to.be.revertedWith("Player not banned");
+    });
+
+    /**
+     * ❌ Test: Ban parameters are validated
+     */
+    it("Should validate ban requests", async function () {
+      await expect(
+        contract.connect(player2).banPlayer(player1.address, 3600, CHEATING)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(
+        contract.connect(moderator).banPlayer(ethers.ZeroAddress, 3600, CHEATING)
+      ).to.be.revertedWith("Invalid player address");
+      await expect(
+        contract.connect(moderator).banPlayer(player1.address, 0, CHEATING)
+      ).to.be.revertedWith("Invalid duration");
+      await expect(
+        contract.connect(moderator).banPlayer(player1.address, 366 * 24 * 3600, CHEATING)
+      ).to.be.revertedWith("Invalid duration");
+      await expect(
+        contract.connect(moderator).banPlayer(player1.address, 3600, 0)
+      ).to.be.revertedWith("Missing reason code");
+    });
+  });
+
+  // ==================== Events Tests ====================
+
+  describe("Contract Events", function () {
+    /**
+     * ✅ Test: PlayerRegistered event is emitted
+     */
+    it("Should emit PlayerRegistered event", async function () {
+      const tx = await contract.connect(player1).registerPlayer();
+      const receipt = await tx.wait();
+
+      const events = receipt?.logs.filter((log) => {
+        try {
+          return contract.interface.parseLog(log)?.name === "PlayerRegistered";
+        } catch {
+          return false;
+        }
+      });
+
+      expect(events?.length).to.be.greaterThan(0);
+    });
+
+    /**
+     * ✅ Test: ConfidentialScoreSubmitted event is emitted
+     */
+    it("Should emit ConfidentialScoreSubmitted event", async function () {
+      await contract.connect(player1).registerPlayer();
+
+      const input = await encryptScore(player1, 1500);
 
       const tx = await contract
         .connect(player1)
-        .submitScore(mockEncryptedScore, mockProof);
+        .submitScore(DEFAULT_GAME, input.handles[0], input.inputProof);
       const receipt = await tx.wait();
 
       const events = receipt?.logs.filter((log) => {
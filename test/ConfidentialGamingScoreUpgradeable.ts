@@ -0,0 +1,211 @@
+/**
+ * Test Suite: ConfidentialGamingScoreUpgradeable
+ *
+ * This test suite demonstrates:
+ * - Deploying the score system behind a UUPS proxy
+ * - Initializer protection of the proxy and the implementation
+ * - Owner-only upgrades
+ * - Upgrading mid-season while encrypted scores stay user-decryptable
+ */
+
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  ConfidentialGamingScoreUpgradeable,
+  ConfidentialGamingScoreUpgradeableV2,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { connectGamingScore } from "../src/client";
+import type { GamingScoreContract } from "../src/client";
+import { deployGamingScoreModules } from "../deploy/modules";
+
+describe("ConfidentialGamingScoreUpgradeable", function () {
+  const DEFAULT_GAME = 0;
+
+  let proxy: ConfidentialGamingScoreUpgradeable;
+  // The proxy with the functions of the implementation's modules
+  let scoreContract: GamingScoreContract;
+  let owner: SignerWithAddress;
+  let player1: SignerWithAddress;
+  let player2: SignerWithAddress;
+
+  /**
+   * Helper: Encrypt a plaintext score for the proxy and submit it
+   */
+  async function submitEncryptedScore(player: SignerWithAddress, score: number) {
+    const proxyAddress = await proxy.getAddress();
+    const input = await hre.fhevm
+      .createEncryptedInput(proxyAddress, player.address)
+      .add32(score)
+      .encrypt();
+
+    const tx = await scoreContract
+      .connect(player)
+      .submitScore(DEFAULT_GAME, input.handles[0], input.inputProof);
+    await tx.wait();
+  }
+
+  /**
+   * Helper: User-decrypt the player's current score through the proxy
+   */
+  async function decryptMyScore(player: SignerWithAddress) {
+    const handle = await scoreContract.connect(player).getMyScore(DEFAULT_GAME);
+    const clear = await hre.fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      handle,
+      await proxy.getAddress(),
+      player
+    );
+    return Number(clear);
+  }
+
+  /**
+   * Helper: Upgrade the proxy to the V2 test implementation
+   */
+  async function upgradeToV2(): Promise<ConfidentialGamingScoreUpgradeableV2> {
+    const V2 = await ethers.getContractFactory("ConfidentialGamingScoreUpgradeableV2");
+    const upgraded = await upgrades.upgradeProxy(await proxy.getAddress(), V2, {
+      kind: "uups",
+      constructorArgs: [await deployGamingScoreModules(hre)],
+    });
+    return upgraded as unknown as ConfidentialGamingScoreUpgradeableV2;
+  }
+
+  beforeEach(async function () {
+    [owner, player1, player2] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("ConfidentialGamingScoreUpgradeable");
+    proxy = (await upgrades.deployProxy(factory, [owner.address], {
+      kind: "uups",
+      initializer: "initialize",
+      constructorArgs: [await deployGamingScoreModules(hre)],
+    })) as unknown as ConfidentialGamingScoreUpgradeable;
+    await proxy.waitForDeployment();
+    scoreContract = connectGamingScore(await proxy.getAddress(), owner);
+  });
+
+  // ==================== Initialization Tests ====================
+
+  describe("Initialization", function () {
+    /**
+     * ✅ Test: initialize() replaces the constructor
+     */
+    it("Should initialize the proxy like the constructor", async function () {
+      expect(await proxy.owner()).to.equal(owner.address);
+      expect(await proxy.hasRole(await proxy.MODERATOR_ROLE(), owner.address)).to.be.true;
+      expect(await proxy.getMinScoreThreshold()).to.equal(100);
+      expect(await proxy.gameCount()).to.equal(1);
+      expect(await proxy.currentSeasonId()).to.equal(1);
+      expect((await scoreContract.getActiveSeason()).active).to.be.true;
+      expect(await proxy.implementationVersion()).to.equal(1);
+    });
+
+    /**
+     * ❌ Test: The proxy cannot be initialized twice
+     */
+    it("Should reject a second initialization", async function () {
+      await expect(
+        proxy.connect(player1).initialize(player1.address)
+      ).to.be.revertedWithCustomError(proxy, "InvalidInitialization");
+    });
+
+    /**
+     * ❌ Test: The implementation itself cannot be initialized
+     */
+    it("Should lock the implementation", async function () {
+      const implementation = await ethers.getContractAt(
+        "ConfidentialGamingScoreUpgradeable",
+        await upgrades.erc1967.getImplementationAddress(await proxy.getAddress())
+      );
+
+      await expect(
+        implementation.initialize(player1.address)
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+  });
+
+  // ==================== Upgrade Tests ====================
+
+  describe("Upgrades", function () {
+    /**
+     * ❌ Test: Only the owner can upgrade
+     */
+    it("Should prevent non-owners from upgrading", async function () {
+      const V2 = await ethers.getContractFactory("ConfidentialGamingScoreUpgradeableV2");
+      const implementation = await V2.deploy(await deployGamingScoreModules(hre));
+      await implementation.waitForDeployment();
+
+      await expect(
+        proxy.connect(player1).upgradeToAndCall(await implementation.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(proxy, "OwnableUnauthorizedAccount");
+    });
+
+    /**
+     * ✅ Test: Public state survives an upgrade
+     */
+    it("Should keep registrations, counts and the season", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await proxy.connect(player1).registerPlayer();
+      await submitEncryptedScore(player1, 1500);
+      await scoreContract.connect(owner).createAchievement(DEFAULT_GAME, "Rookie", 500);
+      const proxyAddress = await proxy.getAddress();
+      const implementationBefore = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+
+      const upgraded = await upgradeToV2();
+
+      expect(await upgraded.getAddress()).to.equal(proxyAddress);
+      expect(await upgrades.erc1967.getImplementationAddress(proxyAddress)).to.not.equal(
+        implementationBefore
+      );
+      expect(await upgraded.implementationVersion()).to.equal(2);
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.isPlayerRegistered(player1.address)).to.be.true;
+      expect(await scoreContract.getTotalPlayers()).to.equal(1);
+      expect(await upgraded.achievementCount()).to.equal(1);
+      expect((await scoreContract.getActiveSeason()).active).to.be.true;
+
+      // Appended V2 state does not collide with existing storage
+      await upgraded.connect(owner).setReleaseNote("v2");
+      expect(await upgraded.releaseNote()).to.equal("v2");
+      expect(await upgraded.getMinScoreThreshold()).to.equal(100);
+    });
+
+    /**
+     * ✅ Test: Encrypted scores stay user-decryptable across a mid-season upgrade
+     */
+    it("Should keep encrypted scores decryptable after upgrading mid-season", async function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      await proxy.connect(player1).registerPlayer();
+      await proxy.connect(player2).registerPlayer();
+      await submitEncryptedScore(player1, 1500);
+      await submitEncryptedScore(player2, 900);
+
+      await upgradeToV2();
+
+      expect(await decryptMyScore(player1)).to.equal(1500);
+      expect(await decryptMyScore(player2)).to.equal(900);
+
+      // The season keeps running on the new implementation
+      await submitEncryptedScore(player2, 2000);
+      expect(await decryptMyScore(player2)).to.equal(2000);
+      expect(await scoreContract.getTotalPlayers()).to.equal(2);
+
+      const tx = await scoreContract.connect(player1).getApproximateLeaderboardPosition(DEFAULT_GAME);
+      await tx.wait();
+      const position = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await scoreContract.connect(player1).getMyLeaderboardPosition(DEFAULT_GAME),
+        await proxy.getAddress(),
+        player1
+      );
+      expect(Number(position)).to.equal(2);
+    });
+  });
+});
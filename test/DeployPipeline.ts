@@ -0,0 +1,218 @@
+/**
+ * Test Suite: Deploy pipeline
+ *
+ * This test suite demonstrates:
+ * - Ordering catalog contracts by their dependencies
+ * - Resolving constructor args from CLI overrides, environment and defaults
+ * - Running post-deploy init steps and printing a summary table
+ * - Deploying the whole catalog (`npm run deploy:all`) against the FHEVM mock
+ */
+
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { DEFAULT_ACHIEVEMENTS, DEPLOY_CONFIGS } from "../deploy/config";
+import type { DeployConfig } from "../deploy/config";
+import { GamingScoreClient } from "../src/client";
+import {
+  findConfig,
+  formatSummaryTable,
+  orderDeployments,
+  parseArgOverrides,
+  resolveConstructorArgs,
+  runDeployPipeline,
+} from "../deploy/pipeline";
+
+describe("Deploy Pipeline", function () {
+  /**
+   * Helper: Minimal config for ordering tests
+   */
+  function config(contractName: string, dependsOn: string[] = []): DeployConfig {
+    return { contractName, example: contractName.toLowerCase(), args: [], dependsOn, init: [] };
+  }
+
+  // ==================== Ordering Tests ====================
+
+  describe("Ordering", function () {
+    /**
+     * ✅ Test: Dependencies come first, each contract once
+     */
+    it("Should order contracts after their dependencies", async function () {
+      const configs = {
+        Registry: config("Registry"),
+        Token: config("Token", ["Registry"]),
+        Market: config("Market", ["Token", "Registry"]),
+      };
+
+      expect(orderDeployments(["Market", "Token"], configs)).to.deep.equal([
+        "Registry",
+        "Token",
+        "Market",
+      ]);
+    });
+
+    /**
+     * ❌ Test: Cycles and unknown targets are rejected
+     */
+    it("Should reject cycles and unknown contracts", async function () {
+      const configs = { A: config("A", ["B"]), B: config("B", ["A"]) };
+
+      expect(() => orderDeployments(["A"], configs)).to.throw("Dependency cycle: A -> B -> A");
+      expect(() => orderDeployments(["Missing"])).to.throw("Unknown contract or example");
+    });
+
+    /**
+     * ✅ Test: Example names resolve to catalog contracts
+     */
+    it("Should accept example names", async function () {
+      expect(findConfig("blind-auction").contractName).to.equal("BlindAuction");
+      expect(orderDeployments(["fhe-counter"])).to.deep.equal(["FHECounter"]);
+    });
+  });
+
+  // ==================== Argument Tests ====================
+
+  describe("Constructor Arguments", function () {
+    /**
+     * ✅ Test: CLI overrides beat environment variables, which beat defaults
+     */
+    it("Should resolve args by precedence", async function () {
+      const auction = DEPLOY_CONFIGS.BlindAuction;
+
+      expect(resolveConstructorArgs(auction, {}, {})).to.deep.equal([3600n, 1800n]);
+      expect(
+        resolveConstructorArgs(auction, {}, { BLIND_AUCTION_BIDDING_DURATION: "600" })
+      ).to.deep.equal([600n, 1800n]);
+      expect(
+        resolveConstructorArgs(
+          auction,
+          { biddingDuration: "60" },
+          { BLIND_AUCTION_BIDDING_DURATION: "600" }
+        )
+      ).to.deep.equal([60n, 1800n]);
+    });
+
+    /**
+     * ❌ Test: Missing and malformed values fail loudly
+     */
+    it("Should reject missing or invalid args", async function () {
+      const withoutDefault: DeployConfig = {
+        ...config("Vault"),
+        args: [{ name: "token", type: "address", env: "VAULT_TOKEN" }],
+      };
+
+      expect(() => resolveConstructorArgs(withoutDefault, {}, {})).to.throw(
+        "Missing constructor argument Vault.token"
+      );
+      expect(() =>
+        resolveConstructorArgs(DEPLOY_CONFIGS.BlindAuction, { revealDuration: "soon" }, {})
+      ).to.throw("must be an unsigned integer");
+    });
+
+    /**
+     * ✅ Test: Address args of deployed dependencies
+     */
+    it("Should use addresses of deployed dependencies", async function () {
+      const vault: DeployConfig = {
+        ...config("Vault"),
+        args: [{ name: "token", type: "address", deployment: "Token" }],
+      };
+      const token = ethers.Wallet.createRandom().address;
+
+      expect(orderDeployments(["Vault"], { Vault: vault, Token: config("Token") })).to.deep.equal([
+        "Token",
+        "Vault",
+      ]);
+      expect(resolveConstructorArgs(vault, {}, {}, { Token: token })).to.deep.equal([token]);
+    });
+
+    /**
+     * ✅ Test: --arg flags are grouped by contract
+     */
+    it("Should parse --arg flags", async function () {
+      expect(
+        parseArgOverrides([
+          "blind-auction",
+          "--arg",
+          "BlindAuction.biddingDuration=60",
+          "--arg",
+          "BlindAuction.revealDuration=30",
+        ])
+      ).to.deep.equal({ BlindAuction: { biddingDuration: "60", revealDuration: "30" } });
+      expect(() => parseArgOverrides(["--arg", "biddingDuration"])).to.throw("Invalid --arg");
+    });
+  });
+
+  // ==================== Pipeline Tests ====================
+
+  describe("Pipeline", function () {
+    /**
+     * ✅ Test: Deploys with args, runs init steps and summarizes
+     */
+    it("Should deploy contracts and run init steps", async function () {
+      const messages: string[] = [];
+      const results = await runDeployPipeline(hre, ["ConfidentialGamingScore", "blind-auction"], {
+        mode: "force",
+        overrides: { BlindAuction: { biddingDuration: "120" } },
+        env: {},
+        log: (message) => messages.push(message),
+      });
+
+      // The score contract's modules are deployed first, last module of the chain first
+      expect(results.map((result) => result.contractName)).to.deep.equal([
+        "ConfidentialGamingScoreAdministration",
+        "ConfidentialGamingScoreAchievements",
+        "ConfidentialGamingScoreCompetition",
+        "ConfidentialGamingScore",
+        "BlindAuction",
+      ]);
+      expect(results.every((result) => result.status === "deployed")).to.be.true;
+
+      const score = await ethers.getContractAt("ConfidentialGamingScore", results[3].address);
+      expect(await score.FALLBACK_MODULE()).to.equal(results[2].address);
+      expect(await score.achievementCount()).to.equal(DEFAULT_ACHIEVEMENTS.length);
+      expect(results[3].initSteps).to.equal(1);
+      expect(messages).to.include(`▶ ConfidentialGamingScore (${results[2].address})`);
+      expect(messages).to.include("▶ BlindAuction (120, 1800)");
+
+      const table = formatSummaryTable(results);
+      expect(table.split("\n")).to.have.length(7);
+      expect(table).to.contain(results[4].address);
+    });
+
+    /**
+     * ✅ Test: Reused deployments skip init steps
+     */
+    it("Should skip init steps of reused deployments", async function () {
+      await runDeployPipeline(hre, ["ConfidentialGamingScore"], { mode: "force", log: () => {} });
+      const results = await runDeployPipeline(hre, ["ConfidentialGamingScore"], { log: () => {} });
+      const result = results[results.length - 1];
+
+      expect(results.every((entry) => entry.status === "reused")).to.be.true;
+      expect(result.initSteps).to.equal(0);
+
+      const score = await ethers.getContractAt("ConfidentialGamingScore", result.address);
+      expect(await score.achievementCount()).to.equal(DEFAULT_ACHIEVEMENTS.length);
+    });
+
+    /**
+     * ✅ Test: The full catalog deploys on the FHEVM mock and accepts encrypted input
+     */
+    it("Should deploy the whole catalog against the FHEVM mock", async function () {
+      const results = await runDeployPipeline(hre, Object.keys(DEPLOY_CONFIGS), {
+        mode: "force",
+        env: {},
+        log: () => {},
+      });
+
+      expect(results.map((result) => result.contractName)).to.have.members(Object.keys(DEPLOY_CONFIGS));
+      expect(results.every((result) => result.status === "deployed")).to.be.true;
+
+      const [, player] = await ethers.getSigners();
+      const score = results.find((result) => result.contractName === "ConfidentialGamingScore")!;
+      const client = GamingScoreClient.connect(score.address, player, hre.fhevm);
+      await client.register();
+      await client.submitScore(1500);
+      expect(await client.getMyScore()).to.equal(1500);
+    });
+  });
+});
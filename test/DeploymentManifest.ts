@@ -0,0 +1,163 @@
+/**
+ * Test Suite: Deployment manifests
+ *
+ * This test suite demonstrates:
+ * - Recording deployments in deployments/<network>/<Contract>.json
+ * - Reusing a live deployment instead of redeploying
+ * - The --force / --reuse switches
+ * - The frontend's chain ID → manifest folder mapping
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+import { FHECounter } from "../typechain-types";
+import {
+  computeAbiHash,
+  deployOrReuse,
+  deploymentPath,
+  parseDeployMode,
+  readDeployment,
+  writeDeployment,
+} from "../deploy/manifest";
+
+describe("Deployment Manifest", function () {
+  const CONTRACT = "FHECounter";
+  const WITH_ARGS = "BlindAuction";
+
+  function removeManifest() {
+    fs.rmSync(deploymentPath(hre.network.name, CONTRACT), { force: true });
+    fs.rmSync(deploymentPath(hre.network.name, WITH_ARGS), { force: true });
+  }
+
+  beforeEach(removeManifest);
+  afterEach(removeManifest);
+
+  /**
+   * ✅ Test: A new deployment is recorded with its metadata
+   */
+  it("Should write a manifest on deployment", async function () {
+    const { manifest, reused } = await deployOrReuse<FHECounter>(hre, CONTRACT);
+    const artifact = await hre.artifacts.readArtifact(CONTRACT);
+
+    expect(reused).to.be.false;
+    expect(readDeployment(hre.network.name, CONTRACT)).to.deep.equal(manifest);
+    expect(manifest.abiHash).to.equal(computeAbiHash(artifact.abi));
+    expect(manifest.constructorArgs).to.deep.equal([]);
+    expect(manifest.blockNumber).to.be.greaterThan(0);
+    expect(manifest.gitCommit).to.be.a("string").and.not.be.empty;
+  });
+
+  /**
+   * ✅ Test: A live deployment is reused unless forced
+   */
+  it("Should reuse a live deployment", async function () {
+    const first = await deployOrReuse<FHECounter>(hre, CONTRACT);
+    const second = await deployOrReuse<FHECounter>(hre, CONTRACT);
+
+    expect(second.reused).to.be.true;
+    expect(await second.contract.getAddress()).to.equal(first.manifest.address);
+
+    const forced = await deployOrReuse<FHECounter>(hre, CONTRACT, [], "force");
+    expect(forced.reused).to.be.false;
+    expect(forced.manifest.address).to.not.equal(first.manifest.address);
+    expect(readDeployment(hre.network.name, CONTRACT)?.address).to.equal(forced.manifest.address);
+  });
+
+  /**
+   * ❌ Test: A stale ABI needs an explicit decision
+   */
+  it("Should refuse a stale ABI unless reusing explicitly", async function () {
+    const { manifest } = await deployOrReuse<FHECounter>(hre, CONTRACT);
+    writeDeployment({ ...manifest, abiHash: "0x" + "11".repeat(32) });
+
+    let error: unknown;
+    try {
+      await deployOrReuse<FHECounter>(hre, CONTRACT);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(Error);
+    expect((error as Error).message).to.contain("different ABI");
+
+    const reused = await deployOrReuse<FHECounter>(hre, CONTRACT, [], "reuse");
+    expect(reused.reused).to.be.true;
+  });
+
+  /**
+   * ✅ Test: Other constructor args redeploy, or fail an explicit reuse
+   */
+  it("Should not reuse a deployment with other constructor args", async function () {
+    const first = await deployOrReuse(hre, WITH_ARGS, [3600n, 1800n]);
+    expect((await deployOrReuse(hre, WITH_ARGS, [3600n, 1800n])).reused).to.be.true;
+
+    let error: unknown;
+    try {
+      await deployOrReuse(hre, WITH_ARGS, [7200n, 1800n], "reuse");
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).to.contain('deployed with constructor args ["3600","1800"]');
+
+    const redeployed = await deployOrReuse(hre, WITH_ARGS, [7200n, 1800n]);
+    expect(redeployed.reused).to.be.false;
+    expect(redeployed.manifest.address).to.not.equal(first.manifest.address);
+    expect(redeployed.manifest.constructorArgs).to.deep.equal(["7200", "1800"]);
+  });
+
+  /**
+   * ✅ Test: An ABI passed by the caller is recorded instead of the artifact's
+   */
+  it("Should record the given ABI", async function () {
+    const artifact = await hre.artifacts.readArtifact(CONTRACT);
+    const abi = [...artifact.abi, "function extra() view returns (uint256)"];
+
+    const { manifest } = await deployOrReuse<FHECounter>(hre, CONTRACT, [], "auto", abi);
+
+    expect(manifest.abi).to.deep.equal(abi);
+    expect(manifest.abiHash).to.equal(computeAbiHash(abi));
+    expect((await deployOrReuse<FHECounter>(hre, CONTRACT, [], "auto", abi)).reused).to.be.true;
+  });
+
+  /**
+   * ❌ Test: --reuse requires a recorded deployment
+   */
+  it("Should fail to reuse a missing deployment", async function () {
+    let error: unknown;
+    try {
+      await deployOrReuse<FHECounter>(hre, CONTRACT, [], "reuse");
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).to.contain("No FHECounter deployment recorded");
+  });
+
+  /**
+   * ✅ Test: Flags and environment variables select the mode
+   */
+  it("Should parse the deploy mode", async function () {
+    expect(parseDeployMode([], {})).to.equal("auto");
+    expect(parseDeployMode(["--force"], {})).to.equal("force");
+    expect(parseDeployMode([], { DEPLOY_REUSE: "true" })).to.equal("reuse");
+    expect(() => parseDeployMode(["--force", "--reuse"], {})).to.throw("mutually exclusive");
+  });
+
+  /**
+   * ✅ Test: The frontend looks up manifests in folders the deploy scripts write
+   */
+  it("Should map frontend chain IDs to configured networks", async function () {
+    const html = fs.readFileSync(path.join(__dirname, "..", "index.html"), "utf-8");
+    const mapping = /const DEPLOYMENT_NETWORKS = \{([^}]*)\}/.exec(html);
+    expect(mapping, "DEPLOYMENT_NETWORKS in index.html").to.not.be.null;
+    const entries = [...mapping![1].matchAll(/"(0x[0-9a-f]+)": "(\w+)"/g)];
+
+    const remoteNetworks = Object.keys(hre.config.networks).filter((name) => name !== "hardhat");
+    expect(entries.map(([, , network]) => network)).to.have.members(remoteNetworks);
+    for (const [, chainId, network] of entries) {
+      // localhost serves a hardhat node, which runs with the hardhat network's chain ID
+      const expected = hre.config.networks[network].chainId ?? hre.config.networks.hardhat.chainId;
+      expect(Number(chainId), network).to.equal(expected);
+    }
+  });
+});
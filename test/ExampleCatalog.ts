@@ -0,0 +1,194 @@
+/**
+ * Test Suite: Example catalog
+ *
+ * This test suite demonstrates:
+ * - Schema validation of the shared example catalog
+ * - Consistency between the catalog, the repository and the deploy pipeline
+ * - Learning paths ordered by example prerequisites
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEPLOY_CONFIGS } from "../deploy/config";
+import { findConfig } from "../deploy/pipeline";
+import {
+  contractNameOf,
+  EXAMPLES,
+  exampleForContract,
+  examplePaths,
+  examplesInCategory,
+  getExample,
+  loadCatalog,
+  missingFiles,
+  orderByPrerequisites,
+  validateCatalog,
+} from "../scripts/catalog";
+import type { ExampleConfig } from "../scripts/catalog";
+
+describe("Example Catalog", function () {
+  const counter = EXAMPLES["fhe-counter"];
+
+  // ==================== Schema Tests ====================
+
+  describe("Schema", function () {
+    /**
+     * ✅ Test: The shipped catalog is valid
+     */
+    it("Should validate the catalog", async function () {
+      expect(validateCatalog(EXAMPLES)).to.deep.equal([]);
+      expect(loadCatalog()).to.have.length(Object.keys(EXAMPLES).length);
+    });
+
+    /**
+     * ❌ Test: Every schema violation is reported with its example
+     */
+    it("Should report invalid entries", async function () {
+      const problems = validateCatalog({
+        Broken: {
+          name: "broken",
+          title: "",
+          description: "Broken entry",
+          contractFile: "Broken.js",
+          testFile: "Broken.ts",
+          category: "misc",
+          concepts: ["NotKebab"],
+        },
+      });
+
+      expect(problems).to.deep.equal([
+        "Broken: name must be kebab-case",
+        'Broken: name "broken" does not match its key',
+        "Broken: title is required",
+        "Broken: contractFile must be a .sol path",
+        "Broken: category must be one of basic, gaming, auction",
+        "Broken: concepts must be kebab-case",
+      ]);
+    });
+
+    /**
+     * ❌ Test: Two examples cannot share a contract
+     */
+    it("Should reject duplicate contracts", async function () {
+      const copy: ExampleConfig = { ...counter, name: "fhe-counter-copy" };
+      const catalog = { "fhe-counter": counter, "fhe-counter-copy": copy };
+
+      expect(validateCatalog(catalog)).to.deep.equal([
+        "fhe-counter-copy: contractFile already used by fhe-counter",
+      ]);
+      expect(() => loadCatalog(catalog)).to.throw("Invalid example catalog");
+    });
+  });
+
+  // ==================== Learning Path Tests ====================
+
+  describe("Learning Paths", function () {
+    /**
+     * ✅ Test: Examples follow their prerequisites whatever the input order
+     */
+    it("Should order examples by prerequisites", async function () {
+      const track = ["confidential-gaming-score", "access-control", "encrypt-single-value", "user-decrypt-single"];
+
+      const ordered = orderByPrerequisites(track.map((name) => EXAMPLES[name]));
+
+      expect(ordered.map((example) => example.name)).to.deep.equal([
+        "encrypt-single-value",
+        "user-decrypt-single",
+        "access-control",
+        "confidential-gaming-score",
+      ]);
+    });
+
+    /**
+     * ❌ Test: Unknown prerequisites and cycles are schema problems
+     */
+    it("Should reject broken prerequisites", async function () {
+      const first: ExampleConfig = { ...counter, prerequisites: ["second"] };
+      const second: ExampleConfig = {
+        ...EXAMPLES["blind-auction"],
+        name: "second",
+        prerequisites: ["fhe-counter"],
+      };
+
+      expect(validateCatalog({ "fhe-counter": { ...counter, prerequisites: ["nowhere"] } })).to.deep.equal([
+        "fhe-counter: unknown prerequisite nowhere",
+      ]);
+      expect(validateCatalog({ "fhe-counter": first, second })).to.deep.equal([
+        "Prerequisite cycle: fhe-counter -> second -> fhe-counter",
+      ]);
+    });
+
+    /**
+     * ✅ Test: Categories select their examples in catalog order
+     */
+    it("Should select examples by category", async function () {
+      expect(examplesInCategory("auction").map((example) => example.name)).to.deep.equal(["blind-auction"]);
+      expect(examplesInCategory("basic")).to.have.length(11);
+      expect(() => examplesInCategory("advanced")).to.throw("Unknown category: advanced");
+    });
+  });
+
+  // ==================== Lookup Tests ====================
+
+  describe("Lookups", function () {
+    /**
+     * ✅ Test: Examples resolve by name and by contract
+     */
+    it("Should find examples by name and contract", async function () {
+      expect(getExample("blind-auction").contractFile).to.equal("BlindAuction.sol");
+      expect(exampleForContract("FHEComparisonOperators").name).to.equal("fhe-comparisons");
+      expect(contractNameOf(EXAMPLES["access-control"])).to.equal("AccessControlExample");
+    });
+
+    /**
+     * ❌ Test: Unknown names are rejected
+     */
+    it("Should reject unknown examples", async function () {
+      expect(() => getExample("no-such-example")).to.throw("Unknown example: no-such-example");
+      expect(() => exampleForContract("NoSuchContract")).to.throw("No example in the catalog");
+    });
+  });
+
+  // ==================== Consistency Tests ====================
+
+  describe("Consistency", function () {
+    /**
+     * ✅ Test: Every catalog contract exists in contracts/
+     */
+    it("Should point at existing contracts", async function () {
+      loadCatalog().forEach((example) => {
+        expect(fs.existsSync(examplePaths(example).contract), example.contractFile).to.be.true;
+      });
+    });
+
+    /**
+     * ✅ Test: The deploy pipeline covers exactly the catalog
+     *
+     * Supporting contracts (the gaming score modules) share their example's name.
+     */
+    it("Should match the deploy configs", async function () {
+      const deployable = new Set(Object.values(DEPLOY_CONFIGS).map((config) => config.example));
+
+      expect([...deployable].sort()).to.deep.equal(Object.keys(EXAMPLES).sort());
+      Object.values(EXAMPLES).forEach((example) => {
+        expect(findConfig(example.name).contractName).to.equal(contractNameOf(example));
+      });
+    });
+
+    /**
+     * ✅ Test: Missing files are reported relative to the root
+     */
+    it("Should report missing files", async function () {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+      try {
+        fs.mkdirSync(path.join(root, "contracts"));
+        fs.writeFileSync(path.join(root, "contracts", counter.contractFile), "");
+
+        expect(missingFiles(counter, root)).to.deep.equal([`test/${counter.testFile}`]);
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
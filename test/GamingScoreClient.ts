@@ -0,0 +1,377 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ChallengeOutcome,
+  DEFAULT_GAME_ID,
+  fetchModerationLog,
+  formatModerationEvent,
+  GamingScoreClient,
+  ModerationReason,
+  parseReasonCode,
+  renderLeaderboard,
+  revealTopLeaderboard,
+  ScorePolicy,
+} from "../src/client";
+import type { GamingScoreContract } from "../src/client";
+import { deployGamingScore } from "../deploy/modules";
+
+/**
+ * Test Suite: GamingScoreClient
+ *
+ * This test suite demonstrates:
+ * - Registering and submitting scores through the shared client
+ * - Encrypting plain scores with the FHEVM instance
+ * - User-decrypting scores, timestamps and leaderboard positions
+ * - Client-side input validation
+ */
+describe("GamingScoreClient", function () {
+  let contract: GamingScoreContract;
+  let owner: SignerWithAddress;
+  let player1: SignerWithAddress;
+  let player2: SignerWithAddress;
+  let client1: GamingScoreClient;
+  let client2: GamingScoreClient;
+
+  beforeEach(async function () {
+    // Decryption needs the in-process FHEVM mock
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+
+    [owner, player1, player2] = await ethers.getSigners();
+
+    contract = await deployGamingScore(hre);
+
+    const address = await contract.getAddress();
+    client1 = GamingScoreClient.connect(address, player1, hre.fhevm);
+    client2 = GamingScoreClient.connect(address, player2, hre.fhevm);
+  });
+
+  // ==================== Registration Tests ====================
+
+  describe("Registration", function () {
+    /**
+     * ✅ Test: Client registers the signer
+     */
+    it("Should register the signer", async function () {
+      expect(await client1.isRegistered()).to.be.false;
+
+      await client1.register();
+
+      expect(await client1.isRegistered()).to.be.true;
+    });
+  });
+
+  // ==================== Score Tests ====================
+
+  describe("Scores", function () {
+    beforeEach(async function () {
+      await client1.register();
+      await client2.register();
+    });
+
+    /**
+     * ✅ Test: Submitted score decrypts to the plain value
+     */
+    it("Should submit and decrypt a score", async function () {
+      await client1.submitScore(1500);
+
+      expect(await client1.hasSubmitted()).to.be.true;
+      expect(await client1.getMyScore()).to.equal(1500);
+    });
+
+    /**
+     * ✅ Test: Updated score replaces the previous one
+     */
+    it("Should decrypt the latest score after an update", async function () {
+      await client1.submitScore(1500);
+      await client1.submitScore(900);
+
+      expect(await client1.getMyScore()).to.equal(900);
+    });
+
+    /**
+     * ✅ Test: Best-score policy and submission counter
+     */
+    it("Should decrypt the best score and submission count", async function () {
+      await contract.connect(owner).setDefaultScorePolicy(ScorePolicy.Best);
+      expect(await client1.getScorePolicy()).to.equal(ScorePolicy.Best);
+
+      await client1.submitScore(1500);
+      await client1.submitScore(900);
+
+      expect(await client1.getMyScore()).to.equal(1500);
+      expect(await client1.getMySubmissionCount()).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Timestamp decrypts to the submission block time
+     */
+    it("Should decrypt the submission timestamp", async function () {
+      await client1.submitScore(1500);
+      const block = await ethers.provider.getBlock("latest");
+
+      expect(await client1.getMyTimestamp()).to.equal(block?.timestamp);
+    });
+
+    /**
+     * ✅ Test: Decryption signatures are reused until they expire, then renewed
+     */
+    it("Should sign a new decryption request after the signature expires", async function () {
+      let keypairs = 0;
+      const fhevm = {
+        createEncryptedInput: hre.fhevm.createEncryptedInput.bind(hre.fhevm),
+        createEIP712: hre.fhevm.createEIP712.bind(hre.fhevm),
+        userDecrypt: hre.fhevm.userDecrypt.bind(hre.fhevm),
+        publicDecrypt: hre.fhevm.publicDecrypt.bind(hre.fhevm),
+        generateKeypair: () => {
+          keypairs++;
+          return hre.fhevm.generateKeypair();
+        },
+      };
+      const client = GamingScoreClient.connect(await contract.getAddress(), player1, fhevm);
+      await client.submitScore(1500);
+
+      expect(await client.getMyScore()).to.equal(1500);
+      expect(await client.getMySubmissionCount()).to.equal(1);
+      expect(keypairs).to.equal(1);
+
+      // One day later the 1-day signature has expired
+      const now = Date.now;
+      Date.now = () => now() + 24 * 60 * 60 * 1000;
+      try {
+        expect(await client.getMyScore()).to.equal(1500);
+      } finally {
+        Date.now = now;
+      }
+      expect(keypairs).to.equal(2);
+    });
+
+    /**
+     * ✅ Test: Leaderboard position in one pass and in batches
+     */
+    it("Should decrypt the leaderboard position", async function () {
+      await client1.submitScore(1500);
+      await client2.submitScore(2000);
+
+      expect(await client1.getLeaderboardPosition()).to.equal(2);
+      expect(await client2.getLeaderboardPosition(1)).to.equal(1);
+    });
+
+    /**
+     * ✅ Test: Achievement check against the decrypted score
+     */
+    it("Should check achievements against the decrypted score", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Bronze", 1000);
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Gold", 2000);
+      await client1.submitScore(1500);
+
+      expect(await client1.hasAchievement(0)).to.be.true;
+      expect(await client1.hasAchievement(1)).to.be.false;
+    });
+
+    /**
+     * ✅ Test: Revealed top-N board is readable and renders as text
+     */
+    it("Should read and render the revealed leaderboard", async function () {
+      await client1.setLeaderboardOptIn(true);
+      await client2.setLeaderboardOptIn(true);
+      await client1.submitScore(1500);
+      await client2.submitScore(1500);
+
+      await revealTopLeaderboard(contract.connect(owner), hre.fhevm, DEFAULT_GAME_ID, 3);
+      const board = await client1.getRevealedLeaderboard();
+
+      expect(board.entries.map((entry) => entry.rank)).to.deep.equal([1, 1]);
+      expect(renderLeaderboard(board)).to.contain(player2.address);
+    });
+
+    /**
+     * ✅ Test: Head-to-head outcome decrypts for both players
+     */
+    it("Should resolve a head-to-head challenge for both players", async function () {
+      await client1.submitScore(1500);
+      await client2.submitScore(2000);
+
+      const id = await client1.createChallenge(player2.address, 3600);
+      await client2.acceptChallenge(id);
+
+      expect(await client1.getChallengeOutcome(id)).to.equal(ChallengeOutcome.OpponentWins);
+      expect(await client2.getChallengeOutcome(id)).to.equal(ChallengeOutcome.OpponentWins);
+
+      await client1.consentToChallengeReveal(id);
+      await client2.consentToChallengeReveal(id);
+      expect(await client2.revealChallengeOutcome(id)).to.equal(ChallengeOutcome.OpponentWins);
+    });
+
+    /**
+     * ✅ Test: Viewers decrypt shared scores until revoked
+     */
+    it("Should share scores with a viewer", async function () {
+      await client1.grantViewer(player2.address);
+      await client1.submitScore(1500);
+
+      expect(await client1.getViewers()).to.deep.equal([player2.address]);
+      expect(await client2.getPlayerScore(player1.address)).to.equal(1500);
+
+      await client1.revokeViewer(player2.address);
+      expect(await client1.getViewers()).to.deep.equal([]);
+    });
+
+    /**
+     * ✅ Test: Claimed achievements are listed and publicly provable
+     */
+    it("Should claim, list and reveal unlocked achievements", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Bronze", 1000);
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Gold", 2000);
+      await contract.connect(owner).setAchievementCategory(0, "Skill");
+      await client1.submitScore(1500);
+
+      expect(await client1.claimAchievement(0)).to.be.true;
+      expect(await client1.claimAchievement(1)).to.be.false;
+
+      const unlocked = await client1.getUnlockedAchievements();
+      expect(unlocked).to.deep.equal([
+        { id: 0, title: "Bronze", category: "Skill", requiredScore: 1000 },
+      ]);
+
+      expect(await client1.revealAchievement(0)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Scores below the minimum are ineligible and unranked
+     */
+    it("Should report ineligible scores below the minimum", async function () {
+      await contract.connect(owner).setMinScoreThreshold(1000);
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Starter", 500);
+      await client1.submitScore(800);
+
+      expect(await client1.isEligible()).to.be.false;
+      expect(await client1.hasAchievement(0)).to.be.false;
+      expect(await client1.getLeaderboardPosition()).to.equal(0);
+    });
+
+    /**
+     * ✅ Test: Achievement checks follow the eligibility flag stored at submission
+     */
+    it("Should agree with claims after the threshold changes", async function () {
+      await contract.connect(owner).createAchievement(DEFAULT_GAME_ID, "Starter", 500);
+      await client1.submitScore(800);
+      await contract.connect(owner).setMinScoreThreshold(1000);
+
+      expect(await client1.hasAchievement(0)).to.be.true;
+      expect(await client1.claimAchievement(0)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Season helpers read archived scores
+     */
+    it("Should decrypt scores from a closed season", async function () {
+      const ownerClient = GamingScoreClient.connect(
+        await contract.getAddress(),
+        owner,
+        hre.fhevm
+      );
+
+      await client1.submitScore(1500);
+      await ownerClient.closeSeason();
+      expect((await client1.getActiveSeason()).active).to.be.false;
+
+      expect(await ownerClient.openSeason()).to.equal(2);
+      await client1.submitScore(700);
+
+      expect(await client1.getMyScore()).to.equal(700);
+      expect(await client1.getMySeasonScore(1)).to.equal(1500);
+    });
+
+    /**
+     * ✅ Test: Two games on one contract through game-bound clients
+     */
+    it("Should keep scores independent per game", async function () {
+      await contract.connect(owner).registerGame("Puzzle Duel");
+      const puzzle1 = client1.forGame(1);
+      const puzzle2 = client2.forGame(1);
+
+      await client1.submitScore(1500);
+      await client2.submitScore(2000);
+      await puzzle1.submitScore(300);
+      await puzzle2.submitScore(100);
+
+      expect(await client1.getMyScore()).to.equal(1500);
+      expect(await puzzle1.getMyScore()).to.equal(300);
+      expect(await client1.getLeaderboardPosition()).to.equal(2);
+      expect(await puzzle1.getLeaderboardPosition()).to.equal(1);
+
+      await contract.connect(owner).createAchievement(1, "Puzzle Master", 200);
+      expect(await puzzle1.hasAchievement(0)).to.be.true;
+
+      let error: unknown;
+      try {
+        await client1.hasAchievement(0);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(Error);
+    });
+
+    /**
+     * ❌ Test: Reject scores outside the euint32 range
+     */
+    it("Should reject invalid plain scores", async function () {
+      for (const invalid of [-1, 1.5, 2 ** 32]) {
+        let error: unknown;
+        try {
+          await client1.submitScore(invalid);
+        } catch (e) {
+          error = e;
+        }
+        expect(error).to.be.instanceOf(RangeError);
+      }
+    });
+  });
+
+  // ==================== Moderation Tests ====================
+
+  describe("Moderation", function () {
+    /**
+     * ✅ Test: Moderation log lists voids, bans and lifted bans in order
+     */
+    it("Should read the moderation log", async function () {
+      await client1.register();
+      await client1.submitScore(1500);
+
+      await contract.connect(owner).voidScore(player1.address, DEFAULT_GAME_ID, ModerationReason.Cheating);
+      await contract.connect(owner).banPlayer(player1.address, 3600, ModerationReason.Exploit);
+      await contract.connect(owner).banPlayer(player2.address, 60, ModerationReason.Abuse);
+      await contract.connect(owner).liftBan(player1.address);
+
+      const log = await fetchModerationLog(contract);
+      expect(log.map((event) => event.action)).to.deep.equal(["void", "ban", "ban", "unban"]);
+      expect(log[0]).to.include({
+        player: player1.address,
+        moderator: owner.address,
+        reasonCode: ModerationReason.Cheating,
+        gameId: DEFAULT_GAME_ID,
+        seasonId: 1,
+      });
+      expect(formatModerationEvent(log[1])).to.contain("Exploit");
+
+      const player2Log = await fetchModerationLog(contract, 0, player2.address);
+      expect(player2Log).to.have.length(1);
+      expect(player2Log[0].reasonCode).to.equal(ModerationReason.Abuse);
+    });
+
+    /**
+     * ✅ Test: Reasons parse by name or number
+     */
+    it("Should parse reason codes", async function () {
+      expect(parseReasonCode("cheating")).to.equal(ModerationReason.Cheating);
+      expect(parseReasonCode("42")).to.equal(42);
+
+      for (const invalid of ["0", "70000", "griefing"]) {
+        expect(() => parseReasonCode(invalid)).to.throw("Invalid reason code");
+      }
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Test Suite: Post-deploy stages
+ *
+ * This test suite demonstrates:
+ * - The scripted smoke scenario (register, encrypted submit, user-decrypt check)
+ * - Verifying a deployment with hardhat-verify against a local block explorer
+ *   stub, fully offline
+ */
+
+import { expect } from "chai";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import hre, { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { connectGamingScore } from "../src/client";
+import { deployOrReuse } from "../deploy/manifest";
+import { deployGamingScore } from "../deploy/modules";
+import { runSmokeTest, SMOKE_SCORE } from "../deploy/smoke";
+import { configureExplorer, verifyDeployment } from "../deploy/verify";
+
+describe("Post-deploy Stages", function () {
+  // ==================== Smoke Test Tests ====================
+
+  describe("Smoke Test", function () {
+    let owner: SignerWithAddress;
+    let smokePlayer: SignerWithAddress;
+    let address: string;
+
+    beforeEach(async function () {
+      // User decryption needs the in-process FHEVM mock
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+
+      [owner, smokePlayer] = await ethers.getSigners();
+      const contract = await deployGamingScore(hre);
+      address = await contract.getAddress();
+    });
+
+    /**
+     * ✅ Test: A healthy deployment passes and keeps no smoke data
+     */
+    it("Should pass on a healthy deployment", async function () {
+      const steps = await runSmokeTest(hre, address, { signer: smokePlayer, log: () => {} });
+
+      expect(steps.map((step) => step.ok)).to.deep.equal([true, true, true, true, true]);
+      expect(steps[3].detail).to.equal(`${SMOKE_SCORE}`);
+
+      const contract = connectGamingScore(address, owner);
+      expect(await contract.isPlayerRegistered(smokePlayer.address)).to.be.false;
+      expect(await contract.getTotalPlayers()).to.equal(0);
+    });
+
+    /**
+     * ❌ Test: A decrypted value that differs from the submission fails the run
+     */
+    it("Should fail on a decryption mismatch", async function () {
+      const contract = connectGamingScore(address, owner);
+      // Scores are clamped, so the smoke score comes back lower
+      await contract.connect(owner).setMaxPlausibleScore(1000);
+
+      let error: unknown;
+      try {
+        await runSmokeTest(hre, address, { signer: smokePlayer, log: () => {} });
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).to.equal(
+        `Smoke test failed at "User-decrypt score": decrypted 1000, expected ${SMOKE_SCORE}`
+      );
+    });
+
+    /**
+     * ❌ Test: The smoke account must not be a real player
+     */
+    it("Should refuse an already registered account", async function () {
+      const contract = connectGamingScore(address, owner);
+      await contract.connect(smokePlayer).registerPlayer();
+
+      let error: unknown;
+      try {
+        await runSmokeTest(hre, address, { signer: smokePlayer, log: () => {} });
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).to.contain("already registered");
+    });
+  });
+
+  // ==================== Verification Tests ====================
+
+  describe("Source Verification", function () {
+    let server: http.Server;
+    let apiUrl: string;
+    let requests: { method: string; params: URLSearchParams }[];
+    let verifiedSource: string;
+    let statusReplies: string[];
+    let etherscanConfig: typeof hre.config.etherscan;
+
+    /**
+     * Helper: Local block explorer stub speaking the Etherscan API
+     */
+    beforeEach(async function () {
+      requests = [];
+      verifiedSource = "";
+      statusReplies = ["Pass - Verified"];
+
+      server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          const url = new URL(req.url ?? "", "http://localhost");
+          const params = req.method === "POST" ? new URLSearchParams(body) : url.searchParams;
+          requests.push({ method: req.method ?? "", params });
+
+          let reply: { status: string; message: string; result: unknown };
+          if (params.get("action") === "getsourcecode") {
+            reply = { status: "1", message: "OK", result: [{ SourceCode: verifiedSource }] };
+          } else if (params.get("action") === "verifysourcecode") {
+            reply = { status: "1", message: "OK", result: "stub-guid" };
+          } else {
+            const result = statusReplies.shift() ?? "Fail - Unable to verify";
+            reply = { status: result.startsWith("Pass") ? "1" : "0", message: "OK", result };
+          }
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(reply));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+      etherscanConfig = { ...hre.config.etherscan };
+      await configureExplorer(hre, apiUrl, "test-key");
+    });
+
+    afterEach(async function () {
+      hre.config.etherscan = etherscanConfig;
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    /**
+     * Helper: Requests that submitted a source
+     */
+    function submissions() {
+      return requests.filter((request) => request.params.get("action") === "verifysourcecode");
+    }
+
+    /**
+     * ✅ Test: The explorer is registered for the current chain with its own key
+     */
+    it("Should point hardhat-verify at the explorer", async function () {
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+      expect(hre.config.etherscan.customChains).to.deep.include({
+        network: hre.network.name,
+        chainId,
+        urls: { apiURL: apiUrl, browserURL: apiUrl.replace(/\/api$/, "") },
+      });
+      expect(hre.config.etherscan.apiKey).to.deep.include({ [hre.network.name]: "test-key" });
+    });
+
+    /**
+     * ✅ Test: The submission carries sources, compiler and encoded constructor args
+     */
+    it("Should verify a deployment through hardhat-verify", async function () {
+      const { manifest } = await deployOrReuse(hre, "BlindAuction", [3600n, 1800n], "force");
+
+      await verifyDeployment(hre, manifest);
+
+      expect(submissions()).to.have.length(1);
+      const { method, params } = submissions()[0];
+      expect(method).to.equal("POST");
+      expect(params.get("apikey")).to.equal("test-key");
+      expect(params.get("contractaddress")).to.equal(manifest.address);
+      expect(params.get("contractname")).to.equal("contracts/BlindAuction.sol:BlindAuction");
+      expect(params.get("compilerversion")).to.match(/^v0\.8\.24\+commit\.[0-9a-f]+$/);
+      expect(JSON.parse(params.get("sourceCode")!).sources).to.have.property("contracts/BlindAuction.sol");
+      expect(params.get("constructorArguements")).to.equal(
+        ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "uint256"], [3600, 1800]).slice(2)
+      );
+      expect(requests[requests.length - 1].params.get("guid")).to.equal("stub-guid");
+    });
+
+    /**
+     * ✅ Test: Contracts the explorer already knows are not submitted again
+     */
+    it("Should skip an already verified deployment", async function () {
+      verifiedSource = "contract FHECounter {}";
+      const { manifest } = await deployOrReuse(hre, "FHECounter", [], "force");
+
+      await verifyDeployment(hre, manifest);
+
+      expect(submissions()).to.have.length(0);
+    });
+
+    /**
+     * ❌ Test: An explorer failure is reported
+     */
+    it("Should fail when the explorer rejects the source", async function () {
+      statusReplies = [];
+      const { manifest } = await deployOrReuse(hre, "FHECounter", [], "force");
+
+      let error: unknown;
+      try {
+        await verifyDeployment(hre, manifest);
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).to.contain("Reason: Fail - Unable to verify");
+    });
+  });
+});
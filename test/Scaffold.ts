@@ -0,0 +1,413 @@
+/**
+ * Test Suite: Example scaffolding
+ *
+ * This test suite demonstrates:
+ * - Generating a standalone repository from base-template/
+ * - Replacing the template's Counter placeholders with the example
+ * - Injecting contract name and constructor args into the deploy script
+ * - Type-checking a generated repository against its typechain types
+ * - Copying the files an example imports, with re-pointed import paths
+ * - Bundling several examples into one learning-path workspace
+ */
+
+import { expect } from "chai";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EXAMPLES, REPO_ROOT } from "../scripts/catalog";
+import { collectDependencies, packageOf, parseImports } from "../scripts/dependencies";
+import {
+  createExampleRepository,
+  createWorkspace,
+  mergePlans,
+  planExampleFiles,
+  relocateImports,
+  renderConstructorArg,
+  rewriteDeployScript,
+  rewritePackageJson,
+  TEMPLATE_PLACEHOLDERS,
+} from "../scripts/scaffold";
+
+describe("Example Scaffolding", function () {
+  let workDir: string;
+
+  beforeEach(function () {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "scaffold-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Helper: Read a file of the generated repository
+   */
+  function read(outputPath: string, file: string): string {
+    return fs.readFileSync(path.join(outputPath, file), "utf-8");
+  }
+
+  // ==================== Repository Tests ====================
+
+  describe("Repository Generation", function () {
+    /**
+     * ✅ Test: The example replaces the template placeholders
+     */
+    it("Should replace the Counter placeholders", async function () {
+      const outputPath = path.join(workDir, "fhe-comparisons");
+      createExampleRepository(EXAMPLES["fhe-comparisons"], outputPath, { log: () => {} });
+
+      TEMPLATE_PLACEHOLDERS.forEach((file) => {
+        expect(fs.existsSync(path.join(outputPath, file)), file).to.be.false;
+      });
+      expect(fs.existsSync(path.join(outputPath, "contracts/FHEComparisonOperators.sol"))).to.be.true;
+      expect(fs.existsSync(path.join(outputPath, ".env.example"))).to.be.true;
+      // test/basic/ moved to test/, so the typechain import loses one level
+      expect(read(outputPath, "test/FHEComparisonOperators.ts")).to.contain('from "../typechain-types"');
+    });
+
+    /**
+     * ✅ Test: Deploy script and package are renamed after the example
+     */
+    it("Should configure the deploy script and package", async function () {
+      const outputPath = path.join(workDir, "blind-auction");
+      createExampleRepository(EXAMPLES["blind-auction"], outputPath, { log: () => {} });
+
+      const deployScript = read(outputPath, "deploy/deploy.ts");
+      expect(deployScript).to.contain('const CONTRACT_NAME = "BlindAuction";');
+      expect(deployScript).to.contain('process.env.BLIND_AUCTION_BIDDING_DURATION ?? "3600", // biddingDuration');
+      expect(deployScript).to.contain('process.env.BLIND_AUCTION_REVEAL_DURATION ?? "1800", // revealDuration');
+      expect(deployScript).not.to.contain("YourContractName");
+      expect(deployScript).not.to.contain("TODO");
+
+      const pkg = JSON.parse(read(outputPath, "package.json"));
+      expect(pkg.name).to.equal("blind-auction");
+      expect(pkg.description).to.equal(EXAMPLES["blind-auction"].description);
+      expect(pkg.scripts.test).to.equal("hardhat test");
+    });
+
+    /**
+     * ✅ Test: Imported contracts and client code come along
+     */
+    it("Should copy the files an example imports", async function () {
+      const outputPath = path.join(workDir, "confidential-gaming-score");
+      createExampleRepository(EXAMPLES["confidential-gaming-score"], outputPath, { log: () => {} });
+
+      expect(fs.existsSync(path.join(outputPath, "contracts/ConfidentialGamingScoreBase.sol"))).to.be.true;
+      expect(fs.existsSync(path.join(outputPath, "src/client/index.ts"))).to.be.true;
+      expect(fs.existsSync(path.join(outputPath, "src/client/leaderboard.ts"))).to.be.true;
+      expect(read(outputPath, "test/ConfidentialGamingScore.ts")).to.contain('from "../src/client"');
+
+      // The score contract is deployed together with its module chain
+      const deployScript = read(outputPath, "deploy/deploy.ts");
+      expect(fs.existsSync(path.join(outputPath, "deploy/modules.ts"))).to.be.true;
+      expect(deployScript).to.contain('import { deployGamingScore } from "./modules";');
+      expect(deployScript).to.contain("await deployGamingScore(hre)");
+      expect(deployScript).not.to.contain("GAMING_SCORE_COMPETITION");
+
+      const rootPkg = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf-8"));
+      const pkg = JSON.parse(read(outputPath, "package.json"));
+      expect(pkg.dependencies["@openzeppelin/contracts-upgradeable"]).to.equal(
+        rootPkg.dependencies["@openzeppelin/contracts-upgradeable"]
+      );
+    });
+
+    /**
+     * ❌ Test: A missing test fails before anything is written
+     */
+    it("Should fail when example files are missing", async function () {
+      const outputPath = path.join(workDir, "incomplete");
+      const incomplete = { ...EXAMPLES["fhe-counter"], testFile: "basic/Missing.ts" };
+
+      expect(() => createExampleRepository(incomplete, outputPath, { log: () => {} })).to.throw(
+        "Cannot scaffold fhe-counter, missing: test/basic/Missing.ts"
+      );
+      expect(fs.existsSync(outputPath)).to.be.false;
+    });
+
+    /**
+     * ✅ Test: The rewritten deploy script compiles against the typed factory
+     */
+    it("Should generate a repository that type-checks", async function () {
+      const outputPath = path.join(workDir, "blind-auction");
+      createExampleRepository(EXAMPLES["blind-auction"], outputPath, { log: () => {} });
+      // Use this repository's packages instead of installing them
+      fs.symlinkSync(path.join(REPO_ROOT, "node_modules"), path.join(outputPath, "node_modules"), "dir");
+
+      for (const args of [["hardhat", "compile"], ["tsc", "--noEmit"]]) {
+        const result = spawnSync("npx", ["--no-install", ...args], { cwd: outputPath, encoding: "utf-8" });
+        expect(result.status, `${args.join(" ")}:\n${result.stdout}${result.stderr}`).to.equal(0);
+      }
+    });
+  });
+
+  // ==================== Workspace Tests ====================
+
+  describe("Workspaces", function () {
+    /**
+     * ✅ Test: The README walks through the examples in prerequisite order
+     */
+    it("Should order the learning path by prerequisites", async function () {
+      const outputPath = path.join(workDir, "onboarding");
+      const track = ["confidential-gaming-score", "fhe-comparisons", "encrypt-single-value"];
+      createWorkspace(
+        track.map((name) => EXAMPLES[name]),
+        outputPath,
+        { log: () => {} }
+      );
+
+      const readme = read(outputPath, "README.md");
+      expect(readme).to.contain("### 1. Encrypt Single Value");
+      expect(readme).to.contain("### 2. FHE Comparison Operators");
+      expect(readme).to.contain("### 3. Confidential Gaming Score");
+      expect(readme).to.contain("- **Builds on**: Encrypt Single Value (step 1)");
+      expect(readme).to.contain("- **Builds on**: FHE Comparison Operators (step 2)");
+      expect(readme).to.contain("`npm run test:confidential-gaming-score`");
+
+      expect(fs.existsSync(path.join(outputPath, "contracts/EncryptSingleValue.sol"))).to.be.true;
+      expect(fs.existsSync(path.join(outputPath, "contracts/ConfidentialGamingScoreBase.sol"))).to.be.true;
+      expect(fs.existsSync(path.join(outputPath, "src/client/index.ts"))).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Every example gets its own test and deploy script
+     */
+    it("Should add scripts per example", async function () {
+      const outputPath = path.join(workDir, "Onboarding");
+      createWorkspace(
+        ["encrypt-single-value", "blind-auction"].map((name) => EXAMPLES[name]),
+        outputPath,
+        { log: () => {} }
+      );
+
+      const pkg = JSON.parse(read(outputPath, "package.json"));
+      expect(pkg.name).to.equal("onboarding");
+      expect(pkg.scripts["test:encrypt-single-value"]).to.equal("hardhat test test/EncryptSingleValue.ts");
+      expect(pkg.scripts["test:blind-auction"]).to.equal("hardhat test test/BlindAuction.ts");
+      expect(pkg.scripts["deploy:blind-auction"]).to.equal("hardhat run deploy/blind-auction.ts");
+      expect(pkg.scripts).not.to.have.property("deploy:zama");
+
+      expect(fs.existsSync(path.join(outputPath, "deploy/deploy.ts"))).to.be.false;
+      expect(read(outputPath, "deploy/blind-auction.ts")).to.contain('const CONTRACT_NAME = "BlindAuction";');
+      expect(read(outputPath, "deploy/encrypt-single-value.ts")).to.contain(
+        'const CONTRACT_NAME = "EncryptSingleValue";'
+      );
+    });
+
+    /**
+     * ❌ Test: Two examples cannot claim the same generated path
+     */
+    it("Should reject conflicting layouts", async function () {
+      const first = { files: new Map([["contracts/basic/Vault.sol", "contracts/Vault.sol"]]), packages: [] };
+      const second = { files: new Map([["contracts/Vault.sol", "contracts/Vault.sol"]]), packages: [] };
+
+      expect(() => mergePlans([first, second])).to.throw(
+        "contracts/Vault.sol and contracts/basic/Vault.sol would both be generated as contracts/Vault.sol"
+      );
+    });
+  });
+
+  // ==================== Dependency Tests ====================
+
+  describe("Dependencies", function () {
+    /**
+     * Helper: Write files of a throwaway source repository
+     */
+    function writeRepo(files: Record<string, string>): string {
+      const root = path.join(workDir, "repo");
+      Object.entries(files).forEach(([file, content]) => {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+      });
+      return root;
+    }
+
+    /**
+     * ✅ Test: Solidity and TypeScript import forms are recognized
+     */
+    it("Should parse imports", async function () {
+      const solidity = [
+        'import "./Lib.sol";',
+        'import { Base } from "../Base.sol";',
+        'import * as Math from "@openzeppelin/contracts/utils/math/Math.sol";',
+      ].join("\n");
+      const typescript = [
+        'import { expect } from "chai";',
+        'import type { Counter } from "../../typechain-types";',
+        'export { helper } from "./helpers";',
+        'import "./setup";',
+        'const config = require("../config.json");',
+      ].join("\n");
+
+      expect(parseImports("A.sol", solidity)).to.deep.equal([
+        "./Lib.sol",
+        "../Base.sol",
+        "@openzeppelin/contracts/utils/math/Math.sol",
+      ]);
+      expect(parseImports("A.ts", typescript)).to.deep.equal([
+        "chai",
+        "../../typechain-types",
+        "./helpers",
+        "./setup",
+        "../config.json",
+      ]);
+      expect(packageOf("@fhevm/solidity/lib/FHE.sol")).to.equal("@fhevm/solidity");
+      expect(packageOf("hardhat")).to.equal("hardhat");
+    });
+
+    /**
+     * ✅ Test: The closure follows imports transitively, skipping generated code
+     */
+    it("Should collect the transitive closure", async function () {
+      const closure = collectDependencies(path.join(__dirname, ".."), [
+        "contracts/ConfidentialGamingScore.sol",
+        "test/ConfidentialGamingScore.ts",
+      ]);
+
+      expect(closure.files.slice(0, 2)).to.deep.equal([
+        "contracts/ConfidentialGamingScore.sol",
+        "test/ConfidentialGamingScore.ts",
+      ]);
+      expect(closure.files).to.include.members([
+        "contracts/ConfidentialGamingScoreBase.sol",
+        "contracts/ConfidentialGamingScoreCompetition.sol",
+        "contracts/ConfidentialGamingScoreAchievements.sol",
+        "contracts/ConfidentialGamingScoreAdministration.sol",
+        "deploy/modules.ts",
+        "src/client/index.ts",
+        "src/client/contract.ts",
+        "src/client/GamingScoreClient.ts",
+        "src/client/attestation.ts",
+      ]);
+      expect(closure.files.some((file) => file.startsWith("typechain-types"))).to.be.false;
+      expect(closure.packages).to.include.members(["@openzeppelin/contracts-upgradeable", "@fhevm/solidity"]);
+    });
+
+    /**
+     * ✅ Test: Relative imports follow the example into the flat layout
+     */
+    it("Should re-point imports of a nested example", async function () {
+      const root = writeRepo({
+        "contracts/basic/Nested.sol": 'import { Lib } from "./Lib.sol";\n',
+        "contracts/basic/Lib.sol": "library Lib {}\n",
+        "test/basic/Nested.ts": [
+          'import { Nested } from "../../typechain-types";',
+          'import { deployNested } from "./helpers";',
+          "",
+        ].join("\n"),
+        "test/basic/helpers.ts": "export {};\n",
+      });
+      const nested = { ...EXAMPLES["fhe-counter"], contractFile: "basic/Nested.sol", testFile: "basic/Nested.ts" };
+
+      const plan = planExampleFiles(nested, root);
+      expect([...plan.files.entries()]).to.deep.equal([
+        ["contracts/basic/Nested.sol", "contracts/Nested.sol"],
+        ["test/basic/Nested.ts", "test/Nested.ts"],
+        ["contracts/basic/Lib.sol", "contracts/basic/Lib.sol"],
+        ["test/basic/helpers.ts", "test/basic/helpers.ts"],
+      ]);
+
+      const relocate = (file: string) =>
+        relocateImports(fs.readFileSync(path.join(root, file), "utf-8"), file, plan, root);
+      expect(relocate("contracts/basic/Nested.sol")).to.equal('import { Lib } from "./basic/Lib.sol";\n');
+      expect(relocate("test/basic/Nested.ts")).to.equal(
+        'import { Nested } from "../typechain-types";\nimport { deployNested } from "./basic/helpers";\n'
+      );
+    });
+
+    /**
+     * ❌ Test: An import that resolves to nothing fails the plan
+     */
+    it("Should fail on unresolvable imports", async function () {
+      const root = writeRepo({
+        "contracts/Broken.sol": 'import "./Missing.sol";\n',
+        "test/Broken.ts": "export {};\n",
+      });
+      const broken = { ...EXAMPLES["fhe-counter"], contractFile: "Broken.sol", testFile: "Broken.ts" };
+
+      expect(() => planExampleFiles(broken, root)).to.throw(
+        'Cannot resolve import "./Missing.sol" in contracts/Broken.sol'
+      );
+    });
+  });
+
+  // ==================== Rewrite Tests ====================
+
+  describe("Template Rewrites", function () {
+    const template = [
+      "  // TODO: Update CONTRACT_NAME and CONSTRUCTOR_ARGS to match your contract",
+      '  const CONTRACT_NAME = "YourContractName";',
+      "  const CONSTRUCTOR_ARGS: unknown[] = [];",
+      "",
+    ].join("\r\n");
+
+    /**
+     * ✅ Test: Contracts without constructor args keep an empty list
+     */
+    it("Should keep line endings and empty args", async function () {
+      const rewritten = rewriteDeployScript(template, "FHECounter", []);
+
+      expect(rewritten).to.equal(
+        [
+          "  // Example contract and its constructor arguments",
+          '  const CONTRACT_NAME = "FHECounter";',
+          "  const CONSTRUCTOR_ARGS: unknown[] = [];",
+          "",
+        ].join("\r\n")
+      );
+    });
+
+    /**
+     * ❌ Test: A template without placeholders is rejected
+     */
+    it("Should reject a deploy script without placeholders", async function () {
+      expect(() => rewriteDeployScript('const CONTRACT_NAME = "Counter";\n', "FHECounter", [])).to.throw(
+        "no CONTRACT_NAME / CONSTRUCTOR_ARGS placeholders"
+      );
+    });
+
+    /**
+     * ✅ Test: Argument expressions read env variables with defaults
+     */
+    it("Should render constructor arguments", async function () {
+      expect(renderConstructorArg({ name: "owner", type: "address", env: "OWNER" })).to.equal("process.env.OWNER");
+      expect(renderConstructorArg({ name: "label", type: "string", default: "demo" })).to.equal('"demo"');
+      expect(renderConstructorArg({ name: "open", type: "bool", env: "OPEN", default: "false" })).to.equal(
+        '(process.env.OPEN ?? "false") === "true"'
+      );
+      expect(() => renderConstructorArg({ name: "token", type: "address", deployment: "Token" })).to.throw(
+        "needs an env variable or a default"
+      );
+    });
+
+    /**
+     * ✅ Test: Only name and description of the package change
+     */
+    it("Should rename the package", async function () {
+      const source = JSON.stringify({ name: "fhevm-example-template", description: "Base", version: "1.0.0" });
+
+      expect(JSON.parse(rewritePackageJson(source, EXAMPLES["fhe-counter"]))).to.deep.equal({
+        name: "fhe-counter",
+        description: EXAMPLES["fhe-counter"].description,
+        version: "1.0.0",
+      });
+    });
+
+    /**
+     * ✅ Test: Scripts are added, replaced or removed
+     */
+    it("Should update package scripts", async function () {
+      const source = JSON.stringify({ name: "t", scripts: { test: "hardhat test", "deploy:zama": "hardhat run x" } });
+
+      const pkg = JSON.parse(
+        rewritePackageJson(source, EXAMPLES["fhe-counter"], {
+          scripts: { "deploy:zama": null, "test:fhe-counter": "hardhat test test/FHECounter.ts" },
+        })
+      );
+      expect(pkg.scripts).to.deep.equal({
+        test: "hardhat test",
+        "test:fhe-counter": "hardhat test test/FHECounter.ts",
+      });
+    });
+  });
+});
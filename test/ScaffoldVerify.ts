@@ -0,0 +1,195 @@
+/**
+ * Test Suite: Scaffold verification
+ *
+ * This test suite demonstrates:
+ * - Installing, compiling and testing a generated repository step by step
+ * - Sharing one npm cache across every generated repository
+ * - Per-example pass/fail results collected into a JSON report
+ *
+ * Commands go through a recording runner; no package is actually installed.
+ * Set SCAFFOLD_VERIFY_REAL=1 to also install, compile and test one generated
+ * repository for real (uses SCAFFOLD_NPM_CACHE or .cache/npm, takes minutes).
+ */
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EXAMPLES } from "../scripts/catalog";
+import {
+  buildReport,
+  DEFAULT_TIMEOUT_MS,
+  verifyExamples,
+  verifyRepository,
+  writeReport,
+} from "../scripts/scaffold-verify";
+import type { CommandOptions, CommandResult, VerifyOptions } from "../scripts/scaffold-verify";
+
+describe("Scaffold Verification", function () {
+  let workDir: string;
+  let commands: { line: string; options: CommandOptions }[];
+
+  beforeEach(function () {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "scaffold-verify-"));
+    commands = [];
+  });
+
+  afterEach(function () {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Helper: Options recording every command, failing those matching `failing`
+   */
+  function recording(failing?: RegExp): VerifyOptions {
+    return {
+      cacheDir: path.join(workDir, "npm-cache"),
+      timeoutMs: 1000,
+      log: () => {},
+      run: (command, args, options): CommandResult => {
+        const line = [command, ...args].join(" ");
+        commands.push({ line, options });
+        return failing?.test(line) ? { status: 1, output: `boom\n${line} failed` } : { status: 0, output: "" };
+      },
+    };
+  }
+
+  // ==================== Repository Tests ====================
+
+  describe("Repository Verification", function () {
+    /**
+     * ✅ Test: Install and compile run once, then each example's tests on the in-process network
+     */
+    it("Should install, compile and test in order", async function () {
+      const examples = [EXAMPLES["fhe-comparisons"], EXAMPLES["encrypt-single-value"]];
+
+      const results = verifyRepository(workDir, examples, recording());
+
+      expect(commands.map((command) => command.line)).to.deep.equal([
+        "npm install --prefer-offline --no-audit --no-fund",
+        "npx hardhat compile",
+        "npx hardhat test --network hardhat test/FHEComparisonOperators.ts",
+        "npx hardhat test --network hardhat test/EncryptSingleValue.ts",
+      ]);
+      expect(results.map((result) => [result.name, result.ok])).to.deep.equal([
+        ["fhe-comparisons", true],
+        ["encrypt-single-value", true],
+      ]);
+      expect(results[0].steps.map((step) => step.step)).to.deep.equal(["install", "compile", "test"]);
+    });
+
+    /**
+     * ✅ Test: Every command uses the shared cache, the repository and the time limit
+     */
+    it("Should run commands against the local cache", async function () {
+      verifyRepository(workDir, [EXAMPLES["fhe-comparisons"]], recording());
+
+      commands.forEach(({ options }) => {
+        expect(options.cwd).to.equal(workDir);
+        expect(options.env.npm_config_cache).to.equal(path.join(workDir, "npm-cache"));
+        expect(options.timeoutMs).to.equal(1000);
+      });
+    });
+
+    /**
+     * ❌ Test: A failed install skips compilation and tests and keeps the output
+     */
+    it("Should stop after a failed install", async function () {
+      const [result] = verifyRepository(workDir, [EXAMPLES["fhe-comparisons"]], recording(/npm install/));
+
+      expect(commands).to.have.length(1);
+      expect(result.ok).to.be.false;
+      expect(result.steps).to.have.length(1);
+      expect(result.steps[0].output).to.contain("npm install");
+    });
+
+    /**
+     * ❌ Test: A failing example does not fail the others of a workspace
+     */
+    it("Should report examples independently", async function () {
+      const examples = [EXAMPLES["fhe-comparisons"], EXAMPLES["encrypt-single-value"]];
+
+      const results = verifyRepository(workDir, examples, recording(/EncryptSingleValue/));
+
+      expect(results.map((result) => result.ok)).to.deep.equal([true, false]);
+    });
+  });
+
+  // ==================== Report Tests ====================
+
+  describe("Reports", function () {
+    /**
+     * ✅ Test: Catalog examples are scaffolded into their own repositories and verified
+     */
+    it("Should scaffold and verify each example", async function () {
+      const outputPath = path.join(workDir, "fhe-comparisons");
+
+      const report = verifyExamples([EXAMPLES["fhe-comparisons"]], workDir, recording());
+
+      expect(report.ok).to.be.true;
+      expect(report.examples[0].outputPath).to.equal(outputPath);
+      const steps = report.examples[0].steps.map((step) => step.step);
+      expect(steps).to.deep.equal(["scaffold", "install", "compile", "test"]);
+      expect(fs.existsSync(path.join(outputPath, "contracts", "FHEComparisonOperators.sol"))).to.be.true;
+    });
+
+    /**
+     * ❌ Test: An example that cannot be scaffolded fails without running commands
+     */
+    it("Should record scaffold failures", async function () {
+      const broken = { ...EXAMPLES["fhe-comparisons"], testFile: "Missing.ts" };
+
+      const report = verifyExamples([broken], workDir, recording());
+
+      expect(commands).to.have.length(0);
+      expect(report.ok).to.be.false;
+      expect(report.examples[0].steps[0].step).to.equal("scaffold");
+      expect(report.examples[0].steps[0].output).to.contain("test/Missing.ts");
+    });
+
+    /**
+     * ✅ Test: The report is written as JSON with a pass count
+     */
+    it("Should write the JSON report", async function () {
+      const options = recording(/EncryptSingleValue/);
+      const examples = [EXAMPLES["fhe-comparisons"], EXAMPLES["encrypt-single-value"]];
+      const report = buildReport(verifyRepository(workDir, examples, options), options);
+      const reportPath = path.join(workDir, "reports", "verification.json");
+
+      const summary = writeReport(report, reportPath);
+
+      const written = JSON.parse(fs.readFileSync(reportPath, "utf-8"));
+      expect(summary).to.equal(`1/2 examples passed, report: ${reportPath}`);
+      expect(written.ok).to.be.false;
+      expect(written.cacheDir).to.equal(path.join(workDir, "npm-cache"));
+      expect(written.examples.map((example: { name: string }) => example.name)).to.deep.equal([
+        "fhe-comparisons",
+        "encrypt-single-value",
+      ]);
+    });
+  });
+
+  // ==================== Real Run Tests ====================
+
+  describe("Real Run", function () {
+    before(function () {
+      if (process.env.SCAFFOLD_VERIFY_REAL !== "1") {
+        this.skip();
+      }
+    });
+
+    /**
+     * ✅ Test: A generated repository installs, compiles and passes its tests with the real runner
+     */
+    it("Should verify a generated repository end to end", async function () {
+      // Install, compile and test each get the full per-command limit
+      this.timeout(3 * DEFAULT_TIMEOUT_MS);
+
+      const report = verifyExamples([EXAMPLES["fhe-comparisons"]], workDir, { log: () => {} });
+
+      const failed = report.examples[0].steps.filter((step) => !step.ok);
+      expect(failed, failed.map((step) => `${step.step}:\n${step.output}`).join("\n")).to.deep.equal([]);
+      expect(report.ok).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AccessControlExample } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Test Suite: AccessControlExample
+ *
+ * This test suite demonstrates:
+ * - allowThis + allow as the standard permission pattern
+ * - Granting a viewer persistent access
+ * - Rotating a value to cut off earlier viewers
+ * - Transient permissions for one-transaction results
+ */
+describe("AccessControlExample", function () {
+  let contract: AccessControlExample;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  /**
+   * Helper: Encrypt a plaintext value for the user with the hardhat FHEVM mock
+   */
+  async function encryptValue(user: SignerWithAddress, value: number) {
+    const contractAddress = await contract.getAddress();
+    return hre.fhevm.createEncryptedInput(contractAddress, user.address).add32(value).encrypt();
+  }
+
+  /**
+   * Helper: Encrypt and store a balance for the user
+   */
+  async function storeBalance(user: SignerWithAddress, value: number) {
+    const input = await encryptValue(user, value);
+    const tx = await contract.connect(user).storeBalance(input.handles[0], input.inputProof);
+    await tx.wait();
+  }
+
+  /**
+   * Helper: Decrypt a balance handle as the given account
+   */
+  async function decryptAs(handle: string, user: SignerWithAddress) {
+    const clear = await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, await contract.getAddress(), user);
+    return Number(clear);
+  }
+
+  /**
+   * Helper: Whether the account is refused decryption of the handle
+   */
+  async function isDenied(handle: string, user: SignerWithAddress) {
+    try {
+      await decryptAs(handle, user);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  beforeEach(async function () {
+    [, user1, user2] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("AccessControlExample");
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+  });
+
+  // ==================== Standard Permission Tests ====================
+
+  describe("Standard Permissions", function () {
+    /**
+     * ✅ Test: The owner decrypts their balance, others cannot
+     */
+    it("Should let only the owner decrypt a stored balance", async function () {
+      await storeBalance(user1, 500);
+
+      const handle = await contract.connect(user1).getMyBalance();
+      expect(await decryptAs(handle, user1)).to.equal(500);
+      expect(await isDenied(handle, user2)).to.be.true;
+    });
+
+    /**
+     * ✅ Test: Computed balances receive fresh permissions
+     */
+    it("Should grant permissions on the computed balance", async function () {
+      await storeBalance(user1, 500);
+      const input = await encryptValue(user1, 250);
+
+      await contract.connect(user1).addToBalance(input.handles[0], input.inputProof);
+
+      expect(await decryptAs(await contract.connect(user1).getMyBalance(), user1)).to.equal(750);
+    });
+
+    /**
+     * ❌ Test: Reading without a balance reverts
+     */
+    it("Should reject reads without a balance", async function () {
+      await expect(contract.connect(user2).getMyBalance()).to.be.revertedWith("No balance stored");
+    });
+  });
+
+  // ==================== Viewer Tests ====================
+
+  describe("Viewers", function () {
+    /**
+     * ✅ Test: A granted viewer decrypts the balance
+     */
+    it("Should grant a viewer access", async function () {
+      await storeBalance(user1, 500);
+
+      await expect(contract.connect(user1).grantViewPermission(user2.address))
+        .to.emit(contract, "PermissionGranted")
+        .withArgs(user1.address, user2.address, (timestamp: bigint) => timestamp > 0n);
+
+      expect(await contract.isAuthorizedViewer(user1.address, user2.address)).to.be.true;
+      expect(await decryptAs(await contract.connect(user1).getMyBalance(), user2)).to.equal(500);
+    });
+
+    /**
+     * ✅ Test: Rotation is the way to revoke, the viewer loses access to the new value
+     */
+    it("Should cut off viewers by rotating the balance", async function () {
+      await storeBalance(user1, 500);
+      await contract.connect(user1).grantViewPermission(user2.address);
+      const input = await encryptValue(user1, 600);
+
+      await contract.connect(user1).rotateBalance(input.handles[0], input.inputProof);
+
+      const handle = await contract.connect(user1).getMyBalance();
+      expect(await decryptAs(handle, user1)).to.equal(600);
+      expect(await isDenied(handle, user2)).to.be.true;
+    });
+
+    /**
+     * ❌ Test: The zero address cannot be granted access
+     */
+    it("Should reject the zero address as viewer", async function () {
+      await storeBalance(user1, 500);
+
+      await expect(
+        contract.connect(user1).grantViewPermission(ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid viewer address");
+    });
+  });
+
+  // ==================== Transient Permission Tests ====================
+
+  describe("Transient Permissions", function () {
+    /**
+     * ✅ Test: Comparing two balances returns an encrypted result
+     */
+    it("Should compare balances with a transient permission", async function () {
+      await storeBalance(user1, 500);
+      await storeBalance(user2, 400);
+
+      const result = await contract.connect(user1).compareBalanceWithTransientPermission.staticCall(user2.address);
+      expect(result).to.not.equal(ethers.ZeroHash);
+    });
+
+    /**
+     * ❌ Test: Comparison requires both balances
+     */
+    it("Should reject comparison with an account without balance", async function () {
+      await storeBalance(user1, 500);
+
+      await expect(
+        contract.connect(user1).compareBalanceWithTransientPermission(user2.address)
+      ).to.be.revertedWith("Other has no balance");
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { EncryptMultipleValues } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Test Suite: EncryptMultipleValues
+ *
+ * This test suite demonstrates:
+ * - Storing three encrypted values in one transaction
+ * - Updating one value without touching the others
+ * - Sharing every value with another account
+ */
+describe("EncryptMultipleValues", function () {
+  let contract: EncryptMultipleValues;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  /**
+   * Helper: Encrypt a plaintext value for the user with the hardhat FHEVM mock
+   */
+  async function encryptValue(user: SignerWithAddress, value: number) {
+    const contractAddress = await contract.getAddress();
+    return hre.fhevm.createEncryptedInput(contractAddress, user.address).add32(value).encrypt();
+  }
+
+  /**
+   * Helper: Encrypt and store three values for the user
+   */
+  async function storeValues(user: SignerWithAddress, values: [number, number, number]) {
+    const [input1, input2, input3] = await Promise.all(values.map((value) => encryptValue(user, value)));
+
+    const tx = await contract
+      .connect(user)
+      .storeMultipleValues(
+        input1.handles[0],
+        input1.inputProof,
+        input2.handles[0],
+        input2.inputProof,
+        input3.handles[0],
+        input3.inputProof
+      );
+    await tx.wait();
+  }
+
+  /**
+   * Helper: User-decrypt an euint32 handle
+   */
+  async function decryptUint32(handle: string, user: SignerWithAddress) {
+    const clear = await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, await contract.getAddress(), user);
+    return Number(clear);
+  }
+
+  beforeEach(async function () {
+    [, user1, user2] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("EncryptMultipleValues");
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+  });
+
+  // ==================== Storage Tests ====================
+
+  describe("Storage", function () {
+    /**
+     * ✅ Test: All three values are stored and decryptable by their owner
+     */
+    it("Should store three encrypted values", async function () {
+      await storeValues(user1, [10, 20, 30]);
+
+      expect(await contract.hasData(user1.address)).to.be.true;
+      const [value1, value2, value3] = await contract.connect(user1).getAllValues();
+      expect(await decryptUint32(value1, user1)).to.equal(10);
+      expect(await decryptUint32(value2, user1)).to.equal(20);
+      expect(await decryptUint32(value3, user1)).to.equal(30);
+    });
+
+    /**
+     * ✅ Test: Updating one value leaves the others unchanged
+     */
+    it("Should update a single value", async function () {
+      await storeValues(user1, [10, 20, 30]);
+      const input = await encryptValue(user1, 25);
+
+      await expect(contract.connect(user1).updateSingleValue(2, input.handles[0], input.inputProof))
+        .to.emit(contract, "ValueUpdated")
+        .withArgs(user1.address, 2, (timestamp: bigint) => timestamp > 0n);
+
+      expect(await decryptUint32(await contract.connect(user1).getSingleValue(1), user1)).to.equal(10);
+      expect(await decryptUint32(await contract.connect(user1).getSingleValue(2), user1)).to.equal(25);
+      expect(await decryptUint32(await contract.connect(user1).getSingleValue(3), user1)).to.equal(30);
+    });
+
+    /**
+     * ❌ Test: Index outside 1..3 is rejected
+     */
+    it("Should reject an invalid value index", async function () {
+      await storeValues(user1, [1, 2, 3]);
+      const input = await encryptValue(user1, 4);
+
+      await expect(
+        contract.connect(user1).updateSingleValue(4, input.handles[0], input.inputProof)
+      ).to.be.revertedWith("Invalid value index");
+    });
+
+    /**
+     * ❌ Test: Reading before storing reverts
+     */
+    it("Should reject reads before any value is stored", async function () {
+      await expect(contract.connect(user1).getAllValues()).to.be.revertedWith("No data stored");
+    });
+  });
+
+  // ==================== Permission Tests ====================
+
+  describe("Permissions", function () {
+    /**
+     * ✅ Test: Shared values become decryptable by the viewer
+     */
+    it("Should grant another account access to every value", async function () {
+      await storeValues(user1, [7, 8, 9]);
+      await contract.connect(user1).grantPermissionToAll(user2.address);
+
+      const [value1, , value3] = await contract.connect(user1).getAllValues();
+      expect(await decryptUint32(value1, user2)).to.equal(7);
+      expect(await decryptUint32(value3, user2)).to.equal(9);
+    });
+
+    /**
+     * ❌ Test: Values are not decryptable by accounts without permission
+     */
+    it("Should keep values private from other accounts", async function () {
+      await storeValues(user1, [7, 8, 9]);
+
+      const [value1] = await contract.connect(user1).getAllValues();
+      let error: unknown;
+      try {
+        await decryptUint32(value1, user2);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(Error);
+    });
+  });
+});
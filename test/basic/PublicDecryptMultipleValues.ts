@@ -1,76 +1,125 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { PublicDecryptMultipleValues } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 describe("PublicDecryptMultipleValues", function () {
-  let contract: PublicDecryptMultipleValues;
-  let owner: any;
-  let addr1: any;
-  let addr2: any;
-  let addr3: any;
+  let gameContract: PublicDecryptMultipleValues;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  let addr3: SignerWithAddress;
+
+  type Stats = { score: number; level: number; achievements: number };
+
+  const DEFAULT_STATS: Stats = { score: 0x1000, level: 0x0050, achievements: 0x0a };
+
+  /**
+   * Helper: Deploy a fresh game
+   */
+  async function deployGame() {
+    const PublicDecryptMultipleValues = await ethers.getContractFactory("PublicDecryptMultipleValues");
+    const deployed = await PublicDecryptMultipleValues.deploy();
+    await deployed.waitForDeployment();
+    return deployed;
+  }
+
+  /**
+   * Helper: Encrypt the three stats for the player in a single input
+   */
+  async function encryptStats(contract: PublicDecryptMultipleValues, player: SignerWithAddress, stats: Stats) {
+    return hre.fhevm
+      .createEncryptedInput(await contract.getAddress(), player.address)
+      .add32(stats.score)
+      .add16(stats.level)
+      .add8(stats.achievements)
+      .encrypt();
+  }
+
+  /**
+   * Helper: Encrypt and store the player's stats
+   */
+  async function storeStats(
+    contract: PublicDecryptMultipleValues,
+    player: SignerWithAddress,
+    stats: Stats = DEFAULT_STATS,
+  ) {
+    const input = await encryptStats(contract, player, stats);
+    return contract
+      .connect(player)
+      .storeStats(
+        input.handles[0],
+        input.inputProof,
+        input.handles[1],
+        input.inputProof,
+        input.handles[2],
+        input.inputProof,
+      );
+  }
+
+  /**
+   * Helper: Publicly decrypt the player's stats and store them on-chain
+   */
+  async function finalizeReveal(contract: PublicDecryptMultipleValues, player: SignerWithAddress) {
+    const [score, level, achievements] = await contract.connect(player).getEncryptedStats();
+    const result = await hre.fhevm.publicDecrypt([score, level, achievements]);
+    return contract.finalizeStatsReveal(player.address, result.abiEncodedClearValues, result.decryptionProof);
+  }
+
+  /**
+   * Helper: Request and finalize the player's reveal
+   */
+  async function revealStats(contract: PublicDecryptMultipleValues, player: SignerWithAddress) {
+    await (await contract.connect(player).revealStats()).wait();
+    await (await finalizeReveal(contract, player)).wait();
+  }
+
+  /**
+   * Helper: Read the player's revealed stats as plain numbers
+   */
+  async function publicStatsOf(contract: PublicDecryptMultipleValues, player: SignerWithAddress) {
+    const [score, level, achievements] = await contract.getPublicStats(player.address);
+    return { score: Number(score), level: Number(level), achievements: Number(achievements) };
+  }
 
   before(async function () {
     [owner, addr1, addr2, addr3] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Public decryption needs the in-process FHEVM mock
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
 
-    const PublicDecryptMultipleValues = await ethers.getContractFactory(
-      "PublicDecryptMultipleValues"
-    );
-    contract = await PublicDecryptMultipleValues.deploy();
-    await contract.waitForDeployment();
+    gameContract = await deployGame();
   });
 
   describe("Store Stats", function () {
     it("Should store encrypted game statistics", async function () {
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await expect(
-        contract.storeStats(
-          scoreHandle,
-          mockProof,
-          levelHandle,
-          mockProof,
-          achievementsHandle,
-          mockProof
-        )
-      ).to.emit(contract, "StatsStored");
+      await expect(storeStats(gameContract, owner)).to.emit(gameContract, "StatsStored");
     });
 
-    it("Should prevent storing after game ended", async function () {
-      await contract.endGame();
-
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await expect(
-        contract.storeStats(
-          scoreHandle,
-          mockProof,
-          levelHandle,
-          mockProof,
-          achievementsHandle,
-          mockProof
-        )
-      ).to.be.revertedWith("Game has ended");
+    it("Should let the player decrypt the stored stats", async function () {
+      await (await storeStats(gameContract, owner)).wait();
+
+      const [score, level, achievements] = await gameContract.getEncryptedStats();
+      const contractAddress = await gameContract.getAddress();
+      expect(await hre.fhevm.userDecryptEuint(FhevmType.euint32, score, contractAddress, owner)).to.equal(0x1000n);
+      expect(await hre.fhevm.userDecryptEuint(FhevmType.euint16, level, contractAddress, owner)).to.equal(0x50n);
+      expect(await hre.fhevm.userDecryptEuint(FhevmType.euint8, achievements, contractAddress, owner)).to.equal(10n);
     });
-  });
 
-  describe("Game State Management", function () {
-    let gameContract: PublicDecryptMultipleValues;
+    it("Should prevent storing after game ended", async function () {
+      await gameContract.endGame();
 
-    beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
+      await expect(storeStats(gameContract, owner)).to.be.revertedWith("Game has ended");
     });
+  });
 
+  describe("Game State Management", function () {
     it("Should allow owner to end game", async function () {
       await expect(gameContract.endGame()).to.emit(gameContract, "GameEnded");
 
@@ -79,17 +128,13 @@ describe("PublicDecryptMultipleValues", function () {
     });
 
     it("Should prevent non-owner from ending game", async function () {
-      await expect(
-        gameContract.connect(addr1).endGame()
-      ).to.be.revertedWith("Only owner can end game");
+      await expect(gameContract.connect(addr1).endGame()).to.be.revertedWith("Only owner can end game");
     });
 
     it("Should prevent ending game twice", async function () {
       await gameContract.endGame();
 
-      await expect(gameContract.endGame()).to.be.revertedWith(
-        "Game already ended"
-      );
+      await expect(gameContract.endGame()).to.be.revertedWith("Game already ended");
     });
 
     it("Should track game end time", async function () {
@@ -104,277 +149,147 @@ describe("PublicDecryptMultipleValues", function () {
   });
 
   describe("Reveal Stats", function () {
-    let gameContract: PublicDecryptMultipleValues;
-
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      // Store stats for player
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
-
-      // End game
+      await (await storeStats(gameContract, owner)).wait();
       await gameContract.endGame();
     });
 
-    it("Should reveal stats after game ends", async function () {
-      await expect(gameContract.revealStats()).to.emit(
-        gameContract,
-        "StatsRevealed"
-      );
+    it("Should request the reveal after game ends", async function () {
+      await expect(gameContract.revealStats()).to.emit(gameContract, "StatsRevealRequested");
+    });
+
+    it("Should store the decrypted stats on finalize", async function () {
+      await (await gameContract.revealStats()).wait();
+
+      await expect(finalizeReveal(gameContract, owner)).to.emit(gameContract, "StatsRevealed");
+      expect(await publicStatsOf(gameContract, owner)).to.deep.equal(DEFAULT_STATS);
+    });
+
+    it("Should reject a finalize with a forged proof", async function () {
+      await (await gameContract.revealStats()).wait();
+      const [score, level, achievements] = await gameContract.getEncryptedStats();
+      const result = await hre.fhevm.publicDecrypt([score, level, achievements]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint16", "uint8"], [1, 1, 1]);
+
+      await expect(gameContract.finalizeStatsReveal(owner.address, forged, result.decryptionProof)).to.be.reverted;
     });
 
     it("Should prevent reveal before game ends", async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      const newContract = await PublicDecryptMultipleValues.deploy();
-      await newContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await newContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      const newContract = await deployGame();
+      await (await storeStats(newContract, owner)).wait();
 
       // Game not ended
-      await expect(newContract.revealStats()).to.be.revertedWith(
-        "Game not ended yet"
-      );
+      await expect(newContract.revealStats()).to.be.revertedWith("Game not ended yet");
     });
 
     it("Should prevent double revelation", async function () {
-      await gameContract.revealStats();
+      await revealStats(gameContract, owner);
 
-      await expect(gameContract.revealStats()).to.be.revertedWith(
-        "Already revealed"
-      );
+      await expect(gameContract.revealStats()).to.be.revertedWith("Already revealed");
+      await expect(finalizeReveal(gameContract, owner)).to.be.revertedWith("Already revealed");
     });
 
     it("Should reject reveal without stored stats", async function () {
-      await expect(
-        gameContract.connect(addr1).revealStats()
-      ).to.be.revertedWith("No stats stored");
+      await expect(gameContract.connect(addr1).revealStats()).to.be.revertedWith("No stats stored");
     });
   });
 
   describe("Get Public Stats", function () {
-    let gameContract: PublicDecryptMultipleValues;
+    const stats: Stats = { score: 0x2000, level: 0x0064, achievements: 0x14 };
 
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x2000", 32);
-      const levelHandle = ethers.toBeHex("0x0064", 16);
-      const achievementsHandle = ethers.toBeHex("0x14", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      await (await storeStats(gameContract, owner, stats)).wait();
       await gameContract.endGame();
-      await gameContract.revealStats();
+      await revealStats(gameContract, owner);
     });
 
     it("Should retrieve publicly revealed stats", async function () {
-      const stats = await gameContract.getPublicStats(owner.address);
-      expect(stats).to.be.an("array");
-      expect(stats.length).to.equal(3);
+      expect(await publicStatsOf(gameContract, owner)).to.deep.equal(stats);
     });
 
     it("Should allow anyone to read revealed stats", async function () {
-      const stats = await gameContract
-        .connect(addr1)
-        .getPublicStats(owner.address);
-      expect(stats).to.be.an("array");
+      const [score] = await gameContract.connect(addr1).getPublicStats(owner.address);
+      expect(score).to.equal(stats.score);
     });
 
     it("Should reject reading unrevealed stats", async function () {
-      await expect(
-        gameContract.getPublicStats(addr1.address)
-      ).to.be.revertedWith("Stats not revealed");
+      await expect(gameContract.getPublicStats(addr1.address)).to.be.revertedWith("Stats not revealed");
     });
   });
 
   describe("Get Encrypted Stats", function () {
-    let gameContract: PublicDecryptMultipleValues;
-
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x1500", 32);
-      const levelHandle = ethers.toBeHex("0x003C", 16);
-      const achievementsHandle = ethers.toBeHex("0x05", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      await (await storeStats(gameContract, owner, { score: 0x1500, level: 0x003c, achievements: 0x05 })).wait();
     });
 
     it("Should retrieve encrypted stats", async function () {
       const stats = await gameContract.getEncryptedStats();
-      expect(stats).to.be.an("array");
       expect(stats.length).to.equal(3);
+      for (const handle of stats) {
+        expect(handle).to.not.equal(ethers.ZeroHash);
+      }
     });
 
     it("Should reject retrieval without stats", async function () {
-      await expect(
-        gameContract.connect(addr1).getEncryptedStats()
-      ).to.be.revertedWith("No stats stored");
+      await expect(gameContract.connect(addr1).getEncryptedStats()).to.be.revertedWith("No stats stored");
     });
   });
 
   describe("Revelation Status", function () {
-    let gameContract: PublicDecryptMultipleValues;
-
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.connect(addr1).storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      await (await storeStats(gameContract, addr1)).wait();
       await gameContract.endGame();
     });
 
     it("Should return false before revelation", async function () {
-      const hasRevealed = await gameContract.hasRevealed(addr1.address);
-      expect(hasRevealed).to.be.false;
+      expect(await gameContract.hasRevealed(addr1.address)).to.be.false;
     });
 
-    it("Should return true after revelation", async function () {
-      await gameContract.connect(addr1).revealStats();
+    it("Should stay false until the reveal is finalized", async function () {
+      await (await gameContract.connect(addr1).revealStats()).wait();
+      expect(await gameContract.hasRevealed(addr1.address)).to.be.false;
 
-      const hasRevealed = await gameContract.hasRevealed(addr1.address);
-      expect(hasRevealed).to.be.true;
+      await (await finalizeReveal(gameContract, addr1)).wait();
+      expect(await gameContract.hasRevealed(addr1.address)).to.be.true;
     });
 
     it("Should return false for users without stats", async function () {
-      const hasRevealed = await gameContract.hasRevealed(addr2.address);
-      expect(hasRevealed).to.be.false;
+      expect(await gameContract.hasRevealed(addr2.address)).to.be.false;
     });
   });
 
   describe("Calculate Total Score", function () {
-    let gameContract: PublicDecryptMultipleValues;
-
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      await (await storeStats(gameContract, owner)).wait();
     });
 
     it("Should compute encrypted total score", async function () {
-      const totalScore = await gameContract.calculateTotalScore();
-      expect(totalScore).to.not.be.null;
+      const handle = await gameContract.calculateTotalScore.staticCall();
+      await (await gameContract.calculateTotalScore()).wait();
+
+      const total = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        handle,
+        await gameContract.getAddress(),
+        owner,
+      );
+      expect(total).to.equal(0x1000n + 0x50n + 10n);
     });
 
     it("Should reject calculation without stats", async function () {
-      await expect(
-        gameContract.connect(addr1).calculateTotalScore()
-      ).to.be.revertedWith("No stats stored");
+      await expect(gameContract.connect(addr1).calculateTotalScore()).to.be.revertedWith("No stats stored");
     });
   });
 
   describe("Batch Reveal", function () {
-    let gameContract: PublicDecryptMultipleValues;
-    const players: any[] = [];
+    let players: SignerWithAddress[];
 
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      players.push(addr1, addr2, addr3);
+      players = [addr1, addr2, addr3];
 
       // Store stats for multiple players
       for (const player of players) {
-        const scoreHandle = ethers.toBeHex("0x1000", 32);
-        const levelHandle = ethers.toBeHex("0x0050", 16);
-        const achievementsHandle = ethers.toBeHex("0x0A", 8);
-        const mockProof = ethers.toBeHex("0xdeadbeef");
-
-        await gameContract.connect(player).storeStats(
-          scoreHandle,
-          mockProof,
-          levelHandle,
-          mockProof,
-          achievementsHandle,
-          mockProof
-        );
+        await (await storeStats(gameContract, player)).wait();
       }
 
       // End game
@@ -382,213 +297,125 @@ describe("PublicDecryptMultipleValues", function () {
     });
 
     it("Should batch reveal multiple players", async function () {
-      const playerAddresses = players.map((p) => p.address);
-
-      // Batch reveal should complete without error
-      await gameContract.batchReveal(playerAddresses);
+      await expect(gameContract.batchReveal(players.map((p) => p.address))).to.emit(
+        gameContract,
+        "StatsRevealRequested",
+      );
 
-      // Verify all were revealed
-      for (const address of playerAddresses) {
-        const hasRevealed = await gameContract.hasRevealed(address);
-        expect(hasRevealed).to.be.true;
+      // Every requested reveal can now be finalized
+      for (const player of players) {
+        await (await finalizeReveal(gameContract, player)).wait();
+        expect(await gameContract.hasRevealed(player.address)).to.be.true;
       }
     });
 
     it("Should prevent non-owner from batch reveal", async function () {
-      const playerAddresses = players.map((p) => p.address);
-
-      await expect(
-        gameContract.connect(addr1).batchReveal(playerAddresses)
-      ).to.be.revertedWith("Only owner");
+      await expect(gameContract.connect(addr1).batchReveal(players.map((p) => p.address))).to.be.revertedWith(
+        "Only owner",
+      );
     });
 
     it("Should prevent batch reveal before game ends", async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      const newContract = await PublicDecryptMultipleValues.deploy();
-      await newContract.waitForDeployment();
-
-      const scoreHandle = ethers.toBeHex("0x1000", 32);
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await newContract.connect(addr1).storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      const newContract = await deployGame();
+      await (await storeStats(newContract, addr1)).wait();
 
-      await expect(
-        newContract.batchReveal([addr1.address])
-      ).to.be.revertedWith("Game not ended");
+      await expect(newContract.batchReveal([addr1.address])).to.be.revertedWith("Game not ended");
     });
 
     it("Should handle empty player list", async function () {
-      await gameContract.batchReveal([]);
-      expect(true).to.be.true;
+      await expect(gameContract.batchReveal([])).to.not.emit(gameContract, "StatsRevealRequested");
     });
 
     it("Should handle single player batch", async function () {
-      await gameContract.batchReveal([addr1.address]);
+      await (await gameContract.batchReveal([addr1.address])).wait();
+      await (await finalizeReveal(gameContract, addr1)).wait();
 
-      const hasRevealed = await gameContract.hasRevealed(addr1.address);
-      expect(hasRevealed).to.be.true;
+      expect(await gameContract.hasRevealed(addr1.address)).to.be.true;
+      expect(await gameContract.hasRevealed(addr2.address)).to.be.false;
     });
 
     it("Should skip already revealed players", async function () {
       // Reveal addr1 manually
-      await gameContract.connect(addr1).revealStats();
+      await revealStats(gameContract, addr1);
 
       // Batch reveal including addr1 (should skip)
-      const playerAddresses = players.map((p) => p.address);
-      await gameContract.batchReveal(playerAddresses);
+      await expect(gameContract.batchReveal(players.map((p) => p.address)))
+        .to.emit(gameContract, "StatsRevealRequested")
+        .withArgs(addr2.address, ...(await gameContract.connect(addr2).getEncryptedStats()));
+
+      for (const player of [addr2, addr3]) {
+        await (await finalizeReveal(gameContract, player)).wait();
+      }
 
       // All should be revealed
-      for (const address of playerAddresses) {
-        const hasRevealed = await gameContract.hasRevealed(address);
-        expect(hasRevealed).to.be.true;
+      for (const player of players) {
+        expect(await gameContract.hasRevealed(player.address)).to.be.true;
       }
     });
   });
 
   describe("Tournament Leaderboard Pattern", function () {
-    let gameContract: PublicDecryptMultipleValues;
+    // Store different scores for players
+    const scores = [10000, 5000, 4000];
 
     beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-
-      // Store different scores for players
-      const players = [
-        { signer: addr1, score: 0x2710 }, // 10000
-        { signer: addr2, score: 0x1388 }, // 5000
-        { signer: addr3, score: 0x0FA0 }, // 4000
-      ];
-
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-      const levelHandle = ethers.toBeHex("0x0050", 16);
-      const achievementsHandle = ethers.toBeHex("0x0A", 8);
-
-      for (const player of players) {
-        const scoreHandle = ethers.toBeHex(player.score, 32);
-
-        await gameContract.connect(player.signer).storeStats(
-          scoreHandle,
-          mockProof,
-          levelHandle,
-          mockProof,
-          achievementsHandle,
-          mockProof
-        );
+      const players = [addr1, addr2, addr3];
+      for (let i = 0; i < players.length; i++) {
+        await (await storeStats(gameContract, players[i], { ...DEFAULT_STATS, score: scores[i] })).wait();
       }
 
       await gameContract.endGame();
     });
 
     it("Should support final leaderboard generation", async function () {
-      const playerAddresses = [addr1.address, addr2.address, addr3.address];
+      const players = [addr1, addr2, addr3];
 
       // Batch reveal all players
-      await gameContract.batchReveal(playerAddresses);
+      await (await gameContract.batchReveal(players.map((p) => p.address))).wait();
+      for (const player of players) {
+        await (await finalizeReveal(gameContract, player)).wait();
+      }
 
       // Verify leaderboard is ready
-      for (const address of playerAddresses) {
-        const hasRevealed = await gameContract.hasRevealed(address);
-        expect(hasRevealed).to.be.true;
-
-        const stats = await gameContract.getPublicStats(address);
-        expect(stats).to.be.an("array");
+      for (let i = 0; i < players.length; i++) {
+        expect(await gameContract.hasRevealed(players[i].address)).to.be.true;
+        expect((await publicStatsOf(gameContract, players[i])).score).to.equal(scores[i]);
       }
     });
   });
 
   describe("Edge Cases", function () {
-    let gameContract: PublicDecryptMultipleValues;
-
-    beforeEach(async function () {
-      const PublicDecryptMultipleValues = await ethers.getContractFactory(
-        "PublicDecryptMultipleValues"
-      );
-      gameContract = await PublicDecryptMultipleValues.deploy();
-      await gameContract.waitForDeployment();
-    });
-
     it("Should handle zero values in stats", async function () {
-      const scoreHandle = ethers.toBeHex("0x0000", 32);
-      const levelHandle = ethers.toBeHex("0x0000", 16);
-      const achievementsHandle = ethers.toBeHex("0x00", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      const zero: Stats = { score: 0, level: 0, achievements: 0 };
+      await (await storeStats(gameContract, owner, zero)).wait();
 
       await gameContract.endGame();
-      await gameContract.revealStats();
+      await revealStats(gameContract, owner);
 
-      const stats = await gameContract.getPublicStats(owner.address);
-      expect(stats).to.be.an("array");
+      expect(await publicStatsOf(gameContract, owner)).to.deep.equal(zero);
     });
 
     it("Should handle maximum values in stats", async function () {
-      const scoreHandle = ethers.toBeHex("0xFFFFFFFF", 32);
-      const levelHandle = ethers.toBeHex("0xFFFF", 16);
-      const achievementsHandle = ethers.toBeHex("0xFF", 8);
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
-      await gameContract.storeStats(
-        scoreHandle,
-        mockProof,
-        levelHandle,
-        mockProof,
-        achievementsHandle,
-        mockProof
-      );
+      const max: Stats = { score: 0xffffffff, level: 0xffff, achievements: 0xff };
+      await (await storeStats(gameContract, owner, max)).wait();
 
       await gameContract.endGame();
-      await gameContract.revealStats();
+      await revealStats(gameContract, owner);
 
-      const stats = await gameContract.getPublicStats(owner.address);
-      expect(stats).to.be.an("array");
+      expect(await publicStatsOf(gameContract, owner)).to.deep.equal(max);
     });
 
     it("Should maintain multiple independent player records", async function () {
-      const mockProof = ethers.toBeHex("0xdeadbeef");
-
       // Store stats for multiple players
       for (const player of [addr1, addr2, addr3]) {
-        const scoreHandle = ethers.toBeHex("0x1000", 32);
-        const levelHandle = ethers.toBeHex("0x0050", 16);
-        const achievementsHandle = ethers.toBeHex("0x0A", 8);
-
-        await gameContract.connect(player).storeStats(
-          scoreHandle,
-          mockProof,
-          levelHandle,
-          mockProof,
-          achievementsHandle,
-          mockProof
-        );
+        await (await storeStats(gameContract, player)).wait();
       }
 
       await gameContract.endGame();
 
       // Reveal selectively
-      await gameContract.connect(addr1).revealStats();
-      await gameContract.connect(addr2).revealStats();
+      await revealStats(gameContract, addr1);
+      await revealStats(gameContract, addr2);
 
       // Only addr1 and addr2 are revealed
       expect(await gameContract.hasRevealed(addr1.address)).to.be.true;
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SimpleCounter } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Test Suite: SimpleCounter
+ *
+ * This test suite demonstrates:
+ * - A plaintext counter, the baseline FHECounter is compared with
+ * - Values readable by anyone, including from events
+ * - Owner-only reset and underflow protection
+ */
+describe("SimpleCounter", function () {
+  let contract: SimpleCounter;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("SimpleCounter");
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+  });
+
+  // ==================== Counting Tests ====================
+
+  describe("Counting", function () {
+    /**
+     * ✅ Test: Counter starts at zero
+     */
+    it("Should start at zero", async function () {
+      expect(await contract.getCount()).to.equal(0);
+    });
+
+    /**
+     * ✅ Test: Increments and decrements are applied in plaintext
+     */
+    it("Should increment and decrement", async function () {
+      await contract.connect(user1).increment(10);
+      await contract.connect(user1).decrement(3);
+
+      expect(await contract.getCount()).to.equal(7);
+    });
+
+    /**
+     * ✅ Test: The new value is exposed in the event, unlike FHECounter
+     */
+    it("Should expose the new value in events", async function () {
+      await expect(contract.connect(user1).increment(5))
+        .to.emit(contract, "CounterIncremented")
+        .withArgs(user1.address, 5, (timestamp: bigint) => timestamp > 0n);
+    });
+
+    /**
+     * ✅ Test: Threshold checks return a public boolean
+     */
+    it("Should compare against a threshold", async function () {
+      await contract.increment(100);
+
+      expect(await contract.isAboveThreshold(100)).to.be.true;
+      expect(await contract.isAboveThreshold(101)).to.be.false;
+    });
+
+    /**
+     * ❌ Test: Decrementing below zero reverts
+     */
+    it("Should reject underflow", async function () {
+      await contract.increment(2);
+
+      await expect(contract.decrement(3)).to.be.revertedWith("Counter: underflow");
+    });
+  });
+
+  // ==================== Reset Tests ====================
+
+  describe("Reset", function () {
+    /**
+     * ✅ Test: Owner resets the counter
+     */
+    it("Should let the owner reset", async function () {
+      await contract.increment(42);
+
+      await expect(contract.connect(owner).reset()).to.emit(contract, "CounterReset");
+      expect(await contract.getCount()).to.equal(0);
+    });
+
+    /**
+     * ❌ Test: Other accounts cannot reset
+     */
+    it("Should reject reset from non-owner", async function () {
+      await expect(contract.connect(user1).reset()).to.be.revertedWith("Only owner can reset");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { UserDecryptSingleValue } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Test Suite: UserDecryptSingleValue
+ *
+ * This test suite demonstrates:
+ * - Storing a secret only its owner can decrypt
+ * - Encrypted arithmetic on the stored secret
+ * - Encrypted comparisons that reveal nothing on-chain
+ */
+describe("UserDecryptSingleValue", function () {
+  let contract: UserDecryptSingleValue;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  /**
+   * Helper: Encrypt a plaintext value for the user with the hardhat FHEVM mock
+   */
+  async function encryptValue(user: SignerWithAddress, value: number) {
+    const contractAddress = await contract.getAddress();
+    return hre.fhevm.createEncryptedInput(contractAddress, user.address).add32(value).encrypt();
+  }
+
+  /**
+   * Helper: Encrypt and store a secret for the user
+   */
+  async function storeSecret(user: SignerWithAddress, value: number) {
+    const input = await encryptValue(user, value);
+    const tx = await contract.connect(user).storeSecret(input.handles[0], input.inputProof);
+    await tx.wait();
+  }
+
+  /**
+   * Helper: User-decrypt the caller's secret
+   */
+  async function decryptMySecret(user: SignerWithAddress) {
+    const handle = await contract.connect(user).getMySecret.staticCall();
+    const clear = await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, await contract.getAddress(), user);
+    return Number(clear);
+  }
+
+  beforeEach(async function () {
+    [, user1, user2] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("UserDecryptSingleValue");
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+  });
+
+  // ==================== Decryption Tests ====================
+
+  describe("User Decryption", function () {
+    /**
+     * ✅ Test: The owner decrypts the stored secret
+     */
+    it("Should store a secret its owner can decrypt", async function () {
+      await storeSecret(user1, 1234);
+
+      expect(await contract.connect(user1).haveSecret()).to.be.true;
+      expect(await decryptMySecret(user1)).to.equal(1234);
+    });
+
+    /**
+     * ✅ Test: Encrypted additions update the secret
+     */
+    it("Should add to the secret without revealing it", async function () {
+      await storeSecret(user1, 100);
+      const input = await encryptValue(user1, 23);
+
+      await contract.connect(user1).addToSecret(input.handles[0], input.inputProof);
+
+      expect(await decryptMySecret(user1)).to.equal(123);
+    });
+
+    /**
+     * ❌ Test: Another account cannot decrypt the secret
+     */
+    it("Should keep the secret private from other accounts", async function () {
+      await storeSecret(user1, 1234);
+      const handle = await contract.connect(user1).getMySecret.staticCall();
+
+      let error: unknown;
+      try {
+        await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, await contract.getAddress(), user2);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(Error);
+    });
+  });
+
+  // ==================== Lifecycle Tests ====================
+
+  describe("Lifecycle", function () {
+    /**
+     * ✅ Test: Encrypted threshold check returns a handle
+     */
+    it("Should compare the secret with a threshold", async function () {
+      await storeSecret(user1, 50);
+
+      const result = await contract.connect(user1).isSecretAboveThreshold.staticCall(40);
+      expect(result).to.not.equal(ethers.ZeroHash);
+    });
+
+    /**
+     * ✅ Test: Deleted secrets can no longer be read
+     */
+    it("Should delete the secret", async function () {
+      await storeSecret(user1, 50);
+
+      await contract.connect(user1).deleteSecret();
+
+      expect(await contract.connect(user1).haveSecret()).to.be.false;
+      await expect(contract.connect(user1).getMySecret()).to.be.revertedWith("No secret stored");
+    });
+
+    /**
+     * ❌ Test: Operations without a secret revert
+     */
+    it("Should reject access before a secret is stored", async function () {
+      await expect(contract.connect(user2).getMySecret()).to.be.revertedWith("No secret stored");
+      await expect(contract.connect(user2).deleteSecret()).to.be.revertedWith("No secret stored");
+    });
+  });
+});